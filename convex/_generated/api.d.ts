@@ -8,22 +8,49 @@
  * @module
  */
 
+import type * as admin_auth from "../admin/auth.js";
+import type * as admin_export from "../admin/export.js";
+import type * as admin_mutations from "../admin/mutations.js";
+import type * as admin_queries from "../admin/queries.js";
+import type * as aggregates from "../aggregates.js";
 import type * as bitcoin_actions from "../bitcoin/actions.js";
 import type * as bitcoin_exchange from "../bitcoin/exchange.js";
+import type * as bitcoin_fees from "../bitcoin/fees.js";
+import type * as bitcoin_lightning from "../bitcoin/lightning.js";
 import type * as bitcoin_monitoring from "../bitcoin/monitoring.js";
 import type * as bitcoin_mutations from "../bitcoin/mutations.js";
+import type * as bitcoin_providers from "../bitcoin/providers.js";
+import type * as bitcoin_quorum from "../bitcoin/quorum.js";
 import type * as bitcoin_types from "../bitcoin/types.js";
+import type * as campaigns from "../campaigns.js";
 import type * as crons from "../crons.js";
+import type * as currency from "../currency.js";
 import type * as donation from "../donation.js";
+import type * as donors from "../donors.js";
+import type * as fees from "../fees.js";
 import type * as http from "../http.js";
+import type * as moderation from "../moderation.js";
 import type * as paypal_actions from "../paypal/actions.js";
+import type * as paypal_capture from "../paypal/capture.js";
+import type * as paypal_donations from "../paypal/donations.js";
 import type * as paypal_mutations from "../paypal/mutations.js";
 import type * as paypal_queries from "../paypal/queries.js";
 import type * as paypal_types from "../paypal/types.js";
 import type * as paypal_webhooks from "../paypal/webhooks.js";
+import type * as receipts_actions from "../receipts/actions.js";
+import type * as receipts_mutations from "../receipts/mutations.js";
+import type * as reconciliation_actions from "../reconciliation/actions.js";
+import type * as reconciliation_fees from "../reconciliation/fees.js";
+import type * as reconciliation_mutations from "../reconciliation/mutations.js";
+import type * as statements_actions from "../statements/actions.js";
+import type * as statements_mutations from "../statements/mutations.js";
 import type * as stripe_actions from "../stripe/actions.js";
+import type * as stripe_mutations from "../stripe/mutations.js";
+import type * as stripe_queries from "../stripe/queries.js";
 import type * as stripe_webhooks from "../stripe/webhooks.js";
 import type * as types from "../types.js";
+import type * as webhooks_actions from "../webhooks/actions.js";
+import type * as webhooks_mutations from "../webhooks/mutations.js";
 
 import type {
   ApiFromModules,
@@ -40,22 +67,49 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  "admin/auth": typeof admin_auth;
+  "admin/export": typeof admin_export;
+  "admin/mutations": typeof admin_mutations;
+  "admin/queries": typeof admin_queries;
+  aggregates: typeof aggregates;
   "bitcoin/actions": typeof bitcoin_actions;
   "bitcoin/exchange": typeof bitcoin_exchange;
+  "bitcoin/fees": typeof bitcoin_fees;
+  "bitcoin/lightning": typeof bitcoin_lightning;
   "bitcoin/monitoring": typeof bitcoin_monitoring;
   "bitcoin/mutations": typeof bitcoin_mutations;
+  "bitcoin/providers": typeof bitcoin_providers;
+  "bitcoin/quorum": typeof bitcoin_quorum;
   "bitcoin/types": typeof bitcoin_types;
+  campaigns: typeof campaigns;
   crons: typeof crons;
+  currency: typeof currency;
   donation: typeof donation;
+  donors: typeof donors;
+  fees: typeof fees;
   http: typeof http;
+  moderation: typeof moderation;
   "paypal/actions": typeof paypal_actions;
+  "paypal/capture": typeof paypal_capture;
+  "paypal/donations": typeof paypal_donations;
   "paypal/mutations": typeof paypal_mutations;
   "paypal/queries": typeof paypal_queries;
   "paypal/types": typeof paypal_types;
   "paypal/webhooks": typeof paypal_webhooks;
+  "receipts/actions": typeof receipts_actions;
+  "receipts/mutations": typeof receipts_mutations;
+  "reconciliation/actions": typeof reconciliation_actions;
+  "reconciliation/fees": typeof reconciliation_fees;
+  "reconciliation/mutations": typeof reconciliation_mutations;
+  "statements/actions": typeof statements_actions;
+  "statements/mutations": typeof statements_mutations;
   "stripe/actions": typeof stripe_actions;
+  "stripe/mutations": typeof stripe_mutations;
+  "stripe/queries": typeof stripe_queries;
   "stripe/webhooks": typeof stripe_webhooks;
   types: typeof types;
+  "webhooks/actions": typeof webhooks_actions;
+  "webhooks/mutations": typeof webhooks_mutations;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -0,0 +1,33 @@
+// This checks the admin token sent with every admin dashboard request.
+// The token is a shared secret set with `npx convex env set ADMIN_TOKEN ...`.
+
+import { env } from '@/env.ts'
+
+// Compare every character so response time doesn't reveal how much of the token matched
+function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false
+	}
+
+	let mismatch = 0
+	for (let i = 0; i < a.length; i++) {
+		mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+	}
+	return mismatch === 0
+}
+
+export function isAdminToken(token: string): boolean {
+	const adminToken = env.ADMIN_TOKEN
+	// Admin is disabled entirely when no token is configured
+	if (!adminToken) {
+		return false
+	}
+	return timingSafeEqual(token, adminToken)
+}
+
+// Throw before any admin query reads data
+export function requireAdmin(token: string): void {
+	if (!isAdminToken(token)) {
+		throw new Error('Unauthorized')
+	}
+}
@@ -0,0 +1,170 @@
+// This builds the donations export used by the /admin/export HTTP endpoint (CSV or JSON).
+// Donations are read one page at a time, so large tables stream out without hitting query limits.
+
+import { v } from 'convex/values'
+import { internal } from '../_generated/api'
+import type { Doc } from '../_generated/dataModel'
+import { type ActionCtx, internalQuery } from '../_generated/server'
+import { paymentMethodValidator } from '../schema.ts'
+import { defaultCurrency, type PaymentMethod } from '../types.ts'
+
+const exportPageSize = 500
+
+export type ExportFormat = 'csv' | 'json'
+
+export type ExportFilters = {
+	readonly from: number | undefined // Inclusive, ms since epoch
+	readonly to: number | undefined // Exclusive
+	readonly payment_method: PaymentMethod | undefined
+}
+
+// Column order for CSV - JSON rows use the same keys
+const exportColumns = [
+	'created_at',
+	'payment_id',
+	'payment_method',
+	'status',
+	'amount',
+	'currency',
+	'original_amount',
+	'original_currency',
+	'refunded_amount',
+	'fee_covered',
+	'fee_amount',
+	'net_amount',
+	'display_name',
+	'campaign_id',
+	'subscription_id',
+	'txid',
+	'btc_exchange_rate',
+	'lightning',
+] as const
+
+type ExportRow = Record<(typeof exportColumns)[number], string | number | null>
+
+// Spreadsheet apps run cells starting with these as formulas
+const formulaPrefixPattern = /^[=+\-@\t\r]/
+const csvQuotePattern = /[",\r\n]/
+const doubleQuotePattern = /"/g
+
+export const listDonationsPage = internalQuery({
+	args: {
+		cursor: v.union(v.string(), v.null()),
+		from: v.optional(v.number()),
+		to: v.optional(v.number()),
+		payment_method: v.optional(paymentMethodValidator),
+	},
+	handler: async (ctx, { cursor, from, to, payment_method }) => {
+		const query = payment_method
+			? ctx.db.query('donations').withIndex('by_payment_method', (q) => {
+					const byMethod = q.eq('payment_method', payment_method)
+					const afterFrom =
+						from === undefined ? byMethod : byMethod.gte('_creationTime', from)
+					return to === undefined
+						? afterFrom
+						: afterFrom.lt('_creationTime', to)
+				})
+			: ctx.db.query('donations').withIndex('by_creation_time', (q) => {
+					const afterFrom =
+						from === undefined ? q : q.gte('_creationTime', from)
+					return to === undefined
+						? afterFrom
+						: afterFrom.lt('_creationTime', to)
+				})
+
+		return await query.paginate({ numItems: exportPageSize, cursor })
+	},
+})
+
+function toExportRow(donation: Doc<'donations'>): ExportRow {
+	return {
+		created_at: new Date(donation._creationTime).toISOString(),
+		payment_id: donation.payment_id,
+		payment_method: donation.payment_method,
+		status: donation.status ?? 'active',
+		amount: donation.amount,
+		currency: donation.currency ?? defaultCurrency,
+		original_amount: donation.original_amount ?? donation.amount,
+		original_currency:
+			donation.original_currency ?? donation.currency ?? defaultCurrency,
+		refunded_amount: donation.refunded_amount ?? null,
+		fee_covered: donation.fee_covered ?? null,
+		fee_amount: donation.fee_amount ?? null,
+		net_amount: donation.net_amount ?? null,
+		display_name: donation.display_name,
+		campaign_id: donation.campaign_id ?? null,
+		subscription_id: donation.subscription_id ?? null,
+		txid: donation.txid ?? null,
+		btc_exchange_rate: donation.btc_exchange_rate ?? null,
+		lightning: donation.lightning ? 'true' : null,
+	}
+}
+
+function toCsvCell(value: string | number | null): string {
+	if (value === null) {
+		return ''
+	}
+	if (typeof value === 'number') {
+		return String(value)
+	}
+	const safe = formulaPrefixPattern.test(value) ? `'${value}` : value
+	return csvQuotePattern.test(safe)
+		? `"${safe.replace(doubleQuotePattern, '""')}"`
+		: safe
+}
+
+function toCsvLine(row: ExportRow): string {
+	return `${exportColumns.map((column) => toCsvCell(row[column])).join(',')}\r\n`
+}
+
+// Streams every matching donation, oldest first, fetching the next page only
+// when the client has read the previous one
+export function streamDonationExport(
+	ctx: ActionCtx,
+	format: ExportFormat,
+	filters: ExportFilters
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder()
+	let cursor: string | null = null
+	let rowCount = 0
+
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(
+				encoder.encode(
+					format === 'csv' ? `${exportColumns.join(',')}\r\n` : '['
+				)
+			)
+		},
+		async pull(controller) {
+			const result = await ctx.runQuery(
+				internal.admin.export.listDonationsPage,
+				{ cursor, ...filters }
+			)
+
+			const chunk = result.page
+				.map((donation) => {
+					const row = toExportRow(donation)
+					if (format === 'csv') {
+						return toCsvLine(row)
+					}
+					const separator = rowCount === 0 ? '\n' : ',\n'
+					rowCount++
+					return `${separator}${JSON.stringify(row)}`
+				})
+				.join('')
+			if (chunk) {
+				controller.enqueue(encoder.encode(chunk))
+			}
+
+			if (result.isDone) {
+				if (format === 'json') {
+					controller.enqueue(encoder.encode('\n]\n'))
+				}
+				controller.close()
+				return
+			}
+			cursor = result.continueCursor
+		},
+	})
+}
@@ -0,0 +1,189 @@
+// This lets admins moderate donor messages, start year-end statement runs, work the reconciliation queue and review held Bitcoin payments.
+// Every mutation checks the admin token first, same as the admin queries.
+
+import { v } from 'convex/values'
+import { env } from '@/env.ts'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import { mutation } from '../_generated/server'
+import { validateMessage } from '../types.ts'
+import { requireAdmin } from './auth.ts'
+
+export const approveMessage = mutation({
+	args: {
+		admin_token: v.string(),
+		donation_id: v.id('donations'),
+	},
+	handler: async (ctx, { admin_token, donation_id }) => {
+		requireAdmin(admin_token)
+
+		const donation = await ctx.db.get(donation_id)
+		if (!donation?.message) {
+			throw new Error('Donation has no message to review')
+		}
+
+		await ctx.db.patch(donation_id, {
+			message_status: 'approved',
+			message_reviewed_at: Date.now(),
+		})
+		logger.audit('message_approved', { donation_id })
+	},
+})
+
+export const rejectMessage = mutation({
+	args: {
+		admin_token: v.string(),
+		donation_id: v.id('donations'),
+	},
+	handler: async (ctx, { admin_token, donation_id }) => {
+		requireAdmin(admin_token)
+
+		const donation = await ctx.db.get(donation_id)
+		if (!donation?.message) {
+			throw new Error('Donation has no message to review')
+		}
+
+		// The text is kept so a rejection can be reversed later
+		await ctx.db.patch(donation_id, {
+			message_status: 'rejected',
+			message_reviewed_at: Date.now(),
+		})
+		logger.audit('message_rejected', { donation_id })
+	},
+})
+
+// Replace a message's text (e.g. to remove a link) and approve the edited version
+export const editMessage = mutation({
+	args: {
+		admin_token: v.string(),
+		donation_id: v.id('donations'),
+		message: v.string(),
+	},
+	handler: async (ctx, { admin_token, donation_id, message }) => {
+		requireAdmin(admin_token)
+
+		const trimmed = message.trim()
+		if (!trimmed) {
+			throw new Error('Message cannot be empty - reject it instead')
+		}
+		validateMessage(trimmed)
+
+		const donation = await ctx.db.get(donation_id)
+		if (!donation?.message) {
+			throw new Error('Donation has no message to review')
+		}
+
+		await ctx.db.patch(donation_id, {
+			message: trimmed,
+			message_status: 'approved',
+			message_reviewed_at: Date.now(),
+		})
+		logger.audit('message_edited', { donation_id })
+	},
+})
+
+const firstStatementYear = 2000
+
+// Generate (and optionally email) a statement for every donor who gave during `year`
+// Runs in the background in batches - the statements page fills in as they finish
+export const generateTaxStatements = mutation({
+	args: {
+		admin_token: v.string(),
+		year: v.number(),
+		send_email: v.boolean(),
+	},
+	handler: async (ctx, { admin_token, year, send_email }) => {
+		requireAdmin(admin_token)
+
+		const currentYear = new Date().getUTCFullYear()
+		if (
+			!Number.isInteger(year) ||
+			year < firstStatementYear ||
+			year > currentYear
+		) {
+			throw new Error(
+				`Year must be between ${firstStatementYear} and ${currentYear}`
+			)
+		}
+		if (send_email && !env.EMAIL_TRANSPORT) {
+			throw new Error('Email is not configured - set EMAIL_TRANSPORT first')
+		}
+
+		await ctx.scheduler.runAfter(
+			0,
+			internal.statements.actions.processStatementBatch,
+			{ year, send_email }
+		)
+		logger.audit('tax_statements_requested', { year, send_email })
+	},
+})
+
+// Close a reconciliation discrepancy that needs no action (e.g. a test payment)
+export const dismissDiscrepancy = mutation({
+	args: {
+		admin_token: v.string(),
+		discrepancy_id: v.id('reconciliation_discrepancies'),
+	},
+	handler: async (ctx, { admin_token, discrepancy_id }) => {
+		requireAdmin(admin_token)
+
+		const discrepancy = await ctx.db.get(discrepancy_id)
+		if (discrepancy?.status !== 'open') {
+			throw new Error('Only open discrepancies can be dismissed')
+		}
+
+		await ctx.db.patch(discrepancy_id, {
+			status: 'dismissed',
+			resolved_at: Date.now(),
+		})
+		logger.audit('discrepancy_dismissed', { discrepancy_id })
+	},
+})
+
+// Reject a Bitcoin payment the providers disagreed about - the held payment
+// expires without a donation
+export const dismissBitcoinDiscrepancy = mutation({
+	args: {
+		admin_token: v.string(),
+		discrepancy_id: v.id('bitcoin_discrepancies'),
+	},
+	handler: async (ctx, { admin_token, discrepancy_id }) => {
+		requireAdmin(admin_token)
+
+		const discrepancy = await ctx.db.get(discrepancy_id)
+		if (discrepancy?.status !== 'open') {
+			throw new Error('Only open discrepancies can be dismissed')
+		}
+
+		const payment = await ctx.db
+			.query('pending_bitcoin_payments')
+			.withIndex('by_address', (q) => q.eq('address', discrepancy.address))
+			.first()
+		if (payment?.status === 'held') {
+			await ctx.db.patch(payment._id, { status: 'expired' })
+		}
+
+		await ctx.db.patch(discrepancy_id, {
+			status: 'dismissed',
+			resolved_at: Date.now(),
+		})
+		logger.audit('bitcoin_discrepancy_dismissed', { discrepancy_id })
+	},
+})
+
+// Run the reconciliation job now instead of waiting for the cron
+export const runReconciliation = mutation({
+	args: {
+		admin_token: v.string(),
+	},
+	handler: async (ctx, { admin_token }) => {
+		requireAdmin(admin_token)
+
+		await ctx.scheduler.runAfter(
+			0,
+			internal.reconciliation.actions.reconcilePayments,
+			{}
+		)
+		logger.audit('reconciliation_requested')
+	},
+})
@@ -0,0 +1,337 @@
+// This reads donations and pending Bitcoin payments for the /admin dashboard.
+// Every query checks the admin token first, since these return full internal records.
+
+import { type Expression, paginationOptsValidator } from 'convex/server'
+import { v } from 'convex/values'
+import { type QueryCtx, query } from '../_generated/server'
+import { getAggregate } from '../aggregates.ts'
+import {
+	bitcoinDiscrepancy,
+	discrepancyStatusValidator,
+	donationStatusValidator,
+	messageStatusValidator,
+	paymentMethodValidator,
+} from '../schema.ts'
+import {
+	type Currency,
+	defaultCurrency,
+	type InternalDonation,
+} from '../types.ts'
+import { isAdminToken, requireAdmin } from './auth.ts'
+
+const pendingPaymentLimit = 200
+const statementLimit = 500
+const discrepancyLimit = 200
+
+// Used by the login form to check a token before storing it
+// Returns false instead of throwing so a wrong token isn't an error
+export const checkAccess = query({
+	args: {
+		admin_token: v.string(),
+	},
+	handler: (_ctx, { admin_token }) => {
+		return isAdminToken(admin_token)
+	},
+})
+
+// Campaigns for the dashboard's campaign filter
+export const listCampaigns = query({
+	args: {
+		admin_token: v.string(),
+	},
+	handler: async (ctx, { admin_token }) => {
+		requireAdmin(admin_token)
+
+		const campaigns = await ctx.db.query('campaigns').collect()
+		return campaigns.map((campaign) => ({
+			id: campaign._id,
+			slug: campaign.slug,
+			title: campaign.title,
+		}))
+	},
+})
+
+// Search and filter donations, newest first
+// search matches an exact payment ID (session/capture/invoice ID or Bitcoin
+// address) or words in the display name
+export const listDonations = query({
+	args: {
+		admin_token: v.string(),
+		paginationOpts: paginationOptsValidator,
+		search: v.optional(v.string()),
+		campaign_id: v.optional(v.id('campaigns')),
+		payment_method: v.optional(paymentMethodValidator),
+		status: v.optional(donationStatusValidator),
+	},
+	handler: async (ctx, args) => {
+		requireAdmin(args.admin_token)
+
+		const search = args.search?.trim()
+
+		// Payment IDs are unique, so an exact match is the whole result
+		if (search) {
+			const byPaymentId = await ctx.db
+				.query('donations')
+				.withIndex('by_payment_id', (q) => q.eq('payment_id', search))
+				.first()
+
+			if (byPaymentId) {
+				const page: InternalDonation[] = [byPaymentId]
+				return { page, isDone: true, continueCursor: '' }
+			}
+		}
+
+		const baseQuery = search
+			? ctx.db
+					.query('donations')
+					.withSearchIndex('search_display_name', (q) =>
+						args.campaign_id
+							? q
+									.search('display_name', search)
+									.eq('campaign_id', args.campaign_id)
+							: q.search('display_name', search)
+					)
+			: args.campaign_id
+				? ctx.db
+						.query('donations')
+						.withIndex('by_campaign', (q) =>
+							q.eq('campaign_id', args.campaign_id)
+						)
+						.order('desc')
+				: ctx.db.query('donations').order('desc')
+
+		const result = await baseQuery
+			.filter((q) => {
+				const conditions: Expression<boolean>[] = []
+				if (args.payment_method) {
+					conditions.push(q.eq(q.field('payment_method'), args.payment_method))
+				}
+				if (args.status === 'active') {
+					// Rows created before refunds were tracked have no status
+					conditions.push(
+						q.or(
+							q.eq(q.field('status'), 'active'),
+							q.eq(q.field('status'), undefined)
+						)
+					)
+				} else if (args.status) {
+					conditions.push(q.eq(q.field('status'), args.status))
+				}
+				return conditions.length > 0 ? q.and(...conditions) : true
+			})
+			.paginate(args.paginationOpts)
+
+		const page: InternalDonation[] = result.page
+		return { ...result, page }
+	},
+})
+
+// Donor messages waiting for (or past) review, oldest first so the queue
+// is worked in the order donations arrived
+export const listMessageQueue = query({
+	args: {
+		admin_token: v.string(),
+		paginationOpts: paginationOptsValidator,
+		message_status: messageStatusValidator,
+	},
+	handler: async (ctx, { admin_token, paginationOpts, message_status }) => {
+		requireAdmin(admin_token)
+
+		const result = await ctx.db
+			.query('donations')
+			.withIndex('by_message_status', (q) =>
+				q.eq('message_status', message_status)
+			)
+			.order(message_status === 'pending_review' ? 'asc' : 'desc')
+			.paginate(paginationOpts)
+
+		const page: InternalDonation[] = result.page
+		return { ...result, page }
+	},
+})
+
+async function getAggregatesForDashboard(
+	ctx: QueryCtx,
+	campaign_id: InternalDonation['campaign_id']
+) {
+	if (campaign_id) {
+		const aggregate = await getAggregate(ctx, campaign_id)
+		return aggregate ? [aggregate] : []
+	}
+	// All campaigns - one row per campaign, so this stays small
+	return await ctx.db.query('donation_aggregates').collect()
+}
+
+// Gross and net (after processing fees) totals per payment method, active donations only
+// Omit campaign_id to total across every campaign
+export const getMethodTotals = query({
+	args: {
+		admin_token: v.string(),
+		campaign_id: v.optional(v.id('campaigns')),
+	},
+	handler: async (ctx, { admin_token, campaign_id }) => {
+		requireAdmin(admin_token)
+
+		const aggregates = await getAggregatesForDashboard(ctx, campaign_id)
+
+		// Each aggregate is in its campaign's currency - across campaigns the
+		// sum is only meaningful when they all share one (null when mixed)
+		const currencies = new Set<Currency>()
+		for (const aggregate of aggregates) {
+			const campaign = aggregate.campaign_id
+				? await ctx.db.get(aggregate.campaign_id)
+				: null
+			currencies.add(campaign?.currency ?? defaultCurrency)
+		}
+		const [currency = defaultCurrency, ...otherCurrencies] = currencies
+
+		const totals = aggregates.reduce(
+			(totals, aggregate) => {
+				// Aggregates created before fees were tracked have no fees subtracted
+				const netTotals = aggregate.method_net_totals ?? aggregate.method_totals
+				return {
+					total: totals.total + aggregate.total,
+					count: totals.count + aggregate.count,
+					stripe: totals.stripe + aggregate.method_totals.stripe,
+					paypal: totals.paypal + aggregate.method_totals.paypal,
+					bitcoin: totals.bitcoin + aggregate.method_totals.bitcoin,
+					net: {
+						total: totals.net.total + (aggregate.net_total ?? aggregate.total),
+						stripe: totals.net.stripe + netTotals.stripe,
+						paypal: totals.net.paypal + netTotals.paypal,
+						bitcoin: totals.net.bitcoin + netTotals.bitcoin,
+					},
+				}
+			},
+			{
+				total: 0,
+				count: 0,
+				stripe: 0,
+				paypal: 0,
+				bitcoin: 0,
+				net: { total: 0, stripe: 0, paypal: 0, bitcoin: 0 },
+			}
+		)
+		return {
+			...totals,
+			currency: otherCurrencies.length === 0 ? currency : null,
+		}
+	},
+})
+
+// Pending Bitcoin payments, newest first
+// Confirmed rows are deleted by the hourly cleanup cron, so this is mostly
+// initialized/pending (in flight) and expired (kept 7 days for auditing)
+export const listPendingBitcoinPayments = query({
+	args: {
+		admin_token: v.string(),
+		status: v.optional(
+			v.union(
+				v.literal('initialized'),
+				v.literal('pending'),
+				v.literal('confirmed'),
+				v.literal('expired'),
+				v.literal('held'),
+				v.literal('rejected')
+			)
+		),
+	},
+	handler: async (ctx, { admin_token, status }) => {
+		requireAdmin(admin_token)
+
+		const payments = status
+			? await ctx.db
+					.query('pending_bitcoin_payments')
+					.withIndex('by_status', (q) => q.eq('status', status))
+					.order('desc')
+					.take(pendingPaymentLimit)
+			: await ctx.db
+					.query('pending_bitcoin_payments')
+					.order('desc')
+					.take(pendingPaymentLimit)
+
+		return payments.map((payment) => ({
+			id: payment._id,
+			address: payment.address,
+			campaign_id: payment.campaign_id,
+			status: payment.status,
+			txid: payment.txid,
+			derivation_index: payment.derivation_index,
+			expected_amount_btc: payment.expected_amount_btc,
+			expected_amount_usd: payment.expected_amount_usd,
+			received_amount_btc: payment.received_amount_btc,
+			exchange_rate: payment.exchange_rate,
+			created_at: payment.created_at,
+			detected_at: payment.detected_at,
+			expires_at: payment.expires_at,
+		}))
+	},
+})
+
+// Generated statements for a year, with links to the stored HTML and PDF
+export const listTaxStatements = query({
+	args: {
+		admin_token: v.string(),
+		year: v.number(),
+	},
+	handler: async (ctx, { admin_token, year }) => {
+		requireAdmin(admin_token)
+
+		const statements = await ctx.db
+			.query('tax_statements')
+			.withIndex('by_year_and_donor', (q) => q.eq('year', year))
+			.take(statementLimit)
+
+		return await Promise.all(
+			statements.map(async (statement) => {
+				const donor = await ctx.db.get(statement.donor_id)
+				return {
+					id: statement._id,
+					donor_email: donor?.email ?? null,
+					donor_name: donor?.name ?? null,
+					donation_count: statement.donation_count,
+					totals: statement.totals,
+					generated_at: statement.generated_at,
+					emailed_at: statement.emailed_at,
+					email_error: statement.email_error,
+					html_url: await ctx.storage.getUrl(statement.html_storage_id),
+					pdf_url: await ctx.storage.getUrl(statement.pdf_storage_id),
+				}
+			})
+		)
+	},
+})
+
+// Reconciliation discrepancies, most recently seen first
+export const listDiscrepancies = query({
+	args: {
+		admin_token: v.string(),
+		status: discrepancyStatusValidator,
+	},
+	handler: async (ctx, { admin_token, status }) => {
+		requireAdmin(admin_token)
+
+		return await ctx.db
+			.query('reconciliation_discrepancies')
+			.withIndex('by_status', (q) => q.eq('status', status))
+			.order('desc')
+			.take(discrepancyLimit)
+	},
+})
+
+// Bitcoin payments the blockchain providers disagreed about, newest first
+export const listBitcoinDiscrepancies = query({
+	args: {
+		admin_token: v.string(),
+		status: bitcoinDiscrepancy.fields.status,
+	},
+	handler: async (ctx, { admin_token, status }) => {
+		requireAdmin(admin_token)
+
+		return await ctx.db
+			.query('bitcoin_discrepancies')
+			.withIndex('by_status', (q) => q.eq('status', status))
+			.order('desc')
+			.take(discrepancyLimit)
+	},
+})
@@ -0,0 +1,255 @@
+// This keeps running donation totals for each campaign so pages never re-read every donation.
+// Donation inserts and refunds update the totals in the same transaction.
+
+import { v } from 'convex/values'
+import { selectTierByAmountRange } from '@/utils/tier-selector.tsx'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import {
+	internalMutation,
+	type MutationCtx,
+	type QueryCtx,
+} from './_generated/server'
+import { isActiveDonation } from './types.ts'
+
+const recomputeBatchSize = 500
+
+const emptyTotals = {
+	total: 0,
+	count: 0,
+	method_totals: { stripe: 0, paypal: 0, bitcoin: 0 },
+	tier_counts: {},
+	net_total: 0,
+	method_net_totals: { stripe: 0, paypal: 0, bitcoin: 0 },
+}
+
+// Stored totals for a campaign - null until its first donation
+export async function getAggregate(
+	ctx: QueryCtx,
+	campaign_id: Id<'campaigns'> | undefined
+): Promise<Doc<'donation_aggregates'> | null> {
+	return await ctx.db
+		.query('donation_aggregates')
+		.withIndex('by_campaign', (q) => q.eq('campaign_id', campaign_id))
+		.first()
+}
+
+async function getOrCreateAggregate(
+	ctx: MutationCtx,
+	campaign_id: Id<'campaigns'> | undefined
+): Promise<Doc<'donation_aggregates'>> {
+	const existing = await getAggregate(ctx, campaign_id)
+	if (existing) {
+		return existing
+	}
+
+	const aggregateId = await ctx.db.insert('donation_aggregates', {
+		campaign_id,
+		...emptyTotals,
+	})
+	const created = await ctx.db.get(aggregateId)
+	if (!created) {
+		throw new Error('Failed to create donation aggregate')
+	}
+	return created
+}
+
+// While a recompute is running, donations it has not reached yet are not in
+// the totals - adjusting them now would be counted a second time
+function isCountedInAggregate(
+	aggregate: Doc<'donation_aggregates'>,
+	donation: Doc<'donations'>
+): boolean {
+	if (aggregate.recompute_started_at === undefined) {
+		return true
+	}
+	return (
+		donation._creationTime >= aggregate.recompute_started_at ||
+		donation._creationTime <= (aggregate.recomputed_through ?? -1)
+	)
+}
+
+// What the campaign keeps from a donation - gross until a fee is known
+export function getNetAmount(donation: Doc<'donations'>): number {
+	return donation.net_amount ?? donation.amount
+}
+
+// Aggregates created before fees were tracked had no fees to subtract
+function getNetTotals(
+	aggregate: Pick<
+		Doc<'donation_aggregates'>,
+		'total' | 'method_totals' | 'net_total' | 'method_net_totals'
+	>
+) {
+	return {
+		net_total: aggregate.net_total ?? aggregate.total,
+		method_net_totals: aggregate.method_net_totals ?? aggregate.method_totals,
+	}
+}
+
+function applyNetToTotals(
+	aggregate: Pick<
+		Doc<'donation_aggregates'>,
+		'total' | 'method_totals' | 'net_total' | 'method_net_totals'
+	>,
+	method: Doc<'donations'>['payment_method'],
+	delta: number
+) {
+	const { net_total, method_net_totals } = getNetTotals(aggregate)
+	return {
+		net_total: net_total + delta,
+		method_net_totals: {
+			...method_net_totals,
+			[method]: method_net_totals[method] + delta,
+		},
+	}
+}
+
+function applyToTotals(
+	aggregate: Pick<
+		Doc<'donation_aggregates'>,
+		| 'total'
+		| 'count'
+		| 'method_totals'
+		| 'tier_counts'
+		| 'net_total'
+		| 'method_net_totals'
+	>,
+	donation: Doc<'donations'>,
+	direction: 1 | -1
+) {
+	const tier = selectTierByAmountRange(donation.amount)
+	const method = donation.payment_method
+
+	return {
+		...applyNetToTotals(aggregate, method, direction * getNetAmount(donation)),
+		total: aggregate.total + direction * donation.amount,
+		count: aggregate.count + direction,
+		method_totals: {
+			...aggregate.method_totals,
+			[method]: aggregate.method_totals[method] + direction * donation.amount,
+		},
+		tier_counts: {
+			...aggregate.tier_counts,
+			[tier]: (aggregate.tier_counts[tier] ?? 0) + direction,
+		},
+	}
+}
+
+// Add a donation to its campaign's totals when it becomes active
+// Call from every mutation that inserts an active donation or settles a pending one
+export async function addDonationToAggregate(
+	ctx: MutationCtx,
+	donation: Doc<'donations'>
+): Promise<void> {
+	const aggregate = await getOrCreateAggregate(ctx, donation.campaign_id)
+	if (!isCountedInAggregate(aggregate, donation)) {
+		return
+	}
+	await ctx.db.patch(aggregate._id, applyToTotals(aggregate, donation, 1))
+}
+
+// Take a donation back out of its campaign's totals when it stops being
+// active (refunded or disputed)
+export async function removeDonationFromAggregate(
+	ctx: MutationCtx,
+	donation: Doc<'donations'>
+): Promise<void> {
+	const aggregate = await getOrCreateAggregate(ctx, donation.campaign_id)
+	if (!isCountedInAggregate(aggregate, donation)) {
+		return
+	}
+	await ctx.db.patch(aggregate._id, applyToTotals(aggregate, donation, -1))
+}
+
+// Move an active donation's net amount in its campaign's totals when its
+// processing fee is recorded (call before patching the donation)
+export async function updateDonationNetInAggregate(
+	ctx: MutationCtx,
+	donation: Doc<'donations'>,
+	net_amount: number
+): Promise<void> {
+	if (!isActiveDonation(donation)) {
+		return
+	}
+	const aggregate = await getOrCreateAggregate(ctx, donation.campaign_id)
+	if (!isCountedInAggregate(aggregate, donation)) {
+		return
+	}
+	await ctx.db.patch(
+		aggregate._id,
+		applyNetToTotals(
+			aggregate,
+			donation.payment_method,
+			net_amount - getNetAmount(donation)
+		)
+	)
+}
+
+// Rebuild a campaign's totals from the donations table
+// Use after importing/editing donations by hand, or once to backfill
+// campaigns that had donations before aggregates existed, e.g.
+// npx convex run aggregates:recompute '{"campaign_id":"..."}'
+// Processes one batch per call and reschedules itself until done.
+// Donations created while it runs are added by donation.create as usual.
+export const recompute = internalMutation({
+	args: {
+		campaign_id: v.optional(v.id('campaigns')),
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, { campaign_id, cursor }) => {
+		let aggregate = await getOrCreateAggregate(ctx, campaign_id)
+
+		// First batch: reset totals and remember where the rebuild starts
+		if (cursor === undefined) {
+			const reset = {
+				...emptyTotals,
+				recompute_started_at: Date.now(),
+				recomputed_through: undefined,
+			}
+			await ctx.db.patch(aggregate._id, reset)
+			aggregate = { ...aggregate, ...reset }
+		}
+
+		const startedAt = aggregate.recompute_started_at ?? Date.now()
+		const result = await ctx.db
+			.query('donations')
+			.withIndex('by_campaign', (q) => q.eq('campaign_id', campaign_id))
+			.paginate({ numItems: recomputeBatchSize, cursor: cursor ?? null })
+
+		let totals = {
+			total: aggregate.total,
+			count: aggregate.count,
+			method_totals: aggregate.method_totals,
+			tier_counts: aggregate.tier_counts,
+			...getNetTotals(aggregate),
+		}
+		let recomputed_through = aggregate.recomputed_through
+		for (const donation of result.page) {
+			// Already added by donation.create after the rebuild started
+			if (donation._creationTime >= startedAt) {
+				continue
+			}
+			recomputed_through = donation._creationTime
+			if (isActiveDonation(donation)) {
+				totals = applyToTotals(totals, donation, 1)
+			}
+		}
+
+		if (result.isDone) {
+			await ctx.db.patch(aggregate._id, {
+				...totals,
+				recompute_started_at: undefined,
+				recomputed_through: undefined,
+			})
+		} else {
+			await ctx.db.patch(aggregate._id, { ...totals, recomputed_through })
+			await ctx.scheduler.runAfter(0, internal.aggregates.recompute, {
+				campaign_id,
+				cursor: result.continueCursor,
+			})
+		}
+
+		return { processedCount: result.page.length, isDone: result.isDone }
+	},
+})
@@ -11,10 +11,12 @@
 import { RateLimiter } from '@convex-dev/rate-limiter'
 import { api, components, internal } from 'convex/_generated/api'
 import { action } from 'convex/_generated/server'
+import { validateCoveredFee } from 'convex/fees.ts'
 import { paymentMetadataValidator } from 'convex/schema.ts'
 import {
-	getDisplayName,
+	validateCampaignOpen,
 	validateDonationAmount,
+	validateEmail,
 	validateMessage,
 	validatePlayerName,
 } from 'convex/types.ts'
@@ -22,15 +24,23 @@ import { v } from 'convex/values'
 import { env } from '@/env.ts'
 import { deriveBip84Address } from '@/libs/bitcoin/bip84.ts'
 import { logger } from '@/utils/logger.ts'
+import { requireAdmin } from '../admin/auth.ts'
 import { getBtcPrice } from './exchange.ts'
-import { checkBlockchainPayment } from './monitoring.ts'
+import { getNetworkFeeUsd } from './fees.ts'
+import {
+	checkBlockchainPayment,
+	creditPendingPayment,
+	isAwaitingTopUp,
+	settleConfirmedPayment,
+} from './monitoring.ts'
+import { verifyPaymentQuorum } from './quorum.ts'
 import type {
 	CheckBitcoinPaymentResult,
 	GenerateBitcoinAddressResult,
 } from './types.ts'
 import {
 	bitcoinConfirmations,
-	btcAmountTolerance,
+	satoshiToBtc,
 	validateBitcoinAddress,
 } from './types.ts'
 
@@ -62,14 +72,26 @@ const rateLimiter = new RateLimiter(components.rateLimiter, {
 export const generateBitcoinAddress = action({
 	args: {
 		amount: v.number(),
+		campaign_id: v.id('campaigns'),
 		session_id: v.string(),
 		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()), // Opt-in - Bitcoin has no payer email
 	},
 	handler: async (
 		ctx,
-		{ amount, session_id, metadata }
+		{ amount, campaign_id, session_id, metadata, receipt_email }
 	): Promise<GenerateBitcoinAddressResult> => {
 		validateDonationAmount(amount)
+		validateEmail(receipt_email)
+		if (metadata?.fee_covered !== undefined) {
+			validateCoveredFee(
+				amount,
+				metadata.fee_covered,
+				'bitcoin',
+				'USD',
+				await getNetworkFeeUsd(ctx)
+			)
+		}
 		if (metadata?.player_name) {
 			validatePlayerName(metadata.player_name)
 		}
@@ -79,6 +101,15 @@ export const generateBitcoinAddress = action({
 
 		await rateLimiter.limit(ctx, 'generateAddress', { key: session_id })
 
+		const campaign = await ctx.runQuery(
+			internal.campaigns.getCampaignInternal,
+			{ campaign_id }
+		)
+		if (!campaign) {
+			throw new Error('Campaign not found')
+		}
+		validateCampaignOpen(campaign, Date.now())
+
 		try {
 			const btcPrice = await getBtcPrice(ctx)
 			const amount_btc = amount / btcPrice
@@ -115,12 +146,14 @@ export const generateBitcoinAddress = action({
 				internal.bitcoin.mutations.createPendingBitcoinPayment,
 				{
 					session_id,
+					campaign_id,
 					address,
 					expected_amount_btc: amount_btc,
 					expected_amount_usd: amount,
 					exchange_rate: btcPrice,
 					derivation_index,
 					metadata,
+					receipt_email,
 				}
 			)
 
@@ -175,18 +208,26 @@ export const getBtcExchangeRate = action({
 	},
 })
 
+// Get the USD network fee a donor adds when covering the fees
+// Cached for 5 minutes (see fees.ts), so it isn't rate limited
+export const getNetworkFeeEstimate = action({
+	args: {},
+	handler: async (ctx): Promise<number> => {
+		return await getNetworkFeeUsd(ctx)
+	},
+})
+
 // Check Bitcoin payment with validation and rate limiting
-// Client polls this until payment confirmed
+// Client polls this until payment confirmed - settles the payment the same way
+// as monitorSinglePayment, whichever of the two gets there first
 export const checkBitcoinPayment = action({
 	args: {
 		address: v.string(),
 		session_id: v.string(),
-		expected_btc_amount: v.optional(v.number()),
-		metadata: paymentMetadataValidator,
 	},
 	handler: async (
 		ctx,
-		{ address, session_id, expected_btc_amount, metadata }
+		{ address, session_id }
 	): Promise<CheckBitcoinPaymentResult> => {
 		try {
 			validateBitcoinAddress(address, env.BITCOIN_NETWORK)
@@ -201,93 +242,91 @@ export const checkBitcoinPayment = action({
 
 			await rateLimiter.limit(ctx, 'checkPayment', { key: session_id })
 
-			const result = await checkBlockchainPayment(address)
-
-			if (result.status === 'api_failed' || result.status === 'no_payment') {
-				return { paid: false }
+			const requiredConfirmations = bitcoinConfirmations[env.BITCOIN_NETWORK]
+			const pendingPayment = await ctx.runQuery(
+				internal.bitcoin.mutations.getPendingPaymentByAddressInternal,
+				{ address }
+			)
+			if (!pendingPayment) {
+				throw new Error('Address not found in pending payments')
 			}
 
-			if (result.status === 'pending') {
-				const requiredConfirmations = bitcoinConfirmations[env.BITCOIN_NETWORK]
+			// Providers disagreed or the payment fell short - nothing is credited
+			// until an admin reviews it
+			if (pendingPayment.status === 'held') {
 				return {
 					paid: true,
-					tx_hash: result.tx_hash,
-					confirmations: result.confirmations,
+					tx_hash: pendingPayment.txid,
+					amount_btc: pendingPayment.received_amount_btc,
+					confirmations: requiredConfirmations,
 					required_confirmations: requiredConfirmations,
-					amount_btc: result.amount_btc,
+					held: true,
 				}
 			}
 
-			const requiredConfirmations = bitcoinConfirmations[env.BITCOIN_NETWORK]
-			const hasEnoughConfirmations =
-				result.confirmations >= requiredConfirmations
-
-			if (!hasEnoughConfirmations) {
-				return {
-					paid: true,
-					tx_hash: result.tx_hash,
-					confirmations: result.confirmations,
-					required_confirmations: requiredConfirmations,
-					amount_btc: result.amount_btc,
-				}
+			// Underpayment rejected, or dismissed by an admin - the modal shows it
+			// from the payment status
+			if (
+				pendingPayment.status === 'rejected' ||
+				(pendingPayment.status === 'expired' && pendingPayment.txid)
+			) {
+				return { paid: false }
 			}
 
-			if (expected_btc_amount) {
-				const difference = Math.abs(result.amount_btc - expected_btc_amount)
-				if (difference > btcAmountTolerance) {
-					if (result.amount_btc < expected_btc_amount) {
-						throw new Error(
-							'Underpayment detected: payment amount does not match expected amount'
-						)
-					}
-					logger.info(
-						'Overpayment detected: received more than expected amount'
-					)
-				}
-			}
+			const result = await checkBlockchainPayment(ctx, address)
 
-			const btcPrice = await getBtcPrice(ctx)
-			const amount_usd = result.amount_btc * btcPrice
+			if (result.status === 'api_failed' || result.status === 'no_payment') {
+				return { paid: false }
+			}
 
-			validateDonationAmount(amount_usd)
+			// Record every output received so far (also moves the payment to 'pending')
+			await ctx.runMutation(internal.bitcoin.mutations.recordPaymentUtxos, {
+				address,
+				txid: result.tx_hash,
+				utxos: [...result.utxos],
+			})
 
-			const display_name = getDisplayName(metadata, 'Anonymous')
+			const detected = {
+				paid: true,
+				tx_hash: result.tx_hash,
+				confirmations: result.confirmations,
+				required_confirmations: requiredConfirmations,
+				amount_btc: result.amount_btc,
+			} as const
 
-			// Create donation atomically (handles deduplication internally)
-			const created = await ctx.runMutation(
-				internal.bitcoin.mutations.createDonationFromPayment,
-				{
-					address,
-					amount_usd,
-					display_name,
-					message: metadata?.message,
+			// Underpaid so far - the donor can send the rest until the payment window ends
+			if (isAwaitingTopUp(pendingPayment, result.amount_btc, Date.now())) {
+				return {
+					...detected,
+					remaining_btc: pendingPayment.expected_amount_btc - result.amount_btc,
 				}
-			)
+			}
 
-			if (created) {
-				logger.audit('donation_created', {
-					amount_usd,
-					payment_method: 'bitcoin',
-					confirmations: result.confirmations,
-				})
+			if (
+				result.status === 'pending' ||
+				result.confirmations < requiredConfirmations
+			) {
+				return detected
 			}
 
-			// Mark payment as confirmed
-			await ctx.runMutation(
-				internal.bitcoin.mutations.updatePendingPaymentStatus,
-				{
-					address,
-					status: 'confirmed',
-				}
-			)
+			// Still confirming until enough providers agree; held only on a disagreement
+			const quorum = await verifyPaymentQuorum(ctx, address, result)
+			if (quorum === 'waiting') {
+				return { ...detected, verifying: true }
+			}
+			if (quorum === 'held') {
+				return { ...detected, held: true }
+			}
 
-			return {
-				paid: true,
-				tx_hash: result.tx_hash,
-				amount_btc: result.amount_btc,
-				confirmations: result.confirmations,
-				required_confirmations: requiredConfirmations,
+			const outcome = await settleConfirmedPayment(ctx, pendingPayment, result)
+			if (outcome === 'held') {
+				return { ...detected, held: true }
 			}
+			if (outcome === 'rejected') {
+				return { paid: false }
+			}
+
+			return detected
 		} catch (error) {
 			const errorMsg = error instanceof Error ? error.message : 'Unknown error'
 			logger.error('Bitcoin payment check failed:', errorMsg)
@@ -299,3 +338,41 @@ export const checkBitcoinPayment = action({
 		}
 	},
 })
+
+// Credit a held payment once an admin has checked the transaction themselves
+// Uses the first provider's report - for an underpayment, what actually arrived
+export const creditHeldPayment = action({
+	args: {
+		admin_token: v.string(),
+		discrepancy_id: v.id('bitcoin_discrepancies'),
+	},
+	handler: async (ctx, { admin_token, discrepancy_id }): Promise<void> => {
+		requireAdmin(admin_token)
+
+		const discrepancy = await ctx.runQuery(
+			internal.bitcoin.mutations.getBitcoinDiscrepancyInternal,
+			{ discrepancy_id }
+		)
+		if (discrepancy?.status !== 'open') {
+			throw new Error('Only open discrepancies can be credited')
+		}
+
+		const pendingPayment = await ctx.runQuery(
+			internal.bitcoin.mutations.getPendingPaymentByAddressInternal,
+			{ address: discrepancy.address }
+		)
+		if (pendingPayment?.status !== 'held') {
+			throw new Error('Payment is no longer held')
+		}
+
+		await creditPendingPayment(ctx, pendingPayment, {
+			txid: discrepancy.txid,
+			amount_btc: discrepancy.amount_sats / satoshiToBtc,
+		})
+		await ctx.runMutation(
+			internal.bitcoin.mutations.markBitcoinDiscrepancyCredited,
+			{ discrepancy_id }
+		)
+		logger.audit('bitcoin_discrepancy_credited', { txid: discrepancy.txid })
+	},
+})
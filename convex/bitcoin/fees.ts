@@ -0,0 +1,67 @@
+/**
+ * Bitcoin Network Fee Estimate
+ *
+ * Estimates what it will cost to spend a donation's output, so donors who
+ * choose to cover the fees can add it. Fee rates come from mempool.space.
+ */
+
+'use node'
+
+import { ActionCache } from '@convex-dev/action-cache'
+import { components, internal } from 'convex/_generated/api'
+import { type ActionCtx, internalAction } from 'convex/_generated/server'
+import { env } from '@/env.ts'
+import {
+	blockchainApiTimeoutMs,
+	fetchWithTimeout,
+} from '@/libs/bitcoin/blockchain-api.ts'
+import { getBtcPrice } from './exchange.ts'
+import { networkFeeCacheMs, satoshiToBtc, segwitInputVbytes } from './types.ts'
+
+type RecommendedFees = {
+	readonly fastestFee: number
+	readonly halfHourFee: number
+	readonly hourFee: number
+	readonly economyFee: number
+	readonly minimumFee: number
+}
+
+// Internal action: fetch the half-hour fee rate (sat/vB)
+export const fetchNetworkFeeRateInternal = internalAction({
+	args: {},
+	handler: async (): Promise<number> => {
+		const baseUrl =
+			env.BITCOIN_NETWORK === 'testnet'
+				? 'https://mempool.space/testnet4/api'
+				: 'https://mempool.space/api'
+
+		const response = await fetchWithTimeout(
+			`${baseUrl}/v1/fees/recommended`,
+			blockchainApiTimeoutMs
+		)
+		if (!response.ok) {
+			throw new Error(`Fee estimate request failed: ${response.status}`)
+		}
+
+		const fees = (await response.json()) as RecommendedFees
+		if (!Number.isFinite(fees.halfHourFee) || fees.halfHourFee <= 0) {
+			throw new Error('Fee estimate response missing halfHourFee')
+		}
+		return fees.halfHourFee
+	},
+})
+
+const networkFeeRateCache = new ActionCache(components.actionCache, {
+	action: internal.bitcoin.fees.fetchNetworkFeeRateInternal,
+	name: 'btc_network_fee_rate',
+	ttl: networkFeeCacheMs, // 5 minutes
+})
+
+// USD cost of spending one donation output at the current half-hour fee rate
+export async function getNetworkFeeUsd(ctx: ActionCtx): Promise<number> {
+	const [feeRate, btcPrice] = await Promise.all([
+		networkFeeRateCache.fetch(ctx, {}),
+		getBtcPrice(ctx),
+	])
+	return ((feeRate * segwitInputVbytes) / satoshiToBtc) * btcPrice
+}
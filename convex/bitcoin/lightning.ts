@@ -0,0 +1,292 @@
+/**
+ * Bitcoin Lightning Actions
+ *
+ * BOLT11 invoices for Bitcoin donations too small to be worth an on-chain fee.
+ * Invoices come from the node selected by LIGHTNING_BACKEND (see
+ * src/libs/lightning), and a scheduled job per invoice watches for settlement.
+ */
+
+'use node'
+
+import { RateLimiter } from '@convex-dev/rate-limiter'
+import { components, internal } from 'convex/_generated/api'
+import type { Doc } from 'convex/_generated/dataModel'
+import {
+	type ActionCtx,
+	action,
+	internalAction,
+} from 'convex/_generated/server'
+import { getDonationAmounts } from 'convex/currency.ts'
+import { paymentMetadataValidator } from 'convex/schema.ts'
+import {
+	getDisplayName,
+	validateCampaignOpen,
+	validateDonationAmount,
+	validateEmail,
+	validateMessage,
+	validatePlayerName,
+} from 'convex/types.ts'
+import { v } from 'convex/values'
+import { getLightningBackend } from '@/libs/lightning/lightning-backend.ts'
+import { logger } from '@/utils/logger.ts'
+import { getBtcPrice } from './exchange.ts'
+import {
+	type GenerateLightningInvoiceResult,
+	lightningInvoiceExpirySeconds,
+	lightningLookupRetryMs,
+	lightningLookupRetryWindowMs,
+	lightningPollIntervalMs,
+	satoshiToBtc,
+} from './types.ts'
+
+const rateLimiter = new RateLimiter(components.rateLimiter, {
+	generateInvoice: {
+		kind: 'token bucket',
+		rate: 3,
+		period: 300_000, // 5 minutes
+		capacity: 3,
+	},
+})
+
+function toInvoiceResult(
+	invoice: Doc<'pending_lightning_invoices'>
+): GenerateLightningInvoiceResult {
+	return {
+		payment_request: invoice.payment_request,
+		payment_hash: invoice.payment_hash,
+		amount_sats: invoice.amount_sats,
+		amount_usd: invoice.expected_amount_usd,
+		exchange_rate: invoice.exchange_rate,
+		expires_at: invoice.expires_at,
+	}
+}
+
+// Creates the donation for a settled invoice, priced at the rate it was issued at
+// (the donor paid a fixed number of sats quoted from that rate)
+async function recordSettledInvoice(
+	ctx: ActionCtx,
+	invoice: Doc<'pending_lightning_invoices'>,
+	amountPaidSats: number
+): Promise<void> {
+	const amount_usd = (amountPaidSats / satoshiToBtc) * invoice.exchange_rate
+	const amounts = await getDonationAmounts(ctx, {
+		amount: amount_usd,
+		currency: 'USD',
+		campaign_id: invoice.campaign_id,
+	})
+
+	// Same deduplication as on-chain payments, keyed by the payment hash
+	const created = await ctx.runMutation(
+		internal.bitcoin.mutations.createDonationFromInvoice,
+		{
+			payment_hash: invoice.payment_hash,
+			...amounts,
+			btc_exchange_rate: invoice.exchange_rate,
+			display_name: getDisplayName(invoice.metadata, 'Anonymous'),
+			message: invoice.metadata?.message,
+		}
+	)
+
+	if (created) {
+		logger.audit('donation_created', {
+			amount_usd,
+			payment_method: 'bitcoin',
+			lightning: true,
+		})
+	}
+}
+
+// Generate a Lightning invoice with rate limiting and idempotency
+export const generateLightningInvoice = action({
+	args: {
+		amount: v.number(),
+		campaign_id: v.id('campaigns'),
+		session_id: v.string(),
+		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()), // Opt-in - Lightning has no payer email
+	},
+	handler: async (
+		ctx,
+		{ amount, campaign_id, session_id, metadata, receipt_email }
+	): Promise<GenerateLightningInvoiceResult> => {
+		validateDonationAmount(amount)
+		validateEmail(receipt_email)
+		// The sender's wallet pays the routing fees
+		if (metadata?.fee_covered !== undefined) {
+			throw new Error('Lightning payments have no network fee to cover')
+		}
+		if (metadata?.player_name) {
+			validatePlayerName(metadata.player_name)
+		}
+		if (metadata?.message) {
+			validateMessage(metadata.message)
+		}
+
+		const backend = getLightningBackend()
+		if (!backend) {
+			throw new Error('Lightning payments are not configured')
+		}
+
+		await rateLimiter.limit(ctx, 'generateInvoice', { key: session_id })
+
+		const campaign = await ctx.runQuery(
+			internal.campaigns.getCampaignInternal,
+			{ campaign_id }
+		)
+		if (!campaign) {
+			throw new Error('Campaign not found')
+		}
+		validateCampaignOpen(campaign, Date.now())
+
+		try {
+			const existingInvoice = await ctx.runQuery(
+				internal.bitcoin.mutations.checkExistingLightningInvoice,
+				{ session_id, amount }
+			)
+			if (existingInvoice) {
+				return toInvoiceResult(existingInvoice)
+			}
+
+			const btcPrice = await getBtcPrice(ctx)
+			const amount_sats = Math.ceil((amount / btcPrice) * satoshiToBtc)
+
+			const { paymentRequest, paymentHash } = await backend.createInvoice({
+				amountSats: amount_sats,
+				memo: `Donation to ${campaign.title}`,
+				expirySeconds: lightningInvoiceExpirySeconds,
+			})
+
+			const created_at = Date.now()
+			const expires_at = created_at + lightningInvoiceExpirySeconds * 1000
+
+			await ctx.runMutation(
+				internal.bitcoin.mutations.createPendingLightningInvoice,
+				{
+					session_id,
+					campaign_id,
+					payment_hash: paymentHash,
+					payment_request: paymentRequest,
+					amount_sats,
+					expected_amount_usd: amount,
+					exchange_rate: btcPrice,
+					metadata,
+					receipt_email,
+					created_at,
+					expires_at,
+				}
+			)
+
+			await ctx.scheduler.runAfter(
+				lightningPollIntervalMs,
+				internal.bitcoin.lightning.monitorLightningInvoice,
+				{ payment_hash: paymentHash }
+			)
+
+			logger.audit('lightning_invoice_created', {
+				backend: backend.name,
+				amount_sats,
+			})
+
+			return {
+				payment_request: paymentRequest,
+				payment_hash: paymentHash,
+				amount_sats,
+				amount_usd: amount,
+				exchange_rate: btcPrice,
+				expires_at,
+			}
+		} catch (error) {
+			const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+			logger.error('Lightning invoice creation failed:', errorMsg)
+			throw new Error(
+				error instanceof Error
+					? `Failed to create Lightning invoice: ${error.message}`
+					: 'Failed to create Lightning invoice'
+			)
+		}
+	},
+})
+
+// Scheduled job that watches one invoice until it settles or expires
+// Reschedules itself every lightningPollIntervalMs while the invoice is open
+export const monitorLightningInvoice = internalAction({
+	args: {
+		payment_hash: v.string(),
+	},
+	handler: async (ctx, { payment_hash }): Promise<void> => {
+		const invoice = await ctx.runQuery(
+			internal.bitcoin.mutations.getPendingLightningInvoiceInternal,
+			{ payment_hash }
+		)
+
+		// Settled, expired or cleaned up - nothing left to watch
+		if (invoice?.status !== 'open') {
+			return
+		}
+
+		const backend = getLightningBackend()
+		if (!backend) {
+			logger.warn('Lightning monitoring stopped: no backend configured')
+			return
+		}
+
+		try {
+			const result = await backend.lookupInvoice({
+				paymentHash: payment_hash,
+				amountSats: invoice.amount_sats,
+				createdAt: invoice.created_at,
+			})
+
+			if (result.state === 'settled') {
+				await recordSettledInvoice(ctx, invoice, result.amountPaidSats)
+				return
+			}
+
+			if (result.state === 'canceled') {
+				await ctx.runMutation(
+					internal.bitcoin.mutations.markLightningInvoiceExpired,
+					{ payment_hash }
+				)
+				return
+			}
+		} catch (error) {
+			logger.warn('Lightning invoice lookup failed', {
+				backend: backend.name,
+				error: error instanceof Error ? error.message : String(error),
+			})
+
+			// Node unreachable - an invoice past its expiry may still have been
+			// paid, so it's retried rather than expired until the node answers
+			const now = Date.now()
+			if (now > invoice.expires_at + lightningLookupRetryWindowMs) {
+				logger.error(
+					`Lightning monitoring stopped: ${payment_hash} still unknown ${lightningLookupRetryWindowMs / 3_600_000}h after expiry, left open`
+				)
+				return
+			}
+			await ctx.scheduler.runAfter(
+				now > invoice.expires_at
+					? lightningLookupRetryMs
+					: lightningPollIntervalMs,
+				internal.bitcoin.lightning.monitorLightningInvoice,
+				{ payment_hash }
+			)
+			return
+		}
+
+		// Checked once more after expiry above, so a last-second payment still counts
+		if (Date.now() > invoice.expires_at) {
+			await ctx.runMutation(
+				internal.bitcoin.mutations.markLightningInvoiceExpired,
+				{ payment_hash }
+			)
+			return
+		}
+
+		await ctx.scheduler.runAfter(
+			lightningPollIntervalMs,
+			internal.bitcoin.lightning.monitorLightningInvoice,
+			{ payment_hash }
+		)
+	},
+})
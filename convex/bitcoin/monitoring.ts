@@ -2,289 +2,250 @@
  * Bitcoin Blockchain Monitoring
  *
  * Scheduler-based blockchain monitoring logic.
- * Checks payment status across multiple blockchain explorers.
+ * Checks payment status through the configured blockchain providers, and
+ * settles confirmed payments - including ones still short when their window
+ * closes, per BITCOIN_UNDERPAYMENT_POLICY.
  */
 
 'use node'
 
 import { api, internal } from 'convex/_generated/api'
-import { internalAction } from 'convex/_generated/server'
+import type { Doc } from 'convex/_generated/dataModel'
+import { type ActionCtx, internalAction } from 'convex/_generated/server'
+import { getDonationAmounts } from 'convex/currency.ts'
 import { getDisplayName } from 'convex/types.ts'
 import { v } from 'convex/values'
 import { env } from '@/env.ts'
-import {
-	blockchainApiTimeoutMs,
-	calculateConfirmations,
-	fetchWithTimeout,
-	getCurrentBlockHeight,
-} from '@/libs/bitcoin/blockchain-api.ts'
+import { calculateConfirmations } from '@/libs/bitcoin/blockchain-api.ts'
 import { logger } from '@/utils/logger.ts'
+import { withBlockchainProvider } from './providers.ts'
+import { verifyPaymentQuorum } from './quorum.ts'
 import {
 	type BlockchainPaymentResult,
+	bitcoinConfirmationGraceMs,
 	bitcoinConfirmations,
 	btcAmountTolerance,
 	satoshiToBtc,
-	type TransactionStatus,
 } from './types.ts'
 
-// Bitcoin payment monitoring: scheduled polling (every 10s) until confirmed or expired (24h max)
-// Using scheduler instead of Workpool for cleaner logs and simpler cancellation
-
-// Blockchain API response types
-type BlockchainAddress = {
-	total_received: number
-	txs: Array<{
-		hash: string
-	}>
-}
-
-type MempoolAddress = {
-	chain_stats: {
-		funded_txo_sum: number
-		tx_count: number
-	}
-	mempool_stats: {
-		funded_txo_sum: number
-		tx_count: number
-	}
-}
-
-type MempoolTx = {
-	txid: string
-	status: TransactionStatus
-	vout: Array<{
-		scriptpubkey_address?: string
-		value: number
-	}>
-}
-
-// Check Mempool.space API (primary) - detects both confirmed and mempool transactions
-async function checkMempoolSpace(
-	address: string,
-	isTestnet: boolean
-): Promise<BlockchainPaymentResult | null> {
-	const baseUrl = isTestnet
-		? 'https://mempool.space/testnet4/api'
-		: 'https://mempool.space/api'
-
-	try {
-		logger.info(
-			`[Bitcoin] Fetching address from mempool.space ${isTestnet ? 'testnet4' : 'mainnet'}: ${address}`
-		)
-
-		const addressResponse = await fetchWithTimeout(
-			`${baseUrl}/address/${address}`,
-			blockchainApiTimeoutMs
-		)
-
-		logger.info(
-			`[Bitcoin] Address fetch response: ${addressResponse.status} ${addressResponse.statusText}`
-		)
-
-		if (!addressResponse.ok) {
-			if (addressResponse.status === 404) return { status: 'no_payment' }
-			return null
-		}
-
-		const addressData = (await addressResponse.json()) as MempoolAddress
+export type UnderpaymentPolicy = 'reject' | 'credit' | 'review'
 
-		const confirmedAmount = addressData.chain_stats.funded_txo_sum
-		const mempoolAmount = addressData.mempool_stats.funded_txo_sum
-		const totalReceived = confirmedAmount + mempoolAmount
+export type SettlementOutcome =
+	| 'credited' // Donation created
+	| 'held' // Underpaid, waiting for an admin (BITCOIN_UNDERPAYMENT_POLICY=review)
+	| 'rejected' // Underpaid, payment rejected without a donation
 
-		logger.info(
-			`[Bitcoin] Address stats: confirmed=${confirmedAmount} sats, mempool=${mempoolAmount} sats, total=${totalReceived} sats`
-		)
-
-		if (totalReceived === 0) {
-			logger.info('[Bitcoin] No payment detected (total received = 0)')
-			return { status: 'no_payment' }
-		}
-
-		logger.info('[Bitcoin] Fetching transaction list')
-		const txsResponse = await fetchWithTimeout(
-			`${baseUrl}/address/${address}/txs`,
-			blockchainApiTimeoutMs
-		)
-		logger.info(`[Bitcoin] Transactions fetch response: ${txsResponse.status}`)
-
-		if (!txsResponse.ok) {
-			return null
-		}
-
-		const txs = (await txsResponse.json()) as MempoolTx[]
-		const latestTx = txs[0]
-
-		if (!latestTx) {
-			logger.info('[Bitcoin] No transactions found in response')
-			return { status: 'no_payment' }
-		}
+// Bitcoin payment monitoring: scheduled polling (every 10s) until confirmed or expired (24h max)
+// Using scheduler instead of Workpool for cleaner logs and simpler cancellation
 
-		logger.info(
-			`[Bitcoin] Found transaction: ${latestTx.txid}, block_height=${latestTx.status.block_height ?? 'mempool'}`
-		)
+// Check the address with the first blockchain provider that answers
+// (BITCOIN_PROVIDERS order, see providers.ts) - detects both confirmed and mempool transactions
+// Amounts are totals across every transaction, confirmations those of the least confirmed one
+export async function checkBlockchainPayment(
+	ctx: ActionCtx,
+	address: string
+): Promise<BlockchainPaymentResult> {
+	logger.info(
+		`[Bitcoin] checkBlockchainPayment starting for ${env.BITCOIN_NETWORK} address: ${address}`
+	)
 
-		const currentHeight = await getCurrentBlockHeight(baseUrl)
-		const confirmations = calculateConfirmations(
-			currentHeight,
-			latestTx.status.block_height
-		)
+	const result = await withBlockchainProvider(
+		ctx,
+		async (provider): Promise<BlockchainPaymentResult> => {
+			const txs = await provider.getAddressTransactions(address)
+			// Every transaction counts, so a donor can top up an underpayment
+			const received = txs.filter((tx) => tx.amount_sats > 0)
+			const latestTx = received[0]
+
+			if (!latestTx) {
+				logger.info(`[Bitcoin] No payment detected (via ${provider.name})`)
+				return { status: 'no_payment' }
+			}
 
-		logger.info(
-			`[Bitcoin] Confirmations: ${confirmations} (current height: ${currentHeight})`
-		)
+			const currentHeight = await provider.getTipHeight()
+			const confirmations = Math.min(
+				...received.map((tx) =>
+					calculateConfirmations(currentHeight, tx.block_height)
+				)
+			)
+			const amount_btc =
+				received.reduce((sum, tx) => sum + tx.amount_sats, 0) / satoshiToBtc
+			const utxos = received.flatMap((tx) =>
+				tx.outputs.map(({ vout, amount_sats }) => ({
+					txid: tx.txid,
+					vout,
+					amount_sats,
+					block_height: tx.block_height,
+				}))
+			)
 
-		const receivedAmount =
-			latestTx.vout
-				.filter((vout) => vout.scriptpubkey_address === address)
-				.reduce((sum, vout) => sum + vout.value, 0) / satoshiToBtc
+			logger.info(
+				`[Bitcoin] Found ${received.length} transaction(s) via ${provider.name}: newest ${latestTx.txid}, ${amount_btc} BTC total, ${confirmations} confirmations (current height: ${currentHeight})`
+			)
 
-		logger.info(
-			`[Bitcoin] Received amount: ${receivedAmount} BTC, paid=${confirmations > 0}, pending=${confirmations === 0}`
-		)
+			const blockHeights = received.flatMap((tx) =>
+				tx.block_height === undefined ? [] : [tx.block_height]
+			)
+			if (blockHeights.length < received.length || confirmations === 0) {
+				return {
+					status: 'pending',
+					tx_hash: latestTx.txid,
+					amount_btc,
+					confirmations,
+					utxos,
+				}
+			}
 
-		if (confirmations === 0) {
 			return {
-				status: 'pending',
+				status: 'paid',
 				tx_hash: latestTx.txid,
-				amount_btc: receivedAmount,
+				amount_btc,
 				confirmations,
+				utxos,
+				block_height: Math.max(...blockHeights),
+				provider: provider.name,
 			}
 		}
+	)
 
-		return {
-			status: 'paid',
-			tx_hash: latestTx.txid,
-			amount_btc: receivedAmount,
-			confirmations,
-		}
-	} catch (error) {
-		const errorMessage =
-			error instanceof Error ? error.message : 'Unknown error'
-		const errorName = error instanceof Error ? error.name : 'UnknownError'
-		logger.info(
-			`[Bitcoin] Mempool.space ${isTestnet ? 'testnet4' : 'mainnet'} API error: [${errorName}] ${errorMessage}`
-		)
-		return null
-	}
+	return result ?? { status: 'api_failed' }
 }
 
-// Check Blockstream.info API (fallback)
-async function checkBlockstream(
-	address: string,
-	isTestnet: boolean
-): Promise<BlockchainPaymentResult | null> {
-	const baseUrl = isTestnet
-		? 'https://blockstream.info/testnet/api'
-		: 'https://blockstream.info/api'
-
-	try {
-		const response = await fetchWithTimeout(
-			`${baseUrl}/address/${address}`,
-			blockchainApiTimeoutMs
-		)
-
-		if (!response.ok) {
-			if (response.status === 404) return { status: 'no_payment' }
-			return null
-		}
-
-		const data = (await response.json()) as BlockchainAddress
-
-		if (!data.total_received || data.total_received === 0) {
-			return { status: 'no_payment' }
-		}
-
-		const latestTx = data.txs[0]
-		if (!latestTx) {
-			return { status: 'no_payment' }
-		}
-
-		const txResponse = await fetchWithTimeout(
-			`${baseUrl}/tx/${latestTx.hash}`,
-			blockchainApiTimeoutMs
-		)
-
-		if (!txResponse.ok) {
-			return {
-				status: 'pending',
-				tx_hash: latestTx.hash,
-				amount_btc: data.total_received / satoshiToBtc,
-				confirmations: 0,
-			}
-		}
-
-		const txData = (await txResponse.json()) as {
-			status: TransactionStatus
-		}
-
-		const currentHeight = await getCurrentBlockHeight(baseUrl)
-		const confirmations = calculateConfirmations(
-			currentHeight,
-			txData.status.block_height
-		)
-
-		if (confirmations === 0) {
-			return {
-				status: 'pending',
-				tx_hash: latestTx.hash,
-				amount_btc: data.total_received / satoshiToBtc,
-				confirmations,
-			}
+// Create the donation for a confirmed payment and mark the payment confirmed
+// Priced at the rate the address was issued at; deduplicated by address
+export async function creditPendingPayment(
+	ctx: ActionCtx,
+	pendingPayment: Doc<'pending_bitcoin_payments'>,
+	{
+		txid,
+		amount_btc,
+		confirmations,
+	}: { txid: string; amount_btc: number; confirmations?: number }
+): Promise<void> {
+	const amount_usd = amount_btc * pendingPayment.exchange_rate
+	const amounts = await getDonationAmounts(ctx, {
+		amount: amount_usd,
+		currency: 'USD',
+		campaign_id: pendingPayment.campaign_id,
+	})
+
+	// Create donation in a single atomic mutation (handles deduplication internally)
+	const created = await ctx.runMutation(
+		internal.bitcoin.mutations.createDonationFromPayment,
+		{
+			address: pendingPayment.address,
+			...amounts,
+			txid,
+			btc_exchange_rate: pendingPayment.exchange_rate,
+			display_name: getDisplayName(pendingPayment.metadata, 'Anonymous'),
+			message: pendingPayment.metadata?.message,
 		}
+	)
 
-		return {
-			status: 'paid',
-			tx_hash: latestTx.hash,
-			amount_btc: data.total_received / satoshiToBtc,
+	if (created) {
+		logger.audit('donation_created', {
+			amount_usd,
+			payment_method: 'bitcoin',
 			confirmations,
-		}
-	} catch (error) {
-		const errorMessage =
-			error instanceof Error ? error.message : 'Unknown error'
-		logger.info(
-			`Blockstream.info ${isTestnet ? 'testnet' : 'mainnet'} API error: ${errorMessage}`
-		)
-		return null
+		})
 	}
+
+	await ctx.runMutation(internal.bitcoin.mutations.updatePendingPaymentStatus, {
+		address: pendingPayment.address,
+		status: 'confirmed',
+	})
 }
 
-// Check blockchain with API fallback: Mempool.space (testnet4/mainnet) → Blockstream.info (mainnet only)
-export async function checkBlockchainPayment(
-	address: string
-): Promise<BlockchainPaymentResult> {
-	const isTestnet = env.BITCOIN_NETWORK === 'testnet'
+export function getUnderpaymentPolicy(): UnderpaymentPolicy {
+	return env.BITCOIN_UNDERPAYMENT_POLICY ?? 'reject'
+}
 
-	logger.info(
-		`[Bitcoin] checkBlockchainPayment starting for ${isTestnet ? 'testnet' : 'mainnet'} address: ${address}`
+// Whether the donor can still top up a payment that falls short
+export function isAwaitingTopUp(
+	pendingPayment: Doc<'pending_bitcoin_payments'>,
+	amount_btc: number,
+	now: number
+): boolean {
+	return (
+		pendingPayment.expected_amount_btc - amount_btc > btcAmountTolerance &&
+		now <= pendingPayment.expires_at
 	)
+}
 
-	if (isTestnet) {
-		const testnet4Result = await checkMempoolSpace(address, true)
-		if (testnet4Result !== null) {
-			logger.info('[Bitcoin] Testnet4 API returned result')
-			return testnet4Result
+// Settle a confirmed payment the providers agree on
+// The full amount (or more) is credited; a payment still short once its window
+// has closed goes through the underpayment policy instead
+// Shared by monitorSinglePayment and checkBitcoinPayment so both settle alike
+export async function settleConfirmedPayment(
+	ctx: ActionCtx,
+	pendingPayment: Doc<'pending_bitcoin_payments'>,
+	payment: Extract<BlockchainPaymentResult, { status: 'paid' }>
+): Promise<SettlementOutcome> {
+	const { address, expected_amount_btc, derivation_index } = pendingPayment
+	const credit = { txid: payment.tx_hash, amount_btc: payment.amount_btc }
+
+	if (expected_amount_btc - payment.amount_btc <= btcAmountTolerance) {
+		if (payment.amount_btc - expected_amount_btc > btcAmountTolerance) {
+			logger.info(
+				`Overpayment accepted: ${derivation_index} expected ${expected_amount_btc} BTC, received ${payment.amount_btc} BTC`
+			)
 		}
-
-		return { status: 'api_failed' }
+		await creditPendingPayment(ctx, pendingPayment, {
+			...credit,
+			confirmations: payment.confirmations,
+		})
+		return 'credited'
 	}
 
-	const mempoolResult = await checkMempoolSpace(address, false)
-	if (mempoolResult !== null) {
-		logger.info('[Bitcoin] Mempool.space mainnet API returned result')
-		return mempoolResult
+	const policy = getUnderpaymentPolicy()
+	logger.audit('bitcoin_underpayment', {
+		expected_btc: expected_amount_btc,
+		received_btc: payment.amount_btc,
+		policy,
+	})
+
+	if (policy === 'credit') {
+		logger.info(
+			`Underpayment credited: ${derivation_index} expected ${expected_amount_btc} BTC, received ${payment.amount_btc} BTC`
+		)
+		await creditPendingPayment(ctx, pendingPayment, {
+			...credit,
+			confirmations: payment.confirmations,
+		})
+		return 'credited'
 	}
 
-	logger.info(
-		'[Bitcoin] Mempool.space failed, trying Blockstream.info fallback'
-	)
-	const blockstreamResult = await checkBlockstream(address, false)
-	if (blockstreamResult !== null) {
-		logger.info('[Bitcoin] Blockstream.info API returned result')
-		return blockstreamResult
+	if (policy === 'review') {
+		const amount_sats = Math.round(payment.amount_btc * satoshiToBtc)
+		await ctx.runMutation(internal.bitcoin.mutations.holdPaymentForReview, {
+			address,
+			reason: 'underpayment',
+			txid: payment.tx_hash,
+			amount_sats,
+			block_height: payment.block_height,
+			reports: [
+				{
+					provider: payment.provider,
+					found: true,
+					amount_sats,
+					block_height: payment.block_height,
+				},
+			],
+		})
+		logger.warn(
+			`Underpayment held for review: ${derivation_index} expected ${expected_amount_btc} BTC, received ${payment.amount_btc} BTC`
+		)
+		return 'held'
 	}
 
-	return { status: 'api_failed' }
+	logger.warn(
+		`Underpayment rejected: ${derivation_index} expected ${expected_amount_btc} BTC, received ${payment.amount_btc} BTC`
+	)
+	await ctx.runMutation(internal.bitcoin.mutations.updatePendingPaymentStatus, {
+		address,
+		status: 'rejected',
+	})
+	return 'rejected'
 }
 
 // Monitor single payment: recursive polling with scheduler, stops on confirmed/deleted/expired
@@ -323,9 +284,27 @@ export const monitorSinglePayment = internalAction({
 			return
 		}
 
-		// Check expiration before making API call
+		if (pendingPayment.status === 'held') {
+			logger.info(
+				`Payment monitoring stopped: held for review ${derivation_index}`
+			)
+			return
+		}
+
+		if (pendingPayment.status === 'rejected') {
+			logger.info(
+				`Payment monitoring stopped: underpayment rejected ${derivation_index}`
+			)
+			return
+		}
+
+		// Check expiration before making API call - nothing was sent, so there's
+		// nothing left to settle
 		const now = Date.now()
-		if (now > pendingPayment.expires_at) {
+		if (
+			pendingPayment.status === 'initialized' &&
+			now > pendingPayment.expires_at
+		) {
 			logger.warn(
 				`Payment monitoring timeout: ${derivation_index} exceeded 24 hours`
 			)
@@ -339,12 +318,37 @@ export const monitorSinglePayment = internalAction({
 			return
 		}
 
+		// A payment already detected gets the grace period to confirm, then one
+		// last check settles it or holds it instead of polling again
+		const isPastDeadline =
+			now > pendingPayment.expires_at + bitcoinConfirmationGraceMs
+
 		// Check blockchain (external API call)
-		const result = await checkBlockchainPayment(address)
+		const result = await checkBlockchainPayment(ctx, address)
 		const requiredConfirmations = bitcoinConfirmations[env.BITCOIN_NETWORK]
-
-		// API failed - retry
-		if (result.status === 'api_failed') {
+		const scheduleNextCheck = async (): Promise<void> => {
+			// Coins were seen but never settled (unconfirmed, or the providers
+			// stopped answering) - held for review rather than expired, whatever
+			// the underpayment policy, since nothing confirmed can be credited yet
+			if (isPastDeadline) {
+				const isDetected = 'tx_hash' in result
+				const received_btc = isDetected
+					? result.amount_btc
+					: (pendingPayment.received_amount_btc ?? 0)
+				logger.warn(
+					`Payment monitoring timeout: ${derivation_index} held for review with ${received_btc} of ${expected_amount_btc} BTC`
+				)
+				await ctx.runMutation(internal.bitcoin.mutations.holdPaymentForReview, {
+					address,
+					reason: 'timeout',
+					txid: isDetected ? result.tx_hash : (pendingPayment.txid ?? ''),
+					amount_sats: Math.round(received_btc * satoshiToBtc),
+					block_height:
+						result.status === 'paid' ? result.block_height : undefined,
+					reports: [],
+				})
+				return
+			}
 			await ctx.scheduler.runAfter(
 				10_000,
 				internal.bitcoin.monitoring.monitorSinglePayment,
@@ -354,134 +358,64 @@ export const monitorSinglePayment = internalAction({
 					derivation_index,
 				}
 			)
-			return
 		}
 
-		// No payment detected yet - keep polling
-		if (result.status === 'no_payment') {
-			await ctx.scheduler.runAfter(
-				10_000,
-				internal.bitcoin.monitoring.monitorSinglePayment,
-				{
-					address,
-					expected_amount_btc,
-					derivation_index,
-				}
-			)
+		// API failed or no payment detected yet - keep polling
+		if (result.status === 'api_failed' || result.status === 'no_payment') {
+			await scheduleNextCheck()
 			return
 		}
 
-		// Transaction detected but not confirmed yet
-		if (result.status === 'pending') {
-			// Update txid if this is the first time we're seeing it
-			if (pendingPayment.txid !== result.tx_hash) {
-				await ctx.runMutation(
-					internal.bitcoin.mutations.updatePendingPaymentWithTx,
-					{
-						address,
-						txid: result.tx_hash,
-					}
-				)
-				logger.info(
-					`Transaction detected: ${derivation_index} at ${result.confirmations}/${requiredConfirmations} confirmations`
-				)
-			}
-
-			// Continue monitoring
-			await ctx.scheduler.runAfter(
-				10_000,
-				internal.bitcoin.monitoring.monitorSinglePayment,
-				{
-					address,
-					expected_amount_btc,
-					derivation_index,
-				}
+		// Record every output received so far (also moves the payment to 'pending')
+		await ctx.runMutation(internal.bitcoin.mutations.recordPaymentUtxos, {
+			address,
+			txid: result.tx_hash,
+			utxos: [...result.utxos],
+		})
+		if (pendingPayment.txid !== result.tx_hash) {
+			logger.info(
+				`Transaction detected: ${derivation_index} has ${result.amount_btc} of ${expected_amount_btc} BTC at ${result.confirmations}/${requiredConfirmations} confirmations`
 			)
-			return
 		}
 
-		// Transaction is paid but may not have enough confirmations
-		if (result.confirmations < requiredConfirmations) {
-			// Update txid if needed (edge case: status jumped from no_payment to paid)
-			if (pendingPayment.txid !== result.tx_hash) {
-				await ctx.runMutation(
-					internal.bitcoin.mutations.updatePendingPaymentWithTx,
-					{
-						address,
-						txid: result.tx_hash,
-					}
-				)
-			}
-
-			// Continue monitoring
-			await ctx.scheduler.runAfter(
-				10_000,
-				internal.bitcoin.monitoring.monitorSinglePayment,
-				{
-					address,
-					expected_amount_btc,
-					derivation_index,
-				}
-			)
+		// Underpaid so far - the donor can top up until the payment window ends,
+		// then what arrived is settled per the underpayment policy
+		if (isAwaitingTopUp(pendingPayment, result.amount_btc, now)) {
+			await scheduleNextCheck()
 			return
 		}
 
-		// Payment is fully confirmed - validate amount
-		const difference = Math.abs(result.amount_btc - expected_amount_btc)
-		if (difference > btcAmountTolerance) {
-			if (result.amount_btc < expected_amount_btc) {
-				logger.warn(
-					`Underpayment detected: ${derivation_index} expected ${expected_amount_btc} BTC, received ${result.amount_btc} BTC`
-				)
-				await ctx.runMutation(
-					internal.bitcoin.mutations.updatePendingPaymentStatus,
-					{
-						address,
-						status: 'expired',
-					}
-				)
-				return
-			}
-			logger.info(
-				`Overpayment accepted: ${derivation_index} expected ${expected_amount_btc} BTC, received ${result.amount_btc} BTC`
-			)
+		// Transaction detected but not confirmed enough yet
+		if (
+			result.status === 'pending' ||
+			result.confirmations < requiredConfirmations
+		) {
+			await scheduleNextCheck()
+			return
 		}
 
-		// Calculate USD amount and create donation atomically
-		const amount_btc = result.amount_btc
-		const amount_usd = amount_btc * pendingPayment.exchange_rate
-		const display_name = getDisplayName(pendingPayment.metadata, 'Anonymous')
-
-		// Create donation in a single atomic mutation (handles deduplication internally)
-		const created = await ctx.runMutation(
-			internal.bitcoin.mutations.createDonationFromPayment,
-			{
-				address,
-				amount_usd,
-				display_name,
-				message: pendingPayment.metadata?.message,
-			}
+		// Quorum mode: the other providers must agree before anything is credited
+		const quorum = await verifyPaymentQuorum(
+			ctx,
+			address,
+			result,
+			isPastDeadline
 		)
-
-		if (created) {
-			logger.audit('donation_created', {
-				amount_usd,
-				payment_method: 'bitcoin',
-				confirmations: result.confirmations,
-			})
+		if (quorum === 'held') {
+			logger.warn(
+				`Payment held for review: ${derivation_index} providers disagree or never agreed about ${result.tx_hash}`
+			)
+			return
+		}
+		if (quorum === 'waiting') {
+			await scheduleNextCheck()
+			return
 		}
 
-		// Mark payment as confirmed
-		await ctx.runMutation(
-			internal.bitcoin.mutations.updatePendingPaymentStatus,
-			{
-				address,
-				status: 'confirmed',
-			}
-		)
+		const outcome = await settleConfirmedPayment(ctx, pendingPayment, result)
 
 		logger.info(
-			`Payment monitoring complete: ${derivation_index} confirmed with ${result.confirmations} confirmations`
+			`Payment monitoring complete: ${derivation_index} ${outcome} with ${result.confirmations} confirmations`
 		)
 	},
 })
@@ -2,17 +2,34 @@
  * Bitcoin Database Mutations
  *
  * Database operations for Bitcoin payment processing.
- * Handles pending payment CRUD, derivation counter, and cleanup operations.
+ * Handles pending payment and Lightning invoice CRUD, derivation counter,
+ * blockchain provider health, and cleanup operations.
  */
 
+import type { Doc, Id } from 'convex/_generated/dataModel'
 import {
 	internalMutation,
 	internalQuery,
+	type MutationCtx,
 	mutation,
 	query,
 } from 'convex/_generated/server'
 import { v } from 'convex/values'
-import { paymentMetadataValidator } from '../schema.ts'
+import { env } from '@/env.ts'
+import { addDonationToAggregate } from '../aggregates.ts'
+import { upsertDonor } from '../donors.ts'
+import { getCoveredFeeAmounts } from '../fees.ts'
+import { getInitialMessageModeration } from '../moderation.ts'
+import { scheduleReceipt } from '../receipts/mutations.ts'
+import {
+	type BitcoinDiscrepancy,
+	bitcoinDiscrepancy,
+	bitcoinUtxoValidator,
+	currencyValidator,
+	paymentMetadataValidator,
+} from '../schema.ts'
+import type { Currency } from '../types.ts'
+import { bitcoinConfirmationGraceMs, satoshiToBtc } from './types.ts'
 
 // Internal mutation to atomically get next derivation index
 export const getNextDerivationIndex = internalMutation({
@@ -109,23 +126,27 @@ export const validateSessionOwnsAddress = internalMutation({
 export const createPendingBitcoinPayment = internalMutation({
 	args: {
 		session_id: v.string(),
+		campaign_id: v.id('campaigns'),
 		address: v.string(),
 		expected_amount_btc: v.number(),
 		expected_amount_usd: v.number(),
 		exchange_rate: v.number(),
 		derivation_index: v.number(),
 		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()),
 	},
 	handler: async (
 		ctx,
 		{
 			session_id,
+			campaign_id,
 			address,
 			expected_amount_btc,
 			expected_amount_usd,
 			exchange_rate,
 			derivation_index,
 			metadata,
+			receipt_email,
 		}
 	) => {
 		const now = Date.now()
@@ -133,12 +154,14 @@ export const createPendingBitcoinPayment = internalMutation({
 
 		await ctx.db.insert('pending_bitcoin_payments', {
 			session_id,
+			campaign_id,
 			address,
 			expected_amount_btc,
 			expected_amount_usd,
 			exchange_rate,
 			derivation_index,
 			metadata,
+			receipt_email,
 			status: 'initialized', // Start in initialized state
 			created_at: now,
 			expires_at: expiresAt,
@@ -167,13 +190,16 @@ export const updatePendingPaymentJobId = internalMutation({
 	},
 })
 
-// Update pending payment with transaction details when detected
-export const updatePendingPaymentWithTx = internalMutation({
+// Record what has arrived at a pending payment's address
+// Syncs bitcoin_payment_utxos with the provider's answer and moves the payment
+// to 'pending' with the newest txid and the total received
+export const recordPaymentUtxos = internalMutation({
 	args: {
 		address: v.string(),
-		txid: v.string(),
+		txid: v.string(), // Newest transaction
+		utxos: v.array(bitcoinUtxoValidator),
 	},
-	handler: async (ctx, { address, txid }) => {
+	handler: async (ctx, { address, txid, utxos }) => {
 		const payment = await ctx.db
 			.query('pending_bitcoin_payments')
 			.withIndex('by_address', (q) => q.eq('address', address))
@@ -183,20 +209,54 @@ export const updatePendingPaymentWithTx = internalMutation({
 			return null
 		}
 
-		// Only update if status is initialized or pending (not confirmed/expired)
+		// Only update if status is initialized or pending (not confirmed/expired/held)
 		if (payment.status !== 'initialized' && payment.status !== 'pending') {
 			return null
 		}
 
-		// Upgrade status to 'pending' if still 'initialized'
-		const newStatus =
-			payment.status === 'initialized' ? 'pending' : payment.status
+		const now = Date.now()
+		const existing = await ctx.db
+			.query('bitcoin_payment_utxos')
+			.withIndex('by_address', (q) => q.eq('address', address))
+			.collect()
 
-		await ctx.db.patch(payment._id, {
-			txid,
-			detected_at: Date.now(),
-			status: newStatus,
-		})
+		for (const row of existing) {
+			const utxo = utxos.find((u) => u.txid === row.txid && u.vout === row.vout)
+			if (!utxo) {
+				// Replaced (RBF) or reorged out
+				await ctx.db.delete(row._id)
+			} else if (utxo.block_height !== row.block_height) {
+				await ctx.db.patch(row._id, { block_height: utxo.block_height })
+			}
+		}
+
+		for (const utxo of utxos) {
+			const isKnown = existing.some(
+				(row) => row.txid === utxo.txid && row.vout === utxo.vout
+			)
+			if (!isKnown) {
+				await ctx.db.insert('bitcoin_payment_utxos', {
+					address,
+					...utxo,
+					first_seen_at: now,
+				})
+			}
+		}
+
+		const received_amount_btc =
+			utxos.reduce((sum, utxo) => sum + utxo.amount_sats, 0) / satoshiToBtc
+		if (
+			payment.status !== 'pending' ||
+			payment.txid !== txid ||
+			payment.received_amount_btc !== received_amount_btc
+		) {
+			await ctx.db.patch(payment._id, {
+				txid,
+				received_amount_btc,
+				detected_at: payment.detected_at ?? now,
+				status: 'pending',
+			})
+		}
 
 		return payment._id
 	},
@@ -228,7 +288,8 @@ export const updatePendingPaymentStatus = internalMutation({
 			v.literal('initialized'),
 			v.literal('pending'),
 			v.literal('confirmed'),
-			v.literal('expired')
+			v.literal('expired'),
+			v.literal('rejected')
 		),
 	},
 	handler: async (ctx, { address, status }) => {
@@ -319,45 +380,402 @@ export const getPendingPaymentByAddress = query({
 	},
 })
 
+type BitcoinDonationFields = {
+	readonly payment_id: string
+	readonly amount: number
+	readonly currency: Currency
+	readonly original_amount: number
+	readonly original_currency: Currency
+	readonly display_name: string
+	readonly message?: string
+	readonly btc_exchange_rate: number
+	readonly txid?: string
+	readonly lightning?: boolean
+	readonly fee_amount?: number
+	readonly net_amount?: number
+}
+
+// Creates the donation unless one already exists for payment_id (deduplication)
+// and adds it to the campaign totals in the same transaction
+// Shared by on-chain payments (keyed by address) and Lightning invoices (keyed by payment hash)
+async function insertBitcoinDonation(
+	ctx: MutationCtx,
+	pending:
+		| Doc<'pending_bitcoin_payments'>
+		| Doc<'pending_lightning_invoices'>
+		| null,
+	{ payment_id, message, ...fields }: BitcoinDonationFields
+): Promise<boolean> {
+	const existingDonation = await ctx.db
+		.query('donations')
+		.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+		.first()
+
+	if (existingDonation) {
+		return false // Already created
+	}
+
+	const donationId = await ctx.db.insert('donations', {
+		...getCoveredFeeAmounts(fields, pending?.metadata?.fee_covered),
+		...fields,
+		donor_email: pending?.receipt_email,
+		donor_id: pending?.receipt_email
+			? await upsertDonor(ctx, {
+					email: pending.receipt_email,
+					name: undefined,
+				})
+			: undefined,
+		payment_id,
+		payment_method: 'bitcoin',
+		message,
+		...getInitialMessageModeration(message),
+		// Campaign was recorded when the address or invoice was generated
+		campaign_id: pending?.campaign_id,
+		status: 'active',
+	})
+	const donation = await ctx.db.get(donationId)
+	if (donation) {
+		await addDonationToAggregate(ctx, donation)
+		await scheduleReceipt(ctx, donation)
+	}
+
+	return true // Created successfully
+}
+
 // Atomically create donation from confirmed Bitcoin payment
 // Returns true if donation was created, false if already exists
 export const createDonationFromPayment = internalMutation({
 	args: {
 		address: v.string(),
-		amount_usd: v.number(),
+		amount: v.number(), // In the campaign's currency
+		currency: currencyValidator,
+		original_amount: v.number(), // BTC received, priced at the BTC/USD rate
+		original_currency: currencyValidator,
+		txid: v.string(),
+		btc_exchange_rate: v.number(), // USD per BTC used for original_amount
 		display_name: v.string(),
 		message: v.optional(v.string()),
 	},
-	handler: async (ctx, { address, amount_usd, display_name, message }) => {
-		// Check if donation already exists (deduplication)
-		const existingDonation = await ctx.db
-			.query('donations')
-			.withIndex('by_payment_id', (q) => q.eq('payment_id', address))
+	handler: async (ctx, { address, ...fields }) => {
+		const pending = await ctx.db
+			.query('pending_bitcoin_payments')
+			.withIndex('by_address', (q) => q.eq('address', address))
+			.first()
+
+		return await insertBitcoinDonation(ctx, pending, {
+			payment_id: address,
+			...fields,
+		})
+	},
+})
+
+// Whether the donate form should offer Lightning (LIGHTNING_BACKEND is set)
+export const isLightningEnabled = query({
+	args: {},
+	handler: (): boolean => {
+		return env.LIGHTNING_BACKEND !== undefined
+	},
+})
+
+// Check for an open Lightning invoice with the same session_id and amount (idempotency)
+// Invoices close to expiring aren't reused - the donor needs time to pay
+export const checkExistingLightningInvoice = internalQuery({
+	args: {
+		session_id: v.string(),
+		amount: v.number(),
+	},
+	handler: async (ctx, { session_id, amount }) => {
+		const invoice = await ctx.db
+			.query('pending_lightning_invoices')
+			.withIndex('by_session_amount', (q) =>
+				q.eq('session_id', session_id).eq('expected_amount_usd', amount)
+			)
+			.order('desc')
 			.first()
 
-		if (existingDonation) {
-			return false // Already created
+		if (
+			invoice?.status === 'open' &&
+			invoice.expires_at > Date.now() + 60_000
+		) {
+			return invoice
 		}
 
-		// Create donation
-		await ctx.db.insert('donations', {
-			amount: amount_usd,
-			display_name,
-			payment_id: address,
-			payment_method: 'bitcoin',
-			message,
+		return null
+	},
+})
+
+// Create a pending Lightning invoice record
+export const createPendingLightningInvoice = internalMutation({
+	args: {
+		session_id: v.string(),
+		campaign_id: v.id('campaigns'),
+		payment_hash: v.string(),
+		payment_request: v.string(),
+		amount_sats: v.number(),
+		expected_amount_usd: v.number(),
+		exchange_rate: v.number(),
+		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()),
+		created_at: v.number(),
+		expires_at: v.number(),
+	},
+	handler: async (ctx, args) => {
+		await ctx.db.insert('pending_lightning_invoices', {
+			...args,
+			status: 'open',
 		})
+	},
+})
 
-		return true // Created successfully
+// Get pending Lightning invoice by payment hash (internal - no session validation)
+export const getPendingLightningInvoiceInternal = internalQuery({
+	args: {
+		payment_hash: v.string(),
+	},
+	handler: async (ctx, { payment_hash }) => {
+		return await ctx.db
+			.query('pending_lightning_invoices')
+			.withIndex('by_payment_hash', (q) => q.eq('payment_hash', payment_hash))
+			.first()
+	},
+})
+
+// Get pending Lightning invoice for modal status updates
+export const getPendingLightningInvoice = query({
+	args: {
+		payment_hash: v.string(),
+		session_id: v.string(),
+	},
+	handler: async (ctx, { payment_hash, session_id }) => {
+		const invoice = await ctx.db
+			.query('pending_lightning_invoices')
+			.withIndex('by_payment_hash', (q) => q.eq('payment_hash', payment_hash))
+			.first()
+
+		if (!invoice) {
+			return null // Invoice not found
+		}
+
+		if (invoice.session_id !== session_id) {
+			throw new Error('Session does not own this invoice')
+		}
+
+		return invoice
 	},
 })
 
+// Mark an open invoice as expired once the node no longer accepts payment for it
+export const markLightningInvoiceExpired = internalMutation({
+	args: {
+		payment_hash: v.string(),
+	},
+	handler: async (ctx, { payment_hash }) => {
+		const invoice = await ctx.db
+			.query('pending_lightning_invoices')
+			.withIndex('by_payment_hash', (q) => q.eq('payment_hash', payment_hash))
+			.first()
+
+		if (invoice?.status !== 'open') {
+			return null
+		}
+
+		await ctx.db.patch(invoice._id, { status: 'expired' })
+		return invoice._id
+	},
+})
+
+// Atomically create donation from a settled Lightning invoice and mark it settled
+// Returns true if donation was created, false if already exists
+export const createDonationFromInvoice = internalMutation({
+	args: {
+		payment_hash: v.string(),
+		amount: v.number(), // In the campaign's currency
+		currency: currencyValidator,
+		original_amount: v.number(), // Sats received, priced at the invoice's BTC/USD rate
+		original_currency: currencyValidator,
+		btc_exchange_rate: v.number(),
+		display_name: v.string(),
+		message: v.optional(v.string()),
+	},
+	handler: async (ctx, { payment_hash, ...fields }) => {
+		const invoice = await ctx.db
+			.query('pending_lightning_invoices')
+			.withIndex('by_payment_hash', (q) => q.eq('payment_hash', payment_hash))
+			.first()
+
+		if (invoice && invoice.status !== 'settled') {
+			await ctx.db.patch(invoice._id, { status: 'settled' })
+		}
+
+		// The receiving node pays no fee on Lightning - the sender pays routing
+		// fees - so the whole amount is net from the start
+		return await insertBitcoinDonation(ctx, invoice, {
+			payment_id: payment_hash,
+			...fields,
+			lightning: true,
+			fee_amount: 0,
+			net_amount: fields.amount,
+		})
+	},
+})
+
+type HeldPaymentReport = Omit<
+	BitcoinDiscrepancy,
+	'address' | 'txid' | 'status' | 'created_at' | 'resolved_at'
+>
+
+// Put a payment on hold with an open discrepancy for an admin to resolve
+// Keeps the existing discrepancy when the payment is already held
+async function holdPayment(
+	ctx: MutationCtx,
+	pending: Doc<'pending_bitcoin_payments'>,
+	txid: string,
+	report: HeldPaymentReport
+): Promise<Id<'bitcoin_discrepancies'>> {
+	await ctx.db.patch(pending._id, { status: 'held', txid })
+
+	const existing = await ctx.db
+		.query('bitcoin_discrepancies')
+		.withIndex('by_address', (q) => q.eq('address', pending.address))
+		.filter((q) => q.eq(q.field('status'), 'open'))
+		.first()
+	if (existing) {
+		return existing._id
+	}
+
+	return await ctx.db.insert('bitcoin_discrepancies', {
+		address: pending.address,
+		txid,
+		...report,
+		status: 'open',
+		created_at: Date.now(),
+	})
+}
+
+// Hold a confirmed payment the providers disagreed about or never agreed on
+// (see quorum.ts), or one still underpaid when its window closed (see monitoring.ts)
+// Monitoring stops until an admin credits or dismisses the discrepancy
+export const holdPaymentForReview = internalMutation({
+	args: {
+		address: v.string(),
+		reason: bitcoinDiscrepancy.fields.reason,
+		txid: v.string(),
+		amount_sats: v.number(),
+		block_height: v.optional(v.number()),
+		reports: bitcoinDiscrepancy.fields.reports,
+	},
+	handler: async (ctx, { address, txid, ...report }) => {
+		const pending = await ctx.db
+			.query('pending_bitcoin_payments')
+			.withIndex('by_address', (q) => q.eq('address', address))
+			.first()
+
+		if (!pending || pending.status === 'confirmed') {
+			return null
+		}
+
+		return await holdPayment(ctx, pending, txid, report)
+	},
+})
+
+export const getBitcoinDiscrepancyInternal = internalQuery({
+	args: {
+		discrepancy_id: v.id('bitcoin_discrepancies'),
+	},
+	handler: async (ctx, { discrepancy_id }) => {
+		return await ctx.db.get(discrepancy_id)
+	},
+})
+
+// Close a discrepancy once the admin has credited the held payment
+export const markBitcoinDiscrepancyCredited = internalMutation({
+	args: {
+		discrepancy_id: v.id('bitcoin_discrepancies'),
+	},
+	handler: async (ctx, { discrepancy_id }) => {
+		await ctx.db.patch(discrepancy_id, {
+			status: 'credited',
+			resolved_at: Date.now(),
+		})
+	},
+})
+
+// Health of every provider that has failed at some point (see providers.ts)
+export const getProviderHealth = internalQuery({
+	args: {},
+	handler: async (ctx) => {
+		return await ctx.db.query('bitcoin_provider_health').collect()
+	},
+})
+
+// Record the outcome of a provider call
+// Failures count up and put the provider in cooldown at the threshold;
+// a success resets it (only written when there's something to reset)
+export const recordProviderResult = internalMutation({
+	args: {
+		provider: v.string(),
+		error: v.optional(v.string()), // Absent on success
+	},
+	handler: async (ctx, { provider, error }) => {
+		const health = await ctx.db
+			.query('bitcoin_provider_health')
+			.withIndex('by_provider', (q) => q.eq('provider', provider))
+			.first()
+
+		if (error === undefined) {
+			if (health && health.consecutive_failures > 0) {
+				await ctx.db.patch(health._id, {
+					consecutive_failures: 0,
+					skip_until: undefined,
+				})
+			}
+			return
+		}
+
+		const now = Date.now()
+		const consecutive_failures = (health?.consecutive_failures ?? 0) + 1
+		const threshold = Number(env.BITCOIN_PROVIDER_FAILURE_THRESHOLD ?? 3)
+		const cooldownMs =
+			Number(env.BITCOIN_PROVIDER_COOLDOWN_SECONDS ?? 300) * 1000
+		const update = {
+			consecutive_failures,
+			last_failure_at: now,
+			last_error: error.slice(0, 500),
+			skip_until:
+				consecutive_failures >= threshold ? now + cooldownMs : undefined,
+		}
+
+		if (health) {
+			await ctx.db.patch(health._id, update)
+		} else {
+			await ctx.db.insert('bitcoin_provider_health', { provider, ...update })
+		}
+	},
+})
+
+async function deletePaymentUtxos(
+	ctx: MutationCtx,
+	address: string
+): Promise<void> {
+	const utxos = await ctx.db
+		.query('bitcoin_payment_utxos')
+		.withIndex('by_address', (q) => q.eq('address', address))
+		.collect()
+
+	for (const utxo of utxos) {
+		await ctx.db.delete(utxo._id)
+	}
+}
+
 // Clean up expired and confirmed pending payments (called by scheduled cron)
 // Strategy:
 // - Marks 'initialized' payments as 'expired' if time exceeded (user left site, no tx sent)
-// - Leaves 'pending' payments alone (transaction detected, actively monitoring)
+// - Holds 'pending' payments for review once the confirmation grace period is over too
+//   (coins arrived, so they're never just expired)
 // - Deletes confirmed payments (donation already in donations table - redundant)
 // - Deletes old expired payments (7 days after expiration for audit trail)
+// - Keeps rejected underpayments - the coins were received, so they stay on record
+// - Deletes Lightning invoices 7 days after they expired
 // Internal-only to prevent unauthorized cleanup triggering
 export const cleanupExpiredPendingPayments = internalMutation({
 	args: {},
@@ -376,16 +794,34 @@ export const cleanupExpiredPendingPayments = internalMutation({
 			await ctx.db.patch(payment._id, { status: 'expired' })
 		}
 
-		// Also mark 'pending' payments that are very old (24h+) as expired
-		// This handles edge case where transaction never confirms
-		const expiredPending = await ctx.db
+		// Hold 'pending' payments an hour past their grace period - the monitor
+		// settles or holds them at the deadline, so these are ones whose monitor stopped
+		const timedOutPending = await ctx.db
 			.query('pending_bitcoin_payments')
-			.withIndex('by_status_and_expires', (q) => q.eq('status', 'pending'))
-			.filter((q) => q.lt(q.field('expires_at'), now))
+			.withIndex('by_status_and_expires', (q) =>
+				q
+					.eq('status', 'pending')
+					.lt('expires_at', now - bitcoinConfirmationGraceMs - 60 * 60 * 1000)
+			)
 			.collect()
 
-		for (const payment of expiredPending) {
-			await ctx.db.patch(payment._id, { status: 'expired' })
+		for (const payment of timedOutPending) {
+			const utxos = await ctx.db
+				.query('bitcoin_payment_utxos')
+				.withIndex('by_address', (q) => q.eq('address', payment.address))
+				.collect()
+			const blockHeights = utxos.flatMap(({ block_height }) =>
+				block_height === undefined ? [] : [block_height]
+			)
+			await holdPayment(ctx, payment, payment.txid ?? '', {
+				reason: 'timeout',
+				amount_sats: utxos.reduce((sum, utxo) => sum + utxo.amount_sats, 0),
+				block_height:
+					blockHeights.length === utxos.length && blockHeights.length > 0
+						? Math.max(...blockHeights)
+						: undefined,
+				reports: [],
+			})
 		}
 
 		// Delete confirmed payments (donation already recorded in donations table)
@@ -395,6 +831,7 @@ export const cleanupExpiredPendingPayments = internalMutation({
 			.collect()
 
 		for (const payment of confirmed) {
+			await deletePaymentUtxos(ctx, payment.address)
 			await ctx.db.delete(payment._id)
 		}
 
@@ -406,14 +843,33 @@ export const cleanupExpiredPendingPayments = internalMutation({
 			.collect()
 
 		for (const payment of oldExpired) {
+			await deletePaymentUtxos(ctx, payment.address)
 			await ctx.db.delete(payment._id)
 		}
 
+		// Delete Lightning invoices a week after they expired - settled ones are
+		// already donations, and the monitor stops once an invoice expires
+		let deletedLightningInvoices = 0
+		for (const status of ['open', 'settled', 'expired'] as const) {
+			const oldInvoices = await ctx.db
+				.query('pending_lightning_invoices')
+				.withIndex('by_status_and_expires', (q) =>
+					q.eq('status', status).lt('expires_at', sevenDaysAgo)
+				)
+				.collect()
+
+			for (const invoice of oldInvoices) {
+				await ctx.db.delete(invoice._id)
+			}
+			deletedLightningInvoices += oldInvoices.length
+		}
+
 		return {
 			markedExpiredInitialized: expiredInitialized.length,
-			markedExpiredPending: expiredPending.length,
+			heldTimedOutPending: timedOutPending.length,
 			deletedConfirmed: confirmed.length,
 			deletedOldExpired: oldExpired.length,
+			deletedLightningInvoices,
 		}
 	},
 })
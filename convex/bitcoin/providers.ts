@@ -0,0 +1,124 @@
+/**
+ * Bitcoin Blockchain Provider Selection
+ *
+ * Runs blockchain reads against the providers from BITCOIN_PROVIDERS in order,
+ * moving on to the next one when a provider fails. Failures are recorded in
+ * bitcoin_provider_health, and a provider that keeps failing is skipped until
+ * its cooldown ends (BITCOIN_PROVIDER_FAILURE_THRESHOLD / _COOLDOWN_SECONDS).
+ */
+
+'use node'
+
+import { internal } from 'convex/_generated/api'
+import type { ActionCtx } from 'convex/_generated/server'
+import {
+	type BlockchainProvider,
+	type BlockchainProviderName,
+	getBlockchainProviders,
+} from '@/libs/bitcoin/blockchain-provider.ts'
+import { logger } from '@/utils/logger.ts'
+
+type ProviderSelection = {
+	readonly healthy: BlockchainProvider[] // In priority order
+	readonly coolingDown: BlockchainProvider[]
+	readonly failing: ReadonlySet<string> // Providers with a failure streak to reset on success
+}
+
+async function selectProviders(ctx: ActionCtx): Promise<ProviderSelection> {
+	const health = await ctx.runQuery(
+		internal.bitcoin.mutations.getProviderHealth,
+		{}
+	)
+	const now = Date.now()
+	const isCoolingDown = (provider: BlockchainProvider): boolean =>
+		health.some(
+			(row) =>
+				row.provider === provider.name &&
+				row.skip_until !== undefined &&
+				row.skip_until > now
+		)
+
+	const providers = getBlockchainProviders()
+	return {
+		healthy: providers.filter((provider) => !isCoolingDown(provider)),
+		coolingDown: providers.filter(isCoolingDown),
+		failing: new Set(
+			health
+				.filter((row) => row.consecutive_failures > 0)
+				.map((row) => row.provider)
+		),
+	}
+}
+
+// Runs one provider call and records its health
+// Returns undefined when the provider failed
+async function runProvider<T>(
+	ctx: ActionCtx,
+	provider: BlockchainProvider,
+	{ failing }: ProviderSelection,
+	run: (provider: BlockchainProvider) => Promise<T>
+): Promise<T | undefined> {
+	try {
+		const result = await run(provider)
+		if (failing.has(provider.name)) {
+			await ctx.runMutation(internal.bitcoin.mutations.recordProviderResult, {
+				provider: provider.name,
+			})
+			logger.info(`[Bitcoin] Provider ${provider.name} recovered`)
+		}
+		return result
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : 'Unknown error'
+		logger.warn(`[Bitcoin] Provider ${provider.name} failed`, {
+			error: errorMessage,
+		})
+		await ctx.runMutation(internal.bitcoin.mutations.recordProviderResult, {
+			provider: provider.name,
+			error: errorMessage,
+		})
+		return undefined
+	}
+}
+
+// Returns the first non-null answer, or null when no provider could answer
+// run() returning null means "ask the next provider" without counting a failure
+export async function withBlockchainProvider<T>(
+	ctx: ActionCtx,
+	run: (provider: BlockchainProvider) => Promise<T | null>
+): Promise<T | null> {
+	const selection = await selectProviders(ctx)
+
+	// Providers cooling down go last - if every provider is cooling down
+	// they're still tried rather than giving up
+	for (const provider of [...selection.healthy, ...selection.coolingDown]) {
+		const result = await runProvider(ctx, provider, selection, run)
+		if (result !== undefined && result !== null) {
+			return result
+		}
+	}
+
+	return null
+}
+
+// Asks every healthy provider except `exclude`, for cross-checking an answer
+// Providers that failed are left out of the returned answers
+export async function withEachBlockchainProvider<T>(
+	ctx: ActionCtx,
+	exclude: string,
+	run: (provider: BlockchainProvider) => Promise<T>
+): Promise<Array<{ provider: BlockchainProviderName; result: T }>> {
+	const selection = await selectProviders(ctx)
+	const answers: Array<{ provider: BlockchainProviderName; result: T }> = []
+
+	for (const provider of selection.healthy) {
+		if (provider.name === exclude) continue
+
+		const result = await runProvider(ctx, provider, selection, run)
+		if (result !== undefined) {
+			answers.push({ provider: provider.name, result })
+		}
+	}
+
+	return answers
+}
@@ -0,0 +1,162 @@
+/**
+ * Bitcoin Payment Quorum
+ *
+ * With BITCOIN_PROVIDER_QUORUM set, a confirmed payment is only credited once
+ * that many providers report the same txid, amount and block height, so one
+ * compromised or buggy explorer can't create a donation on its own.
+ * A provider that contradicts the others puts the payment on hold for review,
+ * and so does a payment that still lacks a quorum when monitoring gives up on it.
+ */
+
+'use node'
+
+import { internal } from 'convex/_generated/api'
+import type { ActionCtx } from 'convex/_generated/server'
+import type { BitcoinDiscrepancy, BitcoinUtxo } from 'convex/schema.ts'
+import { env } from '@/env.ts'
+import { logger } from '@/utils/logger.ts'
+import { withEachBlockchainProvider } from './providers.ts'
+import { type BlockchainPaymentResult, satoshiToBtc } from './types.ts'
+
+type ProviderReport = BitcoinDiscrepancy['reports'][number]
+
+export type QuorumStatus =
+	| 'agreed' // Enough providers agree (or quorum mode is off)
+	| 'waiting' // No disagreement, but too few providers have answered yet
+	| 'held' // Providers disagree, or no quorum by the deadline - held for review in bitcoin_discrepancies
+
+// Null when quorum mode is off
+export function getProviderQuorum(): number | null {
+	return env.BITCOIN_PROVIDER_QUORUM
+		? Number(env.BITCOIN_PROVIDER_QUORUM)
+		: null
+}
+
+type ProviderAnswer = {
+	readonly report: ProviderReport
+	readonly utxos: readonly BitcoinUtxo[] // Outputs of the payment's transactions
+}
+
+const outpoint = ({ txid, vout }: BitcoinUtxo): string => `${txid}:${vout}`
+
+// Cross-checks a confirmed payment with the providers that didn't report it -
+// every transaction the payment is made of must match (txid, amounts, block)
+// A provider whose tip is still below the newest block hasn't seen it yet, so
+// it neither agrees nor disagrees
+// isFinal: the payment's deadline has passed, so a missing quorum is held
+// rather than waited for
+export async function verifyPaymentQuorum(
+	ctx: ActionCtx,
+	address: string,
+	payment: Extract<BlockchainPaymentResult, { status: 'paid' }>,
+	isFinal = false
+): Promise<QuorumStatus> {
+	const quorum = getProviderQuorum()
+	if (quorum === null) {
+		return 'agreed'
+	}
+
+	const amount_sats = Math.round(payment.amount_btc * satoshiToBtc)
+	const txids = new Set(payment.utxos.map(({ txid }) => txid))
+	const expected = new Map(payment.utxos.map((utxo) => [outpoint(utxo), utxo]))
+
+	const answers = await withEachBlockchainProvider(
+		ctx,
+		payment.provider,
+		async (provider): Promise<ProviderAnswer> => {
+			const txs = await provider.getAddressTransactions(address)
+			const tip_height = await provider.getTipHeight()
+			const seen = txs.filter(({ txid }) => txids.has(txid))
+			const utxos = seen.flatMap((tx) =>
+				tx.outputs.map(({ vout, amount_sats }) => ({
+					txid: tx.txid,
+					vout,
+					amount_sats,
+					block_height: tx.block_height,
+				}))
+			)
+			const blockHeights = seen.flatMap(({ block_height }) =>
+				block_height === undefined ? [] : [block_height]
+			)
+			return {
+				report: {
+					provider: provider.name,
+					found: seen.length === txids.size,
+					amount_sats: utxos.reduce((sum, utxo) => sum + utxo.amount_sats, 0),
+					block_height:
+						blockHeights.length > 0 ? Math.max(...blockHeights) : undefined,
+					tip_height,
+				},
+				utxos,
+			}
+		}
+	)
+
+	const reports: ProviderReport[] = [
+		{
+			provider: payment.provider,
+			found: true,
+			amount_sats,
+			block_height: payment.block_height,
+		},
+		...answers.map(({ result }) => result.report),
+	]
+	// Outputs can't change with the block, so a lagging provider that already
+	// sees different outputs for one of the transactions still disagrees
+	const hasSameOutputs = ({ utxos }: ProviderAnswer): boolean =>
+		utxos.every(
+			(utxo) => expected.get(outpoint(utxo))?.amount_sats === utxo.amount_sats
+		) &&
+		payment.utxos.every(
+			(utxo) =>
+				!utxos.some(({ txid }) => txid === utxo.txid) ||
+				utxos.some((seen) => outpoint(seen) === outpoint(utxo))
+		)
+	const agrees = (answer: ProviderAnswer): boolean =>
+		answer.report.found &&
+		hasSameOutputs(answer) &&
+		answer.utxos.every(
+			(utxo) => expected.get(outpoint(utxo))?.block_height === utxo.block_height
+		)
+	const isLagging = ({ report }: ProviderAnswer): boolean =>
+		(report.tip_height ?? 0) < payment.block_height
+
+	const agreeing = answers.filter(({ result }) => agrees(result)).length
+	const disagreeing = answers.filter(
+		({ result }) =>
+			!hasSameOutputs(result) || !(agrees(result) || isLagging(result))
+	).length
+
+	const hold = async (
+		reason: 'provider_mismatch' | 'quorum_unavailable'
+	): Promise<QuorumStatus> => {
+		await ctx.runMutation(internal.bitcoin.mutations.holdPaymentForReview, {
+			address,
+			reason,
+			txid: payment.tx_hash,
+			amount_sats,
+			block_height: payment.block_height,
+			reports,
+		})
+		logger.audit('bitcoin_payment_held', {
+			txid: payment.tx_hash,
+			reason,
+			providers: reports.map(({ provider }) => provider).join(','),
+		})
+		return 'held'
+	}
+
+	if (disagreeing > 0) {
+		return await hold('provider_mismatch')
+	}
+
+	// The reporting provider counts towards the quorum
+	if (agreeing + 1 < quorum) {
+		logger.info(
+			`[Bitcoin] Quorum not reached for ${payment.tx_hash}: ${agreeing + 1}/${quorum} providers agree`
+		)
+		return isFinal ? await hold('quorum_unavailable') : 'waiting'
+	}
+
+	return 'agreed'
+}
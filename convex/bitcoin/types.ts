@@ -4,6 +4,8 @@
  * Type definitions, constants, and type guards for Bitcoin payment processing.
  */
 
+import type { BitcoinUtxo } from '../schema.ts'
+
 // Bitcoin Constants
 export const satoshiToBtc = 100_000_000 as const
 export const btcAmountTolerance = 0.00001 as const
@@ -14,9 +16,26 @@ export const bitcoinConfirmations = {
 	testnet: 6,
 } as const
 
+// Payment Window Configuration
+// A payment detected before its window closed gets this much longer to confirm
+export const bitcoinConfirmationGraceMs = 86_400_000 as const // 24 hours
+
 // Exchange Rate Cache Configuration
 export const exchangeRateCacheMs = 300_000 as const // 5 minutes
 
+// Network Fee Estimate Configuration
+export const networkFeeCacheMs = 300_000 as const // 5 minutes
+// Size of the native SegWit (P2WPKH) input that later spends a donation's output
+export const segwitInputVbytes = 68 as const
+
+// Lightning Invoice Configuration
+export const lightningInvoiceExpirySeconds = 900 as const // 15 minutes
+export const lightningPollIntervalMs = 5000 as const
+// An expired invoice is only marked expired after a successful lookup - while
+// the node is unreachable it's retried this often, for up to this long
+export const lightningLookupRetryMs = 60_000 as const
+export const lightningLookupRetryWindowMs = 86_400_000 as const // 24 hours
+
 // Bitcoin Action Return Types
 export type GenerateBitcoinAddressResult = {
 	readonly address: string
@@ -26,6 +45,15 @@ export type GenerateBitcoinAddressResult = {
 	readonly derivation_index: number
 }
 
+export type GenerateLightningInvoiceResult = {
+	readonly payment_request: string
+	readonly payment_hash: string
+	readonly amount_sats: number
+	readonly amount_usd: number
+	readonly exchange_rate: number
+	readonly expires_at: number
+}
+
 // Public-facing Bitcoin payment check result (returned from checkBitcoinPayment action)
 // Discriminated union representing payment states visible to frontend
 export type CheckBitcoinPaymentResult =
@@ -36,6 +64,9 @@ export type CheckBitcoinPaymentResult =
 			readonly amount_btc: number | undefined
 			readonly confirmations: number
 			readonly required_confirmations: number
+			readonly held?: boolean // Confirmed, but held for an admin's review
+			readonly verifying?: boolean // Confirmed, waiting for enough providers to agree
+			readonly remaining_btc?: number // Still to send when the transactions so far fall short
 	  }
 
 // Bitcoin Client State (persists across modal open/close)
@@ -63,23 +94,21 @@ export type BlockchainPaymentResult =
 	| { readonly status: 'no_payment' } // API succeeded, no payment detected
 	| {
 			readonly status: 'pending' // Payment detected, waiting for confirmations
-			readonly tx_hash: string
-			readonly amount_btc: number
-			readonly confirmations: number
+			readonly tx_hash: string // Newest transaction
+			readonly amount_btc: number // Total of every transaction
+			readonly confirmations: number // Of the least confirmed transaction
+			readonly utxos: readonly BitcoinUtxo[]
 	  }
 	| {
 			readonly status: 'paid' // Payment fully confirmed
 			readonly tx_hash: string
 			readonly amount_btc: number
 			readonly confirmations: number
+			readonly utxos: readonly BitcoinUtxo[]
+			readonly block_height: number // Of the newest block with a transaction
+			readonly provider: string // Provider that answered (for quorum checks)
 	  }
 
-// Shared transaction status interface
-export interface TransactionStatus {
-	readonly confirmed: boolean
-	readonly block_height?: number
-}
-
 // Type guard for validating BitcoinPaymentData from localStorage
 export function isValidBitcoinPaymentData(
 	data: unknown
@@ -0,0 +1,173 @@
+// This handles reading and creating fundraising campaigns.
+// Every donation belongs to a campaign, which sets the goal and the dates it runs.
+
+import { v } from 'convex/values'
+import { siteConfig } from '@/configs/site-config.ts'
+import { internal } from './_generated/api'
+import type { Doc } from './_generated/dataModel'
+import { internalMutation, internalQuery, query } from './_generated/server'
+import { currencyValidator } from './schema.ts'
+import { defaultCurrency, type PublicCampaign } from './types.ts'
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const backfillBatchSize = 500
+
+function toPublicCampaign(campaign: Doc<'campaigns'>): PublicCampaign {
+	return {
+		id: campaign._id,
+		slug: campaign.slug,
+		title: campaign.title,
+		description: campaign.description,
+		goal_amount: campaign.goal_amount,
+		currency: campaign.currency ?? defaultCurrency,
+		starts_at: campaign.starts_at,
+		ends_at: campaign.ends_at,
+		hero_image: campaign.hero_image,
+	}
+}
+
+// Get campaign by slug (used by / and /c/$slug route loaders)
+// Returns null when no campaign exists so routes can render a 404
+export const getBySlug = query({
+	args: {
+		slug: v.string(),
+	},
+	handler: async (ctx, { slug }) => {
+		const campaign = await ctx.db
+			.query('campaigns')
+			.withIndex('by_slug', (q) => q.eq('slug', slug))
+			.first()
+
+		return campaign ? toPublicCampaign(campaign) : null
+	},
+})
+
+// Get campaign by ID (internal - used by payment actions to validate the
+// campaign and build return URLs)
+export const getCampaignInternal = internalQuery({
+	args: {
+		campaign_id: v.id('campaigns'),
+	},
+	handler: async (ctx, { campaign_id }) => {
+		return await ctx.db.get(campaign_id)
+	},
+})
+
+// Create a new campaign
+// Internal-only: run from the Convex dashboard or CLI, e.g.
+// npx convex run campaigns:create '{"slug":"smiley","title":"...","goal_amount":12000,"starts_at":0}'
+export const create = internalMutation({
+	args: {
+		slug: v.string(),
+		title: v.string(),
+		description: v.optional(v.string()),
+		goal_amount: v.number(),
+		currency: v.optional(currencyValidator), // Defaults to USD
+		starts_at: v.number(),
+		ends_at: v.optional(v.number()),
+		hero_image: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		if (!slugPattern.test(args.slug)) {
+			throw new Error(
+				'Slug must be lowercase letters, numbers and single hyphens'
+			)
+		}
+
+		if (args.goal_amount <= 0) {
+			throw new Error('Goal amount must be greater than zero')
+		}
+
+		if (args.ends_at !== undefined && args.ends_at <= args.starts_at) {
+			throw new Error('Campaign must end after it starts')
+		}
+
+		// Slugs are used in URLs, so they must be unique
+		const existing = await ctx.db
+			.query('campaigns')
+			.withIndex('by_slug', (q) => q.eq('slug', args.slug))
+			.first()
+
+		if (existing) {
+			throw new Error(`Campaign with slug "${args.slug}" already exists`)
+		}
+
+		return await ctx.db.insert('campaigns', args)
+	},
+})
+
+// Create the default campaign from site-config.ts if it doesn't exist yet
+// Runs after every `pnpm dev:convex` push; run it once by hand on a deployment
+// upgraded from the single-campaign version, e.g.
+// npx convex run campaigns:seedDefaultCampaign
+// Also links donations made before campaigns existed to the new campaign.
+export const seedDefaultCampaign = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const existing = await ctx.db
+			.query('campaigns')
+			.withIndex('by_slug', (q) => q.eq('slug', siteConfig.defaultCampaignSlug))
+			.first()
+
+		if (existing) {
+			return { campaign_id: existing._id, created: false }
+		}
+
+		const campaign_id = await ctx.db.insert('campaigns', {
+			slug: siteConfig.defaultCampaignSlug,
+			title: siteConfig.defaultCampaignTitle,
+			goal_amount: siteConfig.defaultCampaignGoal,
+			starts_at: 0,
+			hero_image: siteConfig.defaultCampaignHeroImage,
+		})
+
+		await ctx.scheduler.runAfter(
+			0,
+			internal.campaigns.assignUnlinkedDonations,
+			{ campaign_id }
+		)
+
+		return { campaign_id, created: true }
+	},
+})
+
+// Link donations created before campaigns existed to a campaign
+// Processes one batch per call and reschedules itself until every
+// unlinked donation has a campaign_id, then rebuilds the campaign's totals.
+export const assignUnlinkedDonations = internalMutation({
+	args: {
+		campaign_id: v.id('campaigns'),
+	},
+	handler: async (ctx, { campaign_id }) => {
+		const campaign = await ctx.db.get(campaign_id)
+		if (!campaign) {
+			throw new Error('Campaign not found')
+		}
+
+		const unlinked = await ctx.db
+			.query('donations')
+			.withIndex('by_campaign', (q) => q.eq('campaign_id', undefined))
+			.take(backfillBatchSize)
+
+		for (const donation of unlinked) {
+			await ctx.db.patch(donation._id, { campaign_id })
+		}
+
+		const hasMore = unlinked.length === backfillBatchSize
+		if (hasMore) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.campaigns.assignUnlinkedDonations,
+				{ campaign_id }
+			)
+		} else {
+			// The moved donations leave the unlinked totals and join the campaign's
+			await ctx.scheduler.runAfter(0, internal.aggregates.recompute, {
+				campaign_id,
+			})
+			await ctx.scheduler.runAfter(0, internal.aggregates.recompute, {})
+		}
+
+		return { updatedCount: unlinked.length, hasMore }
+	},
+})
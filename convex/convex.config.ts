@@ -7,7 +7,7 @@ import { defineApp } from 'convex/server'
 
 const app = defineApp()
 app.use(rateLimiter) // Used for rate limiting in Bitcoin, PayPal, and Stripe actions
-app.use(actionCache) // Used for BTC exchange rate caching in bitcoin/exchange.ts
+app.use(actionCache) // Used for BTC and fiat exchange rate caching in bitcoin/exchange.ts and currency.ts
 
 // biome-ignore lint/style/noDefaultExport: Convex requires default export for config
 export default app
@@ -1,4 +1,4 @@
-// This schedules automatic cleanup tasks that run every hour.
+// This schedules automatic cleanup tasks, webhook recovery, the payment reconciliation job and fee tracking.
 // It removes old expired payments to keep the database tidy.
 
 import { cronJobs } from 'convex/server'
@@ -14,6 +14,7 @@ const crons = cronJobs()
 // - Mark pending payments as 'expired' after 24 hours
 // - Delete confirmed payments (donation already recorded in donations table)
 // - Delete old expired payments after 7 days
+// - Delete Lightning invoices 7 days after they expired
 // This prevents database bloat while maintaining audit trail in donations table.
 // Schedule: Every hour at :30 minutes
 crons.hourly(
@@ -34,5 +35,42 @@ crons.hourly(
 	internal.paypal.mutations.cleanupOldPaymentIdMappings
 )
 
+// Clean up Stripe checkouts that were waiting on a bank debit
+// Runs daily - rows older than 30 days are deleted (debits settle within 14).
+crons.daily(
+	'cleanup-old-pending-checkouts',
+	{ hourUTC: 4, minuteUTC: 15 },
+	internal.stripe.mutations.cleanupOldPendingCheckouts
+)
+
+// Reconcile Stripe and PayPal payments against the donations table
+// Runs every 6 hours over the last 3 days, so each payment is checked several
+// times - discrepancies that resolve themselves (late webhooks) are cleared.
+// Results show up in the admin dashboard at /admin/reconciliation.
+crons.interval(
+	'reconcile-payments',
+	{ hours: 6 },
+	internal.reconciliation.actions.reconcilePayments
+)
+
+// Record the actual processing fee of recent donations (net totals in /admin)
+// Runs every 30 minutes over the last 7 days - donations whose fee isn't
+// available yet (bank debits, held PayPal captures) are picked up by a later run.
+crons.interval(
+	'record-processing-fees',
+	{ minutes: 30 },
+	internal.reconciliation.fees.recordProcessingFees,
+	{}
+)
+
+// Retry webhook processing jobs that died mid-run
+// Failed attempts already reschedule themselves - this catches jobs that never
+// reported back (action timeout, deploy), counting each as a failed attempt.
+crons.interval(
+	'recover-stalled-webhook-events',
+	{ minutes: 15 },
+	internal.webhooks.mutations.recoverStalledWebhookEvents
+)
+
 // biome-ignore lint/style/noDefaultExport: Convex requires default export for crons configuration
 export default crons
@@ -0,0 +1,137 @@
+// This converts donations paid in EUR, GBP, CAD or AUD into the campaign's currency.
+// Rates come from the ECB reference rates (via Frankfurter) and are cached for an hour.
+
+import { ActionCache } from '@convex-dev/action-cache'
+import { v } from 'convex/values'
+import { fetchWithTimeout } from '@/libs/bitcoin/blockchain-api.ts'
+import { logger } from '@/utils/logger.ts'
+import { components, internal } from './_generated/api'
+import type { Id } from './_generated/dataModel'
+import { type ActionCtx, internalAction } from './_generated/server'
+import { currencyValidator } from './schema.ts'
+import {
+	type Currency,
+	defaultCurrency,
+	isSupportedCurrency,
+	supportedCurrencies,
+} from './types.ts'
+
+const fxRateCacheMs = 3_600_000 // 1 hour - reference rates only update once a day
+
+type FxRates = Partial<Record<Currency, number>>
+
+type FxRateApi = {
+	readonly name: string
+	readonly url: (base: Currency) => string
+	readonly extractRates: (data: unknown) => Record<string, number> | undefined
+}
+
+// Tried in order - the second source only covers outages of the first
+const fxRateApis = [
+	{
+		name: 'Frankfurter',
+		url: (base: Currency) =>
+			`https://api.frankfurter.app/latest?from=${base}&to=${supportedCurrencies.filter((currency) => currency !== base).join(',')}`,
+		extractRates: (data: unknown) =>
+			(data as { rates?: Record<string, number> }).rates,
+	},
+	{
+		name: 'ExchangeRate-API',
+		url: (base: Currency) => `https://open.er-api.com/v6/latest/${base}`,
+		extractRates: (data: unknown) =>
+			(data as { rates?: Record<string, number> }).rates,
+	},
+] as const satisfies readonly FxRateApi[]
+
+// Internal action: fetch rates from `base` to every other supported currency
+export const fetchFxRatesInternal = internalAction({
+	args: {
+		base: currencyValidator,
+	},
+	handler: async (_ctx, { base }): Promise<FxRates> => {
+		for (const { name, url, extractRates } of fxRateApis) {
+			try {
+				const response = await fetchWithTimeout(url(base), 5000)
+				if (!response.ok) {
+					continue
+				}
+
+				const rates = extractRates(await response.json())
+				if (!rates) {
+					continue
+				}
+
+				const supported: FxRates = {}
+				for (const [currency, rate] of Object.entries(rates)) {
+					if (isSupportedCurrency(currency) && rate > 0) {
+						supported[currency] = rate
+					}
+				}
+				return supported
+			} catch (_error) {
+				logger.info(`${name} exchange rate fetch failed`)
+			}
+		}
+
+		throw new Error(`Failed to fetch ${base} exchange rates from any source`)
+	},
+})
+
+const fxRateCache = new ActionCache(components.actionCache, {
+	action: internal.currency.fetchFxRatesInternal,
+	name: 'fx_rates',
+	ttl: fxRateCacheMs,
+})
+
+// Convert an amount between supported currencies using the cached rates
+export async function convertCurrency(
+	ctx: ActionCtx,
+	amount: number,
+	from: Currency,
+	to: Currency
+): Promise<number> {
+	if (from === to) {
+		return amount
+	}
+
+	const rates = await fxRateCache.fetch(ctx, { base: from })
+	const rate = rates[to]
+	if (rate === undefined) {
+		throw new Error(`No exchange rate available for ${from} → ${to}`)
+	}
+	return amount * rate
+}
+
+// Amount fields for a new donation: what the donor paid plus the same amount
+// in the campaign's currency, which is what goals and totals are counted in
+export async function getDonationAmounts(
+	ctx: ActionCtx,
+	{
+		amount,
+		currency,
+		campaign_id,
+	}: {
+		amount: number
+		currency: Currency
+		campaign_id: Id<'campaigns'> | undefined
+	}
+): Promise<{
+	amount: number
+	currency: Currency
+	original_amount: number
+	original_currency: Currency
+}> {
+	const campaign = campaign_id
+		? await ctx.runQuery(internal.campaigns.getCampaignInternal, {
+				campaign_id,
+			})
+		: null
+	const campaignCurrency = campaign?.currency ?? defaultCurrency
+
+	return {
+		amount: await convertCurrency(ctx, amount, currency, campaignCurrency),
+		currency: campaignCurrency,
+		original_amount: amount,
+		original_currency: currency,
+	}
+}
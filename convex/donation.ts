@@ -4,27 +4,55 @@
 import { paginationOptsValidator } from 'convex/server'
 import { v } from 'convex/values'
 import { logger } from '@/utils/logger'
-import { mutation, query } from './_generated/server'
+import { internalMutation, query } from './_generated/server'
+import {
+	addDonationToAggregate,
+	getAggregate,
+	removeDonationFromAggregate,
+	updateDonationNetInAggregate,
+} from './aggregates.ts'
+import { upsertDonor } from './donors.ts'
+import { getCoveredFeeAmounts } from './fees.ts'
+import { getInitialMessageModeration, isMessageApproved } from './moderation.ts'
+import { scheduleReceipt } from './receipts/mutations.ts'
+import { currencyValidator, donationStatusValidator } from './schema.ts'
 import type { PublicDonation } from './types'
-import { validateDisplayName, validateMessage } from './types.ts' // Get total donations amount
-// Calculates directly from donations table (single source of truth)
-// Collect() should be fine here since we're not pulling from thousands of records
+import {
+	isActiveDonation,
+	validateDisplayName,
+	validateEmail,
+	validateMessage,
+} from './types.ts'
+
+// Get total donations amount for a campaign
+// Reads the stored aggregate, kept up to date by every donation insert/refund
+// Rebuild with internal.aggregates.recompute if it ever drifts
 export const getAmountTotal = query({
-	args: {},
-	handler: async (ctx) => {
-		const donations = await ctx.db.query('donations').collect()
-		return donations.reduce((sum, donation) => sum + donation.amount, 0)
+	args: {
+		campaign_id: v.id('campaigns'),
+	},
+	handler: async (ctx, { campaign_id }) => {
+		const aggregate = await getAggregate(ctx, campaign_id)
+		return aggregate?.total ?? 0
 	},
 })
 
-// Get paginated list of donors
+// Get paginated list of donors for a campaign
 export const getDonorList = query({
 	args: {
+		campaign_id: v.id('campaigns'),
 		paginationOpts: paginationOptsValidator,
 	},
 	handler: async (ctx, args) => {
 		const result = await ctx.db
 			.query('donations')
+			.withIndex('by_campaign', (q) => q.eq('campaign_id', args.campaign_id))
+			.filter((q) =>
+				q.or(
+					q.eq(q.field('status'), undefined),
+					q.eq(q.field('status'), 'active')
+				)
+			)
 			.order('desc')
 			.paginate(args.paginationOpts)
 
@@ -35,6 +63,8 @@ export const getDonorList = query({
 					id: donation._id,
 					display_name: donation.display_name || 'Anonymous',
 					amount: donation.amount,
+					message: isMessageApproved(donation) ? donation.message : undefined,
+					created_at: donation._creationTime,
 				})
 			),
 		}
@@ -47,17 +77,34 @@ export const getDonationByPaymentId = query({
 		payment_id: v.string(),
 	},
 	handler: async (ctx, { payment_id }) => {
-		return await ctx.db
+		const donation = await ctx.db
 			.query('donations')
 			.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
 			.first()
+
+		if (!donation) {
+			return null
+		}
+
+		// Payment IDs can be public (Bitcoin addresses are on-chain), so only
+		// approved messages are returned - the success page shows the review state instead
+		return {
+			...donation,
+			message: isMessageApproved(donation) ? donation.message : undefined,
+			message_flags: undefined,
+			donor_email: undefined,
+			donor_id: undefined,
+		}
 	},
 })
 
-// Create a new donation record
-export const create = mutation({
+// Create a new donation record (internal only - called by the payment webhooks)
+export const create = internalMutation({
 	args: {
-		amount: v.number(),
+		amount: v.number(), // In the campaign's currency
+		currency: v.optional(currencyValidator),
+		original_amount: v.optional(v.number()),
+		original_currency: v.optional(currencyValidator),
 		display_name: v.string(),
 		payment_id: v.string(),
 		payment_method: v.union(
@@ -66,10 +113,21 @@ export const create = mutation({
 			v.literal('bitcoin')
 		),
 		message: v.optional(v.string()),
+		// Optional so checkouts started before campaigns existed still record
+		campaign_id: v.optional(v.id('campaigns')),
+		subscription_id: v.optional(v.string()),
+		donor_email: v.optional(v.string()), // Receipt address from Stripe/PayPal
+		donor_name: v.optional(v.string()), // Payer name, kept on the donor for statements
+		// Only active donations are counted and receipted - pending ones wait
+		// for settlePendingDonation
+		status: v.optional(donationStatusValidator),
+		capture_status: v.optional(v.string()), // PayPal capture status
+		fee_covered: v.optional(v.number()), // In original_currency, from the payment metadata
 	},
 	handler: async (ctx, args) => {
 		// Validate display name length before processing
 		validateDisplayName(args.display_name)
+		validateEmail(args.donor_email)
 
 		// Validate message if provided
 		if (args.message) {
@@ -88,14 +146,227 @@ export const create = mutation({
 		}
 
 		// Create donation record with data
+		// Messages wait for admin review before they can be shown publicly
 		const donationId = await ctx.db.insert('donations', {
 			amount: args.amount,
+			currency: args.currency,
+			original_amount: args.original_amount,
+			original_currency: args.original_currency,
 			display_name: args.display_name,
 			payment_id: args.payment_id,
 			payment_method: args.payment_method,
 			message: args.message,
+			...getInitialMessageModeration(args.message),
+			campaign_id: args.campaign_id,
+			subscription_id: args.subscription_id,
+			donor_email: args.donor_email,
+			donor_id: args.donor_email
+				? await upsertDonor(ctx, {
+						email: args.donor_email,
+						name: args.donor_name,
+					})
+				: undefined,
+			status: args.status ?? 'active',
+			capture_status: args.capture_status,
+			...getCoveredFeeAmounts(args, args.fee_covered),
 		})
 
+		const donation = await ctx.db.get(donationId)
+		if (donation && isActiveDonation(donation)) {
+			await addDonationToAggregate(ctx, donation)
+			await scheduleReceipt(ctx, donation)
+		}
+
 		return donationId
 	},
 })
+
+// Record the processing fee the processor reported for a donation
+// fee_amount is already in the campaign's currency. Bitcoin network fees are
+// paid by the sender on top of what arrived, so they're recorded but not deducted
+export const recordFee = internalMutation({
+	args: {
+		payment_id: v.string(),
+		fee_amount: v.number(),
+	},
+	handler: async (ctx, { payment_id, fee_amount }) => {
+		const donation = await ctx.db
+			.query('donations')
+			.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+			.first()
+
+		if (!donation) {
+			logger.warn('Fee received for unknown donation:', payment_id)
+			return null
+		}
+
+		const net_amount =
+			donation.payment_method === 'bitcoin'
+				? donation.amount
+				: Math.max(donation.amount - fee_amount, 0)
+
+		await updateDonationNetInAggregate(ctx, donation, net_amount)
+		await ctx.db.patch(donation._id, { fee_amount, net_amount })
+		return donation._id
+	},
+})
+
+// Record a refund against a donation (Stripe charge.refunded, PayPal PAYMENT.CAPTURE.REFUNDED)
+// refunded_amount is the cumulative total refunded so far, so replayed
+// webhooks and multiple partial refunds always converge on the same state
+export const recordRefund = internalMutation({
+	args: {
+		payment_id: v.string(),
+		refunded_amount: v.number(), // Cumulative, in the currency the donor paid in
+	},
+	handler: async (ctx, { payment_id, refunded_amount }) => {
+		const donation = await ctx.db
+			.query('donations')
+			.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+			.first()
+
+		if (!donation) {
+			logger.warn('Refund received for unknown donation:', payment_id)
+			return null
+		}
+
+		// A chargeback takes precedence - the dispute outcome decides the money
+		if (donation.status === 'disputed') {
+			return donation._id
+		}
+
+		// Providers report refunds in the currency the donor paid in, so scale
+		// by the donation's own conversion rate to keep it comparable to amount
+		const paidAmount = donation.original_amount ?? donation.amount
+		const normalizedRefund = (refunded_amount / paidAmount) * donation.amount
+
+		await ctx.db.patch(donation._id, {
+			status: refunded_amount >= paidAmount ? 'refunded' : 'partially_refunded',
+			refunded_amount: normalizedRefund,
+		})
+
+		// Only the first refund changes the totals - later ones just update the amount
+		if (isActiveDonation(donation)) {
+			await removeDonationFromAggregate(ctx, donation)
+		}
+
+		logger.audit('donation_refunded', {
+			amount: normalizedRefund,
+			payment_method: donation.payment_method,
+		})
+
+		return donation._id
+	},
+})
+
+// Mark a donation as disputed (Stripe charge.dispute.created, PayPal PAYMENT.CAPTURE.REVERSED)
+export const markDisputed = internalMutation({
+	args: {
+		payment_id: v.string(),
+	},
+	handler: async (ctx, { payment_id }) => {
+		const donation = await ctx.db
+			.query('donations')
+			.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+			.first()
+
+		if (!donation) {
+			logger.warn('Dispute received for unknown donation:', payment_id)
+			return null
+		}
+
+		await ctx.db.patch(donation._id, { status: 'disputed' })
+
+		if (isActiveDonation(donation)) {
+			await removeDonationFromAggregate(ctx, donation)
+		}
+
+		logger.audit('donation_disputed', {
+			amount: donation.amount,
+			payment_method: donation.payment_method,
+		})
+
+		return donation._id
+	},
+})
+
+// Settle a pending donation once the payment clears or fails
+// (PayPal PAYMENT.CAPTURE.COMPLETED / PAYMENT.CAPTURE.DENIED)
+// Only the first settlement changes anything, so replayed webhooks are harmless
+// Throws when one of our captures has no donation yet, so the webhook queue retries
+// the event - returns null for captures that never get one (declined at capture
+// time, or not created by createOrder)
+export const settlePendingDonation = internalMutation({
+	args: {
+		payment_id: v.string(),
+		outcome: v.union(v.literal('completed'), v.literal('denied')),
+		capture_status: v.optional(v.string()),
+		order_id: v.optional(v.string()),
+		expects_donation: v.boolean(), // A completed capture of an order from createOrder
+	},
+	handler: async (
+		ctx,
+		{ payment_id, outcome, capture_status, order_id, expects_donation }
+	) => {
+		const donation = await ctx.db
+			.query('donations')
+			.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+			.first()
+
+		if (!donation) {
+			// The order ID mapping is stored before the donation, so it marks a
+			// capture whose donation is still being recorded
+			const mapping = order_id
+				? await ctx.db
+						.query('payment_id_mappings')
+						.withIndex('by_source_id', (q) => q.eq('source_id', order_id))
+						.first()
+				: null
+
+			if (expects_donation || mapping?.donation_payment_id === payment_id) {
+				throw new Error(
+					`Settlement received for unknown donation: ${payment_id}`
+				)
+			}
+
+			logger.warn('Settlement received for a capture with no donation', {
+				payment_id,
+				outcome,
+			})
+			return null
+		}
+
+		if (donation.status !== 'pending') {
+			if (outcome === 'denied') {
+				logger.warn('Payment denied for a donation that is not pending', {
+					payment_id,
+					status: donation.status,
+				})
+			}
+			return donation._id
+		}
+
+		if (outcome === 'denied') {
+			await ctx.db.patch(donation._id, { status: 'voided', capture_status })
+			logger.audit('donation_voided', {
+				amount: donation.amount,
+				payment_method: donation.payment_method,
+			})
+			return donation._id
+		}
+
+		await ctx.db.patch(donation._id, { status: 'active', capture_status })
+		const settled = await ctx.db.get(donation._id)
+		if (settled) {
+			await addDonationToAggregate(ctx, settled)
+			await scheduleReceipt(ctx, settled)
+		}
+
+		logger.audit('donation_settled', {
+			amount: donation.amount,
+			payment_method: donation.payment_method,
+		})
+
+		return donation._id
+	},
+})
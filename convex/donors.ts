@@ -0,0 +1,69 @@
+// This keeps one donor record per email address and links donations to it.
+// Donors only exist when we know an email (Stripe/PayPal payer email or a Bitcoin receipt opt-in).
+
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import type { Id } from './_generated/dataModel'
+import { internalMutation, type MutationCtx } from './_generated/server'
+
+const backfillBatchSize = 500
+
+export function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase()
+}
+
+// Find or create the donor for an email, refreshing the name when a processor provides one
+export async function upsertDonor(
+	ctx: MutationCtx,
+	{ email, name }: { email: string; name: string | undefined }
+): Promise<Id<'donors'>> {
+	const normalized = normalizeEmail(email)
+	const existing = await ctx.db
+		.query('donors')
+		.withIndex('by_email', (q) => q.eq('email', normalized))
+		.first()
+
+	if (!existing) {
+		return await ctx.db.insert('donors', { email: normalized, name })
+	}
+
+	if (name && name !== existing.name) {
+		await ctx.db.patch(existing._id, { name })
+	}
+	return existing._id
+}
+
+// Link donations that have an email but no donor yet (stored before donors existed)
+// Run once after upgrading: npx convex run donors:linkDonations
+// Processes one batch per call and reschedules itself until done.
+export const linkDonations = internalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, { cursor }) => {
+		const result = await ctx.db
+			.query('donations')
+			.withIndex('by_donor', (q) => q.eq('donor_id', undefined))
+			.paginate({ numItems: backfillBatchSize, cursor: cursor ?? null })
+
+		let linkedCount = 0
+		for (const donation of result.page) {
+			if (donation.donor_email) {
+				const donor_id = await upsertDonor(ctx, {
+					email: donation.donor_email,
+					name: undefined,
+				})
+				await ctx.db.patch(donation._id, { donor_id })
+				linkedCount++
+			}
+		}
+
+		if (!result.isDone) {
+			await ctx.scheduler.runAfter(0, internal.donors.linkDonations, {
+				cursor: result.continueCursor,
+			})
+		}
+
+		return { linkedCount, isDone: result.isDone }
+	},
+})
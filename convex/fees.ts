@@ -0,0 +1,85 @@
+// This works out the extra a donor adds when they choose to cover the processing fees.
+// Shared by the donate form (to show the total) and the payment actions and donation mutations (to check and store it).
+
+import { processingFees } from '@/configs/donate-config.ts'
+import type { Currency, PaymentMethod } from './types.ts'
+
+function roundToCents(value: number): number {
+	return Math.round(value * 100) / 100
+}
+
+// The epsilon keeps float noise (10.3 / 0.971 * 100) from adding a cent
+function roundUpToCents(value: number): number {
+	return Math.ceil(value * 100 - 1e-6) / 100
+}
+
+// Fee to add so the campaign still receives `amount` after the processor's cut
+// Card processors take a percentage of the whole charge plus a fixed fee, so the
+// total is grossed up: total = (amount + fixed) / (1 - percent), rounded up to the cent
+// Bitcoin has no processor - the donor covers the network fee estimate (in USD)
+export function calculateCoveredFee(
+	amount: number,
+	method: PaymentMethod,
+	currency: Currency,
+	bitcoinNetworkFee = 0
+): number {
+	if (method === 'bitcoin') {
+		return roundUpToCents(bitcoinNetworkFee)
+	}
+
+	const { percent, fixed } = processingFees[method]
+	const total = roundUpToCents((amount + fixed[currency]) / (1 - percent))
+	return roundToCents(total - amount)
+}
+
+// Throws unless fee_covered is the fee calculateCoveredFee gives for the rest of the amount
+// Bitcoin fee rates move between the quote and the address, so up to twice the
+// current estimate is accepted there
+export function validateCoveredFee(
+	amount: number,
+	feeCovered: number | undefined,
+	method: PaymentMethod,
+	currency: Currency,
+	bitcoinNetworkFee = 0
+): void {
+	if (feeCovered === undefined) {
+		return
+	}
+	if (!Number.isFinite(feeCovered) || feeCovered <= 0 || feeCovered >= amount) {
+		throw new Error('Invalid covered fee')
+	}
+
+	if (method === 'bitcoin') {
+		if (
+			feeCovered >
+			calculateCoveredFee(amount, method, currency, bitcoinNetworkFee * 2)
+		) {
+			throw new Error('Covered fee does not match the network fee estimate')
+		}
+		return
+	}
+
+	const expected = calculateCoveredFee(
+		roundToCents(amount - feeCovered),
+		method,
+		currency
+	)
+	if (Math.abs(expected - feeCovered) > 0.015) {
+		throw new Error('Covered fee does not match the processing fee')
+	}
+}
+
+// The covered fee and what's left for the campaign, in the campaign's currency
+// like amount - fee_covered arrives in the currency the donor paid in
+export function getCoveredFeeAmounts(
+	{ amount, original_amount }: { amount: number; original_amount?: number },
+	feeCovered: number | undefined
+): { fee_covered?: number; net_amount?: number } {
+	if (!feeCovered) {
+		return {}
+	}
+
+	const paidAmount = original_amount ?? amount
+	const fee_covered = Math.min((feeCovered / paidAmount) * amount, amount)
+	return { fee_covered, net_amount: amount - fee_covered }
+}
@@ -1,13 +1,53 @@
-// This handles incoming webhook requests from Stripe and PayPal.
+// This handles incoming webhook requests from Stripe and PayPal, plus the admin donations export.
 // Imagine this in the same way you'd use next/api/webhooks.
 
 import { httpRouter } from 'convex/server'
 import { logger } from '@/utils/logger'
 import { api } from './_generated/api'
-import { httpAction } from './_generated/server'
+import { type ActionCtx, httpAction } from './_generated/server'
+import { isAdminToken } from './admin/auth.ts'
+import {
+	type ExportFilters,
+	type ExportFormat,
+	streamDonationExport,
+} from './admin/export.ts'
+import type { PaymentMethod } from './types.ts'
 
 const http = httpRouter()
 
+const bearerPattern = /^Bearer\s+(.+)$/i
+const dateOnlyPattern = /^\d{4}-\d{2}-\d{2}$/
+const exportFormats = ['csv', 'json'] as const satisfies readonly ExportFormat[]
+const exportPaymentMethods = [
+	'stripe',
+	'paypal',
+	'bitcoin',
+] as const satisfies readonly PaymentMethod[]
+const dayMs = 86_400_000
+
+function jsonError(error: string, status: number): Response {
+	return new Response(JSON.stringify({ error }), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	})
+}
+
+// Accepts YYYY-MM-DD (UTC) or a full ISO timestamp
+// A date-only `to` covers that whole day, so from=2025-01-01&to=2025-01-31 is all of January
+function parseExportDate(
+	value: string | null,
+	bound: 'from' | 'to'
+): number | undefined | null {
+	if (!value) {
+		return undefined
+	}
+	const time = Date.parse(value)
+	if (Number.isNaN(time)) {
+		return null
+	}
+	return bound === 'to' && dateOnlyPattern.test(value) ? time + dayMs : time
+}
+
 // Stripe webhook endpoint
 // Receives webhook events from Stripe and verifies the signature
 // before processing the event.
@@ -112,5 +152,71 @@ http.route({
 	}),
 })
 
+// Admin donations export for accounting
+// GET /admin/export?format=csv|json&from=YYYY-MM-DD&to=YYYY-MM-DD&payment_method=stripe|paypal|bitcoin
+// Authenticate with the admin token: `Authorization: Bearer <ADMIN_TOKEN>`
+// Nothing is awaited here - the export is read as the response streams
+function exportDonations(ctx: ActionCtx, request: Request): Response {
+	// Header only - a token in the URL would end up in access logs
+	const token = request.headers.get('authorization')?.match(bearerPattern)?.[1]
+	if (!(token && isAdminToken(token))) {
+		return jsonError('Unauthorized', 401)
+	}
+
+	const params = new URL(request.url).searchParams
+	const format = params.get('format') ?? 'csv'
+	if (!exportFormats.some((supported) => supported === format)) {
+		return jsonError('format must be csv or json', 400)
+	}
+
+	const paymentMethod = params.get('payment_method')
+	const payment_method = exportPaymentMethods.find(
+		(method) => method === paymentMethod
+	)
+	if (paymentMethod && !payment_method) {
+		return jsonError('payment_method must be stripe, paypal or bitcoin', 400)
+	}
+
+	const from = parseExportDate(params.get('from'), 'from')
+	const to = parseExportDate(params.get('to'), 'to')
+	if (from === null || to === null) {
+		return jsonError('from and to must be dates (YYYY-MM-DD)', 400)
+	}
+
+	const filters: ExportFilters = { from, to, payment_method }
+	const exportFormat = format as ExportFormat
+	// Built from the parsed values so nothing from the query string reaches the header
+	const filename = [
+		'donations',
+		from === undefined ? undefined : new Date(from).toISOString().slice(0, 10),
+		to === undefined ? undefined : new Date(to - 1).toISOString().slice(0, 10),
+		payment_method,
+	]
+		.filter(Boolean)
+		.join('-')
+
+	logger.audit('donations_exported', { format, ...filters })
+
+	return new Response(streamDonationExport(ctx, exportFormat, filters), {
+		status: 200,
+		headers: {
+			'Content-Type':
+				exportFormat === 'csv'
+					? 'text/csv; charset=utf-8'
+					: 'application/json; charset=utf-8',
+			'Content-Disposition': `attachment; filename="${filename}.${exportFormat}"`,
+			'Cache-Control': 'no-store',
+		},
+	})
+}
+
+http.route({
+	path: '/admin/export',
+	method: 'GET',
+	handler: httpAction((ctx, request) =>
+		Promise.resolve(exportDonations(ctx, request))
+	),
+})
+
 // biome-ignore lint/style/noDefaultExport: Convex requires default export for HTTP router
 export default http
@@ -0,0 +1,112 @@
+// This screens donor messages before they are stored.
+// Every message starts as pending_review; the filters below only pre-flag the ones worth a closer look.
+
+import { v } from 'convex/values'
+import { messageModeration } from '@/configs/moderation-config.ts'
+import { internal } from './_generated/api'
+import type { Doc } from './_generated/dataModel'
+import { internalMutation } from './_generated/server'
+
+const backfillBatchSize = 500
+
+export type MessageFlag = 'profanity' | 'url' | 'spam'
+
+const urlPattern =
+	/(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|gg|xyz|ru|cn|info|biz|link|ly)\b/i
+const blockedWordPattern = new RegExp(
+	`\\b(${messageModeration.blockedWords.join('|')})\\b`,
+	'i'
+)
+const repeatedCharacterPattern = new RegExp(
+	`(.)\\1{${messageModeration.maxRepeatedCharacters - 1},}`
+)
+const letterPattern = /\p{L}/gu
+const uppercasePattern = /\p{Lu}/gu
+
+function isShouting(message: string): boolean {
+	const letters = message.match(letterPattern)?.length ?? 0
+	if (letters < messageModeration.minLettersForUppercaseCheck) {
+		return false
+	}
+	const uppercase = message.match(uppercasePattern)?.length ?? 0
+	return uppercase / letters > messageModeration.maxUppercaseRatio
+}
+
+// Reasons a message should get extra attention in the admin queue
+export function flagMessage(message: string): MessageFlag[] {
+	const flags: MessageFlag[] = []
+
+	if (blockedWordPattern.test(message)) {
+		flags.push('profanity')
+	}
+	if (urlPattern.test(message)) {
+		flags.push('url')
+	}
+	if (repeatedCharacterPattern.test(message) || isShouting(message)) {
+		flags.push('spam')
+	}
+
+	return flags
+}
+
+// Moderation fields to store alongside a new donation's message
+// Donations without a message get no moderation state at all
+export function getInitialMessageModeration(
+	message: string | undefined
+): Pick<Doc<'donations'>, 'message_status' | 'message_flags'> {
+	if (!message) {
+		return {}
+	}
+
+	const flags = flagMessage(message)
+	return {
+		message_status: 'pending_review',
+		message_flags: flags.length > 0 ? flags : undefined,
+	}
+}
+
+// Messages are only ever shown publicly after an admin approves them
+// Rows from before moderation existed have no status and stay hidden until reviewed
+export function isMessageApproved(
+	donation: Pick<Doc<'donations'>, 'message_status'>
+): boolean {
+	return donation.message_status === 'approved'
+}
+
+// Put messages stored before moderation existed into the review queue
+// Run once after upgrading: npx convex run moderation:queueUnreviewedMessages
+// Processes one batch per call and reschedules itself until done.
+export const queueUnreviewedMessages = internalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, { cursor }) => {
+		const result = await ctx.db
+			.query('donations')
+			.withIndex('by_message_status', (q) => q.eq('message_status', undefined))
+			.paginate({ numItems: backfillBatchSize, cursor: cursor ?? null })
+
+		let queuedCount = 0
+		for (const donation of result.page) {
+			if (donation.message) {
+				await ctx.db.patch(
+					donation._id,
+					getInitialMessageModeration(donation.message)
+				)
+				queuedCount++
+			}
+		}
+
+		if (!result.isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.moderation.queueUnreviewedMessages,
+				{
+					cursor: result.continueCursor,
+				}
+			)
+		}
+
+		return { queuedCount, isDone: result.isDone }
+	},
+})
@@ -9,11 +9,18 @@ import { v } from 'convex/values'
 import { siteConfig } from '@/configs/site-config.ts'
 import { env } from '@/env.ts'
 import { ordersController } from '@/libs/paypal/get-paypal.ts'
+import { getCampaignPath } from '@/utils/campaign-path.ts'
 import { logger } from '@/utils/logger'
-import { components } from '../_generated/api'
+import { components, internal } from '../_generated/api'
 import { action } from '../_generated/server'
-import { paymentMetadataValidator } from '../schema.ts'
-import { validateDonationAmount } from '../types.ts'
+import { validateCoveredFee } from '../fees.ts'
+import { currencyValidator, paymentMetadataValidator } from '../schema.ts'
+import {
+	defaultCurrency,
+	validateCampaignOpen,
+	validateDonationAmount,
+} from '../types.ts'
+import { captureAndRecordOrder } from './capture.ts'
 
 // Initialize rate limiter for order creation
 const rateLimiter = new RateLimiter(components.rateLimiter, {
@@ -29,11 +36,27 @@ const rateLimiter = new RateLimiter(components.rateLimiter, {
 export const createOrder = action({
 	args: {
 		amount: v.number(),
+		currency: v.optional(currencyValidator), // Defaults to USD
+		campaign_id: v.id('campaigns'),
 		metadata: paymentMetadataValidator,
 	},
-	handler: async (ctx, { amount, metadata }) => {
+	handler: async (
+		ctx,
+		{ amount, currency = defaultCurrency, campaign_id, metadata }
+	) => {
 		// Validate donation amount using consistent validator
-		validateDonationAmount(amount)
+		validateDonationAmount(amount, currency)
+		validateCoveredFee(amount, metadata?.fee_covered, 'paypal', currency)
+
+		const campaign = await ctx.runQuery(
+			internal.campaigns.getCampaignInternal,
+			{ campaign_id }
+		)
+		if (!campaign) {
+			throw new Error('Campaign not found')
+		}
+		validateCampaignOpen(campaign, Date.now())
+		const campaignPath = getCampaignPath(campaign.slug)
 
 		// Rate limit order creation (global limit to prevent abuse)
 		await rateLimiter.limit(ctx, 'createOrder', { key: 'global' })
@@ -45,7 +68,7 @@ export const createOrder = action({
 					purchaseUnits: [
 						{
 							amount: {
-								currencyCode: 'USD',
+								currencyCode: currency,
 								value: amount.toFixed(2),
 							},
 							description: metadata?.use_player_name
@@ -55,7 +78,10 @@ export const createOrder = action({
 								player_name: metadata?.player_name || '',
 								use_player_name: metadata?.use_player_name || false,
 								message: metadata?.message || '',
+								fee_covered: metadata?.fee_covered,
 								amount: amount,
+								currency,
+								campaign_id,
 							}),
 						},
 					],
@@ -63,8 +89,8 @@ export const createOrder = action({
 						paypal: {
 							experienceContext: {
 								brandName: siteConfig.siteTitle,
-								returnUrl: `${env.SITE_URL}/success`,
-								cancelUrl: `${env.SITE_URL}/donate`,
+								returnUrl: `${env.SITE_URL}${campaignPath}/success`,
+								cancelUrl: `${env.SITE_URL}${campaignPath}/donate`,
 							},
 						},
 					},
@@ -86,6 +112,9 @@ export const createOrder = action({
 			return {
 				orderId: result.id,
 				approvalUrl: approvalUrl || null,
+				// The in-page PayPal Buttons load the JS SDK with the (public) client ID
+				clientId: env.PAYPAL_CLIENT_ID,
+				successUrl: `${env.SITE_URL}${campaignPath}/success`,
 			}
 		} catch (error) {
 			logger.error('PayPal order creation error:', error)
@@ -93,3 +122,33 @@ export const createOrder = action({
 		}
 	},
 })
+
+// Called by the in-page PayPal Buttons when the donor approves the order
+// The CHECKOUT.ORDER.APPROVED webhook captures the same order - whichever runs
+// first captures it, the other gets the same capture ID back (see capture.ts)
+// Not rate limited: only orders a payer approved can be captured, and creating
+// those is limited above
+export const captureOrder = action({
+	args: { orderId: v.string() },
+	handler: async (
+		ctx,
+		{ orderId }
+	): Promise<{ captureId: string; pending: boolean }> => {
+		let outcome: Awaited<ReturnType<typeof captureAndRecordOrder>>
+		try {
+			outcome = await captureAndRecordOrder(ctx, orderId, 'buttons_capture')
+		} catch (error) {
+			logger.error('PayPal order capture error:', error)
+			throw new Error('Failed to capture PayPal order')
+		}
+
+		if (!outcome) {
+			throw new Error('PayPal payment was declined')
+		}
+
+		return {
+			captureId: outcome.captureId,
+			pending: outcome.captureStatus === 'PENDING',
+		}
+	},
+})
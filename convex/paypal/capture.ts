@@ -0,0 +1,114 @@
+// This captures an approved PayPal order and records the donation for it.
+// Shared by the CHECKOUT.ORDER.APPROVED webhook and the in-page PayPal Buttons (actions.ts captureOrder).
+
+'use node'
+
+import {
+	CaptureStatus,
+	type Order,
+	OrderStatus,
+} from '@paypal/paypal-server-sdk'
+import { ordersController } from '@/libs/paypal/get-paypal'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { ActionCtx } from '../_generated/server'
+import { getDonationAmounts } from '../currency.ts'
+import { createPayPalDonation, parsePayPalCustomId } from './donations.ts'
+
+export type PayPalCaptureOutcome = {
+	readonly captureId: string
+	readonly captureStatus: string | undefined
+}
+
+// Capture an approved order, or return the existing capture if it was already captured
+// The webhook and the Buttons' onApprove can race on the same order - both send the
+// same PayPal-Request-Id, so PayPal answers the second call with the first capture
+// instead of a second charge or an ORDER_ALREADY_CAPTURED error
+async function captureApprovedOrder(
+	order: Order,
+	orderId: string
+): Promise<Order> {
+	if (order.status === OrderStatus.Completed) {
+		return order
+	}
+
+	const { result: captureResult } = await ordersController.captureOrder({
+		id: orderId,
+		paypalRequestId: `capture-${orderId}`,
+		prefer: 'return=representation',
+	})
+	return captureResult
+}
+
+// Captures the order and creates its donation plus the order ID → capture ID mapping
+// Returns null when there is nothing to record (not created by createOrder, or declined)
+// Safe to run any number of times for the same order: the capture, the donation
+// (keyed by capture ID) and the mapping all resolve to the same records
+export async function captureAndRecordOrder(
+	ctx: ActionCtx,
+	orderId: string,
+	source: string
+): Promise<PayPalCaptureOutcome | null> {
+	const { result: order } = await ordersController.getOrder({ id: orderId })
+	const customId = order.purchaseUnits?.[0]?.customId
+	if (!customId) {
+		logger.warn('PayPal order has no custom_id', { orderId, source })
+		return null
+	}
+
+	const details = parsePayPalCustomId(customId)
+
+	// Convert before capturing, so a rate lookup failure leaves the
+	// donor uncharged instead of charged without a donation record
+	const amounts = await getDonationAmounts(ctx, {
+		amount: details.amount,
+		currency: details.currency,
+		campaign_id: details.campaign_id,
+	})
+
+	// REQUIRED - PayPal does not auto-capture intent=CAPTURE orders
+	const captureResult = await captureApprovedOrder(order, orderId)
+
+	const capture = captureResult.purchaseUnits?.[0]?.payments?.captures?.[0]
+	const captureId = capture?.id
+
+	if (!captureId) {
+		logger.error('PayPal capture response missing capture ID', {
+			orderId,
+			captureResultKeys: Object.keys(captureResult),
+			purchaseUnits: captureResult.purchaseUnits,
+		})
+		throw new Error('PayPal capture response missing capture ID')
+	}
+
+	// The donor wasn't charged - nothing to record
+	if (
+		capture.status === CaptureStatus.Declined ||
+		capture.status === CaptureStatus.Failed
+	) {
+		logger.warn('PayPal capture was not successful', {
+			orderId,
+			status: capture.status,
+			reason: capture.statusDetails?.reason,
+		})
+		return null
+	}
+
+	// Store ID mapping for success page - before the donation, so a settlement
+	// webhook that beats the donation insert knows to wait for it
+	await ctx.runMutation(internal.paypal.mutations.storePaymentIdMapping, {
+		order_id: orderId,
+		capture_id: captureId,
+	})
+
+	await createPayPalDonation(ctx, {
+		captureId,
+		captureStatus: capture.status,
+		details,
+		amounts,
+		payer: captureResult,
+		source,
+	})
+
+	return { captureId, captureStatus: capture.status }
+}
@@ -0,0 +1,122 @@
+// This turns a PayPal capture into a donation record (pending until the capture completes).
+// Shared by capture.ts (webhook and in-page Buttons) and the reconciliation "import missing donation" action.
+
+import type { Order } from '@paypal/paypal-server-sdk'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { Doc, Id } from '../_generated/dataModel'
+import type { ActionCtx } from '../_generated/server'
+import type { getDonationAmounts } from '../currency.ts'
+import {
+	type Currency,
+	defaultCurrency,
+	isSupportedCurrency,
+	isValidEmail,
+	validateDonationAmount,
+} from '../types.ts'
+
+// What createOrder packed into the purchase unit's custom_id
+export type PayPalDonationDetails = {
+	readonly amount: number
+	readonly currency: Currency
+	readonly campaign_id: Id<'campaigns'> | undefined
+	readonly display_name: string
+	readonly message: string | undefined
+	readonly fee_covered: number | undefined
+}
+
+// Throws if custom_id isn't JSON from createOrder or the amount is out of range
+export function parsePayPalCustomId(customId: string): PayPalDonationDetails {
+	const customData = JSON.parse(customId)
+	const amount = customData.amount
+	// Absent on orders created before multi-currency (always USD)
+	const currency = isSupportedCurrency(customData.currency)
+		? customData.currency
+		: defaultCurrency
+	validateDonationAmount(amount, currency)
+
+	return {
+		amount,
+		currency,
+		// Set by createOrder - absent on orders created before campaigns existed
+		campaign_id: customData.campaign_id || undefined,
+		display_name:
+			customData.use_player_name && customData.player_name
+				? customData.player_name
+				: 'Anonymous',
+		message: customData.message || undefined,
+		fee_covered:
+			typeof customData.fee_covered === 'number'
+				? customData.fee_covered
+				: undefined,
+	}
+}
+
+// Only COMPLETED captures count towards the totals - eChecks and held payments
+// wait for PAYMENT.CAPTURE.COMPLETED, and refunded or declined captures never count
+function getDonationStatus(
+	captureStatus: string | undefined
+): Doc<'donations'>['status'] {
+	switch (captureStatus) {
+		case 'COMPLETED':
+			return 'active'
+		case 'PENDING':
+			return 'pending'
+		case 'REFUNDED':
+			return 'refunded'
+		case 'PARTIALLY_REFUNDED':
+			return 'partially_refunded'
+		default:
+			return 'voided'
+	}
+}
+
+export async function createPayPalDonation(
+	ctx: ActionCtx,
+	{
+		captureId,
+		captureStatus,
+		details,
+		amounts,
+		payer,
+		source,
+	}: {
+		captureId: string
+		captureStatus: string | undefined
+		details: PayPalDonationDetails
+		amounts: Awaited<ReturnType<typeof getDonationAmounts>>
+		payer: Pick<Order, 'payer' | 'paymentSource'>
+		source: string
+	}
+): Promise<void> {
+	// Payer email for the receipt - dropped rather than failing the donation if malformed
+	const payerEmail =
+		payer.paymentSource?.paypal?.emailAddress ?? payer.payer?.emailAddress
+	const payerName = payer.payer?.name
+	const donor_name =
+		[payerName?.givenName, payerName?.surname].filter(Boolean).join(' ') ||
+		undefined
+
+	await ctx.runMutation(internal.donation.create, {
+		...amounts,
+		display_name: details.display_name,
+		payment_id: captureId,
+		payment_method: 'paypal',
+		message: details.message,
+		campaign_id: details.campaign_id,
+		donor_email:
+			payerEmail && isValidEmail(payerEmail) ? payerEmail : undefined,
+		donor_name,
+		status: getDonationStatus(captureStatus),
+		capture_status: captureStatus,
+		fee_covered: details.fee_covered,
+	})
+
+	logger.audit('donation_created', {
+		amount: details.amount,
+		currency: details.currency,
+		payment_method: 'paypal',
+		capture_status: captureStatus,
+		source,
+	})
+}
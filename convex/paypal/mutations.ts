@@ -5,7 +5,7 @@ import { internalMutation, mutation } from 'convex/_generated/server'
 import { v } from 'convex/values'
 
 // Store PayPal order ID → capture ID mapping
-// Called by PayPal webhook after creating donation
+// Called by captureAndRecordOrder just before creating the donation
 // Why needed: PayPal redirects with order ID (?token=ORDER_ID) but we store
 // capture ID as payment_id (authoritative proof of payment). This mapping
 // allows success page to resolve order ID → capture ID → donation.
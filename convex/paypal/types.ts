@@ -1,8 +1,10 @@
 // PayPal webhook event structure (https://developer.paypal.com/docs/api/webhooks/v1/)
 export type PayPalWebhookEvent = {
+	readonly id: string // Stays the same across redeliveries
 	readonly event_type: string
 	readonly resource: {
 		readonly id?: string
+		readonly status?: string // Capture resources: COMPLETED, PENDING, DECLINED...
 		readonly custom_id?: string
 		readonly amount?: {
 			readonly value?: string
@@ -20,6 +22,16 @@ export type PayPalWebhookEvent = {
 				readonly order_id?: string
 			}
 		}
+		// Refund/reversal resources link back to the capture with rel 'up'
+		readonly links?: ReadonlyArray<{
+			readonly href: string
+			readonly rel: string
+		}>
+		readonly seller_payable_breakdown?: {
+			readonly total_refunded_amount?: {
+				readonly value?: string
+			}
+		}
 	}
 }
 
@@ -31,3 +43,22 @@ export type PayPalWebhookHeaders = {
 	readonly auth_algo: string
 	readonly transmission_sig: string
 }
+
+// Transaction Search API response (https://developer.paypal.com/docs/api/transaction-search/v1/)
+// Used by reconciliation - needs the "Transaction search" permission on the REST app
+export type PayPalTransactionSearchResponse = {
+	readonly transaction_details?: ReadonlyArray<{
+		readonly transaction_info: {
+			readonly transaction_id: string
+			readonly paypal_reference_id?: string // Refunds/reversals point at the original capture
+			readonly transaction_event_code: string // T00xx payments, T1107 refund, T1106/T1201 reversal
+			readonly transaction_initiation_date: string
+			readonly transaction_amount: {
+				readonly currency_code: string
+				readonly value: string // Negative for refunds and reversals
+			}
+			readonly custom_field?: string // The purchase unit's custom_id
+		}
+	}>
+	readonly total_pages?: number
+}
@@ -1,15 +1,17 @@
-// This receives notifications from PayPal when a payment completes.
-// It verifies the payment is real and creates the donation record.
+// This receives notifications from PayPal when a payment completes or is reversed.
+// It verifies the payment is real and creates or updates the donation record.
 
 'use node'
 
 // Webhook handler with debug logging
 import { v } from 'convex/values'
 import { env } from '@/env.ts'
-import { getPayPalApiUrl } from '@/libs/paypal/get-paypal'
+import { getPayPalAccessToken, getPayPalApiUrl } from '@/libs/paypal/get-paypal'
 import { logger } from '@/utils/logger'
-import { api, internal } from '../_generated/api'
-import { action } from '../_generated/server'
+import { internal } from '../_generated/api'
+import { type ActionCtx, action } from '../_generated/server'
+import { captureAndRecordOrder } from './capture.ts'
+import { parsePayPalCustomId } from './donations.ts'
 import type { PayPalWebhookEvent } from './types.ts'
 
 // Verify PayPal webhook signature using REST API
@@ -28,23 +30,12 @@ async function verifyWebhookSignature(
 		// Use the same environment logic as the PayPal client
 		const apiUrl = getPayPalApiUrl()
 
-		// Get OAuth access token
-		const tokenResponse = await fetch(`${apiUrl}/v1/oauth2/token`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/x-www-form-urlencoded',
-				Authorization: `Basic ${Buffer.from(`${env.PAYPAL_CLIENT_ID}:${env.PAYPAL_CLIENT_SECRET}`).toString('base64')}`,
-			},
-			body: 'grant_type=client_credentials',
-		})
-
-		if (!tokenResponse.ok) {
+		const accessToken = await getPayPalAccessToken()
+		if (!accessToken) {
 			logger.error('Failed to get PayPal access token')
 			return false
 		}
 
-		const tokenData = (await tokenResponse.json()) as { access_token: string }
-
 		// Verify webhook signature
 		const verifyResponse = await fetch(
 			`${apiUrl}/v1/notifications/verify-webhook-signature`,
@@ -52,7 +43,7 @@ async function verifyWebhookSignature(
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
-					Authorization: `Bearer ${tokenData.access_token}`,
+					Authorization: `Bearer ${accessToken}`,
 				},
 				body: JSON.stringify({
 					transmission_id: headers.transmission_id,
@@ -82,27 +73,150 @@ async function verifyWebhookSignature(
 	}
 }
 
-// Handle PayPal webhook with signature verification
-// This runs in Node.js runtime to properly handle PayPal's webhook verification
+const captureLinkPattern = /\/captures\/([^/?]+)/
+
+// Captures of orders from createOrder carry its custom_id
+function isDonationCustomId(customId: string | undefined): boolean {
+	if (!customId) {
+		return false
+	}
+
+	try {
+		parsePayPalCustomId(customId)
+		return true
+	} catch {
+		return false
+	}
+}
+
+// Get the capture ID a refund/reversal belongs to
+// The refund resource's 'up' link points at /v2/payments/captures/{capture_id}
+function getCaptureIdFromLinks(event: PayPalWebhookEvent): string | null {
+	const upLink = event.resource.links?.find((link) => link.rel === 'up')
+	const match = upLink?.href.match(captureLinkPattern)
+	return match?.[1] ?? null
+}
+
+// Apply a verified PayPal event to the donations table
+// Returns false for events that carry nothing to do, throws if processing failed
 // PayPal workflow (intent=CAPTURE):
 // 1. User approves order on PayPal
 // 2. CHECKOUT.ORDER.APPROVED webhook fires
 // 3. We manually capture the order via API (required step!)
-// 4. PAYMENT.CAPTURE.COMPLETED webhook fires (we acknowledge but don't process)
-// 5. We create donation using the capture ID
+// 4. We create donation using the capture ID - active if the capture is
+//    COMPLETED, pending if PayPal is holding it (eCheck, payment review)
+// 5. PAYMENT.CAPTURE.COMPLETED or PAYMENT.CAPTURE.DENIED fires when a pending
+//    capture settles - we promote or void the pending donation
 // Why we capture in ORDER.APPROVED:
 // - intent=CAPTURE does NOT mean auto-capture (common misconception!)
 // - PayPal requires explicit capture API call after approval
 // - CAPTURE.COMPLETED only fires AFTER we call capture API
 // - We handle ORDER.APPROVED to capture immediately when user approves
-// Why we ignore CAPTURE.COMPLETED:
-// - We already created the donation during ORDER.APPROVED
-// - Deduplication (unique payment_id index) prevents duplicates anyway
-// - Processing it would be redundant
+// CAPTURE.COMPLETED for a capture that completed straight away finds an
+// active donation and changes nothing
 // Note on timing:
 // - ORDER.APPROVED arrives immediately (user clicked "approve")
-// - We capture synchronously during webhook processing
-// - Donation created before webhook returns (no waiting on success page!)
+// - The webhook responds once the event is stored; this runs right after
+//   in a scheduled job, retried with backoff if PayPal is slow or down
+// - Capturing is idempotent (captureAndRecordOrder), so retries - and the in-page
+//   Buttons capturing the same order - never double-charge
+export async function processPayPalEvent(
+	ctx: ActionCtx,
+	event: PayPalWebhookEvent
+): Promise<boolean> {
+	// Handle order approval - CAPTURE ORDER IMMEDIATELY
+	// When user approves, we must manually capture the payment
+	if (event.event_type === 'CHECKOUT.ORDER.APPROVED') {
+		const orderId = event.resource.id
+
+		if (!orderId) {
+			logger.warn('PayPal ORDER.APPROVED webhook missing order ID')
+			return false
+		}
+
+		// The donor may already have been captured in-page by the PayPal Buttons
+		const outcome = await captureAndRecordOrder(ctx, orderId, 'webhook_capture')
+		return outcome !== null
+	}
+
+	// Refund issued from the PayPal dashboard (full or partial)
+	// Donations are stored under the capture ID, which the refund links back to
+	if (event.event_type === 'PAYMENT.CAPTURE.REFUNDED') {
+		const captureId = getCaptureIdFromLinks(event)
+		// Cumulative across partial refunds; fall back to this refund's amount
+		const refundedValue =
+			event.resource.seller_payable_breakdown?.total_refunded_amount?.value ??
+			event.resource.amount?.value
+
+		if (!captureId || !refundedValue) {
+			logger.warn('PayPal CAPTURE.REFUNDED webhook missing required fields', {
+				hasCaptureId: !!captureId,
+				hasAmount: !!refundedValue,
+			})
+			return false
+		}
+
+		await ctx.runMutation(internal.donation.recordRefund, {
+			payment_id: captureId,
+			refunded_amount: Number(refundedValue),
+		})
+		return true
+	}
+
+	// Chargeback - PayPal reversed the capture back to the buyer
+	if (event.event_type === 'PAYMENT.CAPTURE.REVERSED') {
+		const captureId = getCaptureIdFromLinks(event)
+
+		if (!captureId) {
+			logger.warn('PayPal CAPTURE.REVERSED webhook missing capture link')
+			return false
+		}
+
+		await ctx.runMutation(internal.donation.markDisputed, {
+			payment_id: captureId,
+		})
+		return true
+	}
+
+	// A pending capture cleared or was denied - the resource is the capture itself
+	if (
+		event.event_type === 'PAYMENT.CAPTURE.COMPLETED' ||
+		event.event_type === 'PAYMENT.CAPTURE.DENIED'
+	) {
+		const captureId = event.resource.id
+
+		if (!captureId) {
+			logger.warn('PayPal capture webhook missing capture ID', {
+				eventType: event.event_type,
+			})
+			return false
+		}
+
+		const isCompleted = event.event_type === 'PAYMENT.CAPTURE.COMPLETED'
+		const donationId = await ctx.runMutation(
+			internal.donation.settlePendingDonation,
+			{
+				payment_id: captureId,
+				outcome: isCompleted ? 'completed' : 'denied',
+				capture_status: event.resource.status,
+				order_id: event.resource.supplementary_data?.related_ids?.order_id,
+				// A denied capture of our order may have been declined at capture
+				// time, which never records a donation
+				expects_donation:
+					isCompleted && isDonationCustomId(event.resource.custom_id),
+			}
+		)
+		return donationId !== null
+	}
+
+	// Acknowledge other event types without processing
+	return false
+}
+
+// Handle PayPal webhook with signature verification
+// This runs in Node.js runtime to properly handle PayPal's webhook verification
+// Verified events are stored and processed by a scheduled job (webhooks/actions.ts),
+// so a slow capture call can't time out the webhook and trigger redeliveries.
 // Security: Webhook signatures are verified using PayPal's REST API
 // to prevent replay attacks and ensure authenticity.
 export const handlePayPalWebhook = action({
@@ -116,7 +230,10 @@ export const handlePayPalWebhook = action({
 			transmission_sig: v.string(),
 		}),
 	},
-	handler: async (ctx, { payload, headers }) => {
+	handler: async (
+		ctx,
+		{ payload, headers }
+	): Promise<{ received: boolean; queued: boolean }> => {
 		let event: PayPalWebhookEvent
 
 		try {
@@ -138,84 +255,16 @@ export const handlePayPalWebhook = action({
 			throw new Error('Invalid webhook signature')
 		}
 
-		// Handle order approval - CAPTURE ORDER IMMEDIATELY
-		// When user approves, we must manually capture the payment
-		if (event.event_type === 'CHECKOUT.ORDER.APPROVED') {
-			const orderId = event.resource.id
-			const customId = event.resource.purchase_units?.[0]?.custom_id
-
-			if (!orderId || !customId) {
-				logger.warn('PayPal ORDER.APPROVED webhook missing required fields', {
-					hasOrderId: !!orderId,
-					hasCustomId: !!customId,
-				})
-				return { received: true, processed: false }
-			}
-
-			try {
-				// Parse custom data to get donation details
-				const customData = JSON.parse(customId)
-				const amount = customData.amount
-				const { validateDonationAmount } = await import('../types.ts')
-				validateDonationAmount(amount)
-
-				// Capture the order immediately (REQUIRED - PayPal does not auto-capture!)
-				const { ordersController } = await import('@/libs/paypal/get-paypal.ts')
-				const { result: captureResult } = await ordersController.captureOrder({
-					id: orderId,
-					prefer: 'return=representation',
-				})
-
-				// Extract capture ID from the response
-				const captureId =
-					captureResult.purchaseUnits?.[0]?.payments?.captures?.[0]?.id
-
-				if (!captureId) {
-					logger.error('PayPal capture response missing capture ID', {
-						orderId,
-						captureResultKeys: Object.keys(captureResult),
-						purchaseUnits: captureResult.purchaseUnits,
-					})
-					return { received: true, processed: false }
-				}
-
-				// Create donation with capture ID
-				const player_name = customData.player_name
-				const use_player_name = customData.use_player_name
-				const message = customData.message
-				const display_name =
-					use_player_name && player_name ? player_name : 'Anonymous'
-
-				await ctx.runMutation(api.donation.create, {
-					amount,
-					display_name,
-					payment_id: captureId,
-					payment_method: 'paypal',
-					message: message || undefined,
-				})
-
-				logger.audit('donation_created', {
-					amount,
-					payment_method: 'paypal',
-					source: 'webhook_capture',
-				})
-
-				// Store ID mapping for success page
-				await ctx.runMutation(internal.paypal.mutations.storePaymentIdMapping, {
-					order_id: orderId,
-					capture_id: captureId,
-				})
-
-				return { received: true, processed: true }
-			} catch (error) {
-				logger.error('PayPal order capture error:', error)
-				return { received: true, processed: false }
+		const { queued } = await ctx.runMutation(
+			internal.webhooks.mutations.recordWebhookEvent,
+			{
+				provider: 'paypal',
+				event_id: event.id,
+				event_type: event.event_type,
+				payload,
 			}
-		}
+		)
 
-		// Acknowledge other event types without processing
-		// Note: PAYMENT.CAPTURE.COMPLETED fires after we capture in ORDER.APPROVED
-		// We ignore it since the donation is already created (deduplication prevents duplicates)
-		return { received: true, processed: false }
+		return { received: true, queued }
 	},
 })
@@ -0,0 +1,73 @@
+// This emails a branded receipt to the donor after a donation is recorded.
+// Runs in the Node.js runtime because the SMTP and file transports need node:net, node:tls and node:fs.
+
+'use node'
+
+import { v } from 'convex/values'
+import { getMailTransport } from '@/libs/email/mail-transport.ts'
+import { renderReceipt } from '@/libs/email/receipt-template.ts'
+import { logger } from '@/utils/logger.ts'
+import { internal } from '../_generated/api'
+import { internalAction } from '../_generated/server'
+import { defaultCurrency } from '../types.ts'
+
+// Scheduled by scheduleReceipt - a failed send is logged and leaves
+// receipt_sent_at unset, so it never affects the donation itself
+export const sendReceipt = internalAction({
+	args: {
+		donation_id: v.id('donations'),
+	},
+	handler: async (ctx, { donation_id }) => {
+		const transport = getMailTransport()
+		if (!transport) {
+			logger.debug('Email not configured, skipping receipt')
+			return
+		}
+
+		const data = await ctx.runQuery(
+			internal.receipts.mutations.getReceiptData,
+			{
+				donation_id,
+			}
+		)
+		const to = data?.donation.donor_email
+		if (!(data && to)) {
+			return
+		}
+		const { donation, campaign } = data
+
+		// Already sent (e.g. the action was retried after a timeout)
+		if (donation.receipt_sent_at !== undefined) {
+			return
+		}
+
+		try {
+			await transport.send(
+				renderReceipt({
+					to,
+					donorName: donation.display_name,
+					campaignTitle: campaign?.title,
+					// Receipt shows what the donor paid, not the campaign-currency conversion
+					amount: donation.original_amount ?? donation.amount,
+					currency:
+						donation.original_currency ?? donation.currency ?? defaultCurrency,
+					paymentMethod: donation.payment_method,
+					paymentReference: donation.payment_id,
+					donatedAt: donation._creationTime,
+					monthly: donation.subscription_id !== undefined,
+				})
+			)
+		} catch (error) {
+			logger.error('Receipt email failed:', error)
+			return
+		}
+
+		await ctx.runMutation(internal.receipts.mutations.markReceiptSent, {
+			donation_id,
+		})
+		logger.audit('receipt_sent', {
+			payment_method: donation.payment_method,
+			transport: transport.name,
+		})
+	},
+})
@@ -0,0 +1,51 @@
+// This loads what a receipt needs and records when it was sent.
+// Note: This must be in a separate file from actions.ts because queries and
+// mutations cannot be defined in Node.js modules ('use node' files).
+
+import { v } from 'convex/values'
+import { internal } from '../_generated/api'
+import type { Doc } from '../_generated/dataModel'
+import {
+	internalMutation,
+	internalQuery,
+	type MutationCtx,
+} from '../_generated/server'
+
+// Queue a receipt for a newly created donation
+// Called in the same transaction as the insert, so it only runs if the donation does
+export async function scheduleReceipt(
+	ctx: MutationCtx,
+	donation: Pick<Doc<'donations'>, '_id' | 'donor_email'>
+): Promise<void> {
+	if (!donation.donor_email) {
+		return
+	}
+	await ctx.scheduler.runAfter(0, internal.receipts.actions.sendReceipt, {
+		donation_id: donation._id,
+	})
+}
+
+export const getReceiptData = internalQuery({
+	args: {
+		donation_id: v.id('donations'),
+	},
+	handler: async (ctx, { donation_id }) => {
+		const donation = await ctx.db.get(donation_id)
+		if (!donation) {
+			return null
+		}
+		const campaign = donation.campaign_id
+			? await ctx.db.get(donation.campaign_id)
+			: null
+		return { donation, campaign }
+	},
+})
+
+export const markReceiptSent = internalMutation({
+	args: {
+		donation_id: v.id('donations'),
+	},
+	handler: async (ctx, { donation_id }) => {
+		await ctx.db.patch(donation_id, { receipt_sent_at: Date.now() })
+	},
+})
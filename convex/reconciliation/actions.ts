@@ -0,0 +1,529 @@
+// This compares recent Stripe and PayPal payments with the donations table and records any differences.
+// Catches lost webhooks (paid but no donation), phantom donations, wrong amounts and unnoticed refunds.
+
+'use node'
+
+import { v } from 'convex/values'
+import type Stripe from 'stripe'
+import {
+	getPayPalAccessToken,
+	getPayPalApiUrl,
+	ordersController,
+	paymentsController,
+} from '@/libs/paypal/get-paypal'
+import { stripe } from '@/libs/stripe/get-stripe'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { Doc } from '../_generated/dataModel'
+import { type ActionCtx, action, internalAction } from '../_generated/server'
+import { requireAdmin } from '../admin/auth.ts'
+import { getDonationAmounts } from '../currency.ts'
+import {
+	createPayPalDonation,
+	parsePayPalCustomId,
+} from '../paypal/donations.ts'
+import type { PayPalTransactionSearchResponse } from '../paypal/types.ts'
+import {
+	handleCheckoutCompleted,
+	handleInvoicePaid,
+	handlePaymentIntentSucceeded,
+	hasDonationMetadata,
+	isPaymentElementIntent,
+} from '../stripe/webhooks.ts'
+import { defaultCurrency } from '../types.ts'
+
+const hourMs = 3_600_000
+const lookbackMs = 72 * hourMs
+// Stripe sessions can complete up to 24h after they're created, so upstream
+// payments are listed from a day earlier than the donations they're matched to
+const upstreamMarginMs = 24 * hourMs
+// Leave time for in-flight webhooks (and PayPal's reporting delay of up to 3h)
+// before calling anything missing
+const settleDelayMs = 3 * hourMs
+const maxUpstreamPayments = 5000
+const batchSize = 200
+const amountTolerance = 0.01
+
+type Provider = Doc<'reconciliation_discrepancies'>['provider']
+
+type Finding = Pick<
+	Doc<'reconciliation_discrepancies'>,
+	| 'payment_id'
+	| 'kind'
+	| 'upstream_amount'
+	| 'upstream_currency'
+	| 'upstream_refunded_amount'
+	| 'upstream_created_at'
+	| 'local_amount'
+	| 'local_currency'
+>
+
+// A completed payment as the processor reports it, in the currency the donor paid in
+type UpstreamPayment = {
+	readonly payment_id: string
+	readonly amount: number
+	readonly currency: string
+	readonly refunded_amount: number
+	readonly disputed: boolean
+	readonly created_at: number
+}
+
+type TimeRange = { readonly from: number; readonly to: number }
+
+function chunk<T>(items: readonly T[], size: number): T[][] {
+	const chunks: T[][] = []
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size))
+	}
+	return chunks
+}
+
+function getCharge(session: Stripe.Checkout.Session): Stripe.Charge | null {
+	const paymentIntent = session.payment_intent
+	if (!paymentIntent || typeof paymentIntent === 'string') {
+		return null
+	}
+	const charge = paymentIntent.latest_charge
+	return charge && typeof charge !== 'string' ? charge : null
+}
+
+// Paid one-time checkout sessions, paid subscription invoices and succeeded
+// Payment Element intents - the three things a Stripe donation's payment_id can be
+async function fetchStripePayments({
+	from,
+	to,
+}: TimeRange): Promise<UpstreamPayment[]> {
+	const created = { gte: Math.floor(from / 1000), lt: Math.ceil(to / 1000) }
+	const payments: UpstreamPayment[] = []
+
+	for await (const session of stripe.checkout.sessions.list({
+		created,
+		status: 'complete',
+		limit: 100,
+		expand: ['data.payment_intent.latest_charge'],
+	})) {
+		if (payments.length >= maxUpstreamPayments) break
+		if (
+			session.mode !== 'payment' ||
+			session.payment_status !== 'paid' ||
+			!hasDonationMetadata(session.metadata)
+		) {
+			continue
+		}
+		const charge = getCharge(session)
+		payments.push({
+			payment_id: session.id,
+			amount: (session.amount_total ?? 0) / 100,
+			currency: (session.currency ?? '').toUpperCase(),
+			refunded_amount: (charge?.amount_refunded ?? 0) / 100,
+			disputed: charge?.disputed ?? false,
+			created_at: session.created * 1000,
+		})
+	}
+
+	for await (const invoice of stripe.invoices.list({
+		created,
+		status: 'paid',
+		limit: 100,
+	})) {
+		if (payments.length >= maxUpstreamPayments) break
+		const subscriptionDetails = invoice.parent?.subscription_details
+		if (
+			!(
+				subscriptionDetails && hasDonationMetadata(subscriptionDetails.metadata)
+			) ||
+			invoice.amount_paid === 0
+		) {
+			continue
+		}
+		// Refunds aren't checked for invoices - that would take a charge lookup per invoice
+		payments.push({
+			payment_id: invoice.id,
+			amount: invoice.amount_paid / 100,
+			currency: invoice.currency.toUpperCase(),
+			refunded_amount: 0,
+			disputed: false,
+			created_at: invoice.created * 1000,
+		})
+	}
+
+	// Checkout and invoice payment intents are listed too - only the ones
+	// created for the embedded Payment Element are donations in their own right
+	for await (const paymentIntent of stripe.paymentIntents.list({
+		created,
+		limit: 100,
+		expand: ['data.latest_charge'],
+	})) {
+		if (payments.length >= maxUpstreamPayments) break
+		if (
+			paymentIntent.status !== 'succeeded' ||
+			!isPaymentElementIntent(paymentIntent)
+		) {
+			continue
+		}
+		const charge =
+			paymentIntent.latest_charge &&
+			typeof paymentIntent.latest_charge !== 'string'
+				? paymentIntent.latest_charge
+				: null
+		payments.push({
+			payment_id: paymentIntent.id,
+			amount: paymentIntent.amount_received / 100,
+			currency: paymentIntent.currency.toUpperCase(),
+			refunded_amount: (charge?.amount_refunded ?? 0) / 100,
+			disputed: charge?.disputed ?? false,
+			created_at: paymentIntent.created * 1000,
+		})
+	}
+
+	return payments
+}
+
+// PayPal wants second precision, no milliseconds
+function toPayPalDate(timestamp: number): string {
+	return `${new Date(timestamp).toISOString().slice(0, 19)}Z`
+}
+
+// Captures from the Transaction Search API, with refunds and reversals folded
+// into the capture they belong to. Only captures whose custom_id came from
+// createOrder count, so other income on the PayPal account is ignored.
+async function fetchPayPalPayments({
+	from,
+	to,
+}: TimeRange): Promise<UpstreamPayment[]> {
+	const accessToken = await getPayPalAccessToken()
+	if (!accessToken) {
+		throw new Error('Failed to get PayPal access token')
+	}
+
+	const captures = new Map<string, UpstreamPayment>()
+	const refunds = new Map<string, number>()
+	const reversed = new Set<string>()
+
+	let page = 1
+	let totalPages = 1
+	while (page <= totalPages && captures.size < maxUpstreamPayments) {
+		const params = new URLSearchParams({
+			start_date: toPayPalDate(from),
+			end_date: toPayPalDate(to),
+			fields: 'transaction_info',
+			page_size: '500',
+			page: String(page),
+		})
+		const response = await fetch(
+			`${getPayPalApiUrl()}/v1/reporting/transactions?${params}`,
+			{ headers: { Authorization: `Bearer ${accessToken}` } }
+		)
+		if (!response.ok) {
+			throw new Error(`PayPal transaction search failed: ${response.status}`)
+		}
+
+		const data = (await response.json()) as PayPalTransactionSearchResponse
+		for (const { transaction_info: info } of data.transaction_details ?? []) {
+			const value = Number(info.transaction_amount.value)
+			const code = info.transaction_event_code
+
+			if (code === 'T1107' && info.paypal_reference_id) {
+				refunds.set(
+					info.paypal_reference_id,
+					(refunds.get(info.paypal_reference_id) ?? 0) + Math.abs(value)
+				)
+			} else if (
+				(code === 'T1106' || code === 'T1201') &&
+				info.paypal_reference_id
+			) {
+				reversed.add(info.paypal_reference_id)
+			} else if (code.startsWith('T00') && value > 0 && info.custom_field) {
+				try {
+					parsePayPalCustomId(info.custom_field)
+				} catch {
+					continue
+				}
+				captures.set(info.transaction_id, {
+					payment_id: info.transaction_id,
+					amount: value,
+					currency: info.transaction_amount.currency_code,
+					refunded_amount: 0,
+					disputed: false,
+					created_at: Date.parse(info.transaction_initiation_date),
+				})
+			}
+		}
+
+		totalPages = data.total_pages ?? 1
+		page++
+	}
+
+	return [...captures.values()].map((capture) => ({
+		...capture,
+		refunded_amount: refunds.get(capture.payment_id) ?? 0,
+		disputed: reversed.has(capture.payment_id),
+	}))
+}
+
+// What's wrong (if anything) with one upstream payment's donation
+function compareWithDonation(
+	payment: UpstreamPayment,
+	donation: Doc<'donations'> | undefined,
+	settledBefore: number
+): Finding[] {
+	const upstream = {
+		upstream_amount: payment.amount,
+		upstream_currency: payment.currency,
+		upstream_refunded_amount: payment.refunded_amount,
+		upstream_created_at: payment.created_at,
+	}
+
+	if (!donation) {
+		return payment.created_at < settledBefore
+			? [
+					{
+						payment_id: payment.payment_id,
+						kind: 'missing_locally',
+						...upstream,
+					},
+				]
+			: []
+	}
+
+	const paidAmount = donation.original_amount ?? donation.amount
+	const paidCurrency =
+		donation.original_currency ?? donation.currency ?? defaultCurrency
+	const finding = {
+		payment_id: payment.payment_id,
+		...upstream,
+		local_amount: paidAmount,
+		local_currency: paidCurrency,
+	}
+	const findings: Finding[] = []
+
+	if (
+		paidCurrency !== payment.currency ||
+		Math.abs(paidAmount - payment.amount) > amountTolerance
+	) {
+		findings.push({ ...finding, kind: 'amount_mismatch' })
+	}
+
+	// refunded_amount is stored in the campaign currency, so scale it back
+	const localRefund =
+		donation.status === 'refunded'
+			? paidAmount
+			: donation.amount > 0
+				? ((donation.refunded_amount ?? 0) / donation.amount) * paidAmount
+				: 0
+	const missedDispute = payment.disputed && donation.status !== 'disputed'
+	const missedRefund =
+		donation.status !== 'disputed' &&
+		payment.refunded_amount - localRefund > amountTolerance
+	if (missedDispute || missedRefund) {
+		findings.push({ ...finding, kind: 'refunded_upstream' })
+	}
+
+	return findings
+}
+
+async function reconcileProvider(
+	ctx: ActionCtx,
+	provider: Provider,
+	upstream: readonly UpstreamPayment[],
+	localRange: TimeRange
+): Promise<{ checked: number; opened: number; cleared: number }> {
+	const findings: Finding[] = []
+
+	for (const payments of chunk(upstream, batchSize)) {
+		const donations = await ctx.runQuery(
+			internal.reconciliation.mutations.getDonationsByPaymentIds,
+			{ payment_ids: payments.map((payment) => payment.payment_id) }
+		)
+		const byPaymentId = new Map(
+			donations.map((donation) => [donation.payment_id, donation])
+		)
+		for (const payment of payments) {
+			findings.push(
+				...compareWithDonation(
+					payment,
+					byPaymentId.get(payment.payment_id),
+					localRange.to
+				)
+			)
+		}
+	}
+
+	// Donations the processor has no record of
+	const upstreamIds = new Set(upstream.map((payment) => payment.payment_id))
+	const localDonations = await ctx.runQuery(
+		internal.reconciliation.mutations.listDonationsInRange,
+		{ payment_method: provider, ...localRange }
+	)
+	for (const donation of localDonations) {
+		if (!upstreamIds.has(donation.payment_id)) {
+			findings.push({
+				payment_id: donation.payment_id,
+				kind: 'missing_upstream',
+				local_amount: donation.amount,
+				local_currency: donation.currency,
+			})
+		}
+	}
+
+	const checkedIds = [
+		...new Set([
+			...upstreamIds,
+			...localDonations.map((donation) => donation.payment_id),
+		]),
+	]
+	let opened = 0
+	let cleared = 0
+	for (const ids of chunk(checkedIds, batchSize)) {
+		const batchIds = new Set(ids)
+		const result = await ctx.runMutation(
+			internal.reconciliation.mutations.recordFindings,
+			{
+				provider,
+				checked_payment_ids: ids,
+				findings: findings.filter((finding) =>
+					batchIds.has(finding.payment_id)
+				),
+			}
+		)
+		opened += result.openedCount
+		cleared += result.clearedCount
+	}
+
+	return { checked: checkedIds.length, opened, cleared }
+}
+
+// Scheduled by crons.ts - each provider is reconciled on its own so an API
+// outage at one doesn't hide problems at the other
+export const reconcilePayments = internalAction({
+	args: {},
+	handler: async (ctx) => {
+		const now = Date.now()
+		const localRange = { from: now - lookbackMs, to: now - settleDelayMs }
+		const upstreamRange = { from: localRange.from - upstreamMarginMs, to: now }
+
+		const providers = [
+			{ provider: 'stripe', fetchPayments: fetchStripePayments },
+			{ provider: 'paypal', fetchPayments: fetchPayPalPayments },
+		] as const
+
+		for (const { provider, fetchPayments } of providers) {
+			try {
+				const upstream = await fetchPayments(upstreamRange)
+				const result = await reconcileProvider(
+					ctx,
+					provider,
+					upstream,
+					localRange
+				)
+				logger.audit('reconciliation_completed', { provider, ...result })
+			} catch (error) {
+				logger.error(`${provider} reconciliation failed:`, error)
+			}
+		}
+	},
+})
+
+async function importStripePayment(
+	ctx: ActionCtx,
+	paymentId: string
+): Promise<void> {
+	if (paymentId.startsWith('in_')) {
+		const invoice = await stripe.invoices.retrieve(paymentId)
+		if (invoice.status !== 'paid') {
+			throw new Error(`Invoice is ${invoice.status}, not paid`)
+		}
+		await handleInvoicePaid(ctx, invoice, 'reconciliation_import')
+		return
+	}
+
+	if (paymentId.startsWith('pi_')) {
+		const paymentIntent = await stripe.paymentIntents.retrieve(paymentId)
+		if (paymentIntent.status !== 'succeeded') {
+			throw new Error(
+				`Payment intent is ${paymentIntent.status}, not succeeded`
+			)
+		}
+		await handlePaymentIntentSucceeded(
+			ctx,
+			paymentIntent,
+			'reconciliation_import'
+		)
+		return
+	}
+
+	const session = await stripe.checkout.sessions.retrieve(paymentId)
+	if (session.payment_status !== 'paid') {
+		throw new Error(`Checkout session is ${session.payment_status}, not paid`)
+	}
+	await handleCheckoutCompleted(ctx, session, 'reconciliation_import')
+}
+
+async function importPayPalCapture(
+	ctx: ActionCtx,
+	captureId: string
+): Promise<void> {
+	const { result: capture } = await paymentsController.getCapturedPayment({
+		captureId,
+	})
+	if (capture.status !== 'COMPLETED' && capture.status !== 'PENDING') {
+		throw new Error(`Capture is ${capture.status}, not completed`)
+	}
+	if (!capture.customId) {
+		throw new Error('Capture has no custom_id - not created by this site')
+	}
+
+	const details = parsePayPalCustomId(capture.customId)
+	const orderId = capture.supplementaryData?.relatedIds?.orderId
+	// The order has the payer's name and email for the receipt
+	const order = orderId
+		? (await ordersController.getOrder({ id: orderId })).result
+		: {}
+
+	await createPayPalDonation(ctx, {
+		captureId,
+		captureStatus: capture.status,
+		details,
+		amounts: await getDonationAmounts(ctx, details),
+		payer: order,
+		source: 'reconciliation_import',
+	})
+}
+
+// Create the donation for a payment the processor has but we don't, using the
+// processor's own record of it - the same path the lost webhook would have taken
+export const importMissingDonation = action({
+	args: {
+		admin_token: v.string(),
+		discrepancy_id: v.id('reconciliation_discrepancies'),
+	},
+	handler: async (ctx, { admin_token, discrepancy_id }) => {
+		requireAdmin(admin_token)
+
+		const discrepancy = await ctx.runQuery(
+			internal.reconciliation.mutations.getDiscrepancyInternal,
+			{ discrepancy_id }
+		)
+		if (discrepancy?.kind !== 'missing_locally') {
+			throw new Error('Only missing donations can be imported')
+		}
+		if (discrepancy.status !== 'open') {
+			throw new Error(`Discrepancy is already ${discrepancy.status}`)
+		}
+
+		if (discrepancy.provider === 'stripe') {
+			await importStripePayment(ctx, discrepancy.payment_id)
+		} else {
+			await importPayPalCapture(ctx, discrepancy.payment_id)
+		}
+
+		await ctx.runMutation(
+			internal.reconciliation.mutations.markDiscrepancyImported,
+			{ discrepancy_id }
+		)
+		logger.audit('reconciliation_imported', {
+			provider: discrepancy.provider,
+			payment_id: discrepancy.payment_id,
+		})
+	},
+})
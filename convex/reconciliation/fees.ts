@@ -0,0 +1,198 @@
+// This records what each donation actually cost to receive, so admins can compare gross and net totals.
+// Fees come from the processor's own records (Stripe balance transactions, PayPal captures) or the Bitcoin transaction.
+
+'use node'
+
+import type { PaginationResult } from 'convex/server'
+import { v } from 'convex/values'
+import type Stripe from 'stripe'
+import { paymentsController } from '@/libs/paypal/get-paypal'
+import { stripe } from '@/libs/stripe/get-stripe'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { Doc } from '../_generated/dataModel'
+import { type ActionCtx, internalAction } from '../_generated/server'
+import { withBlockchainProvider } from '../bitcoin/providers.ts'
+import { satoshiToBtc } from '../bitcoin/types.ts'
+import { paymentMethodValidator } from '../schema.ts'
+import type { PaymentMethod } from '../types.ts'
+
+const dayMs = 86_400_000
+// Fees usually settle within minutes; a week covers bank debits and PayPal holds
+const feeLookbackMs = 7 * dayMs
+// Donations checked per run - every page is checked, so donations whose fee
+// isn't known yet can't keep older ones from being reached
+const feePageSize = 50
+
+const feeMethods = [
+	'stripe',
+	'paypal',
+	'bitcoin',
+] as const satisfies readonly PaymentMethod[]
+
+function getStripeId(value: string | { id: string } | null | undefined) {
+	if (!value) return null
+	return typeof value === 'string' ? value : value.id
+}
+
+async function getLatestChargeId(
+	paymentIntentId: string | null
+): Promise<string | null> {
+	if (!paymentIntentId) return null
+	const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+	return getStripeId(paymentIntent.latest_charge)
+}
+
+// The charge behind a checkout session (cs_), payment intent (pi_) or invoice (in_)
+async function getStripeChargeId(paymentId: string): Promise<string | null> {
+	if (paymentId.startsWith('pi_')) {
+		return await getLatestChargeId(paymentId)
+	}
+
+	if (paymentId.startsWith('in_')) {
+		const { data } = await stripe.invoicePayments.list({
+			invoice: paymentId,
+			status: 'paid',
+		})
+		const payment = data[0]?.payment
+		return (
+			getStripeId(payment?.charge) ??
+			(await getLatestChargeId(getStripeId(payment?.payment_intent)))
+		)
+	}
+
+	const session = await stripe.checkout.sessions.retrieve(paymentId)
+	return await getLatestChargeId(getStripeId(session.payment_intent))
+}
+
+// Fee as a share of the charge - balance transactions are in the account's
+// settlement currency, which may not be the donation's
+async function getStripeFeeShare(paymentId: string): Promise<number | null> {
+	const chargeId = await getStripeChargeId(paymentId)
+	if (!chargeId) return null
+
+	const charge = await stripe.charges.retrieve(chargeId, {
+		expand: ['balance_transaction'],
+	})
+	// Not available until the charge settles (bank debits take days)
+	const balanceTransaction =
+		charge.balance_transaction as Stripe.BalanceTransaction | null
+	if (!balanceTransaction || balanceTransaction.amount === 0) return null
+
+	return balanceTransaction.fee / balanceTransaction.amount
+}
+
+// Pending captures have no breakdown until PayPal releases them
+async function getPayPalFeeShare(captureId: string): Promise<number | null> {
+	const { result: capture } = await paymentsController.getCapturedPayment({
+		captureId,
+	})
+	const breakdown = capture.sellerReceivableBreakdown
+	const gross = Number(breakdown?.grossAmount.value)
+	if (!breakdown || !gross) return null
+
+	return Number(breakdown.paypalFee?.value ?? 0) / gross
+}
+
+// The incoming transaction's network fee in USD, priced at the donation's rate
+async function getBitcoinFeeUsd(
+	ctx: ActionCtx,
+	donation: Doc<'donations'>
+): Promise<number | null> {
+	const { txid, btc_exchange_rate } = donation
+	if (!txid || !btc_exchange_rate) return null
+
+	const feeSats = await withBlockchainProvider(ctx, (provider) =>
+		provider.getTransactionFee(txid)
+	)
+	if (feeSats === null) return null
+
+	return (feeSats / satoshiToBtc) * btc_exchange_rate
+}
+
+// Fee in the campaign's currency (like amount), or null if not known yet
+async function getFeeAmount(
+	ctx: ActionCtx,
+	donation: Doc<'donations'>
+): Promise<number | null> {
+	if (donation.payment_method === 'bitcoin') {
+		const feeUsd = await getBitcoinFeeUsd(ctx, donation)
+		if (feeUsd === null) return null
+		// original_amount is the USD value that arrived
+		const paidAmount = donation.original_amount ?? donation.amount
+		return (feeUsd / paidAmount) * donation.amount
+	}
+
+	const feeShare =
+		donation.payment_method === 'stripe'
+			? await getStripeFeeShare(donation.payment_id)
+			: await getPayPalFeeShare(donation.payment_id)
+	return feeShare === null ? null : feeShare * donation.amount
+}
+
+// Records fees for recent donations that don't have one yet
+// Runs on a schedule (see crons.ts). Pass `from` (ms since epoch) to backfill
+// older donations, e.g. npx convex run reconciliation/fees:recordProcessingFees '{"from": 0}'
+// Processes one page per call and reschedules itself until every method is done,
+// so a long backfill never runs into the action time limit.
+export const recordProcessingFees = internalAction({
+	args: {
+		from: v.optional(v.number()),
+		payment_method: v.optional(paymentMethodValidator),
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, { from, payment_method = feeMethods[0], cursor }) => {
+		const since = from ?? Date.now() - feeLookbackMs
+
+		const page: PaginationResult<Doc<'donations'>> = await ctx.runQuery(
+			internal.reconciliation.mutations.listDonationsMissingFees,
+			{
+				payment_method,
+				from: since,
+				cursor: cursor ?? null,
+				limit: feePageSize,
+			}
+		)
+
+		let recorded = 0
+		for (const donation of page.page) {
+			try {
+				const fee_amount = await getFeeAmount(ctx, donation)
+				if (fee_amount === null) continue
+
+				await ctx.runMutation(internal.donation.recordFee, {
+					payment_id: donation.payment_id,
+					fee_amount,
+				})
+				recorded++
+			} catch (error) {
+				logger.warn('Processing fee lookup failed', {
+					payment_method,
+					error: error instanceof Error ? error.message : String(error),
+				})
+			}
+		}
+
+		logger.audit('processing_fees_recorded', {
+			payment_method,
+			checked: page.page.length,
+			recorded,
+		})
+
+		// Next page of this method, or the first page of the next one
+		const nextMethod = feeMethods[feeMethods.indexOf(payment_method) + 1]
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.reconciliation.fees.recordProcessingFees,
+				{ from: since, payment_method, cursor: page.continueCursor }
+			)
+		} else if (nextMethod) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.reconciliation.fees.recordProcessingFees,
+				{ from: since, payment_method: nextMethod }
+			)
+		}
+	},
+})
@@ -0,0 +1,183 @@
+// This reads donations for the reconciliation job and stores the discrepancies it finds.
+// Note: This must be in a separate file from actions.ts because queries and
+// mutations cannot be defined in Node.js modules ('use node' files).
+
+import { v } from 'convex/values'
+import { internalMutation, internalQuery } from '../_generated/server'
+import { discrepancyKindValidator, paymentMethodValidator } from '../schema.ts'
+import { defaultCurrency } from '../types.ts'
+
+const providerValidator = v.union(v.literal('stripe'), v.literal('paypal'))
+
+const findingValidator = v.object({
+	payment_id: v.string(),
+	kind: discrepancyKindValidator,
+	upstream_amount: v.optional(v.float64()),
+	upstream_currency: v.optional(v.string()),
+	upstream_refunded_amount: v.optional(v.float64()),
+	upstream_created_at: v.optional(v.number()),
+	local_amount: v.optional(v.float64()),
+	local_currency: v.optional(v.string()),
+})
+
+// The donations (if any) recorded under each payment ID
+export const getDonationsByPaymentIds = internalQuery({
+	args: {
+		payment_ids: v.array(v.string()),
+	},
+	handler: async (ctx, { payment_ids }) => {
+		const donations = await Promise.all(
+			payment_ids.map((payment_id) =>
+				ctx.db
+					.query('donations')
+					.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+					.first()
+			)
+		)
+		return donations.flatMap((donation) => (donation ? [donation] : []))
+	},
+})
+
+// One method's donations created in [from, to), with what the donor paid
+export const listDonationsInRange = internalQuery({
+	args: {
+		payment_method: paymentMethodValidator,
+		from: v.number(),
+		to: v.number(),
+	},
+	handler: async (ctx, { payment_method, from, to }) => {
+		const donations = await ctx.db
+			.query('donations')
+			.withIndex('by_payment_method', (q) =>
+				q
+					.eq('payment_method', payment_method)
+					.gte('_creationTime', from)
+					.lt('_creationTime', to)
+			)
+			.collect()
+		return donations.map((donation) => ({
+			payment_id: donation.payment_id,
+			amount: donation.original_amount ?? donation.amount,
+			currency:
+				donation.original_currency ?? donation.currency ?? defaultCurrency,
+		}))
+	},
+})
+
+// One method's donations since `from` whose processing fee isn't recorded yet, newest first
+// Voided donations never settled, so there is no fee to find
+export const listDonationsMissingFees = internalQuery({
+	args: {
+		payment_method: paymentMethodValidator,
+		from: v.number(),
+		cursor: v.union(v.string(), v.null()),
+		limit: v.number(),
+	},
+	handler: async (ctx, { payment_method, from, cursor, limit }) => {
+		return await ctx.db
+			.query('donations')
+			.withIndex('by_payment_method', (q) =>
+				q.eq('payment_method', payment_method).gte('_creationTime', from)
+			)
+			.filter((q) =>
+				q.and(
+					q.eq(q.field('fee_amount'), undefined),
+					q.neq(q.field('status'), 'voided')
+				)
+			)
+			.order('desc')
+			.paginate({ numItems: limit, cursor })
+	},
+})
+
+// Store this run's findings for a batch of checked payment IDs
+// New problems open a discrepancy, known ones are refreshed (dismissed ones stay
+// dismissed), and open ones for checked IDs that weren't found again are cleared
+export const recordFindings = internalMutation({
+	args: {
+		provider: providerValidator,
+		checked_payment_ids: v.array(v.string()),
+		findings: v.array(findingValidator),
+	},
+	handler: async (ctx, { provider, checked_payment_ids, findings }) => {
+		const now = Date.now()
+		let openedCount = 0
+		let clearedCount = 0
+
+		for (const { payment_id, kind, ...details } of findings) {
+			const existing = await ctx.db
+				.query('reconciliation_discrepancies')
+				.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+				.filter((q) => q.eq(q.field('kind'), kind))
+				.first()
+
+			if (!existing) {
+				await ctx.db.insert('reconciliation_discrepancies', {
+					provider,
+					payment_id,
+					kind,
+					status: 'open',
+					...details,
+					first_seen_at: now,
+					last_seen_at: now,
+				})
+				openedCount++
+				continue
+			}
+
+			await ctx.db.patch(existing._id, {
+				...details,
+				last_seen_at: now,
+				...(existing.status === 'cleared'
+					? { status: 'open' as const, resolved_at: undefined }
+					: {}),
+			})
+		}
+
+		const found = new Set(
+			findings.map((finding) => `${finding.payment_id}:${finding.kind}`)
+		)
+		for (const payment_id of checked_payment_ids) {
+			const discrepancies = await ctx.db
+				.query('reconciliation_discrepancies')
+				.withIndex('by_payment_id', (q) => q.eq('payment_id', payment_id))
+				.collect()
+
+			for (const discrepancy of discrepancies) {
+				if (
+					discrepancy.status === 'open' &&
+					!found.has(`${payment_id}:${discrepancy.kind}`)
+				) {
+					await ctx.db.patch(discrepancy._id, {
+						status: 'cleared',
+						resolved_at: now,
+					})
+					clearedCount++
+				}
+			}
+		}
+
+		return { openedCount, clearedCount }
+	},
+})
+
+export const getDiscrepancyInternal = internalQuery({
+	args: {
+		discrepancy_id: v.id('reconciliation_discrepancies'),
+	},
+	handler: async (ctx, { discrepancy_id }) => {
+		return await ctx.db.get(discrepancy_id)
+	},
+})
+
+export const markDiscrepancyImported = internalMutation({
+	args: {
+		discrepancy_id: v.id('reconciliation_discrepancies'),
+	},
+	handler: async (ctx, { discrepancy_id }) => {
+		await ctx.db.patch(discrepancy_id, {
+			status: 'imported',
+			resolved_at: Date.now(),
+		})
+	},
+})
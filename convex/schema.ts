@@ -10,21 +10,254 @@ export const paymentMetadataValidator = v.optional(
 		player_name: v.union(v.string(), v.null()),
 		use_player_name: v.boolean(),
 		message: v.optional(v.string()),
+		// Added on top of the donation to cover processing fees, in the payment
+		// currency - already included in the amount (see convex/fees.ts)
+		fee_covered: v.optional(v.number()),
 	})
 )
 
+// Donation lifecycle after payment - only active donations count publicly
+export const donationStatusValidator = v.union(
+	v.literal('pending'), // Payment not settled yet (PayPal eCheck or held capture)
+	v.literal('voided'), // Pending payment never settled (PayPal capture denied)
+	v.literal('active'),
+	v.literal('refunded'), // Fully refunded
+	v.literal('partially_refunded'), // Some of the amount was refunded
+	v.literal('disputed') // Chargeback opened (Stripe dispute / PayPal reversal)
+)
+
+// Donor message review state - messages are only shown publicly once approved
+export const messageStatusValidator = v.union(
+	v.literal('pending_review'),
+	v.literal('approved'),
+	v.literal('rejected')
+)
+
+// Must match PaymentMethod in types.ts
+export const paymentMethodValidator = v.union(
+	v.literal('stripe'),
+	v.literal('paypal'),
+	v.literal('bitcoin')
+)
+
+// Must match supportedCurrencies in types.ts
+export const currencyValidator = v.union(
+	v.literal('USD'),
+	v.literal('EUR'),
+	v.literal('GBP'),
+	v.literal('CAD'),
+	v.literal('AUD')
+)
+
+// What reconciliation found when comparing processor records with donations
+export const discrepancyKindValidator = v.union(
+	v.literal('missing_locally'), // Paid upstream, no donation (lost webhook)
+	v.literal('missing_upstream'), // Donation with no matching payment (phantom)
+	v.literal('amount_mismatch'),
+	v.literal('refunded_upstream') // Refund or chargeback the donation doesn't reflect
+)
+
+export const discrepancyStatusValidator = v.union(
+	v.literal('open'),
+	v.literal('cleared'), // A later run no longer found it (e.g. a delayed webhook arrived)
+	v.literal('imported'), // Admin imported the missing donation
+	v.literal('dismissed')
+)
+
+export const webhookProviderValidator = v.union(
+	v.literal('stripe'),
+	v.literal('paypal')
+)
+
+// Webhook events are processed by a scheduled job after the endpoint has responded
+export const webhookEventStatusValidator = v.union(
+	v.literal('received'), // Verified and stored, a processing job is scheduled
+	v.literal('processing'), // A job is running it now
+	v.literal('processed'),
+	v.literal('ignored'), // Event type we only acknowledge, or nothing to update
+	v.literal('failed'), // Last attempt threw - another is scheduled for next_attempt_at
+	v.literal('dead_letter') // Gave up after the maximum attempts - replay by hand
+)
+
+// One output paying a Bitcoin payment address
+export const bitcoinUtxoValidator = v.object({
+	txid: v.string(),
+	vout: v.number(),
+	amount_sats: v.number(),
+	block_height: v.optional(v.number()), // Undefined while in the mempool
+})
+
 const schema = defineSchema({
+	campaigns: defineTable({
+		slug: v.string(), // URL segment for /c/$slug routes
+		title: v.string(),
+		description: v.optional(v.string()),
+		goal_amount: v.float64(),
+		currency: v.optional(currencyValidator), // Defaults to USD
+		starts_at: v.number(),
+		ends_at: v.optional(v.number()), // Open-ended when not set
+		hero_image: v.optional(v.string()), // Path under /public or absolute URL
+	}).index('by_slug', ['slug']),
 	donations: defineTable({
-		amount: v.float64(),
+		amount: v.float64(), // Normalized to the campaign's currency, used for all totals
+		// What the donor actually paid - optional only for rows created before
+		// multi-currency (those were always USD)
+		currency: v.optional(currencyValidator), // Currency of amount
+		original_amount: v.optional(v.float64()),
+		original_currency: v.optional(currencyValidator),
 		payment_id: v.string(),
 		display_name: v.string(),
-		payment_method: v.union(
-			v.literal('stripe'),
-			v.literal('paypal'),
-			v.literal('bitcoin')
-		),
+		payment_method: paymentMethodValidator,
 		message: v.optional(v.string()),
-	}).index('by_payment_id', ['payment_id']),
+		message_status: v.optional(messageStatusValidator), // Set whenever message is
+		message_flags: v.optional(v.array(v.string())), // Auto-filter reasons (profanity, url, spam)
+		message_reviewed_at: v.optional(v.number()),
+		// Optional only for rows created before campaigns existed
+		// Backfill with internal.campaigns.assignUnlinkedDonations
+		campaign_id: v.optional(v.id('campaigns')),
+		subscription_id: v.optional(v.string()), // Stripe subscription for recurring donations
+		// Optional only for rows created before refunds were tracked (treated as active)
+		status: v.optional(donationStatusValidator),
+		// Private: payer email from Stripe/PayPal, or opted in on the Bitcoin form
+		donor_email: v.optional(v.string()),
+		donor_id: v.optional(v.id('donors')), // Set whenever donor_email is
+		receipt_sent_at: v.optional(v.number()),
+		refunded_amount: v.optional(v.float64()), // Cumulative refunded amount, same currency as amount
+		// Bitcoin only: the transaction and the USD/BTC rate it was priced at
+		// (the pending payment row that also had them is deleted after confirmation)
+		txid: v.optional(v.string()),
+		btc_exchange_rate: v.optional(v.float64()),
+		// Bitcoin only: paid over Lightning - payment_id is the invoice's payment hash
+		// and there is no txid
+		lightning: v.optional(v.boolean()),
+		// PayPal only: capture status as last reported (COMPLETED, PENDING, DECLINED...)
+		capture_status: v.optional(v.string()),
+		// Set when the donor covered the processing fees: the part of amount that
+		// covers them, same currency as amount
+		fee_covered: v.optional(v.float64()),
+		// Actual fee reported by the processor (Stripe balance transaction, PayPal
+		// seller_receivable_breakdown) or the incoming Bitcoin tx's network fee,
+		// recorded by internal.reconciliation.fees.recordProcessingFees - same currency as amount
+		fee_amount: v.optional(v.float64()),
+		// What the campaign keeps: amount minus fee_amount once it's recorded
+		// (Bitcoin network fees are paid by the sender, so they aren't deducted),
+		// until then amount minus fee_covered when the donor covered the fees
+		net_amount: v.optional(v.float64()),
+	})
+		.index('by_payment_id', ['payment_id'])
+		.index('by_payment_method', ['payment_method']) // Accounting export (range on _creationTime)
+		.index('by_campaign', ['campaign_id'])
+		.index('by_message_status', ['message_status']) // Admin moderation queue
+		.index('by_donor', ['donor_id']) // Year-end statements (range on _creationTime)
+		.searchIndex('search_display_name', {
+			searchField: 'display_name',
+			filterFields: ['campaign_id'],
+		}), // Admin dashboard donor search
+	// One row per donor email, so yearly statements can group their donations
+	donors: defineTable({
+		email: v.string(), // Lowercased and trimmed
+		name: v.optional(v.string()), // Payer name from Stripe/PayPal, latest wins
+	}).index('by_email', ['email']),
+	tax_statements: defineTable({
+		donor_id: v.id('donors'),
+		year: v.number(),
+		donation_count: v.number(),
+		totals: v.array(
+			v.object({ currency: currencyValidator, amount: v.float64() })
+		),
+		html_storage_id: v.id('_storage'),
+		pdf_storage_id: v.id('_storage'),
+		generated_at: v.number(),
+		emailed_at: v.optional(v.number()),
+		email_error: v.optional(v.string()),
+	}).index('by_year_and_donor', ['year', 'donor_id']),
+	// One row per problem found by the processor reconciliation job
+	reconciliation_discrepancies: defineTable({
+		provider: webhookProviderValidator,
+		payment_id: v.string(), // Session/invoice ID (Stripe) or capture ID (PayPal)
+		kind: discrepancyKindValidator,
+		status: discrepancyStatusValidator,
+		// Processor currencies can be ones we don't support, so these stay plain strings
+		upstream_amount: v.optional(v.float64()),
+		upstream_currency: v.optional(v.string()),
+		upstream_refunded_amount: v.optional(v.float64()),
+		upstream_created_at: v.optional(v.number()),
+		local_amount: v.optional(v.float64()), // What the donor paid, as recorded
+		local_currency: v.optional(v.string()),
+		first_seen_at: v.number(),
+		last_seen_at: v.number(),
+		resolved_at: v.optional(v.number()),
+	})
+		.index('by_status', ['status'])
+		.index('by_payment_id', ['payment_id']),
+	// Every verified Stripe/PayPal webhook - also the queue the processing jobs work from
+	webhook_events: defineTable({
+		provider: webhookProviderValidator,
+		event_id: v.string(), // Stripe evt_... / PayPal WH-..., stable across redeliveries
+		event_type: v.string(),
+		payload: v.string(), // Raw body exactly as received
+		received_at: v.number(),
+		status: webhookEventStatusValidator,
+		attempts: v.number(), // Processing runs finished (including replays)
+		error: v.optional(v.string()), // Message from the last failed run
+		processing_started_at: v.optional(v.number()),
+		next_attempt_at: v.optional(v.number()), // Set while waiting to retry
+		processed_at: v.optional(v.number()),
+	})
+		.index('by_provider_and_event_id', ['provider', 'event_id'])
+		.index('by_status', ['status']),
+	// Running totals per campaign (active donations only), maintained by
+	// convex/aggregates.ts in the same transaction as each donation change
+	donation_aggregates: defineTable({
+		campaign_id: v.optional(v.id('campaigns')), // Undefined holds donations not linked to a campaign
+		total: v.float64(),
+		count: v.number(),
+		method_totals: v.object({
+			stripe: v.float64(),
+			paypal: v.float64(),
+			bitcoin: v.float64(),
+		}),
+		tier_counts: v.record(v.string(), v.number()), // Tier name → donation count
+		// Same totals after processing fees (net_amount, or amount when not known)
+		// Optional only for aggregates created before fees were tracked
+		net_total: v.optional(v.float64()),
+		method_net_totals: v.optional(
+			v.object({
+				stripe: v.float64(),
+				paypal: v.float64(),
+				bitcoin: v.float64(),
+			})
+		),
+		recompute_started_at: v.optional(v.number()), // Set while aggregates.recompute is running
+		recomputed_through: v.optional(v.number()), // _creationTime of the last donation recomputed
+	}).index('by_campaign', ['campaign_id']),
+	stripe_subscriptions: defineTable({
+		subscription_id: v.string(),
+		customer_id: v.string(),
+		campaign_id: v.optional(v.id('campaigns')),
+		amount: v.float64(), // Monthly amount in currency
+		currency: v.optional(currencyValidator), // Optional for rows created before multi-currency (USD)
+		status: v.union(
+			v.literal('active'), // Latest invoice paid
+			v.literal('past_due'), // Latest invoice failed, Stripe is retrying
+			v.literal('canceled') // Subscription ended (donor canceled or retries exhausted)
+		),
+		last_invoice_id: v.optional(v.string()),
+		canceled_at: v.optional(v.number()),
+	}).index('by_subscription_id', ['subscription_id']),
+	// Checkouts paid with a delayed-notification method (bank debits) whose money
+	// hasn't arrived yet - lets the success page say so. Deleted once it arrives.
+	stripe_pending_checkouts: defineTable({
+		session_id: v.string(), // Checkout session ID, or payment intent ID for the Payment Element
+		status: v.union(
+			v.literal('processing'), // Waiting for checkout.session.async_payment_*
+			v.literal('succeeded'), // Settled - kept so a late 'processing' event can't reopen it
+			v.literal('failed') // The debit failed - no donation was recorded
+		),
+		failed_at: v.optional(v.number()),
+	})
+		.index('by_session_id', ['session_id'])
+		.index('by_status', ['status']), // For cleanup queries (with _creationTime)
 	payment_id_mappings: defineTable({
 		source_id: v.string(), // Payment ID from URL (Stripe session_id / PayPal order_id)
 		donation_payment_id: v.string(), // Actual payment_id in donations table (capture_id for PayPal)
@@ -35,19 +268,24 @@ const schema = defineSchema({
 	}).index('by_key', ['key']),
 	pending_bitcoin_payments: defineTable({
 		session_id: v.string(), // Browser session ID for ownership validation
+		campaign_id: v.optional(v.id('campaigns')), // Optional for rows created before campaigns existed
 		address: v.string(),
 		expected_amount_btc: v.number(),
 		expected_amount_usd: v.number(),
 		exchange_rate: v.number(),
 		derivation_index: v.number(),
 		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()), // Opt-in, copied to the donation as donor_email
 		status: v.union(
 			v.literal('initialized'), // Address generated, waiting for transaction
 			v.literal('pending'), // Transaction detected, waiting for confirmations
 			v.literal('confirmed'), // Fully confirmed, donation created
-			v.literal('expired') // Timed out or abandoned
+			v.literal('expired'), // Timed out or abandoned
+			v.literal('held'), // Held for review - waiting for an admin (see bitcoin_discrepancies)
+			v.literal('rejected') // Underpaid and rejected (BITCOIN_UNDERPAYMENT_POLICY) - kept as the record of the coins received
 		),
 		txid: v.optional(v.string()), // Transaction ID once detected
+		received_amount_btc: v.optional(v.number()), // Total of every transaction so far
 		detected_at: v.optional(v.number()), // Timestamp when transaction first seen
 		scheduled_job_id: v.optional(v.id('_scheduled_functions')), // Scheduler job ID for cancellation
 		created_at: v.number(),
@@ -58,17 +296,128 @@ const schema = defineSchema({
 		.index('by_session_amount', ['session_id', 'expected_amount_usd']) // For idempotency
 		.index('by_status', ['status'])
 		.index('by_status_and_expires', ['status', 'expires_at']), // For cleanup queries
+	// Every output received by a pending payment's address, so a donor can
+	// complete an underpaid payment with more transactions
+	// Mirrors the latest provider answer (replaced transactions drop out)
+	bitcoin_payment_utxos: defineTable({
+		address: v.string(), // pending_bitcoin_payments.address
+		...bitcoinUtxoValidator.fields,
+		first_seen_at: v.number(),
+	}).index('by_address', ['address']),
+	// Lightning invoices waiting to be paid - the node only knows the amount,
+	// so the donation details are kept here until the invoice settles
+	pending_lightning_invoices: defineTable({
+		session_id: v.string(), // Browser session ID for ownership validation
+		campaign_id: v.id('campaigns'),
+		payment_hash: v.string(), // Hex, becomes the donation's payment_id
+		payment_request: v.string(), // BOLT11 invoice shown to the donor
+		amount_sats: v.number(),
+		expected_amount_usd: v.number(),
+		exchange_rate: v.number(), // USD per BTC the invoice was priced at
+		metadata: paymentMetadataValidator,
+		receipt_email: v.optional(v.string()), // Opt-in, copied to the donation as donor_email
+		status: v.union(
+			v.literal('open'), // Waiting for payment
+			v.literal('settled'), // Paid, donation created
+			v.literal('expired') // Invoice expired or was canceled on the node
+		),
+		created_at: v.number(),
+		expires_at: v.number(),
+	})
+		.index('by_payment_hash', ['payment_hash'])
+		.index('by_session_amount', ['session_id', 'expected_amount_usd']) // For idempotency
+		.index('by_status_and_expires', ['status', 'expires_at']), // For cleanup queries
+	// Confirmed payments the blockchain providers disagreed about in quorum mode,
+	// that were still underpaid when their window closed (BITCOIN_UNDERPAYMENT_POLICY=review),
+	// or that were detected but couldn't be settled before their deadline
+	// The payment is held until an admin credits or dismisses it
+	bitcoin_discrepancies: defineTable({
+		address: v.string(),
+		reason: v.optional(
+			v.union(
+				v.literal('provider_mismatch'), // Default for rows from before underpayment holds
+				v.literal('underpayment'),
+				v.literal('quorum_unavailable'), // Too few providers agreed before the deadline
+				v.literal('timeout') // Detected, but not settled before the deadline
+			)
+		),
+		txid: v.string(), // What the first provider reported
+		amount_sats: v.number(), // Credited at this amount
+		block_height: v.optional(v.number()), // Absent when the payment never confirmed
+		reports: v.array(
+			v.object({
+				provider: v.string(), // BlockchainProviderName
+				found: v.boolean(), // Whether the provider knows the transaction
+				amount_sats: v.optional(v.number()),
+				block_height: v.optional(v.number()),
+				tip_height: v.optional(v.number()),
+			})
+		),
+		status: v.union(
+			v.literal('open'),
+			v.literal('credited'), // Admin verified the payment, donation created
+			v.literal('dismissed') // Admin rejected it, payment expired
+		),
+		created_at: v.number(),
+		resolved_at: v.optional(v.number()),
+	})
+		.index('by_status', ['status'])
+		.index('by_address', ['address']),
+	// Health of each blockchain provider payment monitoring reads from
+	// A row only exists once a provider has failed
+	bitcoin_provider_health: defineTable({
+		provider: v.string(), // BlockchainProviderName
+		consecutive_failures: v.number(),
+		last_failure_at: v.optional(v.number()),
+		last_error: v.optional(v.string()),
+		skip_until: v.optional(v.number()), // Skipped until then after too many failures
+	}).index('by_provider', ['provider']),
 })
 
 // biome-ignore lint/style/noDefaultExport: Safe to write default here, according to Convex docs
 export default schema
 
+export const campaign = schema.tables.campaigns.validator
+export type Campaign = Infer<typeof campaign>
+
 export const donation = schema.tables.donations.validator
 export type Donation = Infer<typeof donation>
 
+export const donationAggregate = schema.tables.donation_aggregates.validator
+export type DonationAggregate = Infer<typeof donationAggregate>
+
+export const donor = schema.tables.donors.validator
+export type Donor = Infer<typeof donor>
+
+export const taxStatement = schema.tables.tax_statements.validator
+export type TaxStatement = Infer<typeof taxStatement>
+
+export const reconciliationDiscrepancy =
+	schema.tables.reconciliation_discrepancies.validator
+export type ReconciliationDiscrepancy = Infer<typeof reconciliationDiscrepancy>
+
+export const webhookEvent = schema.tables.webhook_events.validator
+export type WebhookEvent = Infer<typeof webhookEvent>
+
+export const stripeSubscription = schema.tables.stripe_subscriptions.validator
+export type StripeSubscription = Infer<typeof stripeSubscription>
+
 export const bitcoinConfig = schema.tables.bitcoin_config.validator
 export type BitcoinConfig = Infer<typeof bitcoinConfig>
 
 export const pendingBitcoinPayment =
 	schema.tables.pending_bitcoin_payments.validator
 export type PendingBitcoinPayment = Infer<typeof pendingBitcoinPayment>
+
+export type BitcoinUtxo = Infer<typeof bitcoinUtxoValidator>
+
+export const pendingLightningInvoice =
+	schema.tables.pending_lightning_invoices.validator
+export type PendingLightningInvoice = Infer<typeof pendingLightningInvoice>
+
+export const bitcoinDiscrepancy = schema.tables.bitcoin_discrepancies.validator
+export type BitcoinDiscrepancy = Infer<typeof bitcoinDiscrepancy>
+
+export const bitcoinProviderHealth =
+	schema.tables.bitcoin_provider_health.validator
+export type BitcoinProviderHealth = Infer<typeof bitcoinProviderHealth>
@@ -0,0 +1,135 @@
+// This generates year-end giving statements (HTML + PDF) for every donor and optionally emails them.
+// Runs in the Node.js runtime because the PDF writer and the mail transports need Node APIs.
+
+'use node'
+
+import { v } from 'convex/values'
+import { getMailTransport } from '@/libs/email/mail-transport.ts'
+import {
+	renderStatementEmail,
+	renderStatementHtml,
+	renderStatementPdf,
+	type StatementDetails,
+	type StatementTotal,
+} from '@/libs/statements/statement-template.ts'
+import { logger } from '@/utils/logger.ts'
+import { internal } from '../_generated/api'
+import { internalAction } from '../_generated/server'
+import type { Currency } from '../types.ts'
+
+// Each donor means a query, two file uploads and possibly an email, so keep batches small
+const donorBatchSize = 25
+
+function sumByCurrency(
+	donations: ReadonlyArray<{ amount: number; currency: Currency }>
+): StatementTotal[] {
+	const totals = new Map<Currency, number>()
+	for (const { amount, currency } of donations) {
+		totals.set(currency, (totals.get(currency) ?? 0) + amount)
+	}
+	return [...totals].map(([currency, amount]) => ({ currency, amount }))
+}
+
+// Scheduled by admin.mutations.generateTaxStatements
+// Processes one batch of donors per call and reschedules itself until done.
+// A failed email is recorded on the statement and never stops the batch.
+export const processStatementBatch = internalAction({
+	args: {
+		year: v.number(),
+		send_email: v.boolean(),
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, { year, send_email, cursor }) => {
+		const transport = send_email ? getMailTransport() : null
+		if (send_email && !transport) {
+			logger.warn('Email not configured, generating statements without sending')
+		}
+
+		const result = await ctx.runQuery(
+			internal.statements.mutations.listDonorsPage,
+			{ cursor: cursor ?? null, numItems: donorBatchSize }
+		)
+
+		let generatedCount = 0
+		let emailedCount = 0
+		for (const donor of result.page) {
+			const donations = await ctx.runQuery(
+				internal.statements.mutations.getDonorYearDonations,
+				{ donor_id: donor._id, year }
+			)
+			if (donations.length === 0) {
+				continue
+			}
+
+			const details: StatementDetails = {
+				donorName: donor.name,
+				donorEmail: donor.email,
+				year,
+				donations: donations.map((donation) => ({
+					donatedAt: donation.donated_at,
+					amount: donation.amount,
+					currency: donation.currency,
+					paymentMethod: donation.payment_method,
+					paymentReference: donation.payment_id,
+					partiallyRefunded: donation.partially_refunded,
+				})),
+				totals: sumByCurrency(donations),
+				generatedAt: Date.now(),
+			}
+			const html = renderStatementHtml(details)
+			const pdf = renderStatementPdf(details)
+
+			const statement_id = await ctx.runMutation(
+				internal.statements.mutations.saveStatement,
+				{
+					donor_id: donor._id,
+					year,
+					donation_count: donations.length,
+					totals: [...details.totals],
+					html_storage_id: await ctx.storage.store(
+						new Blob([html], { type: 'text/html; charset=utf-8' })
+					),
+					pdf_storage_id: await ctx.storage.store(
+						new Blob([pdf], { type: 'application/pdf' })
+					),
+				}
+			)
+			generatedCount++
+
+			if (!transport) {
+				continue
+			}
+			try {
+				await transport.send(renderStatementEmail(details, pdf))
+				await ctx.runMutation(
+					internal.statements.mutations.markStatementEmailed,
+					{ statement_id }
+				)
+				emailedCount++
+			} catch (error) {
+				logger.error('Statement email failed:', error)
+				await ctx.runMutation(
+					internal.statements.mutations.recordStatementEmailError,
+					{
+						statement_id,
+						error: error instanceof Error ? error.message : String(error),
+					}
+				)
+			}
+		}
+
+		logger.audit('tax_statements_generated', {
+			year,
+			generated: generatedCount,
+			emailed: emailedCount,
+		})
+
+		if (!result.isDone) {
+			await ctx.scheduler.runAfter(
+				0,
+				internal.statements.actions.processStatementBatch,
+				{ year, send_email, cursor: result.continueCursor }
+			)
+		}
+	},
+})
@@ -0,0 +1,140 @@
+// This loads donors and their donations for year-end statements and stores the generated files.
+// Note: This must be in a separate file from actions.ts because queries and
+// mutations cannot be defined in Node.js modules ('use node' files).
+
+import { v } from 'convex/values'
+import type { Doc } from '../_generated/dataModel'
+import { internalMutation, internalQuery } from '../_generated/server'
+import { currencyValidator } from '../schema.ts'
+import { type Currency, defaultCurrency } from '../types.ts'
+
+// Statements cover calendar years in UTC
+export function getYearRange(year: number): { start: number; end: number } {
+	return { start: Date.UTC(year, 0, 1), end: Date.UTC(year + 1, 0, 1) }
+}
+
+// What the donor gave, in the currency they paid in, less any partial refund
+// Refunded, disputed and unsettled donations are left off the statement entirely
+function getStatementAmount(donation: Doc<'donations'>): number | null {
+	if (
+		donation.status === 'refunded' ||
+		donation.status === 'disputed' ||
+		donation.status === 'pending' ||
+		donation.status === 'voided'
+	) {
+		return null
+	}
+	const paidAmount = donation.original_amount ?? donation.amount
+	// refunded_amount is stored in the campaign currency, like amount
+	const refundedShare =
+		donation.amount > 0 ? (donation.refunded_amount ?? 0) / donation.amount : 0
+	return paidAmount * (1 - refundedShare)
+}
+
+export const listDonorsPage = internalQuery({
+	args: {
+		cursor: v.union(v.string(), v.null()),
+		numItems: v.number(),
+	},
+	handler: async (ctx, { cursor, numItems }) => {
+		return await ctx.db.query('donors').paginate({ numItems, cursor })
+	},
+})
+
+// Every donation that counts toward a donor's statement for the year, oldest first
+export const getDonorYearDonations = internalQuery({
+	args: {
+		donor_id: v.id('donors'),
+		year: v.number(),
+	},
+	handler: async (ctx, { donor_id, year }) => {
+		const { start, end } = getYearRange(year)
+		const donations = await ctx.db
+			.query('donations')
+			.withIndex('by_donor', (q) =>
+				q
+					.eq('donor_id', donor_id)
+					.gte('_creationTime', start)
+					.lt('_creationTime', end)
+			)
+			.collect()
+
+		return donations.flatMap((donation) => {
+			const amount = getStatementAmount(donation)
+			if (amount === null) {
+				return []
+			}
+			const currency: Currency =
+				donation.original_currency ?? donation.currency ?? defaultCurrency
+			return [
+				{
+					donated_at: donation._creationTime,
+					amount,
+					currency,
+					payment_method: donation.payment_method,
+					payment_id: donation.payment_id,
+					partially_refunded: donation.status === 'partially_refunded',
+				},
+			]
+		})
+	},
+})
+
+// Replace any earlier statement for the same donor and year, deleting its files
+export const saveStatement = internalMutation({
+	args: {
+		donor_id: v.id('donors'),
+		year: v.number(),
+		donation_count: v.number(),
+		totals: v.array(
+			v.object({ currency: currencyValidator, amount: v.float64() })
+		),
+		html_storage_id: v.id('_storage'),
+		pdf_storage_id: v.id('_storage'),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query('tax_statements')
+			.withIndex('by_year_and_donor', (q) =>
+				q.eq('year', args.year).eq('donor_id', args.donor_id)
+			)
+			.first()
+
+		if (existing) {
+			await ctx.storage.delete(existing.html_storage_id)
+			await ctx.storage.delete(existing.pdf_storage_id)
+			await ctx.db.replace(existing._id, {
+				...args,
+				generated_at: Date.now(),
+			})
+			return existing._id
+		}
+
+		return await ctx.db.insert('tax_statements', {
+			...args,
+			generated_at: Date.now(),
+		})
+	},
+})
+
+export const markStatementEmailed = internalMutation({
+	args: {
+		statement_id: v.id('tax_statements'),
+	},
+	handler: async (ctx, { statement_id }) => {
+		await ctx.db.patch(statement_id, {
+			emailed_at: Date.now(),
+			email_error: undefined,
+		})
+	},
+})
+
+export const recordStatementEmailError = internalMutation({
+	args: {
+		statement_id: v.id('tax_statements'),
+		error: v.string(),
+	},
+	handler: async (ctx, { statement_id, error }) => {
+		await ctx.db.patch(statement_id, { email_error: error })
+	},
+})
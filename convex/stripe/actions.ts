@@ -1,15 +1,25 @@
-// This creates Stripe checkout sessions for credit card payments.
-// When users click donate, this sends them to Stripe's secure payment page.
+// This creates Stripe checkout sessions and payment intents for credit card payments.
+// Checkout sends users to Stripe's payment page; payment intents are paid in the embedded Payment Element.
 
 import { RateLimiter } from '@convex-dev/rate-limiter'
-import { components } from 'convex/_generated/api'
-import { action } from 'convex/_generated/server'
+import { components, internal } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { type ActionCtx, action } from 'convex/_generated/server'
 import { v } from 'convex/values'
 import { env } from '@/env.ts'
 import { stripe } from '@/libs/stripe/get-stripe.ts'
+import { getCampaignPath } from '@/utils/campaign-path.ts'
 import { logger } from '@/utils/logger'
-import { paymentMetadataValidator } from '../schema.ts'
-import { validateDonationAmount } from '../types.ts'
+import { validateCoveredFee } from '../fees.ts'
+import { currencyValidator, paymentMetadataValidator } from '../schema.ts'
+import {
+	type Currency,
+	defaultCurrency,
+	type PaymentMetadata,
+	paymentElementIntegration,
+	validateCampaignOpen,
+	validateDonationAmount,
+} from '../types.ts'
 
 // Initialize rate limiter for checkout creation
 const rateLimiter = new RateLimiter(components.rateLimiter, {
@@ -22,17 +32,76 @@ const rateLimiter = new RateLimiter(components.rateLimiter, {
 	},
 })
 
+const stripePaymentArgs = {
+	amount: v.number(),
+	currency: v.optional(currencyValidator), // Defaults to USD
+	campaign_id: v.id('campaigns'),
+	metadata: paymentMetadataValidator,
+}
+
+// Validation and rate limiting shared by both Stripe flows
+// Returns the campaign path for return URLs and the string-only metadata
+// the webhook rebuilds the donation from
+async function prepareStripePayment(
+	ctx: ActionCtx,
+	{
+		amount,
+		currency,
+		campaign_id,
+		metadata,
+	}: {
+		amount: number
+		currency: Currency
+		campaign_id: Id<'campaigns'>
+		metadata: PaymentMetadata | undefined
+	}
+): Promise<{ campaignPath: string; paymentMetadata: Record<string, string> }> {
+	// Validate donation amount using consistent validator
+	validateDonationAmount(amount, currency)
+	validateCoveredFee(amount, metadata?.fee_covered, 'stripe', currency)
+
+	const campaign = await ctx.runQuery(internal.campaigns.getCampaignInternal, {
+		campaign_id,
+	})
+	if (!campaign) {
+		throw new Error('Campaign not found')
+	}
+	validateCampaignOpen(campaign, Date.now())
+
+	// Rate limit checkout creation (global limit to prevent abuse)
+	await rateLimiter.limit(ctx, 'createCheckout', { key: 'global' })
+
+	return {
+		campaignPath: getCampaignPath(campaign.slug),
+		paymentMetadata: {
+			player_name: metadata?.player_name || '',
+			use_player_name: metadata?.use_player_name ? 'true' : 'false',
+			message: metadata?.message || '',
+			fee_covered: metadata?.fee_covered?.toString() ?? '',
+			amount: amount.toString(),
+			campaign_id,
+		},
+	}
+}
+
 export const createCheckoutSession = action({
 	args: {
-		amount: v.number(),
-		metadata: paymentMetadataValidator,
+		...stripePaymentArgs,
+		recurring: v.optional(v.boolean()), // Monthly subscription instead of one-time payment
 	},
-	handler: async (ctx, { amount, metadata }) => {
-		// Validate donation amount using consistent validator
-		validateDonationAmount(amount)
-
-		// Rate limit checkout creation (global limit to prevent abuse)
-		await rateLimiter.limit(ctx, 'createCheckout', { key: 'global' })
+	handler: async (
+		ctx,
+		{ amount, currency = defaultCurrency, campaign_id, metadata, recurring }
+	) => {
+		// Copied onto the subscription as well, so every invoice.paid webhook
+		// can build its donation without looking up the original session
+		const { campaignPath, paymentMetadata: sessionMetadata } =
+			await prepareStripePayment(ctx, {
+				amount,
+				currency,
+				campaign_id,
+				metadata,
+			})
 
 		try {
 			const session = await stripe.checkout.sessions.create({
@@ -40,27 +109,26 @@ export const createCheckoutSession = action({
 				line_items: [
 					{
 						price_data: {
-							currency: 'usd',
+							currency: currency.toLowerCase(),
 							product_data: {
-								name: 'Donation',
+								name: recurring ? 'Monthly Donation' : 'Donation',
 								description: metadata?.use_player_name
 									? `Donation from ${metadata.player_name || 'Anonymous'}`
 									: 'Public donation',
 							},
 							unit_amount: Math.round(amount * 100),
+							recurring: recurring ? { interval: 'month' } : undefined,
 						},
 						quantity: 1,
 					},
 				],
-				mode: 'payment',
-				success_url: `${env.SITE_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
-				cancel_url: `${env.SITE_URL}/donate`,
-				metadata: {
-					player_name: metadata?.player_name || '',
-					use_player_name: metadata?.use_player_name ? 'true' : 'false',
-					message: metadata?.message || '',
-					amount: amount.toString(),
-				},
+				mode: recurring ? 'subscription' : 'payment',
+				subscription_data: recurring
+					? { metadata: sessionMetadata }
+					: undefined,
+				success_url: `${env.SITE_URL}${campaignPath}/success?session_id={CHECKOUT_SESSION_ID}`,
+				cancel_url: `${env.SITE_URL}${campaignPath}/donate`,
+				metadata: sessionMetadata,
 			})
 			return { url: session.url, sessionId: session.id }
 		} catch (error) {
@@ -69,3 +137,58 @@ export const createCheckoutSession = action({
 		}
 	},
 })
+
+// One-time donation paid in the embedded Payment Element (no redirect to Stripe)
+// The donation is created by the payment_intent.succeeded webhook, stored
+// under the payment intent ID
+// Returns null without STRIPE_PUBLISHABLE_KEY - the form falls back to Checkout
+export const createPaymentIntent = action({
+	args: stripePaymentArgs,
+	handler: async (
+		ctx,
+		{ amount, currency = defaultCurrency, campaign_id, metadata }
+	) => {
+		const publishableKey = env.STRIPE_PUBLISHABLE_KEY
+		if (!publishableKey) {
+			return null
+		}
+
+		const { campaignPath, paymentMetadata } = await prepareStripePayment(ctx, {
+			amount,
+			currency,
+			campaign_id,
+			metadata,
+		})
+
+		try {
+			const paymentIntent = await stripe.paymentIntents.create({
+				amount: Math.round(amount * 100),
+				currency: currency.toLowerCase(),
+				automatic_payment_methods: { enabled: true },
+				description: metadata?.use_player_name
+					? `Donation from ${metadata.player_name || 'Anonymous'}`
+					: 'Public donation',
+				// The webhook only turns intents marked like this into donations -
+				// Checkout and subscription invoices create payment intents too
+				metadata: {
+					...paymentMetadata,
+					integration: paymentElementIntegration,
+				},
+			})
+
+			if (!paymentIntent.client_secret) {
+				throw new Error('Payment intent has no client secret')
+			}
+
+			return {
+				clientSecret: paymentIntent.client_secret,
+				paymentIntentId: paymentIntent.id,
+				publishableKey,
+				returnUrl: `${env.SITE_URL}${campaignPath}/success`,
+			}
+		} catch (error) {
+			logger.error('Stripe payment intent error:', error)
+			throw new Error('Failed to create payment')
+		}
+	},
+})
@@ -0,0 +1,182 @@
+// This keeps track of monthly Stripe subscriptions and of checkouts still waiting on a bank debit.
+// Each paid invoice becomes its own donation; this table just follows the subscription's status.
+
+import { internalMutation } from 'convex/_generated/server'
+import { v } from 'convex/values'
+import { currencyValidator } from '../schema.ts'
+
+const subscriptionStatusValidator = v.union(
+	v.literal('active'),
+	v.literal('past_due'),
+	v.literal('canceled')
+)
+
+// Create or update a subscription record
+// Called from both checkout.session.completed and invoice.paid, since Stripe
+// does not guarantee which of the two arrives first.
+// Note: This must be in a separate file from webhooks.ts because mutations
+// cannot be defined in Node.js modules ('use node' files).
+export const upsertSubscription = internalMutation({
+	args: {
+		subscription_id: v.string(),
+		customer_id: v.string(),
+		campaign_id: v.optional(v.id('campaigns')),
+		amount: v.number(),
+		currency: currencyValidator,
+		status: subscriptionStatusValidator,
+		last_invoice_id: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query('stripe_subscriptions')
+			.withIndex('by_subscription_id', (q) =>
+				q.eq('subscription_id', args.subscription_id)
+			)
+			.first()
+
+		if (!existing) {
+			return await ctx.db.insert('stripe_subscriptions', args)
+		}
+
+		// A canceled subscription never comes back - Stripe creates a new one instead
+		if (existing.status === 'canceled') {
+			return existing._id
+		}
+
+		await ctx.db.patch(existing._id, {
+			status: args.status,
+			last_invoice_id: args.last_invoice_id ?? existing.last_invoice_id,
+		})
+		return existing._id
+	},
+})
+
+// Update subscription status from invoice.payment_failed / customer.subscription.deleted
+// Returns null if the subscription was never recorded (nothing to update)
+export const updateSubscriptionStatus = internalMutation({
+	args: {
+		subscription_id: v.string(),
+		status: subscriptionStatusValidator,
+	},
+	handler: async (ctx, { subscription_id, status }) => {
+		const subscription = await ctx.db
+			.query('stripe_subscriptions')
+			.withIndex('by_subscription_id', (q) =>
+				q.eq('subscription_id', subscription_id)
+			)
+			.first()
+
+		if (!subscription || subscription.status === 'canceled') {
+			return null
+		}
+
+		await ctx.db.patch(subscription._id, {
+			status,
+			canceled_at: status === 'canceled' ? Date.now() : undefined,
+		})
+		return subscription._id
+	},
+})
+
+// Bank debits and other delayed-notification methods finish checkout before the
+// money moves (payment_status 'unpaid'), so no donation is recorded yet
+export const markCheckoutProcessing = internalMutation({
+	args: {
+		session_id: v.string(),
+	},
+	handler: async (ctx, { session_id }) => {
+		const existing = await ctx.db
+			.query('stripe_pending_checkouts')
+			.withIndex('by_session_id', (q) => q.eq('session_id', session_id))
+			.first()
+
+		// Already processing, or already settled by an event that arrived first
+		if (existing) {
+			return existing._id
+		}
+
+		return await ctx.db.insert('stripe_pending_checkouts', {
+			session_id,
+			status: 'processing',
+		})
+	},
+})
+
+// checkout.session.async_payment_succeeded or checkout.session.async_payment_failed
+// Events can arrive in any order, so the row keeps the terminal state: success
+// always wins (a payment intent can fail and then succeed on a retry), a failure
+// only replaces 'processing', and 'processing' never replaces either
+// Payment intents use their ID as session_id and the same outcomes
+export const resolveCheckoutProcessing = internalMutation({
+	args: {
+		session_id: v.string(),
+		outcome: v.union(v.literal('succeeded'), v.literal('failed')),
+		// Skip failures for payments that never reached 'processing'
+		only_if_processing: v.optional(v.boolean()),
+	},
+	handler: async (ctx, { session_id, outcome, only_if_processing }) => {
+		const existing = await ctx.db
+			.query('stripe_pending_checkouts')
+			.withIndex('by_session_id', (q) => q.eq('session_id', session_id))
+			.first()
+
+		if (outcome === 'succeeded') {
+			if (!existing) {
+				await ctx.db.insert('stripe_pending_checkouts', {
+					session_id,
+					status: 'succeeded',
+				})
+			} else if (existing.status !== 'succeeded') {
+				await ctx.db.patch(existing._id, {
+					status: 'succeeded',
+					failed_at: undefined,
+				})
+			}
+			return
+		}
+
+		if (existing) {
+			if (existing.status === 'processing') {
+				await ctx.db.patch(existing._id, {
+					status: 'failed',
+					failed_at: Date.now(),
+				})
+			}
+		} else if (!only_if_processing) {
+			await ctx.db.insert('stripe_pending_checkouts', {
+				session_id,
+				status: 'failed',
+				failed_at: Date.now(),
+			})
+		}
+	},
+})
+
+// Clean up pending checkouts (called by scheduled cron)
+// Bank debits can take up to 14 days to settle, so rows are kept for 30 -
+// anything older is settled, failed or long past mattering
+export const cleanupOldPendingCheckouts = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000
+
+		let deletedCount = 0
+		for (const status of ['processing', 'succeeded', 'failed'] as const) {
+			const oldCheckouts = await ctx.db
+				.query('stripe_pending_checkouts')
+				.withIndex('by_status', (q) =>
+					q.eq('status', status).lt('_creationTime', thirtyDaysAgo)
+				)
+				.collect()
+
+			for (const checkout of oldCheckouts) {
+				await ctx.db.delete(checkout._id)
+			}
+			deletedCount += oldCheckouts.length
+		}
+
+		return {
+			deletedCount,
+		}
+	},
+})
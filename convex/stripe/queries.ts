@@ -0,0 +1,24 @@
+// This looks up Stripe checkouts that are still waiting for a bank debit to clear.
+// Used on the success page, which otherwise only knows about recorded donations.
+
+import { query } from 'convex/_generated/server'
+import { v } from 'convex/values'
+
+// Returns 'processing' or 'failed' for delayed-notification checkouts,
+// null for everything else (card payments, or a debit that has cleared)
+// Note: This must be in a separate file from webhooks.ts because queries
+// cannot be defined in Node.js modules ('use node' files).
+export const getCheckoutStatus = query({
+	args: {
+		session_id: v.string(),
+	},
+	handler: async (ctx, { session_id }) => {
+		const checkout = await ctx.db
+			.query('stripe_pending_checkouts')
+			.withIndex('by_session_id', (q) => q.eq('session_id', session_id))
+			.first()
+
+		// A settled payment is shown from its donation
+		return checkout?.status === 'succeeded' ? null : (checkout?.status ?? null)
+	},
+})
@@ -1,17 +1,485 @@
-// This receives notifications from Stripe when a payment completes.
-// It verifies the payment is real and creates the donation record.
+// This receives notifications from Stripe when a payment completes or is reversed.
+// It verifies the payment is real and creates or updates the donation record.
 'use node'
 
-import { api } from 'convex/_generated/api'
-import { action } from 'convex/_generated/server'
+import { internal } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { type ActionCtx, action } from 'convex/_generated/server'
 import { v } from 'convex/values'
 import type Stripe from 'stripe'
 import { env } from '@/env.ts'
 import { stripe } from '@/libs/stripe/get-stripe'
 import { logger } from '@/utils/logger'
-import { getDisplayName } from '../types.ts'
+import { getDonationAmounts } from '../currency.ts'
+import {
+	type Currency,
+	defaultCurrency,
+	getDisplayName,
+	isSupportedCurrency,
+	isValidEmail,
+	type PaymentMetadata,
+	paymentElementIntegration,
+} from '../types.ts'
+
+// Rebuild donor metadata from the string-only metadata createCheckoutSession
+// attached to the session (one-time) or subscription (monthly)
+function parseDonationMetadata(metadata: Stripe.Metadata | null | undefined): {
+	metadata: PaymentMetadata | undefined
+	campaign_id: Id<'campaigns'> | undefined
+	fee_covered: number | undefined
+} {
+	const player_name = metadata?.player_name
+	const use_player_name = metadata?.use_player_name === 'true'
+	const message = metadata?.message
+	// Absent on checkouts created before campaigns existed
+	const campaign_id = metadata?.campaign_id
+		? (metadata.campaign_id as Id<'campaigns'>)
+		: undefined
+
+	const parsed = use_player_name
+		? {
+				player_name: player_name || null,
+				use_player_name: true,
+				message: message || undefined,
+			}
+		: message
+			? {
+					player_name: null,
+					use_player_name: false,
+					message: message,
+				}
+			: undefined
+
+	// Absent or '' unless the donor covered the fees
+	const fee_covered = Number(metadata?.fee_covered) || undefined
+
+	return { metadata: parsed, campaign_id, fee_covered }
+}
+
+// Stripe reports currencies in lowercase ('eur')
+function parseStripeCurrency(currency: string | null): Currency {
+	const upper = currency?.toUpperCase()
+	if (!isSupportedCurrency(upper)) {
+		logger.warn('Unsupported Stripe currency, treating as USD', { currency })
+		return defaultCurrency
+	}
+	return upper
+}
+
+// Payer email for the receipt - dropped rather than failing the donation if malformed
+function getReceiptEmail(email: string | null | undefined): string | undefined {
+	return email && isValidEmail(email) ? email : undefined
+}
+
+function getStripeId(value: string | { id: string } | null): string | null {
+	if (!value) return null
+	return typeof value === 'string' ? value : value.id
+}
+
+// Checkout sessions and subscriptions this app creates always carry
+// use_player_name ('true' or 'false') - other ones on the account aren't donations
+export function hasDonationMetadata(
+	metadata: Stripe.Metadata | null | undefined
+): boolean {
+	return metadata?.use_player_name !== undefined
+}
+
+export function isPaymentElementIntent(
+	paymentIntent: Stripe.PaymentIntent
+): boolean {
+	return paymentIntent.metadata.integration === paymentElementIntegration
+}
+
+// One-time payment: the session itself is the donation
+// Monthly payment: the donation is recorded per invoice (see handleInvoicePaid)
+// Also used by reconciliation to import a session whose webhook never arrived,
+// and by async_payment_succeeded once a bank debit has cleared
+export async function handleCheckoutCompleted(
+	ctx: ActionCtx,
+	session: Stripe.Checkout.Session,
+	source = 'webhook'
+): Promise<void> {
+	// Delayed-notification methods (bank debits) complete checkout before the
+	// money arrives - the donation waits for checkout.session.async_payment_succeeded
+	// (monthly donations wait for invoice.paid either way)
+	if (session.payment_status === 'unpaid') {
+		await ctx.runMutation(internal.stripe.mutations.markCheckoutProcessing, {
+			session_id: session.id,
+		})
+		logger.audit('checkout_payment_processing', { payment_method: 'stripe' })
+		if (session.mode !== 'subscription') {
+			return
+		}
+	}
+
+	if (session.mode === 'subscription') {
+		const subscriptionId = getStripeId(session.subscription)
+		const customerId = getStripeId(session.customer)
+		if (subscriptionId && customerId) {
+			const { campaign_id } = parseDonationMetadata(session.metadata)
+			await ctx.runMutation(internal.stripe.mutations.upsertSubscription, {
+				subscription_id: subscriptionId,
+				customer_id: customerId,
+				campaign_id,
+				amount: session.amount_total ? session.amount_total / 100 : 0,
+				currency: parseStripeCurrency(session.currency),
+				status: 'active',
+			})
+		}
+
+		// Map session ID → first invoice ID so the success page can find the donation
+		const invoiceId = getStripeId(session.invoice)
+		if (invoiceId) {
+			await ctx.runMutation(internal.paypal.mutations.storePaymentIdMapping, {
+				order_id: session.id,
+				capture_id: invoiceId,
+			})
+		}
+		return
+	}
+
+	const customerName = session.customer_details?.name || 'Anonymous'
+	// SECURITY: Use Stripe's authoritative amount_total (actual charge amount)
+	// NOT metadata.amount which could be tampered with
+	const amount = session.amount_total ? session.amount_total / 100 : 0
+	const currency = parseStripeCurrency(session.currency)
+	const { metadata, campaign_id, fee_covered } = parseDonationMetadata(
+		session.metadata
+	)
+
+	const display_name = getDisplayName(metadata, customerName)
+	const amounts = await getDonationAmounts(ctx, {
+		amount,
+		currency,
+		campaign_id,
+	})
+
+	await ctx.runMutation(internal.donation.create, {
+		...amounts,
+		display_name,
+		payment_id: session.id,
+		payment_method: 'stripe',
+		message: metadata?.message,
+		campaign_id,
+		fee_covered,
+		donor_email: getReceiptEmail(session.customer_details?.email),
+		donor_name: session.customer_details?.name ?? undefined,
+	})
+
+	logger.audit('donation_created', {
+		amount,
+		currency,
+		payment_method: 'stripe',
+		source,
+	})
+}
+
+// Embedded Payment Element donation: the payment intent itself is the donation
+// Intents without our integration marker belong to Checkout or invoices and are skipped
+// Also used by reconciliation to import an intent whose webhook never arrived
+export async function handlePaymentIntentSucceeded(
+	ctx: ActionCtx,
+	paymentIntent: Stripe.PaymentIntent,
+	source = 'webhook_payment_intent'
+): Promise<boolean> {
+	if (!isPaymentElementIntent(paymentIntent)) {
+		return false
+	}
+
+	// The Payment Element collects billing details with the payment method,
+	// which live on the charge rather than the intent
+	const chargeId = getStripeId(paymentIntent.latest_charge)
+	const billing = chargeId
+		? (await stripe.charges.retrieve(chargeId)).billing_details
+		: null
+
+	// SECURITY: Use Stripe's authoritative amount_received, not metadata.amount
+	const amount = paymentIntent.amount_received / 100
+	const currency = parseStripeCurrency(paymentIntent.currency)
+	const { metadata, campaign_id, fee_covered } = parseDonationMetadata(
+		paymentIntent.metadata
+	)
+	const display_name = getDisplayName(metadata, billing?.name || 'Anonymous')
+	const amounts = await getDonationAmounts(ctx, {
+		amount,
+		currency,
+		campaign_id,
+	})
+
+	await ctx.runMutation(internal.donation.create, {
+		...amounts,
+		display_name,
+		payment_id: paymentIntent.id,
+		payment_method: 'stripe',
+		message: metadata?.message,
+		campaign_id,
+		fee_covered,
+		donor_email: getReceiptEmail(billing?.email ?? paymentIntent.receipt_email),
+		donor_name: billing?.name ?? undefined,
+	})
+
+	logger.audit('donation_created', {
+		amount,
+		currency,
+		payment_method: 'stripe',
+		source,
+	})
+	return true
+}
+
+// Monthly donation: every paid invoice (including the first) is its own donation
+export async function handleInvoicePaid(
+	ctx: ActionCtx,
+	invoice: Stripe.Invoice,
+	source = 'webhook_invoice'
+): Promise<void> {
+	const subscriptionDetails = invoice.parent?.subscription_details
+	const subscriptionId = getStripeId(subscriptionDetails?.subscription ?? null)
+	const customerId = getStripeId(invoice.customer)
+
+	// Not a subscription invoice - nothing we created
+	if (!subscriptionId || !customerId) {
+		return
+	}
+
+	// SECURITY: Use Stripe's authoritative amount_paid, not metadata.amount
+	const amount = invoice.amount_paid / 100
+	if (amount === 0) {
+		return
+	}
+	const currency = parseStripeCurrency(invoice.currency)
+
+	const { metadata, campaign_id, fee_covered } = parseDonationMetadata(
+		subscriptionDetails?.metadata
+	)
+	const display_name = getDisplayName(
+		metadata,
+		invoice.customer_name || 'Anonymous'
+	)
+	const amounts = await getDonationAmounts(ctx, {
+		amount,
+		currency,
+		campaign_id,
+	})
+
+	await ctx.runMutation(internal.donation.create, {
+		...amounts,
+		display_name,
+		payment_id: invoice.id,
+		payment_method: 'stripe',
+		message: metadata?.message,
+		campaign_id,
+		fee_covered,
+		subscription_id: subscriptionId,
+		donor_email: getReceiptEmail(invoice.customer_email),
+		donor_name: invoice.customer_name ?? undefined,
+	})
+
+	await ctx.runMutation(internal.stripe.mutations.upsertSubscription, {
+		subscription_id: subscriptionId,
+		customer_id: customerId,
+		campaign_id,
+		amount,
+		currency,
+		status: 'active',
+		last_invoice_id: invoice.id,
+	})
+
+	logger.audit('donation_created', {
+		amount,
+		currency,
+		payment_method: 'stripe',
+		source,
+	})
+}
+
+// Find the donation payment_id (session ID or invoice ID) behind a payment intent
+// Charges and disputes only reference the payment intent, not the checkout
+async function findDonationPaymentId(
+	paymentIntentId: string
+): Promise<string | null> {
+	// One-time donations are stored under the checkout session ID
+	const sessions = await stripe.checkout.sessions.list({
+		payment_intent: paymentIntentId,
+		limit: 1,
+	})
+	const session = sessions.data[0]
+	if (session) {
+		return session.id
+	}
+
+	// Monthly donations are stored under the invoice ID
+	const invoicePayments = await stripe.invoicePayments.list({
+		payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+		limit: 1,
+	})
+	const invoicePayment = invoicePayments.data[0]
+	if (invoicePayment) {
+		return getStripeId(invoicePayment.invoice)
+	}
+
+	// Embedded Payment Element donations are stored under the payment intent ID
+	return paymentIntentId
+}
+
+// Apply a verified Stripe event to the donations table
+// Returns false for event types we only acknowledge, throws if processing failed
+export async function processStripeEvent(
+	ctx: ActionCtx,
+	event: Stripe.Event
+): Promise<boolean> {
+	switch (event.type) {
+		case 'checkout.session.completed':
+			await handleCheckoutCompleted(ctx, event.data.object)
+			return true
+
+		// A delayed-notification payment (bank debit) cleared
+		case 'checkout.session.async_payment_succeeded':
+			await handleCheckoutCompleted(
+				ctx,
+				event.data.object,
+				'webhook_async_payment'
+			)
+			await ctx.runMutation(
+				internal.stripe.mutations.resolveCheckoutProcessing,
+				{ session_id: event.data.object.id, outcome: 'succeeded' }
+			)
+			return true
+
+		// The bank debit failed - the donor was never charged, so there's no donation
+		case 'checkout.session.async_payment_failed':
+			await ctx.runMutation(
+				internal.stripe.mutations.resolveCheckoutProcessing,
+				{ session_id: event.data.object.id, outcome: 'failed' }
+			)
+			logger.audit('checkout_payment_failed', { payment_method: 'stripe' })
+			return true
+
+		// Embedded Payment Element payment - ignored for Checkout and invoice intents
+		case 'payment_intent.succeeded': {
+			const paymentIntent = event.data.object
+			const processed = await handlePaymentIntentSucceeded(ctx, paymentIntent)
+			if (processed) {
+				await ctx.runMutation(
+					internal.stripe.mutations.resolveCheckoutProcessing,
+					{ session_id: paymentIntent.id, outcome: 'succeeded' }
+				)
+			}
+			return processed
+		}
+
+		// Bank debit paid in the Payment Element - the donation waits for
+		// payment_intent.succeeded, the success page shows it as processing
+		case 'payment_intent.processing': {
+			const paymentIntent = event.data.object
+			if (!isPaymentElementIntent(paymentIntent)) {
+				return false
+			}
+			await ctx.runMutation(internal.stripe.mutations.markCheckoutProcessing, {
+				session_id: paymentIntent.id,
+			})
+			return true
+		}
+
+		// Only matters once the intent was processing - a declined card is shown
+		// in the Payment Element and the donor can try again on the same intent
+		case 'payment_intent.payment_failed': {
+			const paymentIntent = event.data.object
+			if (!isPaymentElementIntent(paymentIntent)) {
+				return false
+			}
+			await ctx.runMutation(
+				internal.stripe.mutations.resolveCheckoutProcessing,
+				{
+					session_id: paymentIntent.id,
+					outcome: 'failed',
+					only_if_processing: true,
+				}
+			)
+			return true
+		}
+
+		case 'invoice.paid':
+			await handleInvoicePaid(ctx, event.data.object)
+			return true
+
+		// Stripe retries failed renewals on its own schedule (Smart Retries)
+		// We only track the status - no donation is recorded until invoice.paid
+		case 'invoice.payment_failed': {
+			const subscriptionId = getStripeId(
+				event.data.object.parent?.subscription_details?.subscription ?? null
+			)
+			if (subscriptionId) {
+				await ctx.runMutation(
+					internal.stripe.mutations.updateSubscriptionStatus,
+					{ subscription_id: subscriptionId, status: 'past_due' }
+				)
+				logger.audit('subscription_payment_failed', {
+					payment_method: 'stripe',
+				})
+			}
+			return !!subscriptionId
+		}
+
+		// Full or partial refund - amount_refunded is cumulative across refunds
+		case 'charge.refunded': {
+			const charge = event.data.object
+			const paymentIntentId = getStripeId(charge.payment_intent)
+			const paymentId = paymentIntentId
+				? await findDonationPaymentId(paymentIntentId)
+				: null
+
+			if (!paymentId) {
+				logger.warn('Stripe refund for unknown payment', {
+					chargeId: charge.id,
+				})
+				return false
+			}
+
+			await ctx.runMutation(internal.donation.recordRefund, {
+				payment_id: paymentId,
+				refunded_amount: charge.amount_refunded / 100,
+			})
+			return true
+		}
+
+		case 'charge.dispute.created': {
+			const dispute = event.data.object
+			const paymentIntentId = getStripeId(dispute.payment_intent)
+			const paymentId = paymentIntentId
+				? await findDonationPaymentId(paymentIntentId)
+				: null
+
+			if (!paymentId) {
+				logger.warn('Stripe dispute for unknown payment', {
+					disputeId: dispute.id,
+				})
+				return false
+			}
+
+			await ctx.runMutation(internal.donation.markDisputed, {
+				payment_id: paymentId,
+			})
+			return true
+		}
+
+		case 'customer.subscription.deleted':
+			await ctx.runMutation(
+				internal.stripe.mutations.updateSubscriptionStatus,
+				{ subscription_id: event.data.object.id, status: 'canceled' }
+			)
+			logger.audit('subscription_canceled', { payment_method: 'stripe' })
+			return true
+
+		default:
+			// Acknowledge other event types without processing
+			return false
+	}
+}
 
 // Handle Stripe webhook with signature verification
+// Verified events are stored and processed by a scheduled job (webhooks/actions.ts),
+// so Stripe gets its 200 without waiting on any API call
 export const handleStripeWebhook = action({
 	args: {
 		signature: v.string(),
@@ -32,48 +500,12 @@ export const handleStripeWebhook = action({
 			throw new Error('Invalid signature')
 		}
 
-		// Process checkout.session.completed event
-		if (event.type === 'checkout.session.completed') {
-			const session = event.data.object as Stripe.Checkout.Session
-
-			const customerName = session.customer_details?.name || 'Anonymous'
-			// SECURITY: Use Stripe's authoritative amount_total (actual charge amount)
-			// NOT metadata.amount which could be tampered with
-			const amount = session.amount_total ? session.amount_total / 100 : 0
-			const player_name = session.metadata?.player_name
-			const use_player_name = session.metadata?.use_player_name === 'true'
-			const message = session.metadata?.message
-
-			const metadata = use_player_name
-				? {
-						player_name: player_name || null,
-						use_player_name: true,
-						message: message || undefined,
-					}
-				: message
-					? {
-							player_name: null,
-							use_player_name: false,
-							message: message,
-						}
-					: undefined
-
-			const display_name = getDisplayName(metadata, customerName)
-
-			await ctx.runMutation(api.donation.create, {
-				amount,
-				display_name,
-				payment_id: session.id,
-				payment_method: 'stripe',
-				message: metadata?.message,
-			})
-
-			logger.audit('donation_created', {
-				amount,
-				payment_method: 'stripe',
-				source: 'webhook',
-			})
-		}
+		await ctx.runMutation(internal.webhooks.mutations.recordWebhookEvent, {
+			provider: 'stripe',
+			event_id: event.id,
+			event_type: event.type,
+			payload,
+		})
 
 		return { received: true }
 	},
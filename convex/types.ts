@@ -2,8 +2,9 @@
 // It ensures data is structured correctly when moving between different parts of the app.
 
 import type { FunctionReturnType } from 'convex/server'
+import { formatCurrency } from '@/utils/format-currency.ts'
 import type { api } from './_generated/api.ts'
-import type { Doc } from './_generated/dataModel'
+import type { Doc, Id } from './_generated/dataModel'
 
 // Public-Safe Types (safe to expose to clients)
 
@@ -13,9 +14,26 @@ export type PublicDonation = {
 	readonly id: string
 	readonly display_name: string
 	readonly amount: number
+	readonly message: string | undefined // Only set once an admin approved it
+	readonly created_at: number
+}
+
+// Public-safe campaign data - campaigns are public by design, but we still
+// rename _id → id and drop _creationTime to keep the shape consistent
+export type PublicCampaign = {
+	readonly id: Id<'campaigns'>
+	readonly slug: string
+	readonly title: string
+	readonly description: string | undefined
+	readonly goal_amount: number
+	readonly currency: Currency // Goal, totals and donation amounts are all in this currency
+	readonly starts_at: number
+	readonly ends_at: number | undefined
+	readonly hero_image: string | undefined
 }
 
 // NEVER return to clients - use PublicDonation instead
+// Only the token-protected admin queries (convex/admin/queries.ts) return it
 export type InternalDonation = Doc<'donations'>
 
 // Query/Mutation Return Types
@@ -28,15 +46,49 @@ export type DonationTotal = FunctionReturnType<
 	typeof api.donation.getAmountTotal
 >
 
+export type AdminCampaignOption = FunctionReturnType<
+	typeof api.admin.queries.listCampaigns
+>[number]
+
+export type AdminMethodTotals = FunctionReturnType<
+	typeof api.admin.queries.getMethodTotals
+>
+
+export type AdminPendingBitcoinPayment = FunctionReturnType<
+	typeof api.admin.queries.listPendingBitcoinPayments
+>[number]
+
+export type AdminDiscrepancy = FunctionReturnType<
+	typeof api.admin.queries.listDiscrepancies
+>[number]
+
+export type AdminBitcoinDiscrepancy = FunctionReturnType<
+	typeof api.admin.queries.listBitcoinDiscrepancies
+>[number]
+
+export type AdminTaxStatement = FunctionReturnType<
+	typeof api.admin.queries.listTaxStatements
+>[number]
+
 // Shared Payment Types
 export type PaymentMethod = 'stripe' | 'paypal' | 'bitcoin'
 
+// Currencies donors can pay in (BTC is priced in USD)
+// Every donation is also normalized into its campaign's currency for totals
+export const supportedCurrencies = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'] as const
+export type Currency = (typeof supportedCurrencies)[number]
+export const defaultCurrency = 'USD' satisfies Currency
+
 // Shared Payment Constants
 export const minDonationAmount = 1 as const
 export const maxDonationAmount = 100_000 as const
 export const maxPlayerNameLength = 50 as const
 export const maxDisplayNameLength = 200 as const
 export const maxMessageLength = 500 as const
+export const maxEmailLength = 254 as const
+
+// metadata.integration on Stripe payment intents created for the embedded Payment Element
+export const paymentElementIntegration = 'payment_element' as const
 
 // Session Configuration
 export const sessionExpiryMs = 300_000 as const // 5 minutes
@@ -46,10 +98,13 @@ export type PaymentMetadata = {
 	readonly player_name: string | null
 	readonly use_player_name: boolean
 	readonly message?: string
+	readonly fee_covered?: number // Already included in the amount
 }
 
 export type CreateCheckoutInput = {
 	amount: number
+	currency: Currency
+	campaign_id: Id<'campaigns'>
 	metadata?: PaymentMetadata
 }
 
@@ -69,17 +124,49 @@ export function getDisplayName(
 		: fallback
 }
 
-export function validateDonationAmount(amount: number): void {
+export function isSupportedCurrency(value: unknown): value is Currency {
+	return supportedCurrencies.includes(value as Currency)
+}
+
+// Limits are the same number in every currency - close enough for min/max sanity checks
+export function validateDonationAmount(
+	amount: number,
+	currency: Currency = defaultCurrency
+): void {
 	if (amount < minDonationAmount) {
-		throw new Error(`Amount must be at least $${minDonationAmount}`)
+		throw new Error(
+			`Amount must be at least ${formatCurrency(minDonationAmount, currency, 0)}`
+		)
 	}
 	if (amount > maxDonationAmount) {
 		throw new Error(
-			`Amount must not exceed $${maxDonationAmount.toLocaleString()}`
+			`Amount must not exceed ${formatCurrency(maxDonationAmount, currency, 0)}`
 		)
 	}
 }
 
+// Reject new checkouts for campaigns that haven't started or have already ended
+// Webhooks never call this - money that already moved is always recorded
+export function validateCampaignOpen(
+	campaign: Pick<Doc<'campaigns'>, 'starts_at' | 'ends_at'>,
+	now: number
+): void {
+	if (now < campaign.starts_at) {
+		throw new Error('Campaign has not started yet')
+	}
+	if (campaign.ends_at !== undefined && now > campaign.ends_at) {
+		throw new Error('Campaign has ended')
+	}
+}
+
+// Refunded, partially refunded and disputed donations are left out of
+// public totals and donor lists (undefined status = created before refunds were tracked)
+export function isActiveDonation(
+	donation: Pick<Doc<'donations'>, 'status'>
+): boolean {
+	return donation.status === undefined || donation.status === 'active'
+}
+
 export function validatePlayerName(playerName: string | null): void {
 	if (!playerName) return
 
@@ -107,6 +194,21 @@ export function validateDisplayName(displayName: string): void {
 	}
 }
 
+// Deliberately loose - the mail server is the real judge of deliverability
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isValidEmail(email: string): boolean {
+	return email.length <= maxEmailLength && emailPattern.test(email)
+}
+
+export function validateEmail(email: string | undefined): void {
+	if (email === undefined) return
+
+	if (!isValidEmail(email)) {
+		throw new Error('Please enter a valid email address')
+	}
+}
+
 export function validateMessage(message: string | undefined): void {
 	if (!message) return
 
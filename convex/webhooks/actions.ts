@@ -0,0 +1,58 @@
+// This processes queued webhook events - capturing PayPal orders and creating or updating donations.
+// Scheduled by webhooks/mutations.ts, so the webhook endpoints can respond before any processor API is called.
+
+'use node'
+
+import { v } from 'convex/values'
+import type Stripe from 'stripe'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { Doc } from '../_generated/dataModel'
+import { type ActionCtx, internalAction } from '../_generated/server'
+import type { PayPalWebhookEvent } from '../paypal/types.ts'
+import { processPayPalEvent } from '../paypal/webhooks.ts'
+import { processStripeEvent } from '../stripe/webhooks.ts'
+
+// The payload was verified by the webhook endpoint before it was stored
+function processStoredEvent(
+	ctx: ActionCtx,
+	event: Doc<'webhook_events'>
+): Promise<boolean> {
+	return event.provider === 'stripe'
+		? processStripeEvent(ctx, JSON.parse(event.payload) as Stripe.Event)
+		: processPayPalEvent(ctx, JSON.parse(event.payload) as PayPalWebhookEvent)
+}
+
+// One processing attempt - failures are retried with backoff by finishWebhookEventAttempt
+export const processWebhookEvent = internalAction({
+	args: { webhook_event_id: v.id('webhook_events') },
+	handler: async (ctx, { webhook_event_id }) => {
+		const event = await ctx.runMutation(
+			internal.webhooks.mutations.startWebhookEventAttempt,
+			{ webhook_event_id }
+		)
+		if (!event) {
+			return
+		}
+
+		try {
+			const processed = await processStoredEvent(ctx, event)
+			await ctx.runMutation(
+				internal.webhooks.mutations.finishWebhookEventAttempt,
+				{ webhook_event_id, outcome: processed ? 'processed' : 'ignored' }
+			)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			logger.error('Webhook event processing failed', {
+				provider: event.provider,
+				event_type: event.event_type,
+				attempt: event.attempts + 1,
+				error: message,
+			})
+			await ctx.runMutation(
+				internal.webhooks.mutations.finishWebhookEventAttempt,
+				{ webhook_event_id, outcome: 'failed', error: message }
+			)
+		}
+	},
+})
@@ -0,0 +1,235 @@
+// This stores every verified Stripe and PayPal webhook event and queues it for processing.
+// Note: This must be in a separate file from actions.ts because queries and
+// mutations cannot be defined in Node.js modules ('use node' files).
+
+import { v } from 'convex/values'
+import { logger } from '@/utils/logger'
+import { internal } from '../_generated/api'
+import type { Doc, Id } from '../_generated/dataModel'
+import { internalMutation, type MutationCtx } from '../_generated/server'
+import { webhookProviderValidator } from '../schema.ts'
+
+// After this many failed attempts the event is dead-lettered
+const maxWebhookAttempts = 8
+// Retry delays double from 30s up to 1 hour (30s, 1m, 2m ... ~64m in total)
+const retryBaseDelayMs = 30 * 1000
+const retryMaxDelayMs = 60 * 60 * 1000
+// A job still 'processing' after this long was cut off (action timeout, deploy)
+const stalledProcessingMs = 15 * 60 * 1000
+
+function getRetryDelay(attempts: number): number {
+	return Math.min(retryBaseDelayMs * 2 ** (attempts - 1), retryMaxDelayMs)
+}
+
+async function scheduleProcessing(
+	ctx: MutationCtx,
+	webhook_event_id: Id<'webhook_events'>,
+	delayMs: number
+): Promise<void> {
+	await ctx.scheduler.runAfter(
+		delayMs,
+		internal.webhooks.actions.processWebhookEvent,
+		{ webhook_event_id }
+	)
+}
+
+// Counts a failed attempt, then schedules a retry or dead-letters the event
+async function recordFailedAttempt(
+	ctx: MutationCtx,
+	event: Doc<'webhook_events'>,
+	error: string
+): Promise<void> {
+	const attempts = event.attempts + 1
+
+	if (attempts >= maxWebhookAttempts) {
+		await ctx.db.patch(event._id, {
+			status: 'dead_letter',
+			attempts,
+			error,
+			processing_started_at: undefined,
+			next_attempt_at: undefined,
+		})
+		logger.error('Webhook event dead-lettered', {
+			provider: event.provider,
+			event_type: event.event_type,
+			attempts,
+			error,
+		})
+		return
+	}
+
+	const delay = getRetryDelay(attempts)
+	await ctx.db.patch(event._id, {
+		status: 'failed',
+		attempts,
+		error,
+		processing_started_at: undefined,
+		next_attempt_at: Date.now() + delay,
+	})
+	await scheduleProcessing(ctx, event._id, delay)
+}
+
+// Stores the event on first delivery and schedules it for processing
+// Redeliveries are acknowledged without queueing again - the stored event already
+// has its own retries
+export const recordWebhookEvent = internalMutation({
+	args: {
+		provider: webhookProviderValidator,
+		event_id: v.string(),
+		event_type: v.string(),
+		payload: v.string(),
+	},
+	handler: async (
+		ctx,
+		{ provider, event_id, event_type, payload }
+	): Promise<{ queued: boolean }> => {
+		const existing = await ctx.db
+			.query('webhook_events')
+			.withIndex('by_provider_and_event_id', (q) =>
+				q.eq('provider', provider).eq('event_id', event_id)
+			)
+			.unique()
+
+		if (existing) {
+			logger.info('Skipping duplicate webhook event', {
+				provider,
+				event_type,
+				status: existing.status,
+			})
+			return { queued: false }
+		}
+
+		const webhook_event_id = await ctx.db.insert('webhook_events', {
+			provider,
+			event_id,
+			event_type,
+			payload,
+			received_at: Date.now(),
+			status: 'received',
+			attempts: 0,
+		})
+		await scheduleProcessing(ctx, webhook_event_id, 0)
+		return { queued: true }
+	},
+})
+
+// Marks the event as being processed - returns null if it isn't waiting for
+// a run (already done, dead-lettered, or another job has it)
+export const startWebhookEventAttempt = internalMutation({
+	args: { webhook_event_id: v.id('webhook_events') },
+	handler: async (ctx, { webhook_event_id }) => {
+		const event = await ctx.db.get(webhook_event_id)
+		if (!event || (event.status !== 'received' && event.status !== 'failed')) {
+			return null
+		}
+
+		await ctx.db.patch(webhook_event_id, {
+			status: 'processing',
+			processing_started_at: Date.now(),
+			next_attempt_at: undefined,
+		})
+		return event
+	},
+})
+
+export const finishWebhookEventAttempt = internalMutation({
+	args: {
+		webhook_event_id: v.id('webhook_events'),
+		outcome: v.union(
+			v.literal('processed'),
+			v.literal('ignored'),
+			v.literal('failed')
+		),
+		error: v.optional(v.string()),
+	},
+	handler: async (ctx, { webhook_event_id, outcome, error }) => {
+		const event = await ctx.db.get(webhook_event_id)
+		if (!event || event.status !== 'processing') {
+			return
+		}
+
+		if (outcome === 'failed') {
+			await recordFailedAttempt(ctx, event, error ?? 'Unknown error')
+			return
+		}
+
+		await ctx.db.patch(webhook_event_id, {
+			status: outcome,
+			attempts: event.attempts + 1,
+			error: undefined,
+			processing_started_at: undefined,
+			processed_at: Date.now(),
+		})
+	},
+})
+
+// Counts jobs that died mid-run as failed attempts, so they're retried on the usual schedule
+export const recoverStalledWebhookEvents = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const stalledBefore = Date.now() - stalledProcessingMs
+		const processing = await ctx.db
+			.query('webhook_events')
+			.withIndex('by_status', (q) => q.eq('status', 'processing'))
+			.collect()
+
+		const stalled = processing.filter(
+			(event) => (event.processing_started_at ?? 0) < stalledBefore
+		)
+		for (const event of stalled) {
+			await recordFailedAttempt(ctx, event, 'Processing job did not finish')
+		}
+
+		if (stalled.length > 0) {
+			logger.warn('Recovered stalled webhook events', { count: stalled.length })
+		}
+	},
+})
+
+// Queues a dead-lettered event for one more attempt
+// Run from the dashboard or CLI once the cause is fixed (see README)
+export const replayWebhookEvent = internalMutation({
+	args: { webhook_event_id: v.id('webhook_events') },
+	handler: async (ctx, { webhook_event_id }) => {
+		const event = await ctx.db.get(webhook_event_id)
+		if (!event || event.status !== 'dead_letter') {
+			return { queued: false }
+		}
+
+		await ctx.db.patch(webhook_event_id, { status: 'received' })
+		await scheduleProcessing(ctx, webhook_event_id, 0)
+		logger.audit('webhook_event_replayed', {
+			provider: event.provider,
+			event_type: event.event_type,
+		})
+		return { queued: true }
+	},
+})
+
+// Queues every dead-lettered event (oldest first, up to `limit`) for one more attempt
+export const replayDeadLetterWebhookEvents = internalMutation({
+	args: {
+		provider: v.optional(webhookProviderValidator),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, { provider, limit }) => {
+		const events = await ctx.db
+			.query('webhook_events')
+			.withIndex('by_status', (q) => q.eq('status', 'dead_letter'))
+			.collect()
+
+		const replayed = events
+			.filter((event) => !provider || event.provider === provider)
+			.slice(0, limit ?? 50)
+		for (const event of replayed) {
+			await ctx.db.patch(event._id, { status: 'received' })
+			await scheduleProcessing(ctx, event._id, 0)
+		}
+
+		logger.audit('webhook_events_replayed', {
+			provider,
+			count: replayed.length,
+		})
+		return { queued: replayed.length }
+	},
+})
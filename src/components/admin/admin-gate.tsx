@@ -0,0 +1,129 @@
+// This asks for the admin token before showing any /admin page.
+// The token is kept in sessionStorage, so closing the tab signs the operator out.
+
+import { api } from 'convex/_generated/api'
+import { useQuery } from 'convex/react'
+import {
+	createContext,
+	type FormEvent,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useState,
+} from 'react'
+import { Button } from '../button.tsx'
+import { TextInput } from '../text-input.tsx'
+
+const storageKey = 'admin_token'
+
+type AdminSession = {
+	readonly token: string
+	readonly signOut: () => void
+}
+
+const AdminSessionContext = createContext<AdminSession | null>(null)
+
+// Admin token for Convex admin queries - only usable inside <AdminGate>
+function useAdminSession(): AdminSession {
+	const session = useContext(AdminSessionContext)
+	if (!session) {
+		throw new Error('useAdminSession must be used inside AdminGate')
+	}
+	return session
+}
+
+interface AdminLoginProps {
+	readonly error: string | null
+	readonly onSubmit: (token: string) => void
+}
+
+function AdminLogin({ error, onSubmit }: AdminLoginProps) {
+	const [token, setToken] = useState<string>('')
+
+	const handleSubmit = (e: FormEvent<HTMLFormElement>): void => {
+		e.preventDefault()
+		if (token.trim()) {
+			onSubmit(token.trim())
+		}
+	}
+
+	return (
+		<main className="space-y-4">
+			<h1 className="font-bold text-2xl text-white">Admin</h1>
+			<form className="space-y-4" onSubmit={handleSubmit}>
+				<TextInput
+					autoComplete="current-password"
+					error={!!error}
+					errorMessage={error ?? undefined}
+					label="Admin token"
+					onChange={(e) => setToken(e.currentTarget.value)}
+					type="password"
+					value={token}
+				/>
+				<Button type="submit">Sign In</Button>
+			</form>
+		</main>
+	)
+}
+
+interface AdminGateProps {
+	readonly children: ReactNode
+}
+
+function AdminGate({ children }: AdminGateProps) {
+	const [token, setToken] = useState<string | null>(null)
+	const [isRestored, setIsRestored] = useState<boolean>(false)
+
+	// sessionStorage only exists in the browser, so restore after hydration
+	useEffect(() => {
+		setToken(sessionStorage.getItem(storageKey))
+		setIsRestored(true)
+	}, [])
+
+	const hasAccess = useQuery(
+		api.admin.queries.checkAccess,
+		token ? { admin_token: token } : 'skip'
+	)
+
+	// Forget a stored token that no longer works (e.g. ADMIN_TOKEN was rotated)
+	useEffect(() => {
+		if (hasAccess === false) {
+			sessionStorage.removeItem(storageKey)
+		}
+	}, [hasAccess])
+
+	const handleSignIn = (newToken: string): void => {
+		sessionStorage.setItem(storageKey, newToken)
+		setToken(newToken)
+	}
+
+	const signOut = (): void => {
+		sessionStorage.removeItem(storageKey)
+		setToken(null)
+	}
+
+	if (!isRestored || (token && hasAccess === undefined)) {
+		return (
+			<main aria-busy="true" aria-live="polite">
+				Checking access...
+			</main>
+		)
+	}
+
+	if (!(token && hasAccess)) {
+		return (
+			<AdminLogin
+				error={token ? 'That admin token is not valid.' : null}
+				onSubmit={handleSignIn}
+			/>
+		)
+	}
+
+	return (
+		<AdminSessionContext value={{ token, signOut }}>
+			{children}
+		</AdminSessionContext>
+	)
+}
+
+export { AdminGate, useAdminSession }
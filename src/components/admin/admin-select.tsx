@@ -0,0 +1,49 @@
+// This is the labelled dropdown used for the admin dashboard filters.
+// An empty value means "no filter", so every select starts with an "All" option.
+
+import { useId } from 'react'
+
+interface AdminSelectProps<T extends string> {
+	readonly label: string
+	readonly value: T | undefined
+	readonly options: ReadonlyArray<{ readonly value: T; readonly label: string }>
+	readonly onChange: (value: T | undefined) => void
+}
+
+function AdminSelect<T extends string>({
+	label,
+	value,
+	options,
+	onChange,
+}: AdminSelectProps<T>) {
+	const id = useId()
+
+	return (
+		<div className="flex flex-col gap-1">
+			<label className="font-medium text-sm" htmlFor={id}>
+				{label}
+			</label>
+			<select
+				className="focus-ring bg-secondary/5 px-3 py-1.5"
+				id={id}
+				onChange={(e) =>
+					onChange(
+						e.currentTarget.value === ''
+							? undefined
+							: (e.currentTarget.value as T)
+					)
+				}
+				value={value ?? ''}
+			>
+				<option value="">All</option>
+				{options.map((option) => (
+					<option key={option.value} value={option.value}>
+						{option.label}
+					</option>
+				))}
+			</select>
+		</div>
+	)
+}
+
+export { AdminSelect }
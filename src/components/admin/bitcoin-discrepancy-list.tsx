@@ -0,0 +1,160 @@
+// This lists Bitcoin payments held for review: providers disagreed or never reached a quorum, the payment was
+// underpaid under the review policy, or it timed out unsettled. Operators check the transaction, then credit or dismiss it.
+
+import { api } from 'convex/_generated/api'
+import { useAction, useMutation, useQuery } from 'convex/react'
+import type { AdminBitcoinDiscrepancy } from 'convex/types'
+import { useState } from 'react'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+import { useAdminSession } from './admin-gate.tsx'
+
+type BitcoinDiscrepancyStatus = AdminBitcoinDiscrepancy['status']
+
+const reasonLabels: Record<
+	NonNullable<AdminBitcoinDiscrepancy['reason']>,
+	string
+> = {
+	provider_mismatch: 'Providers disagree',
+	underpayment: 'Underpaid',
+	quorum_unavailable: 'No quorum',
+	timeout: 'Timed out',
+}
+
+function formatReport(
+	report: AdminBitcoinDiscrepancy['reports'][number]
+): string {
+	if (!report.found) {
+		return `not found (tip ${report.tip_height ?? '?'})`
+	}
+	const height = report.block_height ?? 'mempool'
+	return `${report.amount_sats ?? '?'} sats at block ${height}`
+}
+
+interface BitcoinDiscrepancyItemProps {
+	readonly discrepancy: AdminBitcoinDiscrepancy
+}
+
+function BitcoinDiscrepancyItem({ discrepancy }: BitcoinDiscrepancyItemProps) {
+	const { token } = useAdminSession()
+	const creditHeldPayment = useAction(api.bitcoin.actions.creditHeldPayment)
+	const dismissBitcoinDiscrepancy = useMutation(
+		api.admin.mutations.dismissBitcoinDiscrepancy
+	)
+
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const run = async (action: () => Promise<unknown>): Promise<void> => {
+		setIsSaving(true)
+		setError(null)
+		try {
+			await action()
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+			logger.error('Bitcoin discrepancy action error:', errorMsg)
+			setError(errorMsg)
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const args = { admin_token: token, discrepancy_id: discrepancy._id }
+
+	return (
+		<li className="space-y-2 border-2 border-secondary/40 p-3">
+			<div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+				<span className="font-bold text-white">
+					{reasonLabels[discrepancy.reason ?? 'provider_mismatch']}:{' '}
+					{discrepancy.amount_sats.toLocaleString()} sats{' '}
+					{discrepancy.block_height === undefined
+						? 'unconfirmed'
+						: `at block ${discrepancy.block_height}`}
+				</span>
+				<span>{new Date(discrepancy.created_at).toLocaleString('en-US')}</span>
+			</div>
+			<div className="break-all font-mono text-xs">
+				<div>{discrepancy.address}</div>
+				<div className="text-secondary/75">{discrepancy.txid}</div>
+			</div>
+			<dl className="grid grid-cols-2 gap-x-4 text-sm sm:grid-cols-4">
+				{discrepancy.reports.map((report) => (
+					<div key={report.provider}>
+						<dt className="text-secondary/75 capitalize">{report.provider}</dt>
+						<dd className="font-mono">{formatReport(report)}</dd>
+					</div>
+				))}
+			</dl>
+
+			{discrepancy.status === 'open' && (
+				<div className="flex flex-wrap gap-2">
+					<Button
+						disabled={isSaving}
+						onClick={() => run(() => creditHeldPayment(args))}
+						type="button"
+						variant="tertiary"
+					>
+						Credit Donation
+					</Button>
+					<Button
+						disabled={isSaving}
+						onClick={() => run(() => dismissBitcoinDiscrepancy(args))}
+						type="button"
+						variant="tertiary"
+					>
+						Dismiss
+					</Button>
+				</div>
+			)}
+
+			{error && (
+				<div
+					aria-live="assertive"
+					className="rounded border-2 border-accent bg-accent/20 px-3 py-1.5 text-accent text-sm"
+					role="alert"
+				>
+					{error}
+				</div>
+			)}
+		</li>
+	)
+}
+
+interface AdminBitcoinDiscrepancyListProps {
+	readonly status: BitcoinDiscrepancyStatus
+}
+
+function AdminBitcoinDiscrepancyList({
+	status,
+}: AdminBitcoinDiscrepancyListProps) {
+	const { token } = useAdminSession()
+	const discrepancies = useQuery(api.admin.queries.listBitcoinDiscrepancies, {
+		admin_token: token,
+		status,
+	})
+
+	if (discrepancies === undefined) {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading held payments...
+			</p>
+		)
+	}
+
+	if (discrepancies.length === 0) {
+		return <p>No held payments.</p>
+	}
+
+	return (
+		<ul className="space-y-4">
+			{discrepancies.map((discrepancy) => (
+				<BitcoinDiscrepancyItem
+					discrepancy={discrepancy}
+					key={discrepancy._id}
+				/>
+			))}
+		</ul>
+	)
+}
+
+export { AdminBitcoinDiscrepancyList }
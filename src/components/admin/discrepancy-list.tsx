@@ -0,0 +1,173 @@
+// This lists what the reconciliation job found when comparing Stripe/PayPal with the donations table.
+// Missing donations can be imported in one click; anything else can be dismissed once handled.
+
+import { api } from 'convex/_generated/api'
+import { useAction, useMutation, useQuery } from 'convex/react'
+import { type AdminDiscrepancy, isSupportedCurrency } from 'convex/types'
+import { useState } from 'react'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+import { useAdminSession } from './admin-gate.tsx'
+
+type DiscrepancyStatus = AdminDiscrepancy['status']
+
+const kindLabels = {
+	missing_locally: 'Missing donation',
+	missing_upstream: 'No matching payment',
+	amount_mismatch: 'Amount mismatch',
+	refunded_upstream: 'Refunded upstream',
+} as const satisfies Record<AdminDiscrepancy['kind'], string>
+
+// Processor currencies may be ones we don't accept, so fall back to a plain number
+function formatAmount(
+	amount: number | undefined,
+	currency: string | undefined
+): string {
+	if (amount === undefined) {
+		return '—'
+	}
+	return isSupportedCurrency(currency)
+		? formatCurrency(amount, currency)
+		: `${amount.toFixed(2)} ${currency ?? ''}`.trim()
+}
+
+interface DiscrepancyItemProps {
+	readonly discrepancy: AdminDiscrepancy
+}
+
+function DiscrepancyItem({ discrepancy }: DiscrepancyItemProps) {
+	const { token } = useAdminSession()
+	const importMissingDonation = useAction(
+		api.reconciliation.actions.importMissingDonation
+	)
+	const dismissDiscrepancy = useMutation(api.admin.mutations.dismissDiscrepancy)
+
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const run = async (action: () => Promise<unknown>): Promise<void> => {
+		setIsSaving(true)
+		setError(null)
+		try {
+			await action()
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+			logger.error('Reconciliation action error:', errorMsg)
+			setError(errorMsg)
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const args = { admin_token: token, discrepancy_id: discrepancy._id }
+	const refunded = discrepancy.upstream_refunded_amount ?? 0
+
+	return (
+		<li className="space-y-2 border-2 border-secondary/40 p-3">
+			<div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+				<span className="font-bold text-white">
+					{kindLabels[discrepancy.kind]}
+				</span>
+				<span className="uppercase">{discrepancy.provider}</span>
+			</div>
+			<div className="break-all font-mono text-xs">
+				{discrepancy.payment_id}
+			</div>
+			<dl className="grid grid-cols-2 gap-x-4 text-sm sm:grid-cols-4">
+				<div>
+					<dt className="text-secondary/75">Processor</dt>
+					<dd className="font-mono">
+						{formatAmount(
+							discrepancy.upstream_amount,
+							discrepancy.upstream_currency
+						)}
+						{refunded > 0 &&
+							` (${formatAmount(refunded, discrepancy.upstream_currency)} refunded)`}
+					</dd>
+				</div>
+				<div>
+					<dt className="text-secondary/75">Donation</dt>
+					<dd className="font-mono">
+						{formatAmount(discrepancy.local_amount, discrepancy.local_currency)}
+					</dd>
+				</div>
+				<div>
+					<dt className="text-secondary/75">First seen</dt>
+					<dd>{new Date(discrepancy.first_seen_at).toLocaleString('en-US')}</dd>
+				</div>
+				<div>
+					<dt className="text-secondary/75">Last seen</dt>
+					<dd>{new Date(discrepancy.last_seen_at).toLocaleString('en-US')}</dd>
+				</div>
+			</dl>
+
+			{discrepancy.status === 'open' && (
+				<div className="flex flex-wrap gap-2">
+					{discrepancy.kind === 'missing_locally' && (
+						<Button
+							disabled={isSaving}
+							onClick={() => run(() => importMissingDonation(args))}
+							type="button"
+							variant="tertiary"
+						>
+							Import Donation
+						</Button>
+					)}
+					<Button
+						disabled={isSaving}
+						onClick={() => run(() => dismissDiscrepancy(args))}
+						type="button"
+						variant="tertiary"
+					>
+						Dismiss
+					</Button>
+				</div>
+			)}
+
+			{error && (
+				<div
+					aria-live="assertive"
+					className="rounded border-2 border-accent bg-accent/20 px-3 py-1.5 text-accent text-sm"
+					role="alert"
+				>
+					{error}
+				</div>
+			)}
+		</li>
+	)
+}
+
+interface AdminDiscrepancyListProps {
+	readonly status: DiscrepancyStatus
+}
+
+function AdminDiscrepancyList({ status }: AdminDiscrepancyListProps) {
+	const { token } = useAdminSession()
+	const discrepancies = useQuery(api.admin.queries.listDiscrepancies, {
+		admin_token: token,
+		status,
+	})
+
+	if (discrepancies === undefined) {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading discrepancies...
+			</p>
+		)
+	}
+
+	if (discrepancies.length === 0) {
+		return <p>Nothing here.</p>
+	}
+
+	return (
+		<ul className="space-y-4">
+			{discrepancies.map((discrepancy) => (
+				<DiscrepancyItem discrepancy={discrepancy} key={discrepancy._id} />
+			))}
+		</ul>
+	)
+}
+
+export { AdminDiscrepancyList, type DiscrepancyStatus }
@@ -0,0 +1,156 @@
+// This is the searchable, filterable list of every donation for campaign operators.
+// Shows internal fields (payment ID, method, status, message) that never reach public pages.
+
+import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { usePaginatedQuery } from 'convex/react'
+import type { InternalDonation, PaymentMethod } from 'convex/types'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { Button } from '../button.tsx'
+import { useAdminSession } from './admin-gate.tsx'
+
+const pageSize = 50
+
+type DonationStatus = NonNullable<InternalDonation['status']>
+
+export type AdminDonationFilters = {
+	readonly search: string
+	readonly campaignId: Id<'campaigns'> | undefined
+	readonly paymentMethod: PaymentMethod | undefined
+	readonly status: DonationStatus | undefined
+}
+
+interface AdminDonationListProps {
+	readonly filters: AdminDonationFilters
+}
+
+function AdminDonationList({ filters }: AdminDonationListProps) {
+	const { token } = useAdminSession()
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.admin.queries.listDonations,
+		{
+			admin_token: token,
+			search: filters.search || undefined,
+			campaign_id: filters.campaignId,
+			payment_method: filters.paymentMethod,
+			status: filters.status,
+		},
+		{ initialNumItems: pageSize }
+	)
+
+	if (status === 'LoadingFirstPage') {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading donations...
+			</p>
+		)
+	}
+
+	if (results.length === 0) {
+		return <p>No donations match these filters.</p>
+	}
+
+	return (
+		<div className="space-y-4">
+			<div className="overflow-x-auto border-2 border-secondary/40">
+				<table className="w-full text-left text-sm">
+					<caption className="sr-only">Donations</caption>
+					<thead className="bg-secondary/10 uppercase">
+						<tr>
+							<th className="p-2" scope="col">
+								Date
+							</th>
+							<th className="p-2" scope="col">
+								Donor
+							</th>
+							<th className="p-2" scope="col">
+								Amount
+							</th>
+							<th className="p-2" scope="col">
+								Method
+							</th>
+							<th className="p-2" scope="col">
+								Status
+							</th>
+							<th className="p-2" scope="col">
+								Payment ID
+							</th>
+						</tr>
+					</thead>
+					<tbody>
+						{results.map((donation) => (
+							<tr
+								className="border-secondary/20 border-t align-top"
+								key={donation._id}
+							>
+								<td className="whitespace-nowrap p-2">
+									{new Date(donation._creationTime).toLocaleString('en-US')}
+								</td>
+								<td className="p-2">
+									<div className="font-bold">{donation.display_name}</div>
+									{donation.message && (
+										<div className="text-secondary/75">{donation.message}</div>
+									)}
+								</td>
+								<td className="whitespace-nowrap p-2 font-mono">
+									{formatCurrency(donation.amount, donation.currency)}
+									{donation.original_currency !== undefined &&
+										donation.original_currency !== donation.currency && (
+											<div className="text-secondary/75">
+												paid{' '}
+												{formatCurrency(
+													donation.original_amount ?? donation.amount,
+													donation.original_currency
+												)}
+											</div>
+										)}
+									{donation.fee_amount !== undefined && (
+										<div className="text-secondary/75">
+											{donation.payment_method === 'bitcoin'
+												? 'network fee'
+												: 'fee'}{' '}
+											{formatCurrency(donation.fee_amount, donation.currency)}
+										</div>
+									)}
+									{donation.refunded_amount !== undefined && (
+										<div className="text-accent">
+											-
+											{formatCurrency(
+												donation.refunded_amount,
+												donation.currency
+											)}
+										</div>
+									)}
+								</td>
+								<td className="p-2 capitalize">
+									{donation.payment_method}
+									{donation.subscription_id && ' (monthly)'}
+									{donation.lightning && ' (lightning)'}
+								</td>
+								<td className="p-2">
+									{(donation.status ?? 'active').replace('_', ' ')}
+								</td>
+								<td className="break-all p-2 font-mono text-xs">
+									{donation.payment_id}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+
+			{status !== 'Exhausted' && (
+				<Button
+					disabled={status === 'LoadingMore'}
+					onClick={() => loadMore(pageSize)}
+					type="button"
+					variant="secondary"
+				>
+					{status === 'LoadingMore' ? 'Loading...' : 'Load More'}
+				</Button>
+			)}
+		</div>
+	)
+}
+
+export { AdminDonationList }
@@ -0,0 +1,203 @@
+// This is the donor message moderation queue in the admin dashboard.
+// Admins approve, reject or edit each message before it can appear on public pages.
+
+import { api } from 'convex/_generated/api'
+import { useMutation, usePaginatedQuery } from 'convex/react'
+import type { InternalDonation } from 'convex/types'
+import { useState } from 'react'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+import { TextAreaInput } from '../donate/textarea-input.tsx'
+import { useAdminSession } from './admin-gate.tsx'
+
+const pageSize = 25
+
+type MessageStatus = NonNullable<InternalDonation['message_status']>
+
+interface MessageQueueItemProps {
+	readonly donation: InternalDonation
+}
+
+function MessageQueueItem({ donation }: MessageQueueItemProps) {
+	const { token } = useAdminSession()
+	const approveMessage = useMutation(api.admin.mutations.approveMessage)
+	const rejectMessage = useMutation(api.admin.mutations.rejectMessage)
+	const editMessage = useMutation(api.admin.mutations.editMessage)
+
+	const [isEditing, setIsEditing] = useState<boolean>(false)
+	const [draft, setDraft] = useState<string>(donation.message ?? '')
+	const [isSaving, setIsSaving] = useState<boolean>(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const run = async (action: () => Promise<unknown>): Promise<void> => {
+		setIsSaving(true)
+		setError(null)
+		try {
+			await action()
+			setIsEditing(false)
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+			logger.error('Message moderation error:', errorMsg)
+			setError(errorMsg)
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const args = { admin_token: token, donation_id: donation._id }
+
+	return (
+		<li className="space-y-2 border-2 border-secondary/40 p-3">
+			<div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+				<span className="font-bold text-white">{donation.display_name}</span>
+				<span className="font-mono">
+					{formatCurrency(donation.amount, donation.currency)} ·{' '}
+					{donation.payment_method} ·{' '}
+					{new Date(donation._creationTime).toLocaleString('en-US')}
+				</span>
+			</div>
+
+			{donation.message_flags && donation.message_flags.length > 0 && (
+				<ul aria-label="Automatic flags" className="flex gap-2">
+					{donation.message_flags.map((flag) => (
+						<li
+							className="border-2 border-accent bg-accent/20 px-2 text-accent text-xs uppercase"
+							key={flag}
+						>
+							{flag}
+						</li>
+					))}
+				</ul>
+			)}
+
+			{isEditing ? (
+				<TextAreaInput
+					label="Edit message"
+					onChange={(e) => setDraft(e.currentTarget.value)}
+					value={draft}
+				/>
+			) : (
+				<p className="whitespace-pre-wrap break-words italic">
+					{donation.message}
+				</p>
+			)}
+
+			<div className="flex flex-wrap gap-2">
+				{isEditing ? (
+					<>
+						<Button
+							disabled={isSaving}
+							onClick={() =>
+								run(() => editMessage({ ...args, message: draft }))
+							}
+							type="button"
+							variant="tertiary"
+						>
+							Save & Approve
+						</Button>
+						<Button
+							disabled={isSaving}
+							onClick={() => {
+								setDraft(donation.message ?? '')
+								setIsEditing(false)
+							}}
+							type="button"
+							variant="tertiary"
+						>
+							Cancel
+						</Button>
+					</>
+				) : (
+					<>
+						{donation.message_status !== 'approved' && (
+							<Button
+								disabled={isSaving}
+								onClick={() => run(() => approveMessage(args))}
+								type="button"
+								variant="tertiary"
+							>
+								Approve
+							</Button>
+						)}
+						{donation.message_status !== 'rejected' && (
+							<Button
+								disabled={isSaving}
+								onClick={() => run(() => rejectMessage(args))}
+								type="button"
+								variant="tertiary"
+							>
+								Reject
+							</Button>
+						)}
+						<Button
+							disabled={isSaving}
+							onClick={() => setIsEditing(true)}
+							type="button"
+							variant="tertiary"
+						>
+							Edit
+						</Button>
+					</>
+				)}
+			</div>
+
+			{error && (
+				<div
+					aria-live="assertive"
+					className="rounded border-2 border-accent bg-accent/20 px-3 py-1.5 text-accent text-sm"
+					role="alert"
+				>
+					{error}
+				</div>
+			)}
+		</li>
+	)
+}
+
+interface AdminMessageQueueProps {
+	readonly messageStatus: MessageStatus
+}
+
+function AdminMessageQueue({ messageStatus }: AdminMessageQueueProps) {
+	const { token } = useAdminSession()
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.admin.queries.listMessageQueue,
+		{ admin_token: token, message_status: messageStatus },
+		{ initialNumItems: pageSize }
+	)
+
+	if (status === 'LoadingFirstPage') {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading messages...
+			</p>
+		)
+	}
+
+	if (results.length === 0) {
+		return <p>No messages here.</p>
+	}
+
+	return (
+		<div className="space-y-4">
+			<ul className="space-y-4">
+				{results.map((donation) => (
+					<MessageQueueItem donation={donation} key={donation._id} />
+				))}
+			</ul>
+			{status !== 'Exhausted' && (
+				<Button
+					disabled={status === 'LoadingMore'}
+					onClick={() => loadMore(pageSize)}
+					type="button"
+					variant="secondary"
+				>
+					{status === 'LoadingMore' ? 'Loading...' : 'Load More'}
+				</Button>
+			)}
+		</div>
+	)
+}
+
+export { AdminMessageQueue, type MessageStatus }
@@ -0,0 +1,63 @@
+// This shows how much has been raised through each payment method, before and after processing fees.
+// Reads the stored campaign aggregates, so refunded and disputed donations are already excluded.
+
+import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { useQuery } from 'convex/react'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { useAdminSession } from './admin-gate.tsx'
+
+interface AdminMethodTotalsProps {
+	readonly campaignId: Id<'campaigns'> | undefined
+}
+
+function AdminMethodTotals({ campaignId }: AdminMethodTotalsProps) {
+	const { token } = useAdminSession()
+	const totals = useQuery(api.admin.queries.getMethodTotals, {
+		admin_token: token,
+		campaign_id: campaignId,
+	})
+
+	const rows = [
+		{ label: 'Stripe', amount: totals?.stripe, net: totals?.net.stripe },
+		{ label: 'PayPal', amount: totals?.paypal, net: totals?.net.paypal },
+		{ label: 'Bitcoin', amount: totals?.bitcoin, net: totals?.net.bitcoin },
+		{ label: 'Total', amount: totals?.total, net: totals?.net.total },
+	]
+
+	const formatTotal = (amount: number): string =>
+		totals?.currency
+			? formatCurrency(amount, totals.currency)
+			: amount.toLocaleString('en-US', { maximumFractionDigits: 2 })
+
+	return (
+		<section aria-busy={totals === undefined}>
+			<h2 className="sr-only">Totals by payment method</h2>
+			<dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+				{rows.map(({ label, amount, net }) => (
+					<div className="border-2 border-secondary/40 p-2" key={label}>
+						<dt className="text-secondary/75 text-sm uppercase">{label}</dt>
+						<dd className="font-bold font-mono text-white">
+							{amount === undefined ? '…' : formatTotal(amount)}
+						</dd>
+						{amount !== undefined && net !== undefined && (
+							<dd className="font-mono text-secondary/75 text-sm">
+								{formatTotal(net)} net · {formatTotal(amount - net)} fees
+							</dd>
+						)}
+					</div>
+				))}
+			</dl>
+			{totals && (
+				<p className="mt-2 text-secondary/75 text-sm">
+					{totals.count} active donations · Net is after the processing fees
+					recorded so far (fees are fetched every 30 minutes)
+					{totals.currency === null &&
+						' · Campaigns use different currencies, pick one to see its totals'}
+				</p>
+			)}
+		</section>
+	)
+}
+
+export { AdminMethodTotals }
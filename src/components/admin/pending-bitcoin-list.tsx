@@ -0,0 +1,123 @@
+// This lists pending Bitcoin payments so operators can spot stuck or expired ones.
+// Shows the address, derivation index, txid, amount received and expiry that otherwise live only in the Convex dashboard.
+
+import { api } from 'convex/_generated/api'
+import { btcAmountTolerance } from 'convex/bitcoin/types'
+import { useQuery } from 'convex/react'
+import type { AdminPendingBitcoinPayment } from 'convex/types'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { useAdminSession } from './admin-gate.tsx'
+
+type PendingStatus = AdminPendingBitcoinPayment['status']
+
+interface AdminPendingBitcoinListProps {
+	readonly status: PendingStatus | undefined
+}
+
+function formatTime(timestamp: number | undefined): string {
+	return timestamp === undefined
+		? '—'
+		: new Date(timestamp).toLocaleString('en-US')
+}
+
+function AdminPendingBitcoinList({ status }: AdminPendingBitcoinListProps) {
+	const { token } = useAdminSession()
+	const payments = useQuery(api.admin.queries.listPendingBitcoinPayments, {
+		admin_token: token,
+		status,
+	})
+
+	if (payments === undefined) {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading payments...
+			</p>
+		)
+	}
+
+	if (payments.length === 0) {
+		return <p>No pending Bitcoin payments.</p>
+	}
+
+	const now = Date.now()
+
+	return (
+		<div className="overflow-x-auto border-2 border-secondary/40">
+			<table className="w-full text-left text-sm">
+				<caption className="sr-only">Pending Bitcoin payments</caption>
+				<thead className="bg-secondary/10 uppercase">
+					<tr>
+						<th className="p-2" scope="col">
+							Status
+						</th>
+						<th className="p-2" scope="col">
+							Expected / Received
+						</th>
+						<th className="p-2" scope="col">
+							Address / Txid
+						</th>
+						<th className="p-2" scope="col">
+							Index
+						</th>
+						<th className="p-2" scope="col">
+							Created / Expires
+						</th>
+					</tr>
+				</thead>
+				<tbody>
+					{payments.map((payment) => {
+						// Still 'initialized' past its expiry means the cleanup cron hasn't run yet
+						const isOverdue =
+							payment.status === 'initialized' && payment.expires_at < now
+
+						return (
+							<tr
+								className="border-secondary/20 border-t align-top"
+								key={payment.id}
+							>
+								<td className="p-2 capitalize">
+									{payment.status}
+									{isOverdue && <div className="text-accent">overdue</div>}
+								</td>
+								<td className="whitespace-nowrap p-2 font-mono">
+									<div>{payment.expected_amount_btc} BTC</div>
+									<div className="text-secondary/75">
+										{formatCurrency(payment.expected_amount_usd)}
+									</div>
+									{payment.received_amount_btc !== undefined && (
+										<div
+											className={
+												payment.expected_amount_btc -
+													payment.received_amount_btc >
+												btcAmountTolerance
+													? 'text-accent'
+													: undefined
+											}
+										>
+											{payment.received_amount_btc} BTC received
+										</div>
+									)}
+								</td>
+								<td className="break-all p-2 font-mono text-xs">
+									<div>{payment.address}</div>
+									<div className="text-secondary/75">
+										{payment.txid ?? 'No transaction yet'}
+									</div>
+								</td>
+								<td className="p-2 font-mono">{payment.derivation_index}</td>
+								<td className="whitespace-nowrap p-2">
+									<div>{formatTime(payment.created_at)}</div>
+									<div className="text-secondary/75">
+										{formatTime(payment.expires_at)}
+									</div>
+								</td>
+							</tr>
+						)
+					})}
+				</tbody>
+			</table>
+		</div>
+	)
+}
+
+export { AdminPendingBitcoinList }
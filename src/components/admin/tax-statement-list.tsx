@@ -0,0 +1,125 @@
+// This lists the year-end giving statements generated for one year.
+// Each row links to the stored HTML and PDF and shows whether the email went out.
+
+import { api } from 'convex/_generated/api'
+import { useQuery } from 'convex/react'
+import type { AdminTaxStatement } from 'convex/types'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { useAdminSession } from './admin-gate.tsx'
+
+interface AdminTaxStatementListProps {
+	readonly year: number
+}
+
+function EmailStatus({ statement }: { readonly statement: AdminTaxStatement }) {
+	if (statement.email_error) {
+		return (
+			<div className="text-accent" title={statement.email_error}>
+				Failed: {statement.email_error}
+			</div>
+		)
+	}
+	if (statement.emailed_at !== undefined) {
+		return <div>{new Date(statement.emailed_at).toLocaleString('en-US')}</div>
+	}
+	return <div className="text-secondary/75">Not sent</div>
+}
+
+function AdminTaxStatementList({ year }: AdminTaxStatementListProps) {
+	const { token } = useAdminSession()
+	const statements = useQuery(api.admin.queries.listTaxStatements, {
+		admin_token: token,
+		year,
+	})
+
+	if (statements === undefined) {
+		return (
+			<p aria-busy="true" aria-live="polite">
+				Loading statements...
+			</p>
+		)
+	}
+
+	if (statements.length === 0) {
+		return <p>No statements generated for {year} yet.</p>
+	}
+
+	return (
+		<div className="overflow-x-auto border-2 border-secondary/40">
+			<table className="w-full text-left text-sm">
+				<caption className="sr-only">{year} giving statements</caption>
+				<thead className="bg-secondary/10 uppercase">
+					<tr>
+						<th className="p-2" scope="col">
+							Donor
+						</th>
+						<th className="p-2" scope="col">
+							Donations
+						</th>
+						<th className="p-2" scope="col">
+							Total
+						</th>
+						<th className="p-2" scope="col">
+							Emailed
+						</th>
+						<th className="p-2" scope="col">
+							Files
+						</th>
+					</tr>
+				</thead>
+				<tbody>
+					{statements.map((statement) => (
+						<tr
+							className="border-secondary/20 border-t align-top"
+							key={statement.id}
+						>
+							<td className="p-2">
+								<div className="font-bold text-white">
+									{statement.donor_name ?? '—'}
+								</div>
+								<div className="break-all text-secondary/75">
+									{statement.donor_email ?? 'Deleted donor'}
+								</div>
+							</td>
+							<td className="p-2 font-mono">{statement.donation_count}</td>
+							<td className="whitespace-nowrap p-2 font-mono">
+								{statement.totals.map((total) => (
+									<div key={total.currency}>
+										{formatCurrency(total.amount, total.currency)}
+									</div>
+								))}
+							</td>
+							<td className="p-2">
+								<EmailStatus statement={statement} />
+							</td>
+							<td className="whitespace-nowrap p-2">
+								{statement.pdf_url && (
+									<a
+										className="focus-ring underline"
+										href={statement.pdf_url}
+										rel="noopener"
+										target="_blank"
+									>
+										PDF
+									</a>
+								)}{' '}
+								{statement.html_url && (
+									<a
+										className="focus-ring underline"
+										href={statement.html_url}
+										rel="noopener"
+										target="_blank"
+									>
+										HTML
+									</a>
+								)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	)
+}
+
+export { AdminTaxStatementList }
@@ -0,0 +1,28 @@
+// This is the donation page of a campaign: progress tracker and the donation form.
+// Shared by the default campaign at /donate and every other campaign at /c/$slug/donate.
+
+import type { DonationTotal, PublicCampaign } from 'convex/types'
+import { DonateForm } from '../donate/form.tsx'
+import { GoalTracker } from '../goal-tracker.tsx'
+
+interface CampaignDonateProps {
+	readonly campaign: PublicCampaign
+	readonly total: DonationTotal | undefined
+}
+
+function CampaignDonate({ campaign, total }: CampaignDonateProps) {
+	return (
+		<main className="space-y-4">
+			<h1 className="font-bold text-2xl text-white">{campaign.title}</h1>
+			<GoalTracker
+				campaignId={campaign.id}
+				currency={campaign.currency}
+				goalAmount={campaign.goal_amount}
+				initialTotal={total}
+			/>
+			<DonateForm campaign={campaign} />
+		</main>
+	)
+}
+
+export { CampaignDonate }
@@ -0,0 +1,175 @@
+// This is the donor wall of a campaign: every donor, their approved message, and when they gave.
+// Shared by the default campaign at /donors and every other campaign at /c/$slug/donors.
+
+import { api } from 'convex/_generated/api'
+import { usePaginatedQuery } from 'convex/react'
+import type { Currency, DonationListItem, PublicCampaign } from 'convex/types'
+import { type MouseEvent, useEffect, useRef } from 'react'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { Button } from '../button.tsx'
+import { DonationIcon } from '../donation-icon.tsx'
+import { CampaignLink } from './campaign-link.tsx'
+
+// Donors added per "load more" / scroll step
+export const donorPageSize = 50
+// Upper bound for ?show= so one request can't ask for the whole table
+export const maxDonorsShown = 1000
+
+interface DonorWallItemProps {
+	readonly donor: DonationListItem
+	readonly currency: Currency
+}
+
+function DonorWallItem({ donor, currency }: DonorWallItemProps) {
+	const date = new Date(donor.created_at)
+
+	return (
+		<li className="flex gap-4 border-secondary/20 border-b py-4">
+			<div
+				aria-hidden="true"
+				className="shrink-0 self-start rounded-full bg-primary"
+			>
+				<DonationIcon amount={donor.amount} size={50} />
+			</div>
+			<div className="min-w-0 space-y-1">
+				<div className="flex flex-wrap items-baseline gap-x-3">
+					<span className="font-bold text-accent text-xl">
+						{formatCurrency(donor.amount, currency)}
+					</span>
+					<span className="text-xl">{donor.display_name}</span>
+				</div>
+				<time
+					className="text-secondary/75 text-sm"
+					dateTime={date.toISOString()}
+				>
+					{date.toLocaleDateString('en-US', {
+						year: 'numeric',
+						month: 'long',
+						day: 'numeric',
+					})}
+				</time>
+				{donor.message && (
+					<p className="whitespace-pre-wrap break-words italic">
+						{donor.message}
+					</p>
+				)}
+			</div>
+		</li>
+	)
+}
+
+interface CampaignDonorsProps {
+	readonly campaign: PublicCampaign
+	readonly initialDonors: DonationListItem[]
+	readonly initialIsDone: boolean
+	readonly show: number // How many donors the server rendered (from ?show=)
+}
+
+function CampaignDonors({
+	campaign,
+	initialDonors,
+	initialIsDone,
+	show,
+}: CampaignDonorsProps) {
+	const { results, status, loadMore } = usePaginatedQuery(
+		api.donation.getDonorList,
+		{ campaign_id: campaign.id },
+		{ initialNumItems: show }
+	)
+	const sentinelRef = useRef<HTMLDivElement>(null)
+
+	// Server-rendered donors stay on screen until the live query takes over
+	const isLive = status !== 'LoadingFirstPage'
+	const donors = isLive ? results : initialDonors
+	const canLoadMore = isLive ? status === 'CanLoadMore' : !initialIsDone
+
+	// Infinite scroll: load the next page when the end of the list comes into view
+	useEffect(() => {
+		const sentinel = sentinelRef.current
+		if (!sentinel || status !== 'CanLoadMore') return
+
+		const observer = new IntersectionObserver((entries) => {
+			if (entries.some((entry) => entry.isIntersecting)) {
+				loadMore(donorPageSize)
+			}
+		})
+		observer.observe(sentinel)
+
+		return () => observer.disconnect()
+	}, [status, loadMore])
+
+	// With JavaScript the link loads in place; without it, the href reloads
+	// the page with more donors rendered on the server
+	const handleLoadMore = (e: MouseEvent<HTMLAnchorElement>): void => {
+		if (!isLive) return
+		e.preventDefault()
+		loadMore(donorPageSize)
+	}
+
+	const nextShow = Math.min(donors.length + donorPageSize, maxDonorsShown)
+
+	return (
+		<main className="space-y-4">
+			<div className="space-y-2">
+				<h1 className="font-bold text-2xl text-white">Donors</h1>
+				<p>Everyone who has supported {campaign.title}.</p>
+			</div>
+
+			{donors.length === 0 ? (
+				<div className="border-2 border-secondary p-6 text-center">
+					<p className="text-lg">
+						Be the first to donate and help us reach our goal!
+					</p>
+				</div>
+			) : (
+				<ul aria-busy={status === 'LoadingMore'}>
+					{donors.map((donor) => (
+						<DonorWallItem
+							currency={campaign.currency}
+							donor={donor}
+							key={donor.id}
+						/>
+					))}
+				</ul>
+			)}
+
+			<div aria-hidden="true" ref={sentinelRef} />
+
+			{canLoadMore && (
+				<Button asChild variant="secondary">
+					<a href={`?show=${nextShow}`} onClick={handleLoadMore}>
+						{status === 'LoadingMore' ? 'Loading...' : 'Load More'}
+					</a>
+				</Button>
+			)}
+
+			<nav aria-label="Donor wall navigation" className="flex gap-4">
+				<Button asChild variant="primary">
+					<CampaignLink page="donate" slug={campaign.slug}>
+						Donate
+					</CampaignLink>
+				</Button>
+				<Button asChild variant="secondary">
+					<CampaignLink page="home" slug={campaign.slug}>
+						Home
+					</CampaignLink>
+				</Button>
+			</nav>
+		</main>
+	)
+}
+
+// Parse ?show= (set by the no-JavaScript "load more" link) into a donor count
+// Optional so plain links to the donor wall don't need a search param
+function validateDonorsSearch(search: Record<string, unknown>): {
+	show: number | undefined
+} {
+	const requested = Number(search.show)
+	if (!Number.isInteger(requested) || requested <= 0) {
+		return { show: undefined }
+	}
+
+	return { show: Math.min(requested, maxDonorsShown) }
+}
+
+export { CampaignDonors, validateDonorsSearch }
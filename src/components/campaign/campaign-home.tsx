@@ -0,0 +1,70 @@
+// This is the landing page of a campaign: hero image, progress bar, and recent donors.
+// Shared by the default campaign at / and every other campaign at /c/$slug.
+
+import type {
+	DonationListItem,
+	DonationTotal,
+	PublicCampaign,
+} from 'convex/types'
+import { siteConfig } from '@/configs/site-config.ts'
+import { Button } from '../button.tsx'
+import { DonationTable } from '../donation-table.tsx'
+import { GoalTracker } from '../goal-tracker.tsx'
+import { ShareModal } from '../share-modal.tsx'
+import { CampaignLink } from './campaign-link.tsx'
+
+interface CampaignHomeProps {
+	readonly campaign: PublicCampaign
+	readonly donors: DonationListItem[]
+	readonly total: DonationTotal
+}
+
+function CampaignHome({ campaign, donors, total }: CampaignHomeProps) {
+	return (
+		<main className="flex max-h-[calc(100svh-5rem)] flex-col space-y-4 overflow-hidden">
+			<section className="shrink-0">
+				{campaign.hero_image && (
+					<img
+						alt="A group of characters representing our fundraising goal"
+						className="w-full"
+						draggable={false}
+						src={campaign.hero_image}
+					/>
+				)}
+				<h1 className="mt-2 text-2xl text-white">{siteConfig.siteTitle}</h1>
+				<p>{campaign.title}</p>
+			</section>
+
+			<section className="flex min-h-0 flex-col space-y-2">
+				<GoalTracker
+					campaignId={campaign.id}
+					currency={campaign.currency}
+					goalAmount={campaign.goal_amount}
+					initialTotal={total}
+				/>
+				<div className="flex w-full flex-row gap-4">
+					<Button asChild variant="primary">
+						<CampaignLink page="donate" slug={campaign.slug}>
+							Donate
+						</CampaignLink>
+					</Button>
+					<ShareModal />
+				</div>
+				<DonationTable
+					campaignId={campaign.id}
+					currency={campaign.currency}
+					initialDonations={donors}
+				/>
+				<CampaignLink
+					className="focus-ring self-center font-bold underline"
+					page="donors"
+					slug={campaign.slug}
+				>
+					See all donors
+				</CampaignLink>
+			</section>
+		</main>
+	)
+}
+
+export { CampaignHome }
@@ -0,0 +1,43 @@
+// This links to a page of a campaign, whether it's the default campaign at the site root
+// or another campaign under /c/$slug. Works with Button's asChild like a regular Link.
+
+import { Link } from '@tanstack/react-router'
+import type { ReactNode } from 'react'
+import { siteConfig } from '@/configs/site-config.ts'
+
+interface CampaignLinkProps {
+	readonly slug: string
+	readonly page: 'home' | 'donate' | 'donors'
+	readonly children: ReactNode
+	readonly className?: string
+}
+
+const defaultCampaignRoutes = {
+	home: '/',
+	donate: '/donate',
+	donors: '/donors',
+} as const
+
+const campaignRoutes = {
+	home: '/c/$slug',
+	donate: '/c/$slug/donate',
+	donors: '/c/$slug/donors',
+} as const
+
+function CampaignLink({ slug, page, children, ...props }: CampaignLinkProps) {
+	if (slug === siteConfig.defaultCampaignSlug) {
+		return (
+			<Link to={defaultCampaignRoutes[page]} {...props}>
+				{children}
+			</Link>
+		)
+	}
+
+	return (
+		<Link params={{ slug }} to={campaignRoutes[page]} {...props}>
+			{children}
+		</Link>
+	)
+}
+
+export { CampaignLink }
@@ -0,0 +1,312 @@
+// This is the thank you page of a campaign that shows after someone completes a donation.
+// Shared by the default campaign at /success and every other campaign at /c/$slug/success.
+
+import { api } from 'convex/_generated/api'
+import { useQuery } from 'convex/react'
+import type {
+	DonationListItem,
+	DonationTotal,
+	PublicCampaign,
+} from 'convex/types'
+import { useEffect } from 'react'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import { removeSecureItem } from '@/utils/secure-storage.ts'
+import { Button } from '../button.tsx'
+import { DonationTable } from '../donation-table.tsx'
+import { GoalTracker } from '../goal-tracker.tsx'
+import { CampaignLink } from './campaign-link.tsx'
+
+type SuccessSearchParams = {
+	payment_id: string | undefined
+}
+
+// Normalize payment provider URL parameters into single payment_id field
+// Stripe: session_id (Checkout) or payment_intent (Payment Element redirect),
+// PayPal: token, Bitcoin and in-page Stripe payments: payment_id
+function validateSuccessSearch(
+	search: Record<string, unknown>
+): SuccessSearchParams {
+	const payment_id =
+		(typeof search.payment_id === 'string' ? search.payment_id : undefined) ||
+		(typeof search.session_id === 'string' ? search.session_id : undefined) ||
+		(typeof search.payment_intent === 'string'
+			? search.payment_intent
+			: undefined) ||
+		(typeof search.token === 'string' ? search.token : undefined)
+
+	return { payment_id }
+}
+
+// Helper component for repeated states
+type LoadingStateProps = {
+	readonly title: string
+	readonly message: string
+	readonly status: string
+}
+
+function LoadingState({ title, message, status }: LoadingStateProps) {
+	return (
+		<main className="space-y-4">
+			<h1 className="font-bold text-2xl text-white">{title}</h1>
+			<p>{message}</p>
+			<div
+				aria-busy="true"
+				aria-live="polite"
+				className="flex items-center gap-2"
+			>
+				<span className="animate-pulse">●</span>
+				<span>{status}</span>
+			</div>
+		</main>
+	)
+}
+
+interface CampaignSuccessProps {
+	readonly campaign: PublicCampaign
+	readonly paymentId: string | undefined
+	readonly donors: DonationListItem[]
+	readonly total: DonationTotal
+}
+
+function CampaignSuccess({
+	campaign,
+	paymentId: payment_id,
+	donors,
+	total,
+}: CampaignSuccessProps) {
+	// Get payment ID mapping (PayPal: order ID → capture ID, monthly Stripe: session ID → invoice ID)
+	// Returns null if no mapping exists (one-time Stripe/Bitcoin use payment_id directly)
+	const mappedPaymentId = useQuery(
+		api.paypal.queries.getPaymentIdMapping,
+		payment_id ? { order_id: payment_id } : 'skip'
+	)
+
+	// Use mapped ID if it exists, otherwise use original payment_id
+	// This handles: PayPal (needs mapping), Stripe (direct), Bitcoin (direct)
+	const finalPaymentId = mappedPaymentId || payment_id
+
+	// Get donation directly from donations table (reactive query)
+	// Convex will automatically update when webhook creates the donation
+	const donation = useQuery(
+		api.donation.getDonationByPaymentId,
+		finalPaymentId ? { payment_id: finalPaymentId } : 'skip'
+	)
+
+	// Stripe bank debits finish checkout days before the donation exists
+	// Returns 'processing' or 'failed' for those, null otherwise
+	const checkoutStatus = useQuery(
+		api.stripe.queries.getCheckoutStatus,
+		payment_id && donation === null ? { session_id: payment_id } : 'skip'
+	)
+
+	// Clear Bitcoin redirect flag when success page loads
+	// This allows the user to donate again and be redirected for the new donation
+	useEffect(() => {
+		if (donation && donation.payment_method === 'bitcoin') {
+			const redirectKey = `bitcoin_redirected_${donation.payment_id}`
+			removeSecureItem(redirectKey)
+		}
+	}, [donation])
+
+	// Loading state: Queries still loading
+	if (mappedPaymentId === undefined || donation === undefined) {
+		return (
+			<LoadingState
+				message="Please wait while we confirm your payment..."
+				status="Loading payment information"
+				title="Processing Your Contribution..."
+			/>
+		)
+	}
+
+	// Bank debit still clearing - the donation is recorded when the money arrives
+	if (donation === null && checkoutStatus === 'processing') {
+		return (
+			<LoadingState
+				message="Bank payments take a few business days to clear. Your contribution will be added as soon as the money arrives, and you can safely close this page."
+				status="Waiting for your bank..."
+				title="Your Payment Is Processing"
+			/>
+		)
+	}
+
+	if (donation === null && checkoutStatus === 'failed') {
+		return (
+			<main className="space-y-4">
+				<h1 className="font-bold text-2xl text-white">
+					Your Payment Didn't Go Through
+				</h1>
+				<p>
+					Your bank couldn't complete the payment, so no contribution was
+					recorded. You can try again with a different payment method.
+				</p>
+				<Button asChild variant="primary">
+					<CampaignLink page="donate" slug={campaign.slug}>
+						Try Again
+					</CampaignLink>
+				</Button>
+			</main>
+		)
+	}
+
+	// Waiting state: Donation not created yet (webhook hasn't arrived)
+	// Convex reactive query will automatically update when donation is created
+	if (donation === null) {
+		return (
+			<LoadingState
+				message="Your payment is being processed. This page will automatically update when your payment is confirmed."
+				status="Waiting for payment confirmation..."
+				title="Processing Your Contribution..."
+			/>
+		)
+	}
+
+	// At this point, donation is guaranteed to exist (TypeScript knows this)
+
+	// Success state - donation found
+	const confirmationDate = new Date(donation._creationTime).toLocaleDateString(
+		'en-US',
+		{
+			year: 'numeric',
+			month: 'long',
+			day: 'numeric',
+		}
+	)
+
+	// Payment confirmation details - mapped for consistency
+	type ConfirmationDetail = {
+		readonly label: string
+		readonly value: string
+		readonly className?: string
+	}
+
+	// Show what the donor actually paid, not the campaign-currency conversion
+	const paidAmount = formatCurrency(
+		donation.original_amount ?? donation.amount,
+		donation.original_currency ?? donation.currency
+	)
+
+	const confirmationDetails: readonly ConfirmationDetail[] = [
+		{
+			label: 'Payment ID',
+			value: donation.payment_id,
+			className: 'font-mono text-xs break-all',
+		},
+		{ label: 'Date', value: confirmationDate },
+		{
+			label: 'Amount',
+			value: paidAmount,
+			className: 'font-bold text-white',
+		},
+		{ label: 'Display Name', value: donation.display_name },
+		{
+			label: 'Payment Method',
+			value: donation.payment_method,
+			className: 'capitalize',
+		},
+	]
+
+	return (
+		<main className="space-y-4">
+			<div
+				aria-live="polite"
+				className="space-y-2 rounded-lg bg-background/50"
+				role="alert"
+			>
+				{donation.status === 'pending' ? (
+					<>
+						<h1 className="font-bold text-2xl text-white">
+							Thank You - Your Payment Is Pending
+						</h1>
+						<p className="text-lg">
+							Your contribution of{' '}
+							<strong className="text-white">{paidAmount}</strong> is waiting to
+							clear (eChecks can take a few business days). It will be added to
+							the total once it does.
+						</p>
+					</>
+				) : donation.status === 'voided' ? (
+					<>
+						<h1 className="font-bold text-2xl text-white">
+							Your Payment Didn't Go Through
+						</h1>
+						<p className="text-lg">
+							Your contribution of{' '}
+							<strong className="text-white">{paidAmount}</strong> was declined
+							by the payment provider, so it won't be counted.
+						</p>
+					</>
+				) : (
+					<>
+						<h1 className="font-bold text-2xl text-white">
+							Thank You for Your Contribution!
+						</h1>
+						<p className="text-lg">
+							Your generous contribution of{' '}
+							<strong className="text-white">{paidAmount}</strong> has been
+							confirmed.
+						</p>
+					</>
+				)}
+			</div>
+
+			<section className="space-y-2 rounded-lg bg-background/50">
+				<h2 className="font-bold text-white text-xl">Payment Confirmation</h2>
+				<dl className="space-y-1">
+					{confirmationDetails.map(({ label, value, className }) => (
+						<div className="flex items-center justify-between" key={label}>
+							<dt>{label}:</dt>
+							<dd className={className}>{value}</dd>
+						</div>
+					))}
+				</dl>
+				{donation.message && (
+					<div className="space-y-1 border-secondary/20 border-t pt-2">
+						<dt className="font-semibold text-sm text-white">Your Message:</dt>
+						<dd className="whitespace-pre-wrap break-words text-sm italic">
+							{donation.message}
+						</dd>
+					</div>
+				)}
+				{donation.message_status === 'pending_review' && (
+					<p className="border-secondary/20 border-t pt-2 text-sm">
+						Your message will appear once it has been reviewed.
+					</p>
+				)}
+				<p className="pt-2 text-sm">
+					Thank you for your contribution! This confirmation is for your
+					records.
+				</p>
+			</section>
+
+			<GoalTracker
+				campaignId={campaign.id}
+				currency={campaign.currency}
+				goalAmount={campaign.goal_amount}
+				initialTotal={total}
+			/>
+			<nav
+				aria-label="Post-donation navigation"
+				className="flex w-full flex-row gap-4"
+			>
+				<Button asChild variant="primary">
+					<CampaignLink page="donate" slug={campaign.slug}>
+						Donate Again
+					</CampaignLink>
+				</Button>
+				<Button asChild variant="secondary">
+					<CampaignLink page="home" slug={campaign.slug}>
+						Home
+					</CampaignLink>
+				</Button>
+			</nav>
+			<DonationTable
+				campaignId={campaign.id}
+				currency={campaign.currency}
+				initialDonations={donors}
+			/>
+		</main>
+	)
+}
+
+export { CampaignSuccess, validateSuccessSearch }
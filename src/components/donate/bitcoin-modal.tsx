@@ -8,7 +8,11 @@ import {
 	DialogTitle,
 } from '@headlessui/react'
 import { api } from 'convex/_generated/api'
-import type { BitcoinPaymentData } from 'convex/bitcoin/types'
+import type { Id } from 'convex/_generated/dataModel'
+import {
+	type BitcoinPaymentData,
+	btcAmountTolerance,
+} from 'convex/bitcoin/types'
 import { useAction, useMutation, useQuery } from 'convex/react'
 import { QRCodeSVG } from 'qrcode.react'
 import {
@@ -23,6 +27,7 @@ import {
 import { env } from '@/env.ts'
 import { useConfirmationSync } from '@/libs/bitcoin/use-confirmation-sync.ts'
 import { useCountdownTimer } from '@/libs/bitcoin/use-countdown-timer.ts'
+import { getCampaignPath } from '@/utils/campaign-path.ts'
 import { logger } from '@/utils/logger.ts'
 import { getSecureItem, setSecureItem } from '@/utils/secure-storage.ts'
 import { Button } from '../button.tsx'
@@ -31,9 +36,13 @@ interface DonateBitcoinModalProps {
 	isOpen: boolean
 	onClose: (error?: string) => void
 	amount: number
+	campaignId: Id<'campaigns'>
+	campaignSlug: string
 	message: string | null
 	playerName: string | null
 	usePlayerName: boolean
+	feeCovered: number | null // Network fee the donor added, already in amount
+	receiptEmail: string | null // Opt-in receipt address
 	paymentData: BitcoinPaymentData | null
 	onPaymentDataUpdate: (data: BitcoinPaymentData | null) => void
 	confirmations: { current: number; required: number } | null
@@ -49,9 +58,13 @@ function DonateBitcoinModal({
 	isOpen,
 	onClose,
 	amount,
+	campaignId,
+	campaignSlug,
 	message,
 	playerName,
 	usePlayerName,
+	feeCovered,
+	receiptEmail,
 	paymentData,
 	onPaymentDataUpdate,
 	confirmations,
@@ -126,6 +139,12 @@ function DonateBitcoinModal({
 	const isExpiredWithoutPayment =
 		paymentData && paymentData.expiresAt <= Date.now() && status === 'active'
 
+	// The window closed short of the amount and BITCOIN_UNDERPAYMENT_POLICY rejected it
+	// (or an admin dismissed the held payment)
+	const isUnderpaymentRejected =
+		pendingPayment?.status === 'rejected' ||
+		(pendingPayment?.status === 'expired' && pendingPayment.txid !== undefined)
+
 	// Countdown timer with milestone announcements
 	const { timeRemaining, announcement } = useCountdownTimer({
 		isOpen,
@@ -215,7 +234,7 @@ function DonateBitcoinModal({
 
 			// Payment just confirmed - show success message briefly, then redirect
 			redirectTimeoutRef.current = setTimeout(() => {
-				window.location.href = `/success?payment_id=${encodeURIComponent(paymentData.address)}`
+				window.location.href = `${getCampaignPath(campaignSlug)}/success?payment_id=${encodeURIComponent(paymentData.address)}`
 			}, 2000)
 		})()
 
@@ -224,7 +243,7 @@ function DonateBitcoinModal({
 				clearTimeout(redirectTimeoutRef.current)
 			}
 		}
-	}, [isOpen, paymentData, status, sessionId])
+	}, [isOpen, paymentData, status, sessionId, campaignSlug])
 
 	// Check for existing pending payment and set status accordingly
 	// This must run BEFORE the generate address effect to prevent showing expired state
@@ -309,15 +328,18 @@ function DonateBitcoinModal({
 				try {
 					const result = await generateBitcoinAddress({
 						amount,
+						campaign_id: campaignId,
 						session_id: sessionId,
 						metadata:
-							usePlayerName || message
+							usePlayerName || message || feeCovered
 								? {
 										player_name: playerName,
 										use_player_name: usePlayerName,
 										message: message || undefined,
+										fee_covered: feeCovered ?? undefined,
 									}
 								: undefined,
+						receipt_email: receiptEmail || undefined,
 					})
 
 					const now = Date.now()
@@ -346,9 +368,12 @@ function DonateBitcoinModal({
 		pendingPayment,
 		confirmedDonation,
 		amount,
+		campaignId,
 		usePlayerName,
 		playerName,
 		message,
+		feeCovered,
+		receiptEmail,
 		sessionId,
 		generateBitcoinAddress,
 		onPaymentDataUpdate,
@@ -394,21 +419,14 @@ function DonateBitcoinModal({
 	// Extract polling logic as an event to avoid restarting the interval
 	// when metadata like playerName or sessionId changes
 	const onPollPayment = useEffectEvent(async () => {
-		if (!paymentData || !displayData || !sessionId) return
+		if (!paymentData || !sessionId) return
 
 		try {
+			// Amount and donor details come from the pending payment recorded
+			// when the address was generated
 			const result = await checkBitcoinPayment({
 				address: paymentData.address,
 				session_id: sessionId,
-				expected_btc_amount: displayData.amount_btc,
-				metadata:
-					usePlayerName || message
-						? {
-								player_name: playerName,
-								use_player_name: usePlayerName,
-								message: message || undefined,
-							}
-						: undefined,
 			})
 
 			// Handle no payment detected
@@ -418,8 +436,14 @@ function DonateBitcoinModal({
 			}
 
 			// Payment detected (result.paid === true)
-			// Check if we have enough confirmations
-			if (result.confirmations < result.required_confirmations) {
+			// Check if we have enough confirmations (held payments wait for review,
+			// verifying ones for the providers to agree, underpaid ones for the rest)
+			if (
+				result.held ||
+				result.verifying ||
+				result.remaining_btc !== undefined ||
+				result.confirmations < result.required_confirmations
+			) {
 				// Payment seen but not enough confirmations - show pending state
 				setStatus('pending')
 
@@ -466,7 +490,8 @@ function DonateBitcoinModal({
 			status === 'paid' || // Stop once fully confirmed
 			status === 'loading' || // Don't poll while generating address
 			!paymentData ||
-			isExpiredWithoutPayment // Only stop polling if expired WITHOUT payment
+			isExpiredWithoutPayment || // Only stop polling if expired WITHOUT payment
+			isUnderpaymentRejected // Settled without a donation
 		)
 			return
 
@@ -496,7 +521,14 @@ function DonateBitcoinModal({
 			}
 			clearTimeout(backoffTimer)
 		}
-	}, [isOpen, status, paymentData, pollingDelay, isExpiredWithoutPayment])
+	}, [
+		isOpen,
+		status,
+		paymentData,
+		pollingDelay,
+		isExpiredWithoutPayment,
+		isUnderpaymentRejected,
+	])
 
 	// Shared state reset logic for both close and regenerate actions
 	const resetModalState = () => {
@@ -541,6 +573,27 @@ function DonateBitcoinModal({
 		return `bitcoin:${paymentData.address}?amount=${displayData.amount_btc}&label=${encodeURIComponent(playerName || 'Donation')}&message=${encodeURIComponent('RAD Crowdfunding Donation')}`
 	}, [paymentData, displayData, playerName])
 
+	// Set while the transactions so far fall short - the donor can send the rest
+	// until the payment window closes
+	const topUp = useMemo(() => {
+		if (
+			pendingPayment?.status !== 'pending' ||
+			!pendingPayment.received_amount_btc ||
+			pendingPayment.expires_at <= Date.now()
+		) {
+			return null
+		}
+		const received = pendingPayment.received_amount_btc
+		const remaining = pendingPayment.expected_amount_btc - received
+		if (remaining <= btcAmountTolerance) return null
+		return {
+			received,
+			expected: pendingPayment.expected_amount_btc,
+			remaining,
+			uri: `bitcoin:${pendingPayment.address}?amount=${remaining.toFixed(8)}&label=${encodeURIComponent(playerName || 'Donation')}&message=${encodeURIComponent('RAD Crowdfunding Donation')}`,
+		}
+	}, [pendingPayment, playerName])
+
 	const formatTime = (seconds: number): string => {
 		const mins = Math.floor(seconds / 60)
 		const secs = seconds % 60
@@ -728,9 +781,62 @@ function DonateBitcoinModal({
 								<>
 									{/* Status heading */}
 									<h3 className="text-center font-bold text-xl">
-										⏳ Waiting for confirmations
+										{isUnderpaymentRejected
+											? '⚠️ Payment incomplete'
+											: pendingPayment?.status === 'held'
+												? '⏳ Verifying your payment'
+												: topUp
+													? '⏳ Waiting for the rest of your payment'
+													: '⏳ Waiting for confirmations'}
 									</h3>
 
+									{/* Partial payment - show what's left to send to the same address */}
+									{topUp && (
+										<>
+											<output
+												aria-live="polite"
+												className="block text-center text-secondary"
+											>
+												Received {topUp.received.toFixed(8)} of{' '}
+												{topUp.expected.toFixed(8)} BTC, send{' '}
+												<span className="font-bold">
+													{topUp.remaining.toFixed(8)}
+												</span>{' '}
+												more
+											</output>
+											<div
+												aria-label={`Bitcoin payment QR code for the remaining ${topUp.remaining.toFixed(8)} BTC`}
+												className="mx-auto w-48 max-w-full"
+												role="img"
+											>
+												<QRCodeSVG
+													className="h-auto w-full"
+													level="M"
+													size={192}
+													value={topUp.uri}
+												/>
+											</div>
+											<div className="flex items-center gap-4">
+												<input
+													aria-label="Bitcoin payment address"
+													className="focus-ring w-full border-2 border-primary bg-primary/50 px-3 py-1.5 font-medium text-sm text-white shadow-2xs"
+													id={addressInputId}
+													name="bitcoin-address"
+													readOnly
+													type="text"
+													value={pendingPayment?.address ?? ''}
+												/>
+												<Button
+													aria-label={isCopied ? 'Copied!' : 'Copy address'}
+													onCopySuccess={() => setIsCopied(true)}
+													size="md"
+													textToCopy={pendingPayment?.address ?? ''}
+													variant="copy"
+												/>
+											</div>
+										</>
+									)}
+
 									{/* Confirmation progress - live region for dynamic updates */}
 									{localConfirmations ? (
 										<output
@@ -794,11 +900,32 @@ function DonateBitcoinModal({
 												Your transaction has been broadcast to the Bitcoin
 												network.
 											</p>
-											<p className="font-medium text-primary">
-												You can safely close this window. Your donation will
-												automatically appear on the main page once confirmed
-												(usually 10-30 minutes).
-											</p>
+											{topUp && pendingPayment ? (
+												<p className="font-medium text-primary">
+													Send the rest to the same address by{' '}
+													{new Date(pendingPayment.expires_at).toLocaleString()}{' '}
+													to complete your donation.
+												</p>
+											) : isUnderpaymentRejected ? (
+												<p className="font-medium text-primary">
+													The payment window closed before the full amount
+													arrived, so this donation couldn't be recorded. Please
+													get in touch with us about the Bitcoin you sent.
+												</p>
+											) : pendingPayment?.status === 'held' ? (
+												<p className="font-medium text-primary">
+													We're double-checking this transaction before
+													crediting it. You can safely close this window - your
+													donation will appear on the main page once it's
+													verified.
+												</p>
+											) : (
+												<p className="font-medium text-primary">
+													You can safely close this window. Your donation will
+													automatically appear on the main page once confirmed
+													(usually 10-30 minutes).
+												</p>
+											)}
 										</div>
 									</aside>
 								</>
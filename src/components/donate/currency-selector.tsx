@@ -0,0 +1,44 @@
+// This lets donors pick the currency they pay in (USD, EUR, GBP, CAD or AUD).
+// Bitcoin is always priced in USD, so the choice is locked while Bitcoin is selected.
+
+import { type Currency, supportedCurrencies } from 'convex/types'
+import { useId } from 'react'
+import { getCurrencySymbol } from '@/utils/format-currency.ts'
+
+interface DonateCurrencySelectorProps {
+	value: Currency
+	onChange: (currency: Currency) => void
+	disabled?: boolean
+}
+
+function DonateCurrencySelector({
+	value,
+	onChange,
+	disabled = false,
+}: DonateCurrencySelectorProps) {
+	const id = useId()
+
+	return (
+		<div className="flex items-center justify-between gap-4">
+			<label className="font-medium" htmlFor={id}>
+				Currency
+			</label>
+			<select
+				className="focus-ring border-2 border-secondary bg-transparent px-3 py-1.5 font-bold disabled:cursor-not-allowed disabled:opacity-50"
+				disabled={disabled}
+				id={id}
+				name="currency"
+				onChange={(e) => onChange(e.currentTarget.value as Currency)}
+				value={value}
+			>
+				{supportedCurrencies.map((currency) => (
+					<option key={currency} value={currency}>
+						{getCurrencySymbol(currency)} {currency}
+					</option>
+				))}
+			</select>
+		</div>
+	)
+}
+
+export { DonateCurrencySelector }
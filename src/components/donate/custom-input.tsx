@@ -1,17 +1,22 @@
 // This is the input box where users can type a custom donation amount.
 
+import type { Currency } from 'convex/types'
+import { getCurrencySymbol } from '@/utils/format-currency.ts'
+
 interface DonateCustomInputProps
 	extends Omit<
 		React.ComponentProps<'input'>,
 		'className' | 'name' | 'placeholder' | 'type'
-	> {}
+	> {
+	currency: Currency
+}
 
-function DonateCustomInput({ ...props }: DonateCustomInputProps) {
+function DonateCustomInput({ currency, ...props }: DonateCustomInputProps) {
 	return (
 		<div className="focus-ring-within flex items-center border-2 border-secondary px-4 py-1 font-bold">
 			<div>
-				<div>$</div>
-				<div>USD</div>
+				<div>{getCurrencySymbol(currency)}</div>
+				<div>{currency}</div>
 			</div>
 			<input
 				className="w-full text-right outline-none hover:text-white focus:text-white"
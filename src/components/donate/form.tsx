@@ -1,14 +1,21 @@
 // This is the main donation form where users enter their info and choose how to pay.
-// It handles all three payment methods: Stripe, PayPal, and Bitcoin.
+// It handles all three payment methods: Stripe, PayPal, and Bitcoin (on-chain or over Lightning).
 
 import { api } from 'convex/_generated/api'
-import type { BitcoinPaymentData } from 'convex/bitcoin/types'
+import type {
+	BitcoinPaymentData,
+	GenerateLightningInvoiceResult,
+} from 'convex/bitcoin/types'
 import { isValidBitcoinPaymentData } from 'convex/bitcoin/types'
-import { useAction } from 'convex/react'
+import { calculateCoveredFee } from 'convex/fees'
+import { useAction, useQuery } from 'convex/react'
 import {
 	type CreateCheckoutInput,
+	type Currency,
+	maxEmailLength,
 	minDonationAmount,
 	type PaymentMethod,
+	type PublicCampaign,
 } from 'convex/types'
 import {
 	type FormEvent,
@@ -18,23 +25,40 @@ import {
 	useState,
 	useTransition,
 } from 'react'
+import {
+	lightningDefaultBelow,
+	paypalCheckoutFlow,
+	stripeCheckoutFlow,
+} from '@/configs/donate-config.ts'
 import { useBitcoinSession } from '@/libs/bitcoin/use-bitcoin-session.ts'
 import { useFormValidation } from '@/libs/use-form-validation.ts'
+import { formatCurrency } from '@/utils/format-currency.ts'
 import { logger } from '@/utils/logger.ts'
 import { Button } from '../button.tsx'
 import { CheckboxInput } from '../checkbox.tsx'
 import { DonationSummary } from '../donation-summary.tsx'
 import { TextInput } from '../text-input.tsx'
 import { DonateBitcoinModal } from './bitcoin-modal.tsx'
+import { DonateCurrencySelector } from './currency-selector.tsx'
 import { DonateCustomInput } from './custom-input.tsx'
+import { DonateLightningModal } from './lightning-modal.tsx'
 import { DonateMethodSelector } from './method-selector.tsx'
+import { DonatePayPalButtons, type PayPalOrder } from './paypal-buttons.tsx'
 import { DonateRecommendedInput } from './recommended-input.tsx'
+import {
+	DonateStripePaymentElement,
+	type StripePaymentIntent,
+} from './stripe-payment-element.tsx'
 import { TextAreaInput } from './textarea-input.tsx'
 
 const processingInterval = 100
 const assetWarmupTime = 800
 
-function DonateForm() {
+interface DonateFormProps {
+	readonly campaign: PublicCampaign
+}
+
+function DonateForm({ campaign }: DonateFormProps) {
 	const [currentDonateOption, setCurrentDonateOption] = useState<
 		number | undefined
 	>(100)
@@ -43,6 +67,16 @@ function DonateForm() {
 	const [privacy, setPrivacy] = useState<boolean>(false)
 	const [includeMessage, setIncludeMessage] = useState<boolean>(false)
 	const [message, setMessage] = useState<string>('')
+	const [monthly, setMonthly] = useState<boolean>(false)
+	const [currency, setCurrency] = useState<Currency>(campaign.currency)
+	const [wantsReceipt, setWantsReceipt] = useState<boolean>(false)
+	const [receiptEmail, setReceiptEmail] = useState<string>('')
+	const [receiptEmailTouched, setReceiptEmailTouched] = useState<boolean>(false)
+	const [coverFees, setCoverFees] = useState<boolean>(false)
+	// USD network fee estimate, fetched the first time Bitcoin donors cover fees
+	const [bitcoinNetworkFee, setBitcoinNetworkFee] = useState<number | null>(
+		null
+	)
 
 	const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('stripe')
 
@@ -54,6 +88,18 @@ function DonateForm() {
 	const [messageTouched, setMessageTouched] = useState<boolean>(false)
 	const [submitAttempted, setSubmitAttempted] = useState<boolean>(false)
 
+	// Embedded Stripe payment, tied to the form values it was created for
+	const [stripePayment, setStripePayment] = useState<{
+		intent: StripePaymentIntent
+		payloadKey: string
+	} | null>(null)
+
+	// PayPal order for the in-page Buttons, tied the same way
+	const [paypalOrder, setPayPalOrder] = useState<{
+		order: PayPalOrder
+		payloadKey: string
+	} | null>(null)
+
 	// Bitcoin payment state
 	const [showBitcoinModal, setShowBitcoinModal] = useState<boolean>(false)
 	const [bitcoinPaymentData, setBitcoinPaymentData] =
@@ -63,23 +109,71 @@ function DonateForm() {
 		required: number
 	} | null>(null)
 
+	// Lightning invoice state - null choice follows lightningDefaultBelow
+	const [payWithLightning, setPayWithLightning] = useState<boolean | null>(null)
+	const [showLightningModal, setShowLightningModal] = useState<boolean>(false)
+	const [lightningInvoice, setLightningInvoice] =
+		useState<GenerateLightningInvoiceResult | null>(null)
+
 	// Bitcoin session management (GDPR-compliant lazy loading)
 	const bitcoinSession = useBitcoinSession()
 
 	const submitErrorId = useId()
 	const playerNameInputRef = useRef<HTMLInputElement>(null)
 	const messageInputRef = useRef<HTMLTextAreaElement>(null)
+	const receiptEmailInputRef = useRef<HTMLInputElement>(null)
 
 	const createStripeCheckout = useAction(
 		api.stripe.actions.createCheckoutSession
 	)
 
+	const createStripePaymentIntent = useAction(
+		api.stripe.actions.createPaymentIntent
+	)
+
 	const createPayPalOrder = useAction(api.paypal.actions.createOrder)
 
+	const getBitcoinNetworkFee = useAction(
+		api.bitcoin.actions.getNetworkFeeEstimate
+	)
+
+	const isLightningEnabled =
+		useQuery(api.bitcoin.mutations.isLightningEnabled) ?? false
+
 	const selectedAmount = customAmount
 		? Number(customAmount)
 		: (currentDonateOption ?? 0)
 
+	const isLightning =
+		paymentMethod === 'bitcoin' &&
+		isLightningEnabled &&
+		(payWithLightning ?? selectedAmount < lightningDefaultBelow)
+
+	// Bitcoin is priced from the BTC/USD rate, so it always uses USD
+	const paymentCurrency: Currency =
+		paymentMethod === 'bitcoin' ? 'USD' : currency
+
+	// Added on top of the selected amount, which is what the campaign receives
+	// Bitcoin waits for the network fee estimate before adding anything, and
+	// Lightning has no fee to cover (the sender's wallet pays the routing fees)
+	const coveredFee =
+		coverFees &&
+		selectedAmount > 0 &&
+		!isLightning &&
+		(paymentMethod !== 'bitcoin' || bitcoinNetworkFee !== null)
+			? calculateCoveredFee(
+					selectedAmount,
+					paymentMethod,
+					paymentCurrency,
+					bitcoinNetworkFee ?? 0
+				)
+			: 0
+	const chargedAmount = Math.round((selectedAmount + coveredFee) * 100) / 100
+
+	// Stripe and PayPal send the receipt to the payer email they collect,
+	// so the opt-in address is only asked for with Bitcoin
+	const isBitcoinReceipt = wantsReceipt && paymentMethod === 'bitcoin'
+
 	const validation = useFormValidation({
 		selectedAmount,
 		minAmount: minDonationAmount,
@@ -89,9 +183,29 @@ function DonateForm() {
 		includeMessage,
 		message,
 		messageTouched,
+		wantsReceipt: isBitcoinReceipt,
+		receiptEmail,
+		receiptEmailTouched,
 		submitAttempted,
 	})
 
+	useEffect(() => {
+		if (!coverFees || paymentMethod !== 'bitcoin' || bitcoinNetworkFee !== null)
+			return
+
+		const fetchNetworkFee = async () => {
+			try {
+				setBitcoinNetworkFee(await getBitcoinNetworkFee())
+			} catch (error) {
+				const errorMsg =
+					error instanceof Error ? error.message : 'Unknown error'
+				logger.warn('Network fee estimate failed:', errorMsg)
+			}
+		}
+
+		void fetchNetworkFee()
+	}, [coverFees, paymentMethod, bitcoinNetworkFee, getBitcoinNetworkFee])
+
 	useEffect(() => {
 		if (!isPending) {
 			setProcessingTime(0)
@@ -114,10 +228,16 @@ function DonateForm() {
 			playerNameInputRef.current.focus()
 		} else if (validation.showMessageError && messageInputRef.current) {
 			messageInputRef.current.focus()
+		} else if (
+			validation.showReceiptEmailError &&
+			receiptEmailInputRef.current
+		) {
+			receiptEmailInputRef.current.focus()
 		}
 	}, [
 		validation.showPlayerNameError,
 		validation.showMessageError,
+		validation.showReceiptEmailError,
 		submitAttempted,
 	])
 
@@ -159,19 +279,36 @@ function DonateForm() {
 	// This prevents infinite address generation if the user walks away
 
 	const buildPaymentPayload = (): CreateCheckoutInput => ({
-		amount: selectedAmount,
+		amount: chargedAmount,
+		currency: paymentCurrency,
+		campaign_id: campaign.id,
 		metadata:
-			privacy || includeMessage
+			privacy || includeMessage || coveredFee > 0
 				? {
 						player_name: privacy ? playerName.trim() || null : null,
 						use_player_name: privacy,
 						message: includeMessage ? message.trim() : undefined,
+						fee_covered: coveredFee > 0 ? coveredFee : undefined,
 					}
 				: undefined,
 	})
 
 	const handleStripeCheckout = async () => {
-		const result = await createStripeCheckout(buildPaymentPayload())
+		// One-time donations are paid in the Payment Element when it's configured
+		// (createPaymentIntent returns null without a publishable key)
+		if (stripeCheckoutFlow === 'embedded' && !monthly) {
+			const payload = buildPaymentPayload()
+			const intent = await createStripePaymentIntent(payload)
+			if (intent) {
+				setStripePayment({ intent, payloadKey: JSON.stringify(payload) })
+				return
+			}
+		}
+
+		const result = await createStripeCheckout({
+			...buildPaymentPayload(),
+			recurring: monthly,
+		})
 
 		if (!result?.url) {
 			throw new Error('No checkout URL returned')
@@ -181,7 +318,13 @@ function DonateForm() {
 	}
 
 	const handlePayPalCheckout = async () => {
-		const result = await createPayPalOrder(buildPaymentPayload())
+		const payload = buildPaymentPayload()
+		const result = await createPayPalOrder(payload)
+
+		if (paypalCheckoutFlow === 'buttons') {
+			setPayPalOrder({ order: result, payloadKey: JSON.stringify(payload) })
+			return
+		}
 
 		if (!result?.approvalUrl) {
 			throw new Error('No PayPal approval URL returned')
@@ -196,7 +339,7 @@ function DonateForm() {
 		if (validation.hasValidationErrors) {
 			if (!validation.isValidAmount) {
 				setSubmitError(
-					`Please select or enter a donation amount of at least $${minDonationAmount}`
+					`Please select or enter a donation amount of at least ${formatCurrency(minDonationAmount, paymentCurrency, 0)}`
 				)
 			}
 			return
@@ -223,7 +366,11 @@ function DonateForm() {
 			}
 		}
 
-		setShowBitcoinModal(true)
+		if (isLightning) {
+			setShowLightningModal(true)
+		} else {
+			setShowBitcoinModal(true)
+		}
 	}
 
 	const handleBitcoinModalClose = (error?: string): void => {
@@ -233,6 +380,20 @@ function DonateForm() {
 		}
 	}
 
+	const handleLightningModalClose = (error?: string): void => {
+		setShowLightningModal(false)
+		if (error) {
+			setSubmitError(error)
+		}
+	}
+
+	const handlePayWithLightningChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	): void => {
+		setPayWithLightning(e.currentTarget.checked)
+		setSubmitError(null)
+	}
+
 	const handleBitcoinPaymentDataUpdate = (
 		data: BitcoinPaymentData | null
 	): void => {
@@ -251,7 +412,7 @@ function DonateForm() {
 		if (validation.hasValidationErrors) {
 			if (!validation.isValidAmount) {
 				setSubmitError(
-					`Please select or enter a donation amount of at least $${minDonationAmount}`
+					`Please select or enter a donation amount of at least ${formatCurrency(minDonationAmount, paymentCurrency, 0)}`
 				)
 			}
 			return
@@ -337,11 +498,70 @@ function DonateForm() {
 		setSubmitError(null)
 	}
 
+	const handleMonthlyChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	): void => {
+		setMonthly(e.currentTarget.checked)
+		setSubmitError(null)
+	}
+
+	const handleCoverFeesChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	): void => {
+		setCoverFees(e.currentTarget.checked)
+		setSubmitError(null)
+	}
+
 	const handlePaymentMethodChange = (method: PaymentMethod): void => {
 		setPaymentMethod(method)
 		setSubmitError(null)
 	}
 
+	const handleWantsReceiptChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	): void => {
+		setWantsReceipt(e.currentTarget.checked)
+		setReceiptEmailTouched(false)
+		setSubmitAttempted(false)
+		setSubmitError(null)
+	}
+
+	const handleReceiptEmailChange = (
+		e: React.ChangeEvent<HTMLInputElement>
+	): void => {
+		setReceiptEmail(e.currentTarget.value)
+		setReceiptEmailTouched(true)
+		setSubmitAttempted(false)
+		setSubmitError(null)
+	}
+
+	const handleCurrencyChange = (value: Currency): void => {
+		setCurrency(value)
+		setSubmitError(null)
+	}
+
+	// Monthly donations are only supported through Stripe subscriptions
+	const isMonthly = monthly && paymentMethod === 'stripe'
+
+	// Editing the donation after the payment intent was created hides the
+	// Payment Element again, so the next submit creates an intent for the new values
+	const activeStripePayment =
+		paymentMethod === 'stripe' &&
+		!isMonthly &&
+		stripePayment?.payloadKey === JSON.stringify(buildPaymentPayload())
+			? stripePayment.intent
+			: null
+
+	// An invoice is for a fixed number of sats, so a new amount needs a new invoice
+	const activeLightningInvoice =
+		lightningInvoice?.amount_usd === chargedAmount ? lightningInvoice : null
+
+	const activePayPalOrder =
+		paymentMethod === 'paypal' &&
+		paypalOrder?.payloadKey === JSON.stringify(buildPaymentPayload())
+			? paypalOrder.order
+			: null
+
 	return (
 		<form
 			className="space-y-6"
@@ -351,19 +571,31 @@ function DonateForm() {
 		>
 			<section className="space-y-4">
 				<h2 className="sr-only">Select Donation Amount</h2>
+				<DonateCurrencySelector
+					disabled={isPending || paymentMethod === 'bitcoin'}
+					onChange={handleCurrencyChange}
+					value={paymentCurrency}
+				/>
 				<DonateRecommendedInput
+					currency={paymentCurrency}
 					onChange={handleOptionChange}
 					value={currentDonateOption}
 				/>
 				<DonateCustomInput
 					aria-describedby={submitError ? submitErrorId : undefined}
 					aria-invalid={!validation.isValidAmount && customAmount !== ''}
+					currency={paymentCurrency}
 					onChange={handleAmountChange}
 					value={customAmount}
 				/>
 			</section>
 
-			<DonationSummary amount={selectedAmount} />
+			<DonationSummary
+				amount={selectedAmount}
+				currency={paymentCurrency}
+				feeCovered={coveredFee}
+				monthly={isMonthly}
+			/>
 
 			<section className="flex flex-col items-start space-y-2">
 				<h2 className="sr-only">Privacy and Message Options</h2>
@@ -417,25 +649,107 @@ function DonateForm() {
 					value={paymentMethod}
 				/>
 
-				<Button
-					aria-busy={isPending}
-					aria-describedby={submitError ? submitErrorId : undefined}
-					disabled={isPending}
-					type="submit"
-				>
-					{isPending ? (
-						<div className="flex flex-col">
-							Loading
-							<span aria-hidden className="text-secondary/50 text-sm">
-								Asset Warmup ({processingTime}/{assetWarmupTime})
-							</span>
-						</div>
-					) : paymentMethod === 'bitcoin' ? (
-						'Open Bitcoin Payment'
-					) : (
-						`Donate with ${paymentMethod === 'stripe' ? 'Stripe' : 'PayPal'}`
-					)}
-				</Button>
+				{!isLightning && (
+					<CheckboxInput
+						checked={coverFees}
+						disabled={isPending}
+						name="coverFees"
+						onChange={handleCoverFeesChange}
+					>
+						{paymentMethod === 'bitcoin'
+							? 'Cover the network fee'
+							: 'Cover the processing fees'}
+					</CheckboxInput>
+				)}
+
+				{paymentMethod === 'stripe' && (
+					<CheckboxInput
+						checked={monthly}
+						disabled={isPending}
+						name="monthly"
+						onChange={handleMonthlyChange}
+					>
+						Make this monthly
+					</CheckboxInput>
+				)}
+
+				{paymentMethod === 'bitcoin' && (
+					<div className="flex flex-col items-start space-y-2">
+						{isLightningEnabled && (
+							<CheckboxInput
+								checked={isLightning}
+								disabled={isPending}
+								name="payWithLightning"
+								onChange={handlePayWithLightningChange}
+							>
+								Pay with Lightning
+							</CheckboxInput>
+						)}
+						<CheckboxInput
+							checked={wantsReceipt}
+							disabled={isPending}
+							name="wantsReceipt"
+							onChange={handleWantsReceiptChange}
+						>
+							Email me a receipt
+						</CheckboxInput>
+						{wantsReceipt && (
+							<TextInput
+								aria-invalid={validation.showReceiptEmailError}
+								autoComplete="email"
+								description="Only used to send your receipt. Never shown publicly."
+								error={validation.showReceiptEmailError}
+								errorMessage="Please enter a valid email address."
+								label="Email"
+								maxLength={maxEmailLength}
+								onChange={handleReceiptEmailChange}
+								placeholder="you@example.com"
+								ref={receiptEmailInputRef}
+								required={wantsReceipt}
+								type="email"
+								value={receiptEmail}
+							/>
+						)}
+					</div>
+				)}
+
+				{activeStripePayment ? (
+					<DonateStripePaymentElement
+						amountLabel={formatCurrency(selectedAmount, paymentCurrency)}
+						onCancel={() => setStripePayment(null)}
+						payment={activeStripePayment}
+					/>
+				) : activePayPalOrder ? (
+					<DonatePayPalButtons
+						currency={paymentCurrency}
+						onCancel={() => setPayPalOrder(null)}
+						order={activePayPalOrder}
+					/>
+				) : (
+					<Button
+						aria-busy={isPending}
+						aria-describedby={submitError ? submitErrorId : undefined}
+						disabled={isPending}
+						type="submit"
+					>
+						{isPending ? (
+							<div className="flex flex-col">
+								Loading
+								<span aria-hidden className="text-secondary/50 text-sm">
+									Asset Warmup ({processingTime}/{assetWarmupTime})
+								</span>
+							</div>
+						) : isLightning ? (
+							'Open Lightning Payment'
+						) : paymentMethod === 'bitcoin' ? (
+							'Open Bitcoin Payment'
+						) : isMonthly ? (
+							'Donate Monthly with Stripe'
+						) : (
+							`Donate with ${paymentMethod === 'stripe' ? 'Stripe' : 'PayPal'}`
+						)}
+					</Button>
+				)}
 
 				{submitError && (
 					<div
@@ -450,8 +764,11 @@ function DonateForm() {
 			</section>
 
 			<DonateBitcoinModal
-				amount={selectedAmount}
+				amount={chargedAmount}
+				campaignId={campaign.id}
+				campaignSlug={campaign.slug}
 				confirmations={bitcoinConfirmations}
+				feeCovered={coveredFee > 0 ? coveredFee : null}
 				isOpen={showBitcoinModal}
 				message={includeMessage ? message : null}
 				onClose={handleBitcoinModalClose}
@@ -459,6 +776,22 @@ function DonateForm() {
 				onPaymentDataUpdate={handleBitcoinPaymentDataUpdate}
 				paymentData={bitcoinPaymentData}
 				playerName={privacy ? playerName : null}
+				receiptEmail={isBitcoinReceipt ? receiptEmail.trim() : null}
+				sessionId={bitcoinSession.sessionId}
+				usePlayerName={privacy}
+			/>
+
+			<DonateLightningModal
+				amount={chargedAmount}
+				campaignId={campaign.id}
+				campaignSlug={campaign.slug}
+				invoice={activeLightningInvoice}
+				isOpen={showLightningModal}
+				message={includeMessage ? message : null}
+				onClose={handleLightningModalClose}
+				onInvoiceUpdate={setLightningInvoice}
+				playerName={privacy ? playerName : null}
+				receiptEmail={isBitcoinReceipt ? receiptEmail.trim() : null}
 				sessionId={bitcoinSession.sessionId}
 				usePlayerName={privacy}
 			/>
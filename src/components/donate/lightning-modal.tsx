@@ -0,0 +1,322 @@
+// This is the Lightning version of the Bitcoin popup: it shows a BOLT11 invoice and QR code for small Bitcoin donations.
+// The server watches the invoice, so the popup just waits for the donation to appear and then goes to the success page.
+
+import {
+	Description,
+	Dialog,
+	DialogPanel,
+	DialogTitle,
+} from '@headlessui/react'
+import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import type { GenerateLightningInvoiceResult } from 'convex/bitcoin/types'
+import { useAction, useQuery } from 'convex/react'
+import { QRCodeSVG } from 'qrcode.react'
+import { useEffect, useId, useRef, useState, useTransition } from 'react'
+import { getCampaignPath } from '@/utils/campaign-path.ts'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+
+interface DonateLightningModalProps {
+	isOpen: boolean
+	onClose: (error?: string) => void
+	amount: number
+	campaignId: Id<'campaigns'>
+	campaignSlug: string
+	message: string | null
+	playerName: string | null
+	usePlayerName: boolean
+	receiptEmail: string | null // Opt-in receipt address
+	invoice: GenerateLightningInvoiceResult | null
+	onInvoiceUpdate: (invoice: GenerateLightningInvoiceResult | null) => void
+	sessionId: string | null // Shared with the on-chain Bitcoin session
+}
+
+type InvoiceStatus = 'loading' | 'active' | 'expired' | 'paid'
+
+function DonateLightningModal({
+	isOpen,
+	onClose,
+	amount,
+	campaignId,
+	campaignSlug,
+	message,
+	playerName,
+	usePlayerName,
+	receiptEmail,
+	invoice,
+	onInvoiceUpdate,
+	sessionId,
+}: DonateLightningModalProps) {
+	const [isCopied, setIsCopied] = useState(false)
+	const [now, setNow] = useState(Date.now())
+	const [isGenerating, startGeneration] = useTransition()
+	const copyButtonRef = useRef<HTMLButtonElement>(null)
+	const invoiceInputId = useId()
+
+	// Only redirect for payments that arrive while the popup is open,
+	// not when it's reopened after paying
+	const wasPaidOnOpen = useRef<boolean | null>(null)
+
+	const generateLightningInvoice = useAction(
+		api.bitcoin.lightning.generateLightningInvoice
+	)
+
+	const pendingInvoice = useQuery(
+		api.bitcoin.mutations.getPendingLightningInvoice,
+		invoice && sessionId
+			? { payment_hash: invoice.payment_hash, session_id: sessionId }
+			: 'skip'
+	)
+
+	// Created by the server's invoice monitor once the invoice settles
+	const confirmedDonation = useQuery(
+		api.donation.getDonationByPaymentId,
+		invoice ? { payment_id: invoice.payment_hash } : 'skip'
+	)
+
+	const status: InvoiceStatus =
+		!invoice || confirmedDonation === undefined
+			? 'loading'
+			: confirmedDonation
+				? 'paid'
+				: pendingInvoice?.status === 'expired' || invoice.expires_at <= now
+					? 'expired'
+					: 'active'
+
+	const timeRemaining = invoice
+		? Math.max(0, Math.floor((invoice.expires_at - now) / 1000))
+		: 0
+
+	// Countdown ticks every second while waiting for payment
+	useEffect(() => {
+		if (!isOpen || status !== 'active') return
+
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [isOpen, status])
+
+	// Auto-focus copy button when the invoice is shown for quick keyboard access
+	useEffect(() => {
+		if (isOpen && status === 'active' && copyButtonRef.current) {
+			copyButtonRef.current.focus()
+		}
+	}, [isOpen, status])
+
+	// Redirect to the success page when the invoice settles during this visit
+	useEffect(() => {
+		if (!isOpen || status === 'loading') return
+
+		if (wasPaidOnOpen.current === null) {
+			wasPaidOnOpen.current = status === 'paid'
+		}
+		if (status !== 'paid' || wasPaidOnOpen.current || !invoice) return
+
+		// Show the confirmation briefly, then redirect
+		const timeout = setTimeout(() => {
+			window.location.href = `${getCampaignPath(campaignSlug)}/success?payment_id=${encodeURIComponent(invoice.payment_hash)}`
+		}, 2000)
+		return () => clearTimeout(timeout)
+	}, [isOpen, status, invoice, campaignSlug])
+
+	// Create an invoice when the popup opens without one
+	useEffect(() => {
+		if (!isOpen || invoice || isGenerating) return
+
+		if (!sessionId) {
+			logger.error(
+				'[Lightning] Modal opened without session ID - this should not happen'
+			)
+			onClose(
+				'Unable to load Lightning payment. Please close this window and try again.'
+			)
+			return
+		}
+
+		startGeneration(async () => {
+			try {
+				const result = await generateLightningInvoice({
+					amount,
+					campaign_id: campaignId,
+					session_id: sessionId,
+					metadata:
+						usePlayerName || message
+							? {
+									player_name: playerName,
+									use_player_name: usePlayerName,
+									message: message || undefined,
+								}
+							: undefined,
+					receipt_email: receiptEmail || undefined,
+				})
+				setNow(Date.now())
+				onInvoiceUpdate(result)
+			} catch (error) {
+				const errorMsg =
+					error instanceof Error ? error.message : 'Unknown error'
+				logger.error('Failed to create Lightning invoice:', errorMsg)
+				onClose(
+					'Unable to create a Lightning invoice. Please close this window and try again, or pay with an on-chain Bitcoin address.'
+				)
+			}
+		})
+	}, [
+		isOpen,
+		invoice,
+		isGenerating,
+		amount,
+		campaignId,
+		usePlayerName,
+		playerName,
+		message,
+		receiptEmail,
+		sessionId,
+		generateLightningInvoice,
+		onInvoiceUpdate,
+		onClose,
+	])
+
+	const handleClose = () => {
+		setIsCopied(false)
+		wasPaidOnOpen.current = null
+		onClose()
+	}
+
+	const handleRegenerate = () => {
+		setIsCopied(false)
+		wasPaidOnOpen.current = null
+		onInvoiceUpdate(null) // Clearing the invoice triggers a new one
+	}
+
+	const formatTime = (seconds: number): string => {
+		const mins = Math.floor(seconds / 60)
+		const secs = seconds % 60
+		return `${mins}:${String(secs).padStart(2, '0')}`
+	}
+
+	return (
+		<Dialog
+			as="div"
+			className="relative z-10 focus:outline-none"
+			onClose={handleClose}
+			open={isOpen}
+		>
+			<div className="fixed inset-0 w-screen overflow-y-auto">
+				<div className="flex min-h-full items-center justify-center p-4">
+					<DialogPanel
+						className="data-closed:transform-[scale(95%)] w-full max-w-md rounded-xl bg-secondary/5 p-6 backdrop-blur-2xl duration-300 ease-out data-closed:opacity-0"
+						transition
+					>
+						<DialogTitle className="font-medium text-secondary">
+							Lightning Payment
+						</DialogTitle>
+						<Description className="text-secondary/60 text-sm">
+							{status === 'paid'
+								? `Your $${amount} donation is confirmed!`
+								: `Pay the invoice with a Lightning wallet to complete your $${amount} donation`}
+						</Description>
+
+						<div className="mt-6 space-y-4">
+							{(!invoice || isGenerating) && (
+								<div className="text-center text-secondary/75">
+									Creating Lightning invoice...
+								</div>
+							)}
+
+							{/* Terminal States: Expired or Paid - both allow starting a new donation */}
+							{(status === 'expired' || status === 'paid') && (
+								<>
+									<div className="text-center">
+										{status === 'paid' ? (
+											<>
+												<div className="font-bold text-xl">
+													Payment received!
+												</div>
+												<p className="mt-2 text-secondary/75 text-sm">
+													Thank you for your donation!
+												</p>
+											</>
+										) : (
+											<div className="text-secondary/75">Invoice expired</div>
+										)}
+									</div>
+									<Button className="w-full" onClick={handleRegenerate}>
+										{status === 'paid'
+											? 'Make Another Donation'
+											: 'Generate New Invoice'}
+									</Button>
+								</>
+							)}
+
+							{status === 'active' && invoice && (
+								<>
+									{/* Uppercase BOLT11 fits a denser QR code; wallets accept either case */}
+									<a
+										aria-label={`Lightning invoice QR code for ${invoice.amount_sats.toLocaleString()} sats - opens your wallet`}
+										className="focus-ring mx-auto block w-64 max-w-full"
+										href={`lightning:${invoice.payment_request}`}
+									>
+										<QRCodeSVG
+											className="h-auto w-full"
+											level="M"
+											size={256}
+											value={`lightning:${invoice.payment_request.toUpperCase()}`}
+										/>
+									</a>
+
+									{/* Invoice */}
+									<div className="flex items-center gap-4">
+										<input
+											aria-label="Lightning invoice"
+											className="focus-ring w-full border-2 border-primary bg-primary/50 px-3 py-1.5 font-medium text-sm text-white shadow-2xs"
+											id={invoiceInputId}
+											name="lightning-invoice"
+											readOnly
+											type="text"
+											value={invoice.payment_request}
+										/>
+										<Button
+											aria-label={isCopied ? 'Copied!' : 'Copy invoice'}
+											onCopySuccess={() => setIsCopied(true)}
+											ref={copyButtonRef}
+											size="md"
+											textToCopy={invoice.payment_request}
+											variant="copy"
+										/>
+									</div>
+
+									{isCopied && (
+										<output aria-live="polite" className="sr-only">
+											Invoice copied to clipboard
+										</output>
+									)}
+
+									{/* Amount Info */}
+									<div className="space-y-2 text-center">
+										<div className="font-bold text-xl">
+											{invoice.amount_sats.toLocaleString()} sats
+										</div>
+										<div className="text-secondary/60 text-sm">
+											≈ ${amount} USD @ $
+											{invoice.exchange_rate.toLocaleString()}
+										</div>
+									</div>
+
+									<div className="text-center text-secondary/75">
+										Time remaining: {formatTime(timeRemaining)}
+									</div>
+
+									<div className="text-center text-secondary/60 text-sm">
+										<p>Waiting for payment...</p>
+									</div>
+								</>
+							)}
+						</div>
+					</DialogPanel>
+				</div>
+			</div>
+		</Dialog>
+	)
+}
+
+export { DonateLightningModal }
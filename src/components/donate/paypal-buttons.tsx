@@ -0,0 +1,137 @@
+// This shows the PayPal Buttons inside the donate form, so PayPal donors approve in a popup instead of leaving the page.
+// Approval is captured by the captureOrder action; the ORDER.APPROVED webhook captures the same order as a backup.
+
+import { api } from 'convex/_generated/api'
+import { useAction } from 'convex/react'
+import type { Currency } from 'convex/types'
+import { useEffect, useId, useRef, useState } from 'react'
+import { loadPayPalJs } from '@/libs/paypal/paypal-js.ts'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+
+// What createOrder returns
+type PayPalOrder = {
+	readonly orderId: string
+	readonly clientId: string
+	readonly successUrl: string
+}
+
+interface DonatePayPalButtonsProps {
+	readonly order: PayPalOrder
+	readonly currency: Currency
+	readonly onCancel: () => void
+}
+
+function DonatePayPalButtons({
+	order,
+	currency,
+	onCancel,
+}: DonatePayPalButtonsProps) {
+	const containerRef = useRef<HTMLDivElement>(null)
+	const [isReady, setIsReady] = useState<boolean>(false)
+	const [isCapturing, setIsCapturing] = useState<boolean>(false)
+	const [error, setError] = useState<string | null>(null)
+	const errorId = useId()
+
+	const captureOrder = useAction(api.paypal.actions.captureOrder)
+
+	useEffect(() => {
+		let cancelled = false
+		let close: (() => Promise<void>) | undefined
+
+		const mount = async () => {
+			try {
+				const paypal = await loadPayPalJs(order.clientId, currency)
+				if (cancelled || !containerRef.current) return
+
+				const buttons = paypal.Buttons({
+					style: { layout: 'vertical', color: 'gold', label: 'donate' },
+					// The order was created when the form was submitted
+					createOrder: () => Promise.resolve(order.orderId),
+					onApprove: async ({ orderID }) => {
+						setIsCapturing(true)
+						setError(null)
+						try {
+							await captureOrder({ orderId: orderID })
+							window.location.href = `${order.successUrl}?payment_id=${encodeURIComponent(orderID)}`
+						} catch (err) {
+							const errorMsg =
+								err instanceof Error ? err.message : 'Unknown error'
+							logger.error('PayPal capture error:', errorMsg)
+							// The webhook retries the capture, so the donor may still be
+							// charged - don't invite a second payment
+							setError(
+								"We couldn't confirm your PayPal payment. If PayPal shows it as paid, your contribution will appear shortly - please don't pay again."
+							)
+							setIsCapturing(false)
+						}
+					},
+					onError: (err) => {
+						logger.error('PayPal Buttons error:', err)
+						setError('PayPal could not complete the payment. Please try again.')
+					},
+				})
+
+				if (!buttons.isEligible()) {
+					setError('PayPal is not available for this payment.')
+					return
+				}
+
+				await buttons.render(containerRef.current)
+				if (cancelled) {
+					void buttons.close()
+					return
+				}
+				close = () => buttons.close()
+				setIsReady(true)
+			} catch (err) {
+				const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+				logger.error('PayPal Buttons error:', errorMsg)
+				setError('Unable to load PayPal. Please try again.')
+			}
+		}
+
+		void mount()
+
+		return () => {
+			cancelled = true
+			void close?.()
+		}
+	}, [order.orderId, order.clientId, order.successUrl, currency, captureOrder])
+
+	return (
+		<div className="space-y-4">
+			<div aria-busy={!isReady || isCapturing} ref={containerRef} />
+			{!isReady && !error && (
+				<p aria-live="polite" className="text-sm">
+					Loading PayPal...
+				</p>
+			)}
+			{isCapturing && (
+				<p aria-live="polite" className="text-sm">
+					Confirming your payment...
+				</p>
+			)}
+			<Button
+				disabled={isCapturing}
+				onClick={onCancel}
+				type="button"
+				variant="secondary"
+			>
+				Change Donation
+			</Button>
+			{error && (
+				<div
+					aria-live="assertive"
+					className="rounded border-2 border-accent bg-accent/20 px-3 py-1.5 text-accent"
+					id={errorId}
+					role="alert"
+				>
+					{error}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export { DonatePayPalButtons, type PayPalOrder }
@@ -1,18 +1,27 @@
 // This shows preset donation amounts that users can quickly select.
 // Displays common amounts like $1, $5, $10, etc. You can change these in the donate-config.
 
+import type { Currency } from 'convex/types'
+import { getCurrencySymbol } from '@/utils/format-currency.ts'
 import { donationTiers } from '@/utils/generate-tiers.tsx'
 import { RadioGroup } from '../radio-group.tsx'
 
 interface DonateOptionsProps {
 	onChange: (amount: number) => void
 	value?: number
+	currency: Currency
 }
 
 // Calculate donation options at module level (only once, not per render)
 const donationOptions = donationTiers.map(({ min }) => min).slice(0, -2)
 
-function DonateRecommendedInput({ onChange, value }: DonateOptionsProps) {
+function DonateRecommendedInput({
+	onChange,
+	value,
+	currency,
+}: DonateOptionsProps) {
+	const symbol = getCurrencySymbol(currency)
+
 	return (
 		<RadioGroup
 			className="grid grid-cols-3 gap-4"
@@ -21,7 +30,7 @@ function DonateRecommendedInput({ onChange, value }: DonateOptionsProps) {
 			onChange={onChange}
 			options={donationOptions.map((amount) => ({
 				value: amount,
-				label: `$${amount}`,
+				label: `${symbol}${amount}`,
 			}))}
 			value={value}
 			variant="donation"
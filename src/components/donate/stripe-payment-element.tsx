@@ -0,0 +1,143 @@
+// This shows Stripe's Payment Element inside the donate form, so card donors never leave the page.
+// The donation itself is recorded by the payment_intent.succeeded webhook, like every other Stripe donation.
+
+import { useEffect, useId, useRef, useState } from 'react'
+import {
+	loadStripeJs,
+	type StripeElements,
+	type StripeJs,
+} from '@/libs/stripe/stripe-js.ts'
+import { logger } from '@/utils/logger.ts'
+import { Button } from '../button.tsx'
+
+// What createPaymentIntent returns
+type StripePaymentIntent = {
+	readonly clientSecret: string
+	readonly paymentIntentId: string
+	readonly publishableKey: string
+	readonly returnUrl: string
+}
+
+interface DonateStripePaymentElementProps {
+	readonly payment: StripePaymentIntent
+	readonly amountLabel: string
+	readonly onCancel: () => void
+}
+
+function DonateStripePaymentElement({
+	payment,
+	amountLabel,
+	onCancel,
+}: DonateStripePaymentElementProps) {
+	const containerRef = useRef<HTMLDivElement>(null)
+	const stripeRef = useRef<{ stripe: StripeJs; elements: StripeElements }>(null)
+	const [isReady, setIsReady] = useState<boolean>(false)
+	const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+	const [error, setError] = useState<string | null>(null)
+	const errorId = useId()
+
+	useEffect(() => {
+		let cancelled = false
+		let destroy: (() => void) | undefined
+
+		const mount = async () => {
+			try {
+				const stripe = await loadStripeJs(payment.publishableKey)
+				if (cancelled || !containerRef.current) return
+
+				const elements = stripe.elements({
+					clientSecret: payment.clientSecret,
+					appearance: { theme: 'night' },
+				})
+				const paymentElement = elements.create('payment', { layout: 'tabs' })
+				paymentElement.on('ready', () => setIsReady(true))
+				paymentElement.mount(containerRef.current)
+				stripeRef.current = { stripe, elements }
+				destroy = () => paymentElement.destroy()
+			} catch (err) {
+				const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+				logger.error('Stripe Payment Element error:', errorMsg)
+				setError('Unable to load the payment form. Please try again.')
+			}
+		}
+
+		void mount()
+
+		return () => {
+			cancelled = true
+			destroy?.()
+			stripeRef.current = null
+		}
+	}, [payment.clientSecret, payment.publishableKey])
+
+	const handlePay = async (): Promise<void> => {
+		const loaded = stripeRef.current
+		if (!loaded) return
+
+		setIsSubmitting(true)
+		setError(null)
+
+		// Stripe validates the fields before confirming
+		const { error: submitError } = await loaded.elements.submit()
+		if (submitError) {
+			setError(submitError.message ?? 'Please check your payment details.')
+			setIsSubmitting(false)
+			return
+		}
+
+		const result = await loaded.stripe.confirmPayment({
+			elements: loaded.elements,
+			// Methods that redirect come back with ?payment_intent=pi_... appended
+			confirmParams: { return_url: payment.returnUrl },
+			redirect: 'if_required',
+		})
+
+		if (result.error) {
+			setError(result.error.message ?? 'Your payment could not be completed.')
+			setIsSubmitting(false)
+			return
+		}
+
+		window.location.href = `${payment.returnUrl}?payment_id=${encodeURIComponent(result.paymentIntent.id)}`
+	}
+
+	return (
+		<div className="space-y-4">
+			<div aria-busy={!isReady} ref={containerRef} />
+			{!isReady && !error && (
+				<p aria-live="polite" className="text-sm">
+					Loading secure payment form...
+				</p>
+			)}
+			<Button
+				aria-busy={isSubmitting}
+				aria-describedby={error ? errorId : undefined}
+				disabled={!isReady || isSubmitting}
+				onClick={handlePay}
+				type="button"
+			>
+				{isSubmitting ? 'Processing...' : `Pay ${amountLabel}`}
+			</Button>
+			<Button
+				disabled={isSubmitting}
+				onClick={onCancel}
+				type="button"
+				variant="secondary"
+			>
+				Change Donation
+			</Button>
+			{error && (
+				<div
+					aria-live="assertive"
+					className="rounded border-2 border-accent bg-accent/20 px-3 py-1.5 text-accent"
+					id={errorId}
+					role="alert"
+				>
+					{error}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export { DonateStripePaymentElement, type StripePaymentIntent }
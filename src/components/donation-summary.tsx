@@ -1,14 +1,24 @@
 // This displays a summary of the donation with an icon and tier level on the Donate Page.
-// Shows the donation amount and which Rust game item tier it matches.
+// Shows the donation amount and which Rust game item tier it matches, plus any fees the donor chose to cover.
 
+import type { Currency } from 'convex/types'
+import { formatCurrency, getCurrencySymbol } from '@/utils/format-currency.ts'
 import { selectTierByAmountRange } from '@/utils/tier-selector.tsx'
 import { DonationIcon } from './donation-icon.tsx'
 
 interface DonationSummaryProps {
 	amount: number
+	currency: Currency
+	monthly?: boolean
+	feeCovered?: number // Added on top of amount, which is what the campaign receives
 }
 
-function DonationSummary({ amount }: DonationSummaryProps) {
+function DonationSummary({
+	amount,
+	currency,
+	monthly = false,
+	feeCovered = 0,
+}: DonationSummaryProps) {
 	const tierName = selectTierByAmountRange(amount)
 
 	return (
@@ -21,7 +31,21 @@ function DonationSummary({ amount }: DonationSummaryProps) {
 			<div>
 				<div className="flex flex-col">
 					<span>{tierName} Level Donation</span>
-					<span>${amount} USD</span>
+					<span>
+						{getCurrencySymbol(currency)}
+						{amount} {currency}
+						{monthly && ' / month'}
+					</span>
+					{feeCovered > 0 && (
+						<>
+							<span className="font-normal text-sm normal-case">
+								+ {formatCurrency(feeCovered, currency)} to cover fees
+							</span>
+							<span className="font-normal text-sm normal-case">
+								You pay {formatCurrency(amount + feeCovered, currency)}
+							</span>
+						</>
+					)}
 				</div>
 			</div>
 		</section>
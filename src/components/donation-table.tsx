@@ -1,17 +1,27 @@
 // This shows a scrolling list of recent donations with names and amounts.
 // Thanks to Convex, this updates in real-time as donations come in.
+// Amounts are shown in the campaign's currency, whatever the donor paid in.
 
 import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
 import { useQuery } from 'convex/react'
-import type { DonationListItem } from 'convex/types'
+import type { Currency, DonationListItem } from 'convex/types'
+import { formatCurrency } from '@/utils/format-currency.ts'
 import { DonationIcon } from './donation-icon.tsx'
 
 interface DonationTableProps {
+	readonly campaignId: Id<'campaigns'>
+	readonly currency: Currency
 	readonly initialDonations?: DonationListItem[]
 }
 
-function DonationTable({ initialDonations = [] }: DonationTableProps) {
+function DonationTable({
+	campaignId,
+	currency,
+	initialDonations = [],
+}: DonationTableProps) {
 	const result = useQuery(api.donation.getDonorList, {
+		campaign_id: campaignId,
 		paginationOpts: { numItems: 50, cursor: null },
 	})
 	const donations = result?.page ?? initialDonations
@@ -51,11 +61,7 @@ function DonationTable({ initialDonations = [] }: DonationTableProps) {
 									className="font-bold text-accent text-xl"
 									data-slot="table-cell"
 								>
-									$
-									{donation.amount.toLocaleString('en-US', {
-										minimumFractionDigits: 2,
-										maximumFractionDigits: 2,
-									})}
+									{formatCurrency(donation.amount, currency)}
 								</div>
 								<div className="text-xl" data-slot="table-cell">
 									{donation.display_name}
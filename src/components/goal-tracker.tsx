@@ -1,16 +1,20 @@
 // This shows how much money has been raised toward the goal.
 // Thanks to Convex, this easily updates in real-time as donations come in.
-// The use of minimumFractionDigits ensures we always show two decimal places for cents.
-// Bitcoin donations can sometimes result in fractional cents, so this is important.
+// Amounts are in the campaign's currency; formatCurrency always shows two decimal places,
+// since Bitcoin donations can sometimes result in fractional cents.
 
 import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
 import { useQuery } from 'convex/react'
-import type { DonationTotal } from 'convex/types'
+import type { Currency, DonationTotal } from 'convex/types'
+import { formatCurrency } from '@/utils/format-currency.ts'
 
-const goalAmount = 12000
 const plusIconSvgPath = 'M12 4.5v15m7.5-7.5h-15'
 
 interface GoalTrackerProps {
+	campaignId: Id<'campaigns'>
+	goalAmount: number
+	currency: Currency
 	initialTotal?: DonationTotal
 }
 
@@ -31,16 +35,25 @@ function PlusIcon() {
 	)
 }
 
-function GoalTracker({ initialTotal }: GoalTrackerProps) {
-	const liveTotal = useQuery(api.donation.getAmountTotal)
+function GoalTracker({
+	campaignId,
+	goalAmount,
+	currency,
+	initialTotal,
+}: GoalTrackerProps) {
+	const liveTotal = useQuery(api.donation.getAmountTotal, {
+		campaign_id: campaignId,
+	})
 	const total = liveTotal ?? initialTotal ?? 0
 	const percentComplete = Math.round((total / goalAmount) * 100)
+	const formattedTotal = formatCurrency(total, currency)
+	const formattedGoal = formatCurrency(goalAmount, currency, 0)
 
 	return (
 		<div className="relative flex min-h-14 w-full items-center overflow-hidden">
 			<PlusIcon />
 			<meter
-				aria-label={`Donation goal progress: $${total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} of $${goalAmount.toLocaleString('en-US')} raised, ${percentComplete}% complete`}
+				aria-label={`Donation goal progress: ${formattedTotal} of ${formattedGoal} raised, ${percentComplete}% complete`}
 				className="h-14 w-full"
 				max={goalAmount}
 				min={0}
@@ -52,12 +65,7 @@ function GoalTracker({ initialTotal }: GoalTrackerProps) {
 				aria-hidden="true"
 				className="-translate-y-1/2 absolute top-1/2 right-0 pr-2 font-bold text-shadow-2xs leading-tight"
 			>
-				$
-				{total.toLocaleString('en-US', {
-					minimumFractionDigits: 2,
-					maximumFractionDigits: 2,
-				})}{' '}
-				/ ${goalAmount.toLocaleString('en-US')} Raised
+				{formattedTotal} / {formattedGoal} Raised
 			</span>
 		</div>
 	)
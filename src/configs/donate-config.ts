@@ -1,6 +1,9 @@
 // This sets the donation amounts and which Rust game items they match.
 // Each donation level gets a different icon like a rock, pick, or AK-47.
 // Note that the tierLabels are used both for displaying the name of the their and for catching the icon url.
+// It also picks how Stripe, PayPal and small Bitcoin donations are paid, and the fees donors can choose to cover.
+
+import type { Currency, PaymentMethod } from 'convex/types'
 
 const suggestedDonationTiers = {
 	amounts: [1, 5, 10, 20, 50, 100, 200, 500, 1000, 1500, 5000, 10000],
@@ -21,4 +24,53 @@ const suggestedDonationTiers = {
 
 type SuggestedDonationTier = (typeof suggestedDonationTiers.amounts)[number]
 
-export { suggestedDonationTiers, type SuggestedDonationTier }
+// 'embedded': one-time Stripe donations are paid in the Payment Element on the
+// donate page (needs STRIPE_PUBLISHABLE_KEY in Convex, falls back to 'redirect' without it)
+// 'redirect': donors are sent to Stripe Checkout and back to /success
+// Monthly donations always use Stripe Checkout
+type StripeCheckoutFlow = 'embedded' | 'redirect'
+const stripeCheckoutFlow: StripeCheckoutFlow = 'embedded'
+
+// 'buttons': donors approve in the PayPal Buttons popup without leaving the donate page
+// 'redirect': donors are sent to PayPal to approve and back to /success
+type PayPalCheckoutFlow = 'buttons' | 'redirect'
+const paypalCheckoutFlow: PayPalCheckoutFlow = 'buttons'
+
+// Bitcoin donations below this amount are paid over Lightning by default (when
+// LIGHTNING_BACKEND is set in Convex) - on-chain fees eat too much of the rock-bow tiers
+// Donors can still switch to an on-chain address
+const lightningDefaultBelow = 20
+
+// Used when a donor ticks "cover the processing fees": the amount is grossed up so
+// the campaign still receives what they picked after the processor's cut
+// Match these to your own Stripe and PayPal pricing (percent of the charge plus
+// a fixed fee per currency). Bitcoin uses the live network fee estimate instead
+type ProcessingFeeSchedule = {
+	readonly percent: number
+	readonly fixed: Readonly<Record<Currency, number>>
+}
+const processingFees = {
+	stripe: {
+		percent: 0.029,
+		fixed: { USD: 0.3, EUR: 0.25, GBP: 0.2, CAD: 0.3, AUD: 0.3 },
+	},
+	paypal: {
+		percent: 0.0349,
+		fixed: { USD: 0.49, EUR: 0.39, GBP: 0.29, CAD: 0.59, AUD: 0.59 },
+	},
+} as const satisfies Record<
+	Exclude<PaymentMethod, 'bitcoin'>,
+	ProcessingFeeSchedule
+>
+
+export {
+	lightningDefaultBelow,
+	type PayPalCheckoutFlow,
+	paypalCheckoutFlow,
+	type ProcessingFeeSchedule,
+	processingFees,
+	type StripeCheckoutFlow,
+	stripeCheckoutFlow,
+	suggestedDonationTiers,
+	type SuggestedDonationTier,
+}
@@ -15,6 +15,24 @@ export function isConvexEnvironment(): boolean {
 	return typeof process !== 'undefined' && !!process.env.CONVEX_CLOUD_URL
 }
 
+const portPattern = /^\d+$/
+const hexPattern = /^[0-9a-f]+$/i
+const electrumServerPattern = /^(tcp|ssl):\/\/.+:\d+$/
+
+// Must match blockchainProviderNames in src/libs/bitcoin/blockchain-provider.ts
+const bitcoinProviderNames = ['esplora', 'electrum', 'mempool', 'blockstream']
+
+// Blockstream only runs testnet3, which our testnet4 addresses aren't on
+const mainnetOnlyBitcoinProviders = ['blockstream']
+
+function isBitcoinProviderList(value: string): boolean {
+	const names = value.split(',').map((name) => name.trim())
+	return (
+		names.every((name) => bitcoinProviderNames.includes(name)) &&
+		new Set(names).size === names.length
+	)
+}
+
 export const sharedEnvSchema = z.object({
 	NODE_ENV: z.optional(
 		z.enum(['development', 'production', 'test'], 'development')
@@ -44,6 +62,15 @@ export const serverEnvSchema = z.object({
 			message: 'Must be a valid Stripe key starting with whsec_',
 		})
 	),
+	// Sent to the browser for the embedded Payment Element - only needed when
+	// stripeCheckoutFlow is 'embedded' in donate-config.ts
+	STRIPE_PUBLISHABLE_KEY: z.optional(
+		z.string().check(
+			z.refine((val) => val.startsWith('pk_'), {
+				message: 'Must be a valid Stripe key starting with pk_',
+			})
+		)
+	),
 
 	PAYPAL_CLIENT_ID: z.string().check(
 		z.refine((val) => val.length > 0, {
@@ -76,7 +103,94 @@ export const serverEnvSchema = z.object({
 		)
 	),
 	BITCOIN_NETWORK: z.enum(['mainnet', 'testnet']),
+
+	// Where payment monitoring reads the blockchain - comma-separated, tried in order
+	// Defaults to esplora/electrum when configured, then mempool, then blockstream
+	BITCOIN_PROVIDERS: z.optional(
+		z.string().check(
+			z.refine((val) => isBitcoinProviderList(val), {
+				message:
+					'Must be a comma-separated list of esplora, electrum, mempool and blockstream',
+			})
+		)
+	),
+	BITCOIN_ESPLORA_URL: z.optional(z.string().check(z.url())), // Self-hosted Esplora API
+	BITCOIN_ELECTRUM_SERVER: z.optional(
+		z.string().check(
+			z.refine((val) => electrumServerPattern.test(val), {
+				message:
+					'Electrum server must look like ssl://host:50002 or tcp://host:50001',
+			})
+		)
+	),
+	// A provider that fails this many times in a row is skipped for the cooldown
+	BITCOIN_PROVIDER_FAILURE_THRESHOLD: z.optional(
+		z.string().check(
+			z.refine((val) => portPattern.test(val) && Number(val) > 0, {
+				message: 'Failure threshold must be a positive number',
+			})
+		)
+	),
+	BITCOIN_PROVIDER_COOLDOWN_SECONDS: z.optional(
+		z.string().check(
+			z.refine((val) => portPattern.test(val), {
+				message: 'Cooldown must be a number of seconds',
+			})
+		)
+	),
+	// Quorum mode: a confirmed payment is only credited once this many providers
+	// agree on its txid, amount and block height - unset credits the first answer
+	BITCOIN_PROVIDER_QUORUM: z.optional(
+		z.string().check(
+			z.refine((val) => portPattern.test(val) && Number(val) >= 2, {
+				message: 'Quorum must be 2 or more providers',
+			})
+		)
+	),
+	// What to do with a payment still short of the expected amount when its
+	// window closes: reject it (default), credit what arrived, or hold it for review
+	BITCOIN_UNDERPAYMENT_POLICY: z.optional(
+		z.enum(['reject', 'credit', 'review'])
+	),
+
+	// Lightning invoices - Lightning is hidden on the donate form when unset
+	// 'mock' settles every invoice by itself (development only)
+	LIGHTNING_BACKEND: z.optional(z.enum(['lnd', 'mock'])),
+	LND_REST_URL: z.optional(z.string().check(z.url())),
+	LND_MACAROON: z.optional(
+		z.string().check(
+			z.refine((val) => hexPattern.test(val), {
+				message: 'LND macaroon must be hex-encoded',
+			})
+		)
+	),
+
 	SITE_URL: z.string().check(z.url()),
+
+	// Shared secret for the /admin dashboard - admin is disabled when unset
+	ADMIN_TOKEN: z.optional(
+		z.string().check(
+			z.refine((val) => val.length >= 32, {
+				message: 'Admin token must be at least 32 characters',
+			})
+		)
+	),
+
+	// Donation receipts - no receipts are sent when EMAIL_TRANSPORT is unset
+	// 'file' writes .eml files to EMAIL_FILE_DIR, 'console' logs them (development)
+	EMAIL_TRANSPORT: z.optional(z.enum(['smtp', 'file', 'console'])),
+	EMAIL_FROM: z.optional(z.string().check(z.email())),
+	EMAIL_FILE_DIR: z.optional(z.string()),
+	SMTP_HOST: z.optional(z.string()),
+	SMTP_PORT: z.optional(
+		z.string().check(
+			z.refine((val) => portPattern.test(val), {
+				message: 'SMTP port must be a number',
+			})
+		)
+	),
+	SMTP_USER: z.optional(z.string()),
+	SMTP_PASSWORD: z.optional(z.string()),
 })
 
 // Frontend SSR schema: Client vars + optional server vars
@@ -88,13 +202,34 @@ export const frontendSSREnvSchema = z.object({
 	CONVEX_ENV: z.optional(z.enum(['development', 'production'])),
 	STRIPE_SECRET_KEY: z.optional(z.string()),
 	STRIPE_WEBHOOK_SECRET: z.optional(z.string()),
+	STRIPE_PUBLISHABLE_KEY: z.optional(z.string()),
 	PAYPAL_CLIENT_ID: z.optional(z.string()),
 	PAYPAL_CLIENT_SECRET: z.optional(z.string()),
 	PAYPAL_WEBHOOK_ID: z.optional(z.string()),
 	BITCOIN_MASTER_VPRV: z.optional(z.string()),
 	BITCOIN_MASTER_ZPRV: z.optional(z.string()),
 	BITCOIN_NETWORK: z.optional(z.enum(['mainnet', 'testnet'])),
+	BITCOIN_PROVIDERS: z.optional(z.string()),
+	BITCOIN_ESPLORA_URL: z.optional(z.string()),
+	BITCOIN_ELECTRUM_SERVER: z.optional(z.string()),
+	BITCOIN_PROVIDER_FAILURE_THRESHOLD: z.optional(z.string()),
+	BITCOIN_PROVIDER_COOLDOWN_SECONDS: z.optional(z.string()),
+	BITCOIN_PROVIDER_QUORUM: z.optional(z.string()),
+	BITCOIN_UNDERPAYMENT_POLICY: z.optional(
+		z.enum(['reject', 'credit', 'review'])
+	),
+	LIGHTNING_BACKEND: z.optional(z.enum(['lnd', 'mock'])),
+	LND_REST_URL: z.optional(z.string()),
+	LND_MACAROON: z.optional(z.string()),
 	SITE_URL: z.optional(z.string()),
+	ADMIN_TOKEN: z.optional(z.string()),
+	EMAIL_TRANSPORT: z.optional(z.enum(['smtp', 'file', 'console'])),
+	EMAIL_FROM: z.optional(z.string()),
+	EMAIL_FILE_DIR: z.optional(z.string()),
+	SMTP_HOST: z.optional(z.string()),
+	SMTP_PORT: z.optional(z.string()),
+	SMTP_USER: z.optional(z.string()),
+	SMTP_PASSWORD: z.optional(z.string()),
 })
 
 // Combined schema for server-side (client + server vars)
@@ -170,6 +305,10 @@ export function getRuntimeEnv(): Partial<Env> {
 				? process.env.STRIPE_WEBHOOK_SECRET_TEST ||
 					process.env.STRIPE_WEBHOOK_SECRET
 				: process.env.STRIPE_WEBHOOK_SECRET,
+			STRIPE_PUBLISHABLE_KEY: isDevelopment
+				? process.env.STRIPE_PUBLISHABLE_KEY_TEST ||
+					process.env.STRIPE_PUBLISHABLE_KEY
+				: process.env.STRIPE_PUBLISHABLE_KEY,
 			PAYPAL_CLIENT_ID: process.env.PAYPAL_CLIENT_ID,
 			PAYPAL_CLIENT_SECRET: process.env.PAYPAL_CLIENT_SECRET,
 			PAYPAL_WEBHOOK_ID: process.env.PAYPAL_WEBHOOK_ID,
@@ -182,6 +321,25 @@ export function getRuntimeEnv(): Partial<Env> {
 				| 'mainnet'
 				| 'testnet'
 				| undefined,
+			BITCOIN_PROVIDERS: process.env.BITCOIN_PROVIDERS,
+			BITCOIN_ESPLORA_URL: process.env.BITCOIN_ESPLORA_URL,
+			BITCOIN_ELECTRUM_SERVER: process.env.BITCOIN_ELECTRUM_SERVER,
+			BITCOIN_PROVIDER_FAILURE_THRESHOLD:
+				process.env.BITCOIN_PROVIDER_FAILURE_THRESHOLD,
+			BITCOIN_PROVIDER_COOLDOWN_SECONDS:
+				process.env.BITCOIN_PROVIDER_COOLDOWN_SECONDS,
+			BITCOIN_PROVIDER_QUORUM: process.env.BITCOIN_PROVIDER_QUORUM,
+			BITCOIN_UNDERPAYMENT_POLICY: process.env.BITCOIN_UNDERPAYMENT_POLICY as
+				| 'reject'
+				| 'credit'
+				| 'review'
+				| undefined,
+			LIGHTNING_BACKEND: process.env.LIGHTNING_BACKEND as
+				| 'lnd'
+				| 'mock'
+				| undefined,
+			LND_REST_URL: process.env.LND_REST_URL,
+			LND_MACAROON: process.env.LND_MACAROON,
 			NODE_ENV: process.env.NODE_ENV as
 				| 'development'
 				| 'production'
@@ -190,6 +348,18 @@ export function getRuntimeEnv(): Partial<Env> {
 			SITE_URL:
 				process.env.SITE_URL ||
 				(isDevelopment ? 'http://localhost:3000' : undefined),
+			ADMIN_TOKEN: process.env.ADMIN_TOKEN,
+			EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT as
+				| 'smtp'
+				| 'file'
+				| 'console'
+				| undefined,
+			EMAIL_FROM: process.env.EMAIL_FROM,
+			EMAIL_FILE_DIR: process.env.EMAIL_FILE_DIR,
+			SMTP_HOST: process.env.SMTP_HOST,
+			SMTP_PORT: process.env.SMTP_PORT,
+			SMTP_USER: process.env.SMTP_USER,
+			SMTP_PASSWORD: process.env.SMTP_PASSWORD,
 		}
 	}
 
@@ -216,6 +386,7 @@ export function getRuntimeEnv(): Partial<Env> {
 		// Payment processor vars are optional in frontend SSR
 		STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
 		STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
+		STRIPE_PUBLISHABLE_KEY: process.env.STRIPE_PUBLISHABLE_KEY,
 		PAYPAL_CLIENT_ID: process.env.PAYPAL_CLIENT_ID,
 		PAYPAL_CLIENT_SECRET: process.env.PAYPAL_CLIENT_SECRET,
 		PAYPAL_WEBHOOK_ID: process.env.PAYPAL_WEBHOOK_ID,
@@ -228,6 +399,26 @@ export function getRuntimeEnv(): Partial<Env> {
 	}
 }
 
+/**
+ * Resolves the blockchain providers payment monitoring can use, in priority order.
+ * BITCOIN_PROVIDERS when set, otherwise esplora/electrum when configured followed
+ * by the public explorers - minus unconfigured ones and ones without the network.
+ */
+export function getAvailableBitcoinProviders(env: Partial<Env>): string[] {
+	const order = env.BITCOIN_PROVIDERS
+		? env.BITCOIN_PROVIDERS.split(',').map((name) => name.trim())
+		: ['esplora', 'electrum', 'mempool', 'blockstream']
+
+	return order.filter((name) => {
+		if (name === 'esplora') return Boolean(env.BITCOIN_ESPLORA_URL)
+		if (name === 'electrum') return Boolean(env.BITCOIN_ELECTRUM_SERVER)
+		return (
+			env.BITCOIN_NETWORK === 'mainnet' ||
+			!mainnetOnlyBitcoinProviders.includes(name)
+		)
+	})
+}
+
 /**
  * Validates Bitcoin configuration cross-field requirements.
  * Called after schema validation to ensure network/key consistency.
@@ -252,4 +443,89 @@ export function validateBitcoinConfig(env: Partial<Env>): void {
 				'  - BITCOIN_MASTER_ZPRV: Required when BITCOIN_NETWORK is mainnet'
 		)
 	}
+
+	const providers = env.BITCOIN_PROVIDERS?.split(',').map((name) => name.trim())
+
+	if (providers?.includes('esplora') && !env.BITCOIN_ESPLORA_URL) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - BITCOIN_ESPLORA_URL: Required when BITCOIN_PROVIDERS includes esplora'
+		)
+	}
+
+	if (providers?.includes('electrum') && !env.BITCOIN_ELECTRUM_SERVER) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - BITCOIN_ELECTRUM_SERVER: Required when BITCOIN_PROVIDERS includes electrum'
+		)
+	}
+
+	// Counts the providers that can actually answer on this network, so a quorum
+	// that can never be met fails at startup
+	const availableProviders = getAvailableBitcoinProviders(env).length
+	if (
+		env.BITCOIN_PROVIDER_QUORUM &&
+		availableProviders < Number(env.BITCOIN_PROVIDER_QUORUM)
+	) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				`  - BITCOIN_PROVIDER_QUORUM: More than the ${availableProviders} blockchain providers available on ${env.BITCOIN_NETWORK}`
+		)
+	}
+}
+
+/**
+ * Validates Lightning configuration cross-field requirements.
+ * Called after schema validation so LND without credentials, or the mock
+ * backend in production, fails at startup.
+ *
+ * @throws {Error} If a backend is selected without the settings it needs
+ */
+export function validateLightningConfig(env: Partial<Env>): void {
+	if (!env.LIGHTNING_BACKEND) {
+		return // Lightning disabled, skip validation
+	}
+
+	if (env.LIGHTNING_BACKEND === 'mock' && env.CONVEX_ENV === 'production') {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - LIGHTNING_BACKEND: mock settles invoices without payment and cannot be used in production'
+		)
+	}
+
+	if (
+		env.LIGHTNING_BACKEND === 'lnd' &&
+		!(env.LND_REST_URL && env.LND_MACAROON)
+	) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - LND_REST_URL, LND_MACAROON: Required when LIGHTNING_BACKEND is lnd'
+		)
+	}
+}
+
+/**
+ * Validates email receipt configuration cross-field requirements.
+ * Called after schema validation so a half-configured transport fails at startup.
+ *
+ * @throws {Error} If a transport is selected without the settings it needs
+ */
+export function validateEmailConfig(env: Partial<Env>): void {
+	if (!env.EMAIL_TRANSPORT) {
+		return // Receipts disabled, skip validation
+	}
+
+	if (!env.EMAIL_FROM) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - EMAIL_FROM: Required when EMAIL_TRANSPORT is set'
+		)
+	}
+
+	if (env.EMAIL_TRANSPORT === 'smtp' && !env.SMTP_HOST) {
+		throw new Error(
+			'Environment validation failed:\n' +
+				'  - SMTP_HOST: Required when EMAIL_TRANSPORT is smtp'
+		)
+	}
 }
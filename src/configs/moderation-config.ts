@@ -0,0 +1,32 @@
+// This sets the rules that automatically flag donor messages for a closer look.
+// Flagged messages still wait in the admin queue like every other message; flags just explain why.
+
+const messageModeration = {
+	// Whole-word, case-insensitive matches - add words for your community here
+	blockedWords: [
+		'ass',
+		'asshole',
+		'bastard',
+		'bitch',
+		'cunt',
+		'dick',
+		'fag',
+		'faggot',
+		'fuck',
+		'fucker',
+		'fucking',
+		'nigger',
+		'retard',
+		'shit',
+		'slut',
+		'whore',
+	],
+	// Same character repeated this many times in a row (e.g. "!!!!!!!!!!")
+	maxRepeatedCharacters: 8,
+	// Share of letters that are uppercase before a message counts as shouting
+	maxUppercaseRatio: 0.7,
+	// Uppercase ratio is only checked on messages with at least this many letters
+	minLettersForUppercaseCheck: 20,
+} as const
+
+export { messageModeration }
@@ -23,6 +23,17 @@ const siteConfig = {
 	organizationName: 'Rise Above The Disorder',
 	organizationLogo: '/logo.png',
 	contactEmail: 'hey@youarerad.org',
+	// Printed on year-end giving statements - leave empty to omit
+	organizationAddress: '', // e.g. '123 Main St\nMinneapolis, MN 55401'
+	organizationTaxId: '', // e.g. 'EIN 12-3456789'
+
+	// Campaign served at /, /donate and /success (every campaign also lives at /c/$slug)
+	defaultCampaignSlug: 'smiley',
+	// Used by campaigns:seedDefaultCampaign to create the default campaign when it doesn't exist yet
+	defaultCampaignTitle:
+		'Help Smiley Get Well By Reaching The Next Donation Goal!',
+	defaultCampaignGoal: 12000,
+	defaultCampaignHeroImage: '/smiley.webp',
 
 	// Language & Locale
 	locale: 'en_US',
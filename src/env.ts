@@ -15,6 +15,8 @@ import {
 	isValidationError,
 	serverEnvSchema,
 	validateBitcoinConfig,
+	validateEmailConfig,
+	validateLightningConfig,
 } from '@/configs/env-config.ts'
 
 let envCache: Partial<Env> | null = null
@@ -46,6 +48,8 @@ function getValidatedEnv(): Partial<Env> {
 		// Step 2: Validate cross-field requirements (server-side only)
 		if (isServer) {
 			validateBitcoinConfig(result)
+			validateEmailConfig(result)
+			validateLightningConfig(result)
 		}
 
 		envCache = result
@@ -1,8 +1,8 @@
 /**
  * Bitcoin Blockchain API Utilities
  *
- * Utilities for interacting with blockchain explorers.
- * Provides transaction status checking and address validation.
+ * Shared helpers for the blockchain providers (see blockchain-provider.ts)
+ * and the other HTTP APIs the Bitcoin code calls.
  */
 
 // Standard timeout for blockchain API requests (ms)
@@ -30,21 +30,6 @@ export async function fetchWithTimeout(
 	}
 }
 
-// Get current Bitcoin blockchain tip height from API
-// Used to calculate transaction confirmations
-export async function getCurrentBlockHeight(baseUrl: string): Promise<number> {
-	try {
-		const response = await fetchWithTimeout(
-			`${baseUrl}/blocks/tip/height`,
-			blockchainApiTimeoutMs
-		)
-		if (!response.ok) return 0
-		return Number.parseInt(await response.text(), 10)
-	} catch {
-		return 0
-	}
-}
-
 // Calculate confirmations for a transaction
 export function calculateConfirmations(
 	currentHeight: number,
@@ -0,0 +1,90 @@
+/**
+ * Bitcoin Blockchain Providers
+ *
+ * Where payment monitoring reads the blockchain from, in BITCOIN_PROVIDERS order.
+ * Every provider answers the same questions, so monitoring never knows whether
+ * it's talking to mempool.space, a self-hosted Esplora or an Electrum server.
+ */
+
+import { getAvailableBitcoinProviders } from '@/configs/env-config.ts'
+import { env } from '@/env.ts'
+import { createElectrumProvider } from './electrum-provider.ts'
+import { createEsploraProvider } from './esplora-provider.ts'
+
+export const blockchainProviderNames = [
+	'esplora',
+	'electrum',
+	'mempool',
+	'blockstream',
+] as const
+
+export type BlockchainProviderName = (typeof blockchainProviderNames)[number]
+
+// One output paying an address (a UTXO until it's spent)
+export type AddressOutput = {
+	readonly vout: number
+	readonly amount_sats: number
+}
+
+// One transaction paying an address
+export type AddressTransaction = {
+	readonly txid: string
+	readonly outputs: readonly AddressOutput[]
+	readonly amount_sats: number // Sum of the outputs paying the address
+	readonly block_height: number | undefined // Undefined while in the mempool
+}
+
+// Methods throw when the provider can't be reached or answers with an error,
+// which counts against the provider's health (see convex/bitcoin/providers.ts)
+export interface BlockchainProvider {
+	readonly name: BlockchainProviderName
+	// Newest first, mempool transactions before confirmed ones
+	getAddressTransactions(address: string): Promise<AddressTransaction[]>
+	getTipHeight(): Promise<number>
+	// Null when the provider can't tell (the next provider is asked instead)
+	getTransactionFee(txid: string): Promise<number | null>
+}
+
+const publicEsploraUrls = {
+	mempool: {
+		mainnet: 'https://mempool.space/api',
+		testnet: 'https://mempool.space/testnet4/api',
+	},
+	// Blockstream only runs testnet3, which our testnet4 addresses aren't on
+	// (mainnet-only in getAvailableBitcoinProviders too)
+	blockstream: { mainnet: 'https://blockstream.info/api', testnet: null },
+} as const
+
+function createProvider(
+	name: BlockchainProviderName,
+	network: 'mainnet' | 'testnet'
+): BlockchainProvider | null {
+	switch (name) {
+		case 'esplora':
+			return env.BITCOIN_ESPLORA_URL
+				? createEsploraProvider(name, env.BITCOIN_ESPLORA_URL)
+				: null
+		case 'electrum':
+			return env.BITCOIN_ELECTRUM_SERVER
+				? createElectrumProvider(env.BITCOIN_ELECTRUM_SERVER, network)
+				: null
+		case 'mempool':
+		case 'blockstream': {
+			const url = publicEsploraUrls[name][network]
+			return url ? createEsploraProvider(name, url) : null
+		}
+		default:
+			return null
+	}
+}
+
+// Providers in priority order - BITCOIN_PROVIDERS, or self-hosted ones then the
+// public explorers (see getAvailableBitcoinProviders, which startup validates
+// BITCOIN_PROVIDER_QUORUM against)
+export function getBlockchainProviders(): BlockchainProvider[] {
+	const order = getAvailableBitcoinProviders(env) as BlockchainProviderName[]
+
+	return order
+		.map((name) => createProvider(name, env.BITCOIN_NETWORK))
+		.filter((provider) => provider !== null)
+}
@@ -0,0 +1,258 @@
+/**
+ * Electrum Blockchain Provider
+ *
+ * Reads the blockchain from an Electrum server (ElectrumX, Fulcrum, electrs) over
+ * its JSON-RPC protocol: newline-delimited JSON on a TCP or TLS socket.
+ * Addresses are looked up by script hash, and amounts come from the raw transactions.
+ */
+
+import { connect as connectTcp, type Socket } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { hex } from '@scure/base'
+import {
+	Address,
+	NETWORK,
+	OutScript,
+	TEST_NETWORK,
+	Transaction,
+} from '@scure/btc-signer'
+import type {
+	AddressOutput,
+	AddressTransaction,
+	BlockchainProvider,
+} from './blockchain-provider.ts'
+
+const electrumTimeoutMs = 15_000
+const electrumProtocolVersion = '1.4'
+const electrumServerPattern = /^(tcp|ssl):\/\/(.+):(\d+)$/
+
+type ElectrumServer = {
+	readonly host: string
+	readonly port: number
+	readonly tls: boolean
+}
+
+type ElectrumResponse = {
+	readonly id?: number
+	readonly result?: unknown
+	readonly error?: { readonly message?: string } | string | null
+}
+
+type ElectrumHistoryItem = {
+	readonly tx_hash: string
+	readonly height: number // 0 or -1 while in the mempool
+}
+
+type ElectrumSession = {
+	call<T>(method: string, params: readonly unknown[]): Promise<T>
+}
+
+// BITCOIN_ELECTRUM_SERVER is tcp://host:port or ssl://host:port (validated in env-config.ts)
+export function parseElectrumServer(server: string): ElectrumServer {
+	const [, scheme, host, port] = electrumServerPattern.exec(server) ?? []
+	if (!(scheme && host && port)) {
+		throw new Error(`Invalid Electrum server: ${server}`)
+	}
+	return { host, port: Number(port), tls: scheme === 'ssl' }
+}
+
+// Opens one connection for the duration of run(), closed afterwards
+// The whole session shares one timeout, so a stalled server can't hang monitoring
+async function withElectrumSession<T>(
+	{ host, port, tls }: ElectrumServer,
+	run: (session: ElectrumSession) => Promise<T>
+): Promise<T> {
+	const socket: Socket = tls
+		? connectTls({ host, port, servername: host })
+		: connectTcp({ host, port })
+	const pending = new Map<
+		number,
+		{ resolve: (result: unknown) => void; reject: (error: Error) => void }
+	>()
+	let nextId = 0
+	let buffer = ''
+	let failure: Error | null = null
+
+	const fail = (error: Error): void => {
+		failure ??= error
+		for (const waiter of pending.values()) {
+			waiter.reject(error)
+		}
+		pending.clear()
+		socket.destroy()
+	}
+
+	const timeout = setTimeout(
+		() =>
+			fail(
+				new Error(`Electrum request timed out after ${electrumTimeoutMs}ms`)
+			),
+		electrumTimeoutMs
+	)
+
+	socket.on('error', fail)
+	socket.on('close', () => fail(new Error('Electrum connection closed')))
+	socket.on('data', (chunk: Buffer) => {
+		buffer += chunk.toString('utf8')
+		let newline = buffer.indexOf('\n')
+		while (newline !== -1) {
+			const line = buffer.slice(0, newline).trim()
+			buffer = buffer.slice(newline + 1)
+			newline = buffer.indexOf('\n')
+			if (!line) continue
+
+			let response: ElectrumResponse
+			try {
+				response = JSON.parse(line) as ElectrumResponse
+			} catch {
+				// A malformed reply means the stream can't be trusted any more -
+				// fail the session so the provider is marked unhealthy
+				fail(new Error('Electrum server sent malformed JSON'))
+				return
+			}
+			const waiter =
+				response.id === undefined ? undefined : pending.get(response.id)
+			if (!waiter || response.id === undefined) continue // Notification
+
+			pending.delete(response.id)
+			if (response.error) {
+				const message =
+					typeof response.error === 'string'
+						? response.error
+						: (response.error.message ?? 'Unknown error')
+				waiter.reject(new Error(`Electrum error: ${message}`))
+			} else {
+				waiter.resolve(response.result)
+			}
+		}
+	})
+
+	const session: ElectrumSession = {
+		call<R>(method: string, params: readonly unknown[]): Promise<R> {
+			if (failure) {
+				return Promise.reject(failure)
+			}
+			const id = nextId++
+			return new Promise<R>((resolve, reject) => {
+				pending.set(id, {
+					resolve: (result) => resolve(result as R),
+					reject,
+				})
+				socket.write(
+					`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`
+				)
+			})
+		},
+	}
+
+	try {
+		// Servers expect the version handshake before anything else
+		await session.call('server.version', [
+			'rad-crowdfunding',
+			electrumProtocolVersion,
+		])
+		return await run(session)
+	} finally {
+		clearTimeout(timeout)
+		socket.removeAllListeners('close')
+		socket.destroy()
+	}
+}
+
+export function createElectrumProvider(
+	server: string,
+	network: 'mainnet' | 'testnet'
+): BlockchainProvider {
+	const electrumServer = parseElectrumServer(server)
+	const btcNetwork = network === 'mainnet' ? NETWORK : TEST_NETWORK
+
+	const decodeTransaction = (raw: string): Transaction =>
+		Transaction.fromRaw(hex.decode(raw), {
+			allowUnknownInputs: true,
+			allowUnknownOutputs: true,
+			disableScriptCheck: true,
+		})
+
+	return {
+		name: 'electrum',
+		getAddressTransactions(address: string): Promise<AddressTransaction[]> {
+			const script = OutScript.encode(Address(btcNetwork).decode(address))
+			const scriptHex = hex.encode(script)
+			// Electrum indexes addresses by the reversed SHA-256 of their output script
+			const scriptHash = hex.encode(sha256(script).reverse())
+
+			return withElectrumSession(electrumServer, async (session) => {
+				const history = await session.call<ElectrumHistoryItem[]>(
+					'blockchain.scripthash.get_history',
+					[scriptHash]
+				)
+
+				// History is oldest first with the mempool last - match Esplora's order
+				const newestFirst = [...history].reverse()
+				return await Promise.all(
+					newestFirst.map(async ({ tx_hash, height }) => {
+						const tx = decodeTransaction(
+							await session.call<string>('blockchain.transaction.get', [
+								tx_hash,
+							])
+						)
+						const outputs: AddressOutput[] = []
+						for (let vout = 0; vout < tx.outputsLength; vout++) {
+							const output = tx.getOutput(vout)
+							if (output.script && hex.encode(output.script) === scriptHex) {
+								outputs.push({ vout, amount_sats: Number(output.amount ?? 0n) })
+							}
+						}
+						return {
+							txid: tx_hash,
+							outputs,
+							amount_sats: outputs.reduce(
+								(sum, output) => sum + output.amount_sats,
+								0
+							),
+							block_height: height > 0 ? height : undefined,
+						}
+					})
+				)
+			})
+		},
+		getTipHeight(): Promise<number> {
+			return withElectrumSession(electrumServer, async (session) => {
+				const header = await session.call<{ height: number }>(
+					'blockchain.headers.subscribe',
+					[]
+				)
+				return header.height
+			})
+		},
+		// Electrum has no fee field for confirmed transactions, so the fee is
+		// the inputs' previous outputs minus this transaction's outputs
+		getTransactionFee(txid: string): Promise<number | null> {
+			return withElectrumSession(electrumServer, async (session) => {
+				const tx = decodeTransaction(
+					await session.call<string>('blockchain.transaction.get', [txid])
+				)
+
+				let inputSats = 0n
+				for (let i = 0; i < tx.inputsLength; i++) {
+					const input = tx.getInput(i)
+					if (!input.txid || input.index === undefined) return null
+					const previous = decodeTransaction(
+						await session.call<string>('blockchain.transaction.get', [
+							hex.encode(input.txid),
+						])
+					)
+					inputSats += previous.getOutput(input.index).amount ?? 0n
+				}
+
+				let outputSats = 0n
+				for (let i = 0; i < tx.outputsLength; i++) {
+					outputSats += tx.getOutput(i).amount ?? 0n
+				}
+
+				return Number(inputSats - outputSats)
+			})
+		},
+	}
+}
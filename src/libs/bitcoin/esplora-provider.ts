@@ -0,0 +1,88 @@
+/**
+ * Esplora Blockchain Provider
+ *
+ * Reads the blockchain through the Esplora REST API - mempool.space and
+ * blockstream.info run it, and so does a self-hosted Esplora/electrs node.
+ */
+
+import { blockchainApiTimeoutMs, fetchWithTimeout } from './blockchain-api.ts'
+import type {
+	AddressTransaction,
+	BlockchainProvider,
+	BlockchainProviderName,
+} from './blockchain-provider.ts'
+
+const trailingSlashPattern = /\/+$/
+
+type EsploraTx = {
+	txid: string
+	fee?: number
+	status: {
+		confirmed: boolean
+		block_height?: number
+	}
+	vout: Array<{
+		scriptpubkey_address?: string
+		value: number
+	}>
+}
+
+async function getJson<T>(url: string): Promise<T> {
+	const response = await fetchWithTimeout(url, blockchainApiTimeoutMs)
+	if (!response.ok) {
+		throw new Error(`Esplora request failed: ${response.status}`)
+	}
+	return (await response.json()) as T
+}
+
+export function createEsploraProvider(
+	name: BlockchainProviderName,
+	url: string
+): BlockchainProvider {
+	const baseUrl = url.replace(trailingSlashPattern, '')
+
+	return {
+		name,
+		async getAddressTransactions(
+			address: string
+		): Promise<AddressTransaction[]> {
+			// First page only: up to 50 mempool and 25 confirmed transactions,
+			// far more than a single-use donation address ever sees
+			const txs = await getJson<EsploraTx[]>(
+				`${baseUrl}/address/${address}/txs`
+			)
+			return txs.map((tx) => {
+				const outputs = tx.vout.flatMap((output, vout) =>
+					output.scriptpubkey_address === address
+						? [{ vout, amount_sats: output.value }]
+						: []
+				)
+				return {
+					txid: tx.txid,
+					outputs,
+					amount_sats: outputs.reduce(
+						(sum, output) => sum + output.amount_sats,
+						0
+					),
+					block_height: tx.status.confirmed
+						? tx.status.block_height
+						: undefined,
+				}
+			})
+		},
+		async getTipHeight(): Promise<number> {
+			const response = await fetchWithTimeout(
+				`${baseUrl}/blocks/tip/height`,
+				blockchainApiTimeoutMs
+			)
+			if (!response.ok) {
+				throw new Error(`Esplora request failed: ${response.status}`)
+			}
+			return Number.parseInt(await response.text(), 10)
+		},
+		async getTransactionFee(txid: string): Promise<number | null> {
+			const tx = await getJson<EsploraTx>(`${baseUrl}/tx/${txid}`)
+			return tx.fee ?? null
+		},
+	}
+}
@@ -0,0 +1,39 @@
+// These "send" email without a mail server, for local development and tests.
+// The file transport writes each message as an .eml you can open in any mail client; the console transport just logs it.
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { logger } from '@/utils/logger.ts'
+import type { MailTransport } from './mail-transport.ts'
+import { buildMimeMessage, type MailMessage } from './mime.ts'
+
+const unsafeFileNamePattern = /[^a-z0-9.-]+/gi
+
+export function createFileTransport(
+	from: string,
+	directory: string = join(tmpdir(), 'rad-crowdfunding-mail')
+): MailTransport {
+	return {
+		name: 'file',
+		async send(message: MailMessage): Promise<void> {
+			await mkdir(directory, { recursive: true })
+			const recipient = message.to.replace(unsafeFileNamePattern, '_')
+			const path = join(directory, `${Date.now()}-${recipient}.eml`)
+			await writeFile(path, buildMimeMessage(from, message), 'utf8')
+			logger.info(`Email written to ${path}`)
+		},
+	}
+}
+
+export function createConsoleTransport(): MailTransport {
+	return {
+		name: 'console',
+		send(message: MailMessage): Promise<void> {
+			logger.info(
+				`Email to ${message.to}: ${message.subject}\n\n${message.text}`
+			)
+			return Promise.resolve()
+		},
+	}
+}
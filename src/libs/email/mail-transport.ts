@@ -0,0 +1,44 @@
+// This picks how outgoing email (receipts and year-end statements) is delivered, based on EMAIL_TRANSPORT.
+// Every transport has the same send() so the receipt code never knows which one it got.
+
+import { env } from '@/env.ts'
+import {
+	createConsoleTransport,
+	createFileTransport,
+} from './file-transport.ts'
+import type { MailAttachment, MailMessage } from './mime.ts'
+import { createSmtpTransport } from './smtp-transport.ts'
+
+const defaultSmtpPort = 587
+
+export interface MailTransport {
+	readonly name: 'smtp' | 'file' | 'console'
+	send(message: MailMessage): Promise<void>
+}
+
+// Returns null when email is not configured - callers skip sending entirely
+export function getMailTransport(): MailTransport | null {
+	const from = env.EMAIL_FROM
+
+	switch (env.EMAIL_TRANSPORT) {
+		case 'smtp':
+			if (!(env.SMTP_HOST && from)) {
+				return null
+			}
+			return createSmtpTransport({
+				host: env.SMTP_HOST,
+				port: env.SMTP_PORT ? Number(env.SMTP_PORT) : defaultSmtpPort,
+				user: env.SMTP_USER,
+				password: env.SMTP_PASSWORD,
+				from,
+			})
+		case 'file':
+			return from ? createFileTransport(from, env.EMAIL_FILE_DIR) : null
+		case 'console':
+			return createConsoleTransport()
+		default:
+			return null
+	}
+}
+
+export type { MailAttachment, MailMessage }
@@ -0,0 +1,100 @@
+// This turns an email (subject, plain text and HTML) into a raw MIME message.
+// Shared by the SMTP and file transports so both produce exactly the same .eml, attachments included.
+
+import { randomUUID } from 'node:crypto'
+
+export type MailAttachment = {
+	readonly filename: string
+	readonly contentType: string
+	readonly content: Uint8Array
+}
+
+export type MailMessage = {
+	readonly to: string
+	readonly subject: string
+	readonly text: string
+	readonly html: string
+	readonly attachments?: readonly MailAttachment[]
+}
+
+const lineBreakPattern = /\r?\n/g
+const base64LinePattern = /.{1,76}/g
+
+// RFC 2047 encoded-word, so non-ASCII subjects (€, £, accents) survive
+function encodeHeader(value: string): string {
+	return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+// Base64 wrapped at 76 characters per line (RFC 2045)
+function wrapBase64(content: Buffer): string {
+	return content.toString('base64').match(base64LinePattern)?.join('\r\n') ?? ''
+}
+
+function encodeBody(value: string): string {
+	return wrapBase64(
+		Buffer.from(value.replace(lineBreakPattern, '\r\n'), 'utf8')
+	)
+}
+
+// Plain text and HTML versions of the same content
+function buildAlternativePart(
+	message: MailMessage,
+	boundary: string
+): string[] {
+	return [
+		`Content-Type: multipart/alternative; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		'Content-Type: text/plain; charset=UTF-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		encodeBody(message.text),
+		`--${boundary}`,
+		'Content-Type: text/html; charset=UTF-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		encodeBody(message.html),
+		`--${boundary}--`,
+	]
+}
+
+// Messages with attachments wrap the text/HTML part in multipart/mixed
+function buildBody(message: MailMessage): string[] {
+	const alternativeBoundary = `alt-${randomUUID()}`
+	const attachments = message.attachments ?? []
+	if (attachments.length === 0) {
+		return buildAlternativePart(message, alternativeBoundary)
+	}
+
+	const mixedBoundary = `mixed-${randomUUID()}`
+	return [
+		`Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+		'',
+		`--${mixedBoundary}`,
+		...buildAlternativePart(message, alternativeBoundary),
+		...attachments.flatMap((attachment) => [
+			`--${mixedBoundary}`,
+			`Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+			`Content-Disposition: attachment; filename="${attachment.filename}"`,
+			'Content-Transfer-Encoding: base64',
+			'',
+			wrapBase64(Buffer.from(attachment.content)),
+		]),
+		`--${mixedBoundary}--`,
+	]
+}
+
+export function buildMimeMessage(from: string, message: MailMessage): string {
+	const domain = from.split('@')[1] ?? 'localhost'
+
+	return [
+		`From: ${from}`,
+		`To: ${message.to}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${randomUUID()}@${domain}>`,
+		'MIME-Version: 1.0',
+		...buildBody(message),
+		'',
+	].join('\r\n')
+}
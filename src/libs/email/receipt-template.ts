@@ -0,0 +1,98 @@
+// This builds the donation receipt email in both HTML and plain text.
+// Organization name, contact email, logo and colors all come from siteConfig.
+
+import type { Currency, PaymentMethod } from 'convex/types'
+import { siteConfig } from '@/configs/site-config.ts'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import type { MailMessage } from './mime.ts'
+
+export type ReceiptDetails = {
+	readonly to: string
+	readonly donorName: string
+	readonly campaignTitle: string | undefined
+	readonly amount: number
+	readonly currency: Currency
+	readonly paymentMethod: PaymentMethod
+	readonly paymentReference: string
+	readonly donatedAt: number
+	readonly monthly: boolean
+}
+
+export const paymentMethodLabels = {
+	stripe: 'Card (Stripe)',
+	paypal: 'PayPal',
+	bitcoin: 'Bitcoin',
+} as const satisfies Record<PaymentMethod, string>
+
+const htmlEscapes: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+}
+const htmlEscapePattern = /[&<>"']/g
+
+export function escapeHtml(value: string): string {
+	return value.replace(htmlEscapePattern, (char) => htmlEscapes[char] ?? char)
+}
+
+export function renderReceipt(details: ReceiptDetails): MailMessage {
+	const amount = formatCurrency(details.amount, details.currency)
+	const date = new Date(details.donatedAt).toLocaleString('en-US', {
+		dateStyle: 'long',
+		timeStyle: 'short',
+		timeZone: 'UTC',
+	})
+	const rows: ReadonlyArray<readonly [string, string]> = [
+		['Amount', details.monthly ? `${amount} / month` : amount],
+		['Date', `${date} UTC`],
+		['Payment method', paymentMethodLabels[details.paymentMethod]],
+		['Payment reference', details.paymentReference],
+		...(details.campaignTitle
+			? [['Campaign', details.campaignTitle] as const]
+			: []),
+	]
+	const logoUrl = new URL(siteConfig.organizationLogo, siteConfig.siteUrl).href
+	const subject = `Your ${amount} donation to ${siteConfig.organizationName}`
+	const footer = `${siteConfig.organizationName} · ${siteConfig.contactEmail} · ${siteConfig.siteUrl}`
+
+	const text = [
+		`Hi ${details.donorName},`,
+		'',
+		`Thank you for your donation to ${siteConfig.organizationName}. Please keep this email as your receipt.`,
+		'',
+		...rows.map(([label, value]) => `${label}: ${value}`),
+		'',
+		'No goods or services were provided in exchange for this contribution.',
+		`Questions? Reply to ${siteConfig.contactEmail}.`,
+		'',
+		footer,
+	].join('\n')
+
+	const html = `<!doctype html>
+<html lang="${siteConfig.language}">
+<body style="margin:0;padding:24px;background:#f4f4f4;font-family:Arial,sans-serif;color:#1a1a1a">
+<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-top:6px solid ${siteConfig.themeColor}">
+<tr><td style="padding:24px">
+<img src="${escapeHtml(logoUrl)}" alt="${escapeHtml(siteConfig.organizationName)}" height="48" style="display:block;margin-bottom:16px">
+<h1 style="margin:0 0 16px;font-size:22px">Thank you, ${escapeHtml(details.donorName)}!</h1>
+<p style="margin:0 0 16px">Thank you for your donation to ${escapeHtml(siteConfig.organizationName)}. Please keep this email as your receipt.</p>
+<table role="presentation" width="100%" style="border-collapse:collapse;margin-bottom:16px">
+${rows
+	.map(
+		([label, value]) =>
+			`<tr><td style="padding:6px 0;color:#666666">${escapeHtml(label)}</td><td style="padding:6px 0;text-align:right;font-weight:bold;word-break:break-all">${escapeHtml(value)}</td></tr>`
+	)
+	.join('\n')}
+</table>
+<p style="margin:0 0 8px;font-size:13px;color:#666666">No goods or services were provided in exchange for this contribution.</p>
+<p style="margin:0;font-size:13px;color:#666666">Questions? Contact <a href="mailto:${escapeHtml(siteConfig.contactEmail)}">${escapeHtml(siteConfig.contactEmail)}</a>.</p>
+</td></tr>
+<tr><td style="padding:16px 24px;background:#fafafa;font-size:12px;color:#999999">${escapeHtml(footer)}</td></tr>
+</table>
+</body>
+</html>`
+
+	return { to: details.to, subject, text, html }
+}
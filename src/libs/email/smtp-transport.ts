@@ -0,0 +1,198 @@
+// This sends email through any SMTP server (Postmark, SES, Mailgun, your own host...).
+// A small client on top of node:net/node:tls: STARTTLS (or implicit TLS on 465), AUTH PLAIN, one message per connection.
+
+import { connect as connectTcp, type Socket } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+import type { MailTransport } from './mail-transport.ts'
+import { buildMimeMessage, type MailMessage } from './mime.ts'
+
+const smtpTimeoutMs = 15_000
+const implicitTlsPort = 465
+
+// Lines starting with a dot must be doubled inside DATA (RFC 5321 §4.5.2)
+const leadingDotPattern = /^\./gm
+
+export type SmtpConfig = {
+	readonly host: string
+	readonly port: number
+	readonly user: string | undefined
+	readonly password: string | undefined
+	readonly from: string
+}
+
+type SmtpResponse = {
+	readonly code: number
+	readonly lines: readonly string[]
+}
+
+// Buffers socket data and hands out one complete (possibly multi-line) reply at a time
+function createReplyReader(socket: Socket): () => Promise<SmtpResponse> {
+	let buffer = ''
+	let lines: string[] = []
+	const replies: SmtpResponse[] = []
+	const waiting: Array<{
+		resolve: (reply: SmtpResponse) => void
+		reject: (error: Error) => void
+	}> = []
+	let failure: Error | null = null
+
+	const flush = (): void => {
+		while (replies.length > 0 && waiting.length > 0) {
+			const reply = replies.shift()
+			const waiter = waiting.shift()
+			if (reply && waiter) {
+				waiter.resolve(reply)
+			}
+		}
+		if (failure) {
+			for (const waiter of waiting.splice(0)) {
+				waiter.reject(failure)
+			}
+		}
+	}
+
+	socket.on('data', (chunk: Buffer) => {
+		buffer += chunk.toString('utf8')
+		let newline = buffer.indexOf('\r\n')
+		while (newline !== -1) {
+			const line = buffer.slice(0, newline)
+			buffer = buffer.slice(newline + 2)
+			lines.push(line.slice(4))
+			// "250-..." continues the reply, "250 ..." ends it
+			if (line[3] !== '-') {
+				replies.push({ code: Number(line.slice(0, 3)), lines })
+				lines = []
+			}
+			newline = buffer.indexOf('\r\n')
+		}
+		flush()
+	})
+
+	const fail = (error: Error): void => {
+		failure = error
+		flush()
+	}
+	socket.on('error', fail)
+	socket.on('close', () => fail(new Error('SMTP connection closed')))
+
+	return () =>
+		new Promise((resolve, reject) => {
+			waiting.push({ resolve, reject })
+			flush()
+		})
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket> {
+	return new Promise((resolve, reject) => {
+		const socket =
+			config.port === implicitTlsPort
+				? connectTls({
+						host: config.host,
+						port: config.port,
+						servername: config.host,
+					})
+				: connectTcp({ host: config.host, port: config.port })
+
+		socket.setTimeout(smtpTimeoutMs, () =>
+			socket.destroy(new Error('SMTP connection timed out'))
+		)
+		socket.once(
+			config.port === implicitTlsPort ? 'secureConnect' : 'connect',
+			() => resolve(socket)
+		)
+		socket.once('error', reject)
+	})
+}
+
+function upgradeToTls(socket: Socket, host: string): Promise<Socket> {
+	return new Promise((resolve, reject) => {
+		const secureSocket = connectTls({ socket, servername: host })
+		secureSocket.setTimeout(smtpTimeoutMs, () =>
+			secureSocket.destroy(new Error('SMTP connection timed out'))
+		)
+		secureSocket.once('secureConnect', () => resolve(secureSocket))
+		secureSocket.once('error', reject)
+	})
+}
+
+// EHLO names the client, not the server - strict servers reject or spam-score
+// their own hostname, so introduce ourselves with the sender's domain
+function getClientHostname(from: string): string {
+	return from.slice(from.lastIndexOf('@') + 1)
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+	const clientHostname = getClientHostname(config.from)
+
+	return {
+		name: 'smtp',
+		async send(message: MailMessage): Promise<void> {
+			let socket = await openSocket(config)
+			let readReply = createReplyReader(socket)
+
+			const command = async (
+				line: string,
+				expected: readonly number[]
+			): Promise<SmtpResponse> => {
+				socket.write(`${line}\r\n`)
+				const reply = await readReply()
+				if (!expected.includes(reply.code)) {
+					// Never echo AUTH lines - they contain the credentials
+					const sent = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0]
+					throw new Error(
+						`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`
+					)
+				}
+				return reply
+			}
+
+			try {
+				const greeting = await readReply()
+				if (greeting.code !== 220) {
+					throw new Error(`SMTP server refused connection: ${greeting.code}`)
+				}
+
+				const hello = await command(`EHLO ${clientHostname}`, [250])
+				const isTls = config.port === implicitTlsPort
+				const canStartTls = hello.lines.some(
+					(line) => line.toUpperCase() === 'STARTTLS'
+				)
+
+				if (!isTls && canStartTls) {
+					await command('STARTTLS', [220])
+					// From here on the TLS socket owns the connection
+					socket.removeAllListeners('data')
+					socket = await upgradeToTls(socket, config.host)
+					readReply = createReplyReader(socket)
+					await command(`EHLO ${clientHostname}`, [250])
+				} else if (!isTls && config.user) {
+					throw new Error(
+						'SMTP server does not support STARTTLS - refusing to send credentials in plain text'
+					)
+				}
+
+				if (config.user && config.password) {
+					const credentials = Buffer.from(
+						`\0${config.user}\0${config.password}`,
+						'utf8'
+					).toString('base64')
+					await command(`AUTH PLAIN ${credentials}`, [235])
+				}
+
+				await command(`MAIL FROM:<${config.from}>`, [250])
+				await command(`RCPT TO:<${message.to}>`, [250, 251])
+				await command('DATA', [354])
+
+				const body = buildMimeMessage(config.from, message).replace(
+					leadingDotPattern,
+					'..'
+				)
+				await command(`${body}\r\n.`, [250])
+				// The message is already accepted, so a server that hangs up early is fine
+				await command('QUIT', [221]).catch(() => undefined)
+			} finally {
+				socket.destroy()
+			}
+		},
+	}
+}
@@ -0,0 +1,54 @@
+// This picks the Lightning node that creates and watches invoices, based on LIGHTNING_BACKEND.
+// Every backend has the same createInvoice()/lookupInvoice() so the payment code never knows which one it got.
+
+import { env } from '@/env.ts'
+import { createLndBackend } from './lnd-backend.ts'
+import { createMockBackend } from './mock-backend.ts'
+
+export type LightningInvoiceRequest = {
+	readonly amountSats: number
+	readonly memo: string
+	readonly expirySeconds: number
+}
+
+export type LightningInvoice = {
+	readonly paymentRequest: string // BOLT11, what the donor's wallet pays
+	readonly paymentHash: string // Hex - identifies the invoice on the node
+}
+
+// What the backend needs to look an invoice up - the mock has no node to ask,
+// so it works from the amount and creation time
+export type LightningInvoiceRef = {
+	readonly paymentHash: string
+	readonly amountSats: number
+	readonly createdAt: number
+}
+
+export type LightningInvoiceState =
+	| { readonly state: 'open' }
+	| { readonly state: 'canceled' } // Expired or canceled on the node
+	| { readonly state: 'settled'; readonly amountPaidSats: number }
+
+export interface LightningBackend {
+	readonly name: 'lnd' | 'mock'
+	createInvoice(request: LightningInvoiceRequest): Promise<LightningInvoice>
+	lookupInvoice(invoice: LightningInvoiceRef): Promise<LightningInvoiceState>
+}
+
+// Returns null when Lightning is not configured - the donate form hides it
+export function getLightningBackend(): LightningBackend | null {
+	switch (env.LIGHTNING_BACKEND) {
+		case 'lnd':
+			if (!(env.LND_REST_URL && env.LND_MACAROON)) {
+				return null
+			}
+			return createLndBackend({
+				url: env.LND_REST_URL,
+				macaroon: env.LND_MACAROON,
+			})
+		case 'mock':
+			return createMockBackend()
+		default:
+			return null
+	}
+}
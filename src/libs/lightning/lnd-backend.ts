@@ -0,0 +1,99 @@
+// This creates and looks up invoices on an LND node through its REST API (POST /v1/invoices, GET /v1/invoice/{hash}).
+// Authenticates with an invoice macaroon, which can create and read invoices but not spend funds.
+
+import type {
+	LightningBackend,
+	LightningInvoice,
+	LightningInvoiceRef,
+	LightningInvoiceRequest,
+	LightningInvoiceState,
+} from './lightning-backend.ts'
+
+const lndTimeoutMs = 8000
+const trailingSlashPattern = /\/+$/
+
+export type LndConfig = {
+	readonly url: string // e.g. https://my-node.example.com:8080
+	readonly macaroon: string // Hex-encoded invoice.macaroon
+}
+
+// LND encodes 64-bit integers as strings and bytes as base64 in its REST API
+type LndAddInvoiceResponse = {
+	readonly r_hash: string
+	readonly payment_request: string
+}
+
+type LndInvoiceResponse = {
+	readonly state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED'
+	readonly amt_paid_sat?: string
+}
+
+export function createLndBackend({
+	url,
+	macaroon,
+}: LndConfig): LightningBackend {
+	const baseUrl = url.replace(trailingSlashPattern, '')
+
+	const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+		const controller = new AbortController()
+		const timeout = setTimeout(() => controller.abort(), lndTimeoutMs)
+
+		try {
+			const response = await fetch(`${baseUrl}${path}`, {
+				...init,
+				headers: {
+					'Content-Type': 'application/json',
+					'Grpc-Metadata-macaroon': macaroon,
+				},
+				signal: controller.signal,
+			})
+			if (!response.ok) {
+				throw new Error(`LND request failed: ${response.status}`)
+			}
+			return (await response.json()) as T
+		} finally {
+			clearTimeout(timeout)
+		}
+	}
+
+	return {
+		name: 'lnd',
+		async createInvoice({
+			amountSats,
+			memo,
+			expirySeconds,
+		}: LightningInvoiceRequest): Promise<LightningInvoice> {
+			const invoice = await request<LndAddInvoiceResponse>('/v1/invoices', {
+				method: 'POST',
+				body: JSON.stringify({
+					value: String(amountSats),
+					memo,
+					expiry: String(expirySeconds),
+				}),
+			})
+			return {
+				paymentRequest: invoice.payment_request,
+				paymentHash: Buffer.from(invoice.r_hash, 'base64').toString('hex'),
+			}
+		},
+		async lookupInvoice({
+			paymentHash,
+		}: LightningInvoiceRef): Promise<LightningInvoiceState> {
+			const invoice = await request<LndInvoiceResponse>(
+				`/v1/invoice/${paymentHash}`
+			)
+			switch (invoice.state) {
+				case 'SETTLED':
+					return {
+						state: 'settled',
+						amountPaidSats: Number(invoice.amt_paid_sat ?? 0),
+					}
+				case 'CANCELED':
+					return { state: 'canceled' }
+				default:
+					// ACCEPTED is a held HTLC (hold invoices only) - not paid yet
+					return { state: 'open' }
+			}
+		},
+	}
+}
@@ -0,0 +1,39 @@
+// This "pays" Lightning invoices without a node, for local development.
+// Every invoice settles in full shortly after it is created - never enable it in production.
+
+import { randomBytes } from 'node:crypto'
+import type {
+	LightningBackend,
+	LightningInvoice,
+	LightningInvoiceRef,
+	LightningInvoiceRequest,
+	LightningInvoiceState,
+} from './lightning-backend.ts'
+
+// Long enough to see the QR code, short enough not to wait around
+const mockSettleDelayMs = 15_000
+
+export function createMockBackend(): LightningBackend {
+	return {
+		name: 'mock',
+		createInvoice({
+			amountSats,
+		}: LightningInvoiceRequest): Promise<LightningInvoice> {
+			const paymentHash = randomBytes(32).toString('hex')
+			// Shaped like a BOLT11 string for the QR code, but no wallet will pay it
+			return Promise.resolve({
+				paymentRequest: `lnmock${amountSats}s1${paymentHash}`,
+				paymentHash,
+			})
+		},
+		lookupInvoice({
+			amountSats,
+			createdAt,
+		}: LightningInvoiceRef): Promise<LightningInvoiceState> {
+			if (Date.now() - createdAt < mockSettleDelayMs) {
+				return Promise.resolve({ state: 'open' })
+			}
+			return Promise.resolve({ state: 'settled', amountPaidSats: amountSats })
+		},
+	}
+}
@@ -5,11 +5,13 @@ import {
 	Client,
 	Environment,
 	OrdersController,
+	PaymentsController,
 } from '@paypal/paypal-server-sdk'
 import { env } from '@/env.ts'
 
 let _client: Client | null = null
 let _ordersController: OrdersController | null = null
+let _paymentsController: PaymentsController | null = null
 
 // Determine PayPal environment based on CONVEX_ENV
 export function isPayPalProduction(): boolean {
@@ -23,6 +25,25 @@ export function getPayPalApiUrl(): string {
 		: 'https://api-m.sandbox.paypal.com'
 }
 
+// OAuth token for the REST endpoints the SDK doesn't cover (webhook verification, transaction search)
+// Returns null when PayPal rejects the credentials
+export async function getPayPalAccessToken(): Promise<string | null> {
+	const response = await fetch(`${getPayPalApiUrl()}/v1/oauth2/token`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+			Authorization: `Basic ${Buffer.from(`${env.PAYPAL_CLIENT_ID}:${env.PAYPAL_CLIENT_SECRET}`).toString('base64')}`,
+		},
+		body: 'grant_type=client_credentials',
+	})
+	if (!response.ok) {
+		return null
+	}
+
+	const data = (await response.json()) as { access_token: string }
+	return data.access_token
+}
+
 function getClient(): Client {
 	if (!_client) {
 		_client = new Client({
@@ -46,3 +67,12 @@ export const ordersController = new Proxy({} as OrdersController, {
 		return _ordersController[prop as keyof OrdersController]
 	},
 })
+
+export const paymentsController = new Proxy({} as PaymentsController, {
+	get(_target, prop) {
+		if (!_paymentsController) {
+			_paymentsController = new PaymentsController(getClient())
+		}
+		return _paymentsController[prop as keyof PaymentsController]
+	},
+})
@@ -0,0 +1,52 @@
+// This loads the PayPal JS SDK in the browser for the in-page PayPal Buttons.
+// Only the parts of the SDK the donate form uses are typed here.
+
+import type { Currency } from 'convex/types'
+import { loadScript } from '@/utils/load-script.ts'
+
+type PayPalButtonsOptions = {
+	readonly style?: {
+		readonly layout?: 'vertical' | 'horizontal'
+		readonly color?: 'gold' | 'blue' | 'silver' | 'white' | 'black'
+		readonly label?: 'paypal' | 'donate' | 'pay'
+	}
+	// Resolves with the ID of an order created by our createOrder action
+	createOrder(): Promise<string>
+	onApprove(data: { readonly orderID: string }): Promise<void>
+	onCancel?(): void
+	onError?(error: unknown): void
+}
+
+export type PayPalButtons = {
+	isEligible(): boolean
+	render(container: HTMLElement): Promise<void>
+	close(): Promise<void>
+}
+
+export type PayPalJs = {
+	Buttons(options: PayPalButtonsOptions): PayPalButtons
+}
+
+declare global {
+	interface Window {
+		paypal?: PayPalJs
+	}
+}
+
+// The SDK is configured by its URL, so each client ID/currency pair is its own script
+export async function loadPayPalJs(
+	clientId: string,
+	currency: Currency
+): Promise<PayPalJs> {
+	const params = new URLSearchParams({
+		'client-id': clientId,
+		currency,
+		intent: 'capture',
+		components: 'buttons',
+	})
+	await loadScript(`https://www.paypal.com/sdk/js?${params.toString()}`)
+	if (!window.paypal) {
+		throw new Error('PayPal JS SDK did not initialize')
+	}
+	return window.paypal
+}
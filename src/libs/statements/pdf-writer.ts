@@ -0,0 +1,122 @@
+// This writes simple text-only PDFs (text lines and rules on US Letter pages).
+// Uses the 14 standard PDF fonts, so no font files are embedded and no PDF library is needed.
+
+export const pdfPageWidth = 612
+export const pdfPageHeight = 792
+
+export type PdfFont = 'regular' | 'bold' | 'mono'
+
+export type PdfItem =
+	| {
+			readonly type: 'text'
+			readonly x: number
+			readonly y: number // Baseline, measured from the bottom of the page
+			readonly size: number
+			readonly font: PdfFont
+			readonly text: string
+	  }
+	| {
+			readonly type: 'rule'
+			readonly x1: number
+			readonly x2: number
+			readonly y: number
+	  }
+
+export type PdfPage = readonly PdfItem[]
+
+const fontResources = {
+	regular: { name: 'F1', baseFont: 'Helvetica' },
+	bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+	mono: { name: 'F3', baseFont: 'Courier' },
+} as const satisfies Record<PdfFont, { name: string; baseFont: string }>
+
+// Every Courier glyph is 600/1000 em wide, which makes right-aligning columns easy
+export function monoTextWidth(text: string, size: number): number {
+	return text.length * size * 0.6
+}
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const winAnsiExtras: Record<string, number> = {
+	'€': 0x80,
+	'…': 0x85,
+	'‘': 0x91,
+	'’': 0x92,
+	'“': 0x93,
+	'”': 0x94,
+	'•': 0x95,
+	'–': 0x96,
+	'—': 0x97,
+}
+
+// Literal string in WinAnsiEncoding - anything it can't show becomes '?'
+function encodeText(text: string): string {
+	let encoded = ''
+	for (const char of text) {
+		const code = char.codePointAt(0) ?? 0x3f
+		const mapped =
+			(code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)
+				? code
+				: (winAnsiExtras[char] ?? 0x3f)
+		const output = String.fromCharCode(mapped)
+		encoded +=
+			output === '(' || output === ')' || output === '\\'
+				? `\\${output}`
+				: output
+	}
+	return `(${encoded})`
+}
+
+function renderContent(page: PdfPage): string {
+	return page
+		.map((item) =>
+			item.type === 'text'
+				? `BT /${fontResources[item.font].name} ${item.size} Tf ${item.x.toFixed(2)} ${item.y.toFixed(2)} Td ${encodeText(item.text)} Tj ET`
+				: `0.5 w ${item.x1.toFixed(2)} ${item.y.toFixed(2)} m ${item.x2.toFixed(2)} ${item.y.toFixed(2)} l S`
+		)
+		.join('\n')
+}
+
+export function buildPdf(pages: readonly PdfPage[]): Uint8Array<ArrayBuffer> {
+	const fonts = Object.values(fontResources)
+	// Object numbers: 1 catalog, 2 page tree, then fonts, then a page + content stream per page
+	const firstFontObject = 3
+	const firstPageObject = firstFontObject + fonts.length
+	const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2)
+
+	const fontDictionary = fonts
+		.map(({ name }, index) => `/${name} ${firstFontObject + index} 0 R`)
+		.join(' ')
+
+	const objects: string[] = [
+		'<< /Type /Catalog /Pages 2 0 R >>',
+		`<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+		...fonts.map(
+			({ baseFont }) =>
+				`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+		),
+		...pages.flatMap((page, index) => {
+			const content = renderContent(page)
+			return [
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfPageWidth} ${pdfPageHeight}] /Resources << /Font << ${fontDictionary} >> >> /Contents ${firstPageObject + index * 2 + 1} 0 R >>`,
+				`<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+			]
+		}),
+	]
+
+	// Every character is a single byte (see encodeText), so string length == byte offset
+	let output = '%PDF-1.4\n'
+	const offsets: number[] = []
+	objects.forEach((body, index) => {
+		offsets.push(output.length)
+		output += `${index + 1} 0 obj\n${body}\nendobj\n`
+	})
+
+	const xrefOffset = output.length
+	output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+	for (const offset of offsets) {
+		output += `${String(offset).padStart(10, '0')} 00000 n \n`
+	}
+	output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+	return new Uint8Array(Buffer.from(output, 'latin1'))
+}
@@ -0,0 +1,318 @@
+// This renders a donor's year-end giving statement as HTML, as a PDF and as the email that delivers both.
+// Organization details (name, address, tax ID, contact) come from siteConfig.
+
+import type { Currency, PaymentMethod } from 'convex/types'
+import { siteConfig } from '@/configs/site-config.ts'
+import type { MailMessage } from '@/libs/email/mime.ts'
+import {
+	escapeHtml,
+	paymentMethodLabels,
+} from '@/libs/email/receipt-template.ts'
+import { formatCurrency } from '@/utils/format-currency.ts'
+import {
+	buildPdf,
+	monoTextWidth,
+	type PdfFont,
+	type PdfItem,
+	type PdfPage,
+	pdfPageHeight,
+	pdfPageWidth,
+} from './pdf-writer.ts'
+
+export type StatementDonation = {
+	readonly donatedAt: number
+	readonly amount: number // What the donor paid, less any partial refund
+	readonly currency: Currency
+	readonly paymentMethod: PaymentMethod
+	readonly paymentReference: string
+	readonly partiallyRefunded: boolean
+}
+
+export type StatementTotal = {
+	readonly currency: Currency
+	readonly amount: number
+}
+
+export type StatementDetails = {
+	readonly donorName: string | undefined
+	readonly donorEmail: string
+	readonly year: number
+	readonly donations: readonly StatementDonation[]
+	readonly totals: readonly StatementTotal[]
+	readonly generatedAt: number
+}
+
+const maxReferenceLength = 28
+const pageMargin = 56
+const rowHeight = 16
+const lineBreakPattern = /\r?\n/
+
+const disclaimer =
+	'No goods or services were provided in exchange for these contributions.'
+
+function formatDate(timestamp: number): string {
+	return new Date(timestamp).toLocaleDateString('en-US', {
+		dateStyle: 'medium',
+		timeZone: 'UTC',
+	})
+}
+
+function formatReference(reference: string): string {
+	return reference.length > maxReferenceLength
+		? `${reference.slice(0, maxReferenceLength - 1)}…`
+		: reference
+}
+
+function formatStatementAmount(donation: StatementDonation): string {
+	const amount = formatCurrency(donation.amount, donation.currency)
+	return donation.partiallyRefunded ? `${amount}*` : amount
+}
+
+function getOrganizationLines(): string[] {
+	return [
+		...siteConfig.organizationAddress.split(lineBreakPattern),
+		siteConfig.organizationTaxId,
+		`${siteConfig.contactEmail} · ${siteConfig.siteUrl}`,
+	].filter((line) => line.trim() !== '')
+}
+
+function getDonorLabel(details: StatementDetails): string {
+	return details.donorName
+		? `${details.donorName} <${details.donorEmail}>`
+		: details.donorEmail
+}
+
+function getTitle(details: StatementDetails): string {
+	return `${details.year} Giving Statement`
+}
+
+// `preface` is extra HTML shown above the statement (the email greeting)
+function buildStatementHtml(
+	details: StatementDetails,
+	preface: string
+): string {
+	const hasPartialRefunds = details.donations.some(
+		(donation) => donation.partiallyRefunded
+	)
+	const cell = 'padding:6px 8px;border-bottom:1px solid #e5e5e5'
+
+	return `<!doctype html>
+<html lang="${siteConfig.language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${siteConfig.organizationName} - ${getTitle(details)}`)}</title>
+</head>
+<body style="margin:0;padding:32px;font-family:Arial,sans-serif;color:#1a1a1a">
+${preface}
+<div style="max-width:720px;margin:0 auto;border-top:6px solid ${siteConfig.themeColor};padding-top:16px">
+<h1 style="margin:0 0 4px;font-size:22px">${escapeHtml(siteConfig.organizationName)}</h1>
+${getOrganizationLines()
+	.map(
+		(line) =>
+			`<p style="margin:0;font-size:13px;color:#666666">${escapeHtml(line)}</p>`
+	)
+	.join('\n')}
+<h2 style="margin:24px 0 4px;font-size:18px">${escapeHtml(getTitle(details))}</h2>
+<p style="margin:0 0 4px">Donor: ${escapeHtml(getDonorLabel(details))}</p>
+<p style="margin:0 0 16px;font-size:13px;color:#666666">Period: January 1 - December 31, ${details.year} (UTC) · Issued ${escapeHtml(formatDate(details.generatedAt))}</p>
+<table style="width:100%;border-collapse:collapse;font-size:14px">
+<thead><tr style="text-align:left;background:#fafafa">
+<th style="${cell}">Date</th><th style="${cell}">Method</th><th style="${cell}">Reference</th><th style="${cell};text-align:right">Amount</th>
+</tr></thead>
+<tbody>
+${details.donations
+	.map(
+		(donation) =>
+			`<tr><td style="${cell}">${escapeHtml(formatDate(donation.donatedAt))}</td><td style="${cell}">${escapeHtml(paymentMethodLabels[donation.paymentMethod])}</td><td style="${cell};font-family:monospace;font-size:12px;word-break:break-all">${escapeHtml(donation.paymentReference)}</td><td style="${cell};text-align:right">${escapeHtml(formatStatementAmount(donation))}</td></tr>`
+	)
+	.join('\n')}
+</tbody>
+<tfoot>
+${details.totals
+	.map(
+		(total) =>
+			`<tr><td colspan="3" style="padding:8px;font-weight:bold">Total (${total.currency})</td><td style="padding:8px;text-align:right;font-weight:bold">${escapeHtml(formatCurrency(total.amount, total.currency))}</td></tr>`
+	)
+	.join('\n')}
+</tfoot>
+</table>
+${hasPartialRefunds ? '<p style="margin:16px 0 0;font-size:13px;color:#666666">* Partially refunded - the amount shown is what was kept.</p>' : ''}
+<p style="margin:16px 0 0;font-size:13px;color:#666666">${escapeHtml(disclaimer)}</p>
+</div>
+</body>
+</html>`
+}
+
+export function renderStatementHtml(details: StatementDetails): string {
+	return buildStatementHtml(details, '')
+}
+
+// Lays out the same content as the HTML version, carrying the table over as many pages as needed
+export function renderStatementPdf(
+	details: StatementDetails
+): Uint8Array<ArrayBuffer> {
+	const left = pageMargin
+	const right = pdfPageWidth - pageMargin
+	const columns = { date: left, method: left + 90, reference: left + 200 }
+	const pages: PdfItem[][] = []
+	let items: PdfItem[] = []
+	let y = pdfPageHeight - pageMargin
+
+	const text = (
+		value: string,
+		x: number,
+		size: number,
+		font: PdfFont = 'regular'
+	): void => {
+		items.push({ type: 'text', x, y, size, font, text: value })
+	}
+	const amount = (value: string, size: number): void => {
+		text(value, right - monoTextWidth(value, size), size, 'mono')
+	}
+	const tableHeader = (): void => {
+		text('Date', columns.date, 10, 'bold')
+		text('Method', columns.method, 10, 'bold')
+		text('Reference', columns.reference, 10, 'bold')
+		text('Amount', right - 40, 10, 'bold')
+		items.push({ type: 'rule', x1: left, x2: right, y: y - 5 })
+		y -= rowHeight + 2
+	}
+	// Keep `height` points free above the bottom margin, starting a new page if needed
+	const ensureSpace = (height: number, repeatHeader: boolean): void => {
+		if (y - height >= pageMargin + rowHeight) {
+			return
+		}
+		pages.push(items)
+		items = []
+		y = pdfPageHeight - pageMargin
+		text(
+			`${siteConfig.organizationName} - ${getTitle(details)} (continued)`,
+			left,
+			10,
+			'bold'
+		)
+		y -= rowHeight * 2
+		if (repeatHeader) {
+			tableHeader()
+		}
+	}
+
+	text(siteConfig.organizationName, left, 18, 'bold')
+	y -= 18
+	for (const line of getOrganizationLines()) {
+		text(line, left, 10)
+		y -= 13
+	}
+
+	y -= 20
+	text(getTitle(details), left, 15, 'bold')
+	y -= 18
+	text(`Donor: ${getDonorLabel(details)}`, left, 10)
+	y -= 13
+	text(
+		`Period: January 1 - December 31, ${details.year} (UTC) · Issued ${formatDate(details.generatedAt)}`,
+		left,
+		10
+	)
+	y -= rowHeight * 2
+
+	tableHeader()
+	for (const donation of details.donations) {
+		ensureSpace(rowHeight, true)
+		text(formatDate(donation.donatedAt), columns.date, 10)
+		text(paymentMethodLabels[donation.paymentMethod], columns.method, 10)
+		text(
+			formatReference(donation.paymentReference),
+			columns.reference,
+			8,
+			'mono'
+		)
+		amount(formatStatementAmount(donation), 10)
+		y -= rowHeight
+	}
+
+	ensureSpace(rowHeight * (details.totals.length + 1), false)
+	items.push({ type: 'rule', x1: left, x2: right, y: y + rowHeight - 5 })
+	for (const total of details.totals) {
+		text(`Total (${total.currency})`, left, 11, 'bold')
+		amount(formatCurrency(total.amount, total.currency), 11)
+		y -= rowHeight
+	}
+
+	const notes = [
+		...(details.donations.some((donation) => donation.partiallyRefunded)
+			? ['* Partially refunded - the amount shown is what was kept.']
+			: []),
+		disclaimer,
+	]
+	ensureSpace(rowHeight * (notes.length + 1), false)
+	y -= rowHeight / 2
+	for (const note of notes) {
+		text(note, left, 9)
+		y -= 13
+	}
+	pages.push(items)
+
+	// Page numbers go in last, once the page count is known
+	const numbered: PdfPage[] = pages.map((page, index) => {
+		const label = `Page ${index + 1} of ${pages.length}`
+		return [
+			...page,
+			{
+				type: 'text',
+				x: right - monoTextWidth(label, 8),
+				y: pageMargin / 2,
+				size: 8,
+				font: 'mono',
+				text: label,
+			},
+		]
+	})
+	return buildPdf(numbered)
+}
+
+export function getStatementFilename(details: StatementDetails): string {
+	return `giving-statement-${details.year}.pdf`
+}
+
+export function renderStatementEmail(
+	details: StatementDetails,
+	pdf: Uint8Array
+): MailMessage {
+	const greeting = details.donorName ? `Hi ${details.donorName},` : 'Hi,'
+	const intro = `Thank you for supporting ${siteConfig.organizationName} in ${details.year}. Your giving statement is attached as a PDF and included below for your records.`
+
+	return {
+		to: details.donorEmail,
+		subject: `Your ${details.year} giving statement from ${siteConfig.organizationName}`,
+		text: [
+			greeting,
+			'',
+			intro,
+			'',
+			...details.donations.map(
+				(donation) =>
+					`${formatDate(donation.donatedAt)}  ${paymentMethodLabels[donation.paymentMethod]}  ${formatStatementAmount(donation)}`
+			),
+			'',
+			...details.totals.map(
+				(total) =>
+					`Total (${total.currency}): ${formatCurrency(total.amount, total.currency)}`
+			),
+			'',
+			disclaimer,
+			`Questions? Reply to ${siteConfig.contactEmail}.`,
+		].join('\n'),
+		html: buildStatementHtml(
+			details,
+			`<p style="max-width:720px;margin:0 auto 16px">${escapeHtml(greeting)}<br>${escapeHtml(intro)}</p>`
+		),
+		attachments: [
+			{
+				filename: getStatementFilename(details),
+				contentType: 'application/pdf',
+				content: pdf,
+			},
+		],
+	}
+}
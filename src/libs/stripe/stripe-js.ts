@@ -0,0 +1,71 @@
+// This loads Stripe.js in the browser for the embedded Payment Element.
+// Only the parts of the Stripe.js API the donate form uses are typed here.
+
+import { loadScript } from '@/utils/load-script.ts'
+
+const stripeJsUrl = 'https://js.stripe.com/v3/'
+
+type StripeJsError = {
+	readonly type: string
+	readonly message?: string
+}
+
+export type StripePaymentElement = {
+	mount(element: HTMLElement): void
+	destroy(): void
+	on(event: 'ready', handler: () => void): void
+}
+
+export type StripeElements = {
+	create(
+		type: 'payment',
+		options?: { readonly layout?: 'tabs' | 'accordion' }
+	): StripePaymentElement
+	submit(): Promise<{ error?: StripeJsError }>
+}
+
+export type StripeJs = {
+	elements(options: {
+		readonly clientSecret: string
+		readonly appearance?: {
+			readonly theme?: 'stripe' | 'night' | 'flat'
+			readonly variables?: Record<string, string>
+		}
+	}): StripeElements
+	// With redirect 'if_required', only methods that need a redirect (bank
+	// authentication, wallets) leave the page - cards resolve in place
+	confirmPayment(options: {
+		readonly elements: StripeElements
+		readonly confirmParams: { readonly return_url: string }
+		readonly redirect: 'if_required'
+	}): Promise<
+		| { error: StripeJsError; paymentIntent?: undefined }
+		| {
+				error?: undefined
+				paymentIntent: { readonly id: string; readonly status: string }
+		  }
+	>
+}
+
+declare global {
+	interface Window {
+		Stripe?: (publishableKey: string) => StripeJs
+	}
+}
+
+const stripeInstances = new Map<string, StripeJs>()
+
+export async function loadStripeJs(publishableKey: string): Promise<StripeJs> {
+	const existing = stripeInstances.get(publishableKey)
+	if (existing) {
+		return existing
+	}
+
+	await loadScript(stripeJsUrl)
+	if (!window.Stripe) {
+		throw new Error('Stripe.js did not initialize')
+	}
+	const stripe = window.Stripe(publishableKey)
+	stripeInstances.set(publishableKey, stripe)
+	return stripe
+}
@@ -1,6 +1,7 @@
 // Form validation logic for donation form
-// Consolidates validation checks for amount, player name, and message
+// Consolidates validation checks for amount, player name, message, and receipt email
 
+import { isValidEmail } from 'convex/types'
 import { useMemo } from 'react'
 
 interface UseFormValidationParams {
@@ -12,6 +13,9 @@ interface UseFormValidationParams {
 	readonly includeMessage: boolean
 	readonly message: string
 	readonly messageTouched: boolean
+	readonly wantsReceipt: boolean
+	readonly receiptEmail: string
+	readonly receiptEmailTouched: boolean
 	readonly submitAttempted: boolean
 }
 
@@ -19,6 +23,7 @@ interface UseFormValidationReturn {
 	readonly isValidAmount: boolean
 	readonly showPlayerNameError: boolean
 	readonly showMessageError: boolean
+	readonly showReceiptEmailError: boolean
 	readonly hasValidationErrors: boolean
 }
 
@@ -31,6 +36,9 @@ export function useFormValidation({
 	includeMessage,
 	message,
 	messageTouched,
+	wantsReceipt,
+	receiptEmail,
+	receiptEmailTouched,
 	submitAttempted,
 }: UseFormValidationParams): UseFormValidationReturn {
 	const isValidAmount = selectedAmount >= minAmount
@@ -45,17 +53,30 @@ export function useFormValidation({
 		(messageTouched || submitAttempted) &&
 		message.trim().length === 0
 
+	const isValidReceiptEmail = !wantsReceipt || isValidEmail(receiptEmail.trim())
+	const showReceiptEmailError =
+		(receiptEmailTouched || submitAttempted) && !isValidReceiptEmail
+
 	const hasValidationErrors = useMemo(() => {
 		if (!isValidAmount) return true
 		if (privacy && !playerName.trim()) return true
 		if (includeMessage && !message.trim()) return true
+		if (!isValidReceiptEmail) return true
 		return false
-	}, [isValidAmount, privacy, playerName, includeMessage, message])
+	}, [
+		isValidAmount,
+		privacy,
+		playerName,
+		includeMessage,
+		message,
+		isValidReceiptEmail,
+	])
 
 	return {
 		isValidAmount,
 		showPlayerNameError,
 		showMessageError,
+		showReceiptEmailError,
 		hasValidationErrors,
 	}
 }
@@ -12,8 +12,19 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as TermsRouteImport } from './routes/terms'
 import { Route as SuccessRouteImport } from './routes/success'
 import { Route as PrivacyRouteImport } from './routes/privacy'
+import { Route as DonorsRouteImport } from './routes/donors'
 import { Route as DonateRouteImport } from './routes/donate'
+import { Route as AdminRouteRouteImport } from './routes/admin/route'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as AdminIndexRouteImport } from './routes/admin/index'
+import { Route as AdminStatementsRouteImport } from './routes/admin/statements'
+import { Route as AdminReconciliationRouteImport } from './routes/admin/reconciliation'
+import { Route as AdminMessagesRouteImport } from './routes/admin/messages'
+import { Route as AdminBitcoinRouteImport } from './routes/admin/bitcoin'
+import { Route as CSlugIndexRouteImport } from './routes/c/$slug/index'
+import { Route as CSlugSuccessRouteImport } from './routes/c/$slug/success'
+import { Route as CSlugDonorsRouteImport } from './routes/c/$slug/donors'
+import { Route as CSlugDonateRouteImport } from './routes/c/$slug/donate'
 
 const TermsRoute = TermsRouteImport.update({
   id: '/terms',
@@ -30,53 +41,194 @@ const PrivacyRoute = PrivacyRouteImport.update({
   path: '/privacy',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DonorsRoute = DonorsRouteImport.update({
+  id: '/donors',
+  path: '/donors',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DonateRoute = DonateRouteImport.update({
   id: '/donate',
   path: '/donate',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminRouteRoute = AdminRouteRouteImport.update({
+  id: '/admin',
+  path: '/admin',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminIndexRoute = AdminIndexRouteImport.update({
+  id: '/',
+  path: '/',
+  getParentRoute: () => AdminRouteRoute,
+} as any)
+const AdminStatementsRoute = AdminStatementsRouteImport.update({
+  id: '/statements',
+  path: '/statements',
+  getParentRoute: () => AdminRouteRoute,
+} as any)
+const AdminReconciliationRoute = AdminReconciliationRouteImport.update({
+  id: '/reconciliation',
+  path: '/reconciliation',
+  getParentRoute: () => AdminRouteRoute,
+} as any)
+const AdminMessagesRoute = AdminMessagesRouteImport.update({
+  id: '/messages',
+  path: '/messages',
+  getParentRoute: () => AdminRouteRoute,
+} as any)
+const AdminBitcoinRoute = AdminBitcoinRouteImport.update({
+  id: '/bitcoin',
+  path: '/bitcoin',
+  getParentRoute: () => AdminRouteRoute,
+} as any)
+const CSlugIndexRoute = CSlugIndexRouteImport.update({
+  id: '/c/$slug/',
+  path: '/c/$slug/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CSlugSuccessRoute = CSlugSuccessRouteImport.update({
+  id: '/c/$slug/success',
+  path: '/c/$slug/success',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CSlugDonorsRoute = CSlugDonorsRouteImport.update({
+  id: '/c/$slug/donors',
+  path: '/c/$slug/donors',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CSlugDonateRoute = CSlugDonateRouteImport.update({
+  id: '/c/$slug/donate',
+  path: '/c/$slug/donate',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/admin': typeof AdminRouteRouteWithChildren
   '/donate': typeof DonateRoute
+  '/donors': typeof DonorsRoute
   '/privacy': typeof PrivacyRoute
   '/success': typeof SuccessRoute
   '/terms': typeof TermsRoute
+  '/admin/bitcoin': typeof AdminBitcoinRoute
+  '/admin/messages': typeof AdminMessagesRoute
+  '/admin/reconciliation': typeof AdminReconciliationRoute
+  '/admin/statements': typeof AdminStatementsRoute
+  '/admin/': typeof AdminIndexRoute
+  '/c/$slug/donate': typeof CSlugDonateRoute
+  '/c/$slug/donors': typeof CSlugDonorsRoute
+  '/c/$slug/success': typeof CSlugSuccessRoute
+  '/c/$slug': typeof CSlugIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/donate': typeof DonateRoute
+  '/donors': typeof DonorsRoute
   '/privacy': typeof PrivacyRoute
   '/success': typeof SuccessRoute
   '/terms': typeof TermsRoute
+  '/admin/bitcoin': typeof AdminBitcoinRoute
+  '/admin/messages': typeof AdminMessagesRoute
+  '/admin/reconciliation': typeof AdminReconciliationRoute
+  '/admin/statements': typeof AdminStatementsRoute
+  '/admin': typeof AdminIndexRoute
+  '/c/$slug/donate': typeof CSlugDonateRoute
+  '/c/$slug/donors': typeof CSlugDonorsRoute
+  '/c/$slug/success': typeof CSlugSuccessRoute
+  '/c/$slug': typeof CSlugIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/admin': typeof AdminRouteRouteWithChildren
   '/donate': typeof DonateRoute
+  '/donors': typeof DonorsRoute
   '/privacy': typeof PrivacyRoute
   '/success': typeof SuccessRoute
   '/terms': typeof TermsRoute
+  '/admin/bitcoin': typeof AdminBitcoinRoute
+  '/admin/messages': typeof AdminMessagesRoute
+  '/admin/reconciliation': typeof AdminReconciliationRoute
+  '/admin/statements': typeof AdminStatementsRoute
+  '/admin/': typeof AdminIndexRoute
+  '/c/$slug/donate': typeof CSlugDonateRoute
+  '/c/$slug/donors': typeof CSlugDonorsRoute
+  '/c/$slug/success': typeof CSlugSuccessRoute
+  '/c/$slug/': typeof CSlugIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/donate' | '/privacy' | '/success' | '/terms'
+  fullPaths:
+    | '/'
+    | '/admin'
+    | '/donate'
+    | '/donors'
+    | '/privacy'
+    | '/success'
+    | '/terms'
+    | '/admin/bitcoin'
+    | '/admin/messages'
+    | '/admin/reconciliation'
+    | '/admin/statements'
+    | '/admin/'
+    | '/c/$slug/donate'
+    | '/c/$slug/donors'
+    | '/c/$slug/success'
+    | '/c/$slug'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/donate' | '/privacy' | '/success' | '/terms'
-  id: '__root__' | '/' | '/donate' | '/privacy' | '/success' | '/terms'
+  to:
+    | '/'
+    | '/donate'
+    | '/donors'
+    | '/privacy'
+    | '/success'
+    | '/terms'
+    | '/admin/bitcoin'
+    | '/admin/messages'
+    | '/admin/reconciliation'
+    | '/admin/statements'
+    | '/admin'
+    | '/c/$slug/donate'
+    | '/c/$slug/donors'
+    | '/c/$slug/success'
+    | '/c/$slug'
+  id:
+    | '__root__'
+    | '/'
+    | '/admin'
+    | '/donate'
+    | '/donors'
+    | '/privacy'
+    | '/success'
+    | '/terms'
+    | '/admin/bitcoin'
+    | '/admin/messages'
+    | '/admin/reconciliation'
+    | '/admin/statements'
+    | '/admin/'
+    | '/c/$slug/donate'
+    | '/c/$slug/donors'
+    | '/c/$slug/success'
+    | '/c/$slug/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  AdminRouteRoute: typeof AdminRouteRouteWithChildren
   DonateRoute: typeof DonateRoute
+  DonorsRoute: typeof DonorsRoute
   PrivacyRoute: typeof PrivacyRoute
   SuccessRoute: typeof SuccessRoute
   TermsRoute: typeof TermsRoute
+  CSlugDonateRoute: typeof CSlugDonateRoute
+  CSlugDonorsRoute: typeof CSlugDonorsRoute
+  CSlugSuccessRoute: typeof CSlugSuccessRoute
+  CSlugIndexRoute: typeof CSlugIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -102,6 +254,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PrivacyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/donors': {
+      id: '/donors'
+      path: '/donors'
+      fullPath: '/donors'
+      preLoaderRoute: typeof DonorsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/donate': {
       id: '/donate'
       path: '/donate'
@@ -109,6 +268,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DonateRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin': {
+      id: '/admin'
+      path: '/admin'
+      fullPath: '/admin'
+      preLoaderRoute: typeof AdminRouteRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -116,15 +282,104 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/': {
+      id: '/admin/'
+      path: '/'
+      fullPath: '/admin/'
+      preLoaderRoute: typeof AdminIndexRouteImport
+      parentRoute: typeof AdminRouteRoute
+    }
+    '/admin/statements': {
+      id: '/admin/statements'
+      path: '/statements'
+      fullPath: '/admin/statements'
+      preLoaderRoute: typeof AdminStatementsRouteImport
+      parentRoute: typeof AdminRouteRoute
+    }
+    '/admin/reconciliation': {
+      id: '/admin/reconciliation'
+      path: '/reconciliation'
+      fullPath: '/admin/reconciliation'
+      preLoaderRoute: typeof AdminReconciliationRouteImport
+      parentRoute: typeof AdminRouteRoute
+    }
+    '/admin/messages': {
+      id: '/admin/messages'
+      path: '/messages'
+      fullPath: '/admin/messages'
+      preLoaderRoute: typeof AdminMessagesRouteImport
+      parentRoute: typeof AdminRouteRoute
+    }
+    '/admin/bitcoin': {
+      id: '/admin/bitcoin'
+      path: '/bitcoin'
+      fullPath: '/admin/bitcoin'
+      preLoaderRoute: typeof AdminBitcoinRouteImport
+      parentRoute: typeof AdminRouteRoute
+    }
+    '/c/$slug/': {
+      id: '/c/$slug/'
+      path: '/c/$slug'
+      fullPath: '/c/$slug'
+      preLoaderRoute: typeof CSlugIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/c/$slug/success': {
+      id: '/c/$slug/success'
+      path: '/c/$slug/success'
+      fullPath: '/c/$slug/success'
+      preLoaderRoute: typeof CSlugSuccessRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/c/$slug/donors': {
+      id: '/c/$slug/donors'
+      path: '/c/$slug/donors'
+      fullPath: '/c/$slug/donors'
+      preLoaderRoute: typeof CSlugDonorsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/c/$slug/donate': {
+      id: '/c/$slug/donate'
+      path: '/c/$slug/donate'
+      fullPath: '/c/$slug/donate'
+      preLoaderRoute: typeof CSlugDonateRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
+interface AdminRouteRouteChildren {
+  AdminBitcoinRoute: typeof AdminBitcoinRoute
+  AdminMessagesRoute: typeof AdminMessagesRoute
+  AdminReconciliationRoute: typeof AdminReconciliationRoute
+  AdminStatementsRoute: typeof AdminStatementsRoute
+  AdminIndexRoute: typeof AdminIndexRoute
+}
+
+const AdminRouteRouteChildren: AdminRouteRouteChildren = {
+  AdminBitcoinRoute: AdminBitcoinRoute,
+  AdminMessagesRoute: AdminMessagesRoute,
+  AdminReconciliationRoute: AdminReconciliationRoute,
+  AdminStatementsRoute: AdminStatementsRoute,
+  AdminIndexRoute: AdminIndexRoute,
+}
+
+const AdminRouteRouteWithChildren = AdminRouteRoute._addFileChildren(
+  AdminRouteRouteChildren,
+)
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  AdminRouteRoute: AdminRouteRouteWithChildren,
   DonateRoute: DonateRoute,
+  DonorsRoute: DonorsRoute,
   PrivacyRoute: PrivacyRoute,
   SuccessRoute: SuccessRoute,
   TermsRoute: TermsRoute,
+  CSlugDonateRoute: CSlugDonateRoute,
+  CSlugDonorsRoute: CSlugDonorsRoute,
+  CSlugSuccessRoute: CSlugSuccessRoute,
+  CSlugIndexRoute: CSlugIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
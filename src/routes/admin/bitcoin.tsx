@@ -0,0 +1,45 @@
+// This is the admin pending Bitcoin payments page at /admin/bitcoin.
+// Helps operators find payments stuck waiting for a transaction or confirmations, and review held ones.
+
+import { createFileRoute } from '@tanstack/react-router'
+import type { AdminPendingBitcoinPayment } from 'convex/types'
+import { useState } from 'react'
+import { AdminSelect } from '@/components/admin/admin-select.tsx'
+import { AdminBitcoinDiscrepancyList } from '@/components/admin/bitcoin-discrepancy-list.tsx'
+import { AdminPendingBitcoinList } from '@/components/admin/pending-bitcoin-list.tsx'
+
+export const Route = createFileRoute('/admin/bitcoin')({
+	component: AdminBitcoin,
+})
+
+const statusOptions = [
+	{ value: 'initialized' as const, label: 'Initialized (no transaction)' },
+	{ value: 'pending' as const, label: 'Pending (confirming)' },
+	{ value: 'confirmed' as const, label: 'Confirmed' },
+	{ value: 'expired' as const, label: 'Expired' },
+	{ value: 'held' as const, label: 'Held for review' },
+	{ value: 'rejected' as const, label: 'Rejected (underpaid)' },
+]
+
+function AdminBitcoin() {
+	const [status, setStatus] = useState<
+		AdminPendingBitcoinPayment['status'] | undefined
+	>(undefined)
+
+	return (
+		<main className="space-y-6">
+			<h1 className="font-bold text-2xl text-white">
+				Pending Bitcoin Payments
+			</h1>
+			<AdminSelect
+				label="Status"
+				onChange={setStatus}
+				options={statusOptions}
+				value={status}
+			/>
+			<AdminPendingBitcoinList status={status} />
+			<h2 className="font-bold text-white text-xl">Held for Review</h2>
+			<AdminBitcoinDiscrepancyList status="open" />
+		</main>
+	)
+}
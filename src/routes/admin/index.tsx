@@ -0,0 +1,107 @@
+// This is the admin donations page at /admin.
+// Per-method totals plus a searchable, filterable list of every donation.
+
+import { createFileRoute } from '@tanstack/react-router'
+import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { useQuery } from 'convex/react'
+import { type FormEvent, useState } from 'react'
+import { useAdminSession } from '@/components/admin/admin-gate.tsx'
+import { AdminSelect } from '@/components/admin/admin-select.tsx'
+import {
+	type AdminDonationFilters,
+	AdminDonationList,
+} from '@/components/admin/donation-list.tsx'
+import { AdminMethodTotals } from '@/components/admin/method-totals.tsx'
+import { TextInput } from '@/components/text-input.tsx'
+
+export const Route = createFileRoute('/admin/')({
+	component: AdminDonations,
+})
+
+const paymentMethodOptions = [
+	{ value: 'stripe' as const, label: 'Stripe' },
+	{ value: 'paypal' as const, label: 'PayPal' },
+	{ value: 'bitcoin' as const, label: 'Bitcoin' },
+]
+
+const statusOptions = [
+	{ value: 'pending' as const, label: 'Pending' },
+	{ value: 'active' as const, label: 'Active' },
+	{ value: 'refunded' as const, label: 'Refunded' },
+	{ value: 'partially_refunded' as const, label: 'Partially refunded' },
+	{ value: 'disputed' as const, label: 'Disputed' },
+	{ value: 'voided' as const, label: 'Voided' },
+]
+
+function AdminDonations() {
+	const { token } = useAdminSession()
+	const campaigns = useQuery(api.admin.queries.listCampaigns, {
+		admin_token: token,
+	})
+
+	const [searchInput, setSearchInput] = useState<string>('')
+	const [filters, setFilters] = useState<AdminDonationFilters>({
+		search: '',
+		campaignId: undefined,
+		paymentMethod: undefined,
+		status: undefined,
+	})
+
+	// Search runs on submit rather than on every keystroke
+	const handleSearch = (e: FormEvent<HTMLFormElement>): void => {
+		e.preventDefault()
+		setFilters((prev) => ({ ...prev, search: searchInput.trim() }))
+	}
+
+	return (
+		<main className="space-y-6">
+			<h1 className="font-bold text-2xl text-white">Donations</h1>
+
+			<AdminSelect<Id<'campaigns'>>
+				label="Campaign"
+				onChange={(campaignId) =>
+					setFilters((prev) => ({ ...prev, campaignId }))
+				}
+				options={(campaigns ?? []).map((campaign) => ({
+					value: campaign.id,
+					label: campaign.title,
+				}))}
+				value={filters.campaignId}
+			/>
+
+			<AdminMethodTotals campaignId={filters.campaignId} />
+
+			<section className="space-y-4">
+				<h2 className="sr-only">Search and filter</h2>
+				<form onSubmit={handleSearch}>
+					<TextInput
+						description="Donor name, or an exact payment ID / Bitcoin address. Press Enter to search."
+						label="Search"
+						onChange={(e) => setSearchInput(e.currentTarget.value)}
+						type="search"
+						value={searchInput}
+					/>
+				</form>
+				<div className="grid grid-cols-2 gap-4">
+					<AdminSelect
+						label="Payment method"
+						onChange={(paymentMethod) =>
+							setFilters((prev) => ({ ...prev, paymentMethod }))
+						}
+						options={paymentMethodOptions}
+						value={filters.paymentMethod}
+					/>
+					<AdminSelect
+						label="Status"
+						onChange={(status) => setFilters((prev) => ({ ...prev, status }))}
+						options={statusOptions}
+						value={filters.status}
+					/>
+				</div>
+			</section>
+
+			<AdminDonationList filters={filters} />
+		</main>
+	)
+}
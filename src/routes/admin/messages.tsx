@@ -0,0 +1,40 @@
+// This is the admin message moderation page at /admin/messages.
+// New donor messages land in the pending queue and stay hidden until approved here.
+
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import {
+	AdminMessageQueue,
+	type MessageStatus,
+} from '@/components/admin/message-queue.tsx'
+import { RadioGroup } from '@/components/radio-group.tsx'
+
+export const Route = createFileRoute('/admin/messages')({
+	component: AdminMessages,
+})
+
+const statusOptions = [
+	{ value: 'pending_review' as const, label: 'Pending' },
+	{ value: 'approved' as const, label: 'Approved' },
+	{ value: 'rejected' as const, label: 'Rejected' },
+]
+
+function AdminMessages() {
+	const [messageStatus, setMessageStatus] =
+		useState<MessageStatus>('pending_review')
+
+	return (
+		<main className="space-y-6">
+			<h1 className="font-bold text-2xl text-white">Donor Messages</h1>
+			<RadioGroup
+				className="flex gap-4"
+				legend="Show messages"
+				name="messageStatus"
+				onChange={setMessageStatus}
+				options={statusOptions}
+				value={messageStatus}
+			/>
+			<AdminMessageQueue messageStatus={messageStatus} />
+		</main>
+	)
+}
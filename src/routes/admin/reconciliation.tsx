@@ -0,0 +1,67 @@
+// This is the admin reconciliation page at /admin/reconciliation.
+// Shows where Stripe/PayPal and the donations table disagree, found by the 6-hourly reconciliation job.
+
+import { createFileRoute } from '@tanstack/react-router'
+import { api } from 'convex/_generated/api'
+import { useMutation } from 'convex/react'
+import { useState } from 'react'
+import { useAdminSession } from '@/components/admin/admin-gate.tsx'
+import {
+	AdminDiscrepancyList,
+	type DiscrepancyStatus,
+} from '@/components/admin/discrepancy-list.tsx'
+import { Button } from '@/components/button.tsx'
+import { RadioGroup } from '@/components/radio-group.tsx'
+import { logger } from '@/utils/logger.ts'
+
+export const Route = createFileRoute('/admin/reconciliation')({
+	component: AdminReconciliation,
+})
+
+const statusOptions = [
+	{ value: 'open' as const, label: 'Open' },
+	{ value: 'imported' as const, label: 'Imported' },
+	{ value: 'cleared' as const, label: 'Cleared' },
+	{ value: 'dismissed' as const, label: 'Dismissed' },
+]
+
+function AdminReconciliation() {
+	const { token } = useAdminSession()
+	const runReconciliation = useMutation(api.admin.mutations.runReconciliation)
+
+	const [status, setStatus] = useState<DiscrepancyStatus>('open')
+	const [runStatus, setRunStatus] = useState<string | null>(null)
+
+	const runNow = async (): Promise<void> => {
+		setRunStatus(null)
+		try {
+			await runReconciliation({ admin_token: token })
+			setRunStatus('Reconciliation started - new findings appear below.')
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+			logger.error('Reconciliation start error:', errorMsg)
+			setRunStatus(errorMsg)
+		}
+	}
+
+	return (
+		<main className="space-y-6">
+			<div className="flex flex-wrap items-center justify-between gap-4">
+				<h1 className="font-bold text-2xl text-white">Reconciliation</h1>
+				<Button onClick={runNow} type="button" variant="secondary">
+					Run Now
+				</Button>
+			</div>
+			{runStatus && <p aria-live="polite">{runStatus}</p>}
+			<RadioGroup
+				className="flex gap-4"
+				legend="Show discrepancies"
+				name="discrepancyStatus"
+				onChange={setStatus}
+				options={statusOptions}
+				value={status}
+			/>
+			<AdminDiscrepancyList status={status} />
+		</main>
+	)
+}
@@ -0,0 +1,82 @@
+// This is the layout for every /admin page.
+// Signs the operator in with the admin token, then shows the admin navigation.
+
+import { createFileRoute, Link, Outlet } from '@tanstack/react-router'
+import { AdminGate, useAdminSession } from '@/components/admin/admin-gate.tsx'
+import { createSeo } from '@/components/seo.tsx'
+
+export const Route = createFileRoute('/admin')({
+	head: () =>
+		createSeo({
+			title: 'Admin',
+			includeCanonical: false,
+			robots: 'noindex, nofollow',
+		}),
+	component: AdminLayout,
+})
+
+const navLinkClassName =
+	'focus-ring border-b-2 border-transparent font-bold uppercase hover:border-secondary/40'
+
+function AdminNav() {
+	const { signOut } = useAdminSession()
+
+	return (
+		<nav className="flex items-center gap-4">
+			<Link
+				activeOptions={{ exact: true }}
+				activeProps={{ className: 'border-secondary!' }}
+				className={navLinkClassName}
+				to="/admin"
+			>
+				Donations
+			</Link>
+			<Link
+				activeProps={{ className: 'border-secondary!' }}
+				className={navLinkClassName}
+				to="/admin/messages"
+			>
+				Messages
+			</Link>
+			<Link
+				activeProps={{ className: 'border-secondary!' }}
+				className={navLinkClassName}
+				to="/admin/bitcoin"
+			>
+				Bitcoin
+			</Link>
+			<Link
+				activeProps={{ className: 'border-secondary!' }}
+				className={navLinkClassName}
+				to="/admin/statements"
+			>
+				Statements
+			</Link>
+			<Link
+				activeProps={{ className: 'border-secondary!' }}
+				className={navLinkClassName}
+				to="/admin/reconciliation"
+			>
+				Reconciliation
+			</Link>
+			<button
+				className={`${navLinkClassName} ml-auto`}
+				onClick={signOut}
+				type="button"
+			>
+				Sign Out
+			</button>
+		</nav>
+	)
+}
+
+function AdminLayout() {
+	return (
+		<AdminGate>
+			<div className="space-y-6">
+				<AdminNav />
+				<Outlet />
+			</div>
+		</AdminGate>
+	)
+}
@@ -0,0 +1,95 @@
+// This is the admin year-end statements page at /admin/statements.
+// Generates a giving statement for every donor who gave in a year, and can email them all.
+
+import { createFileRoute } from '@tanstack/react-router'
+import { api } from 'convex/_generated/api'
+import { useMutation } from 'convex/react'
+import { useState } from 'react'
+import { useAdminSession } from '@/components/admin/admin-gate.tsx'
+import { AdminTaxStatementList } from '@/components/admin/tax-statement-list.tsx'
+import { Button } from '@/components/button.tsx'
+import { TextInput } from '@/components/text-input.tsx'
+import { logger } from '@/utils/logger.ts'
+
+export const Route = createFileRoute('/admin/statements')({
+	component: AdminStatements,
+})
+
+// Statements are usually sent early in the year for the year that just ended
+const defaultYear = new Date().getUTCFullYear() - 1
+
+function AdminStatements() {
+	const { token } = useAdminSession()
+	const generateTaxStatements = useMutation(
+		api.admin.mutations.generateTaxStatements
+	)
+
+	const [year, setYear] = useState<number>(defaultYear)
+	const [isStarting, setIsStarting] = useState<boolean>(false)
+	const [status, setStatus] = useState<string | null>(null)
+
+	const start = async (sendEmail: boolean): Promise<void> => {
+		if (
+			sendEmail &&
+			!window.confirm(`Email a ${year} statement to every donor?`)
+		) {
+			return
+		}
+
+		setIsStarting(true)
+		setStatus(null)
+		try {
+			await generateTaxStatements({
+				admin_token: token,
+				year,
+				send_email: sendEmail,
+			})
+			setStatus(
+				sendEmail
+					? 'Generating and emailing statements - the list below updates as they finish.'
+					: 'Generating statements - the list below updates as they finish.'
+			)
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : 'Unknown error'
+			logger.error('Statement generation error:', errorMsg)
+			setStatus(errorMsg)
+		} finally {
+			setIsStarting(false)
+		}
+	}
+
+	return (
+		<main className="space-y-6">
+			<h1 className="font-bold text-2xl text-white">Year-End Statements</h1>
+			<div className="flex flex-wrap items-end gap-4">
+				<div className="w-32">
+					<TextInput
+						label="Year"
+						max={new Date().getUTCFullYear()}
+						min={2000}
+						onChange={(e) => {
+							const value = e.currentTarget.valueAsNumber
+							if (Number.isInteger(value)) {
+								setYear(value)
+							}
+						}}
+						type="number"
+						value={year}
+					/>
+				</div>
+				<Button
+					disabled={isStarting}
+					onClick={() => start(false)}
+					type="button"
+				>
+					Generate
+				</Button>
+				<Button disabled={isStarting} onClick={() => start(true)} type="button">
+					Generate &amp; Email
+				</Button>
+			</div>
+			{status && <p aria-live="polite">{status}</p>}
+			<AdminTaxStatementList year={year} />
+		</main>
+	)
+}
@@ -0,0 +1,43 @@
+// This is the donation page of a single campaign at /c/$slug/donate.
+// Mirrors /donate, but for any campaign rather than the default one.
+
+import { createFileRoute, notFound } from '@tanstack/react-router'
+import { CampaignDonate } from '@/components/campaign/campaign-donate.tsx'
+import { createSeo } from '@/components/seo.tsx'
+import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
+import { getDonationTotal } from '@/server/functions/get-donation-total.ts'
+import { logger } from '@/utils/logger.ts'
+
+export const Route = createFileRoute('/c/$slug/donate')({
+	loader: async ({ params }) => {
+		const campaign = await getCampaign({ data: params.slug })
+		if (!campaign) {
+			throw notFound()
+		}
+
+		try {
+			const total = await getDonationTotal({ data: campaign.id })
+			return { campaign, total }
+		} catch (error) {
+			// Don't block page load on error
+			logger.error('Failed to prefetch donation total:', error)
+			return { campaign, total: undefined }
+		}
+	},
+	head: ({ loaderData, params }) =>
+		createSeo({
+			title: loaderData
+				? `Donate to ${loaderData.campaign.title}`
+				: 'Donate Now',
+			description: loaderData?.campaign.description,
+			url: `${siteConfig.siteUrl}/c/${params.slug}/donate`,
+			keywords: [...siteConfig.keywords, 'donate', 'contribute', 'donation'],
+		}),
+	component: CampaignDonatePage,
+})
+
+function CampaignDonatePage() {
+	const { campaign, total } = Route.useLoaderData()
+	return <CampaignDonate campaign={campaign} total={total} />
+}
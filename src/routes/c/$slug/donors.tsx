@@ -0,0 +1,53 @@
+// This is the donor wall of a single campaign at /c/$slug/donors.
+// Mirrors /donors, but for any campaign rather than the default one.
+
+import { createFileRoute, notFound } from '@tanstack/react-router'
+import {
+	CampaignDonors,
+	donorPageSize,
+	validateDonorsSearch,
+} from '@/components/campaign/campaign-donors.tsx'
+import { createSeo } from '@/components/seo.tsx'
+import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
+import { getDonorPage } from '@/server/functions/get-donor-page.ts'
+
+const cacheHeaders = {
+	'Cache-Control': 'max-age=300, s-maxage=3600, stale-while-revalidate',
+}
+
+export const Route = createFileRoute('/c/$slug/donors')({
+	validateSearch: validateDonorsSearch,
+	loaderDeps: ({ search }) => ({ show: search.show ?? donorPageSize }),
+	loader: async ({ params, deps }) => {
+		const campaign = await getCampaign({ data: params.slug })
+		if (!campaign) {
+			throw notFound()
+		}
+
+		const { donors, isDone } = await getDonorPage({
+			data: { campaignId: campaign.id, count: deps.show },
+		})
+		return { campaign, donors, isDone, show: deps.show }
+	},
+	head: ({ loaderData, params }) =>
+		createSeo({
+			title: loaderData ? `Donors | ${loaderData.campaign.title}` : 'Donors',
+			description: loaderData?.campaign.description,
+			url: `${siteConfig.siteUrl}/c/${params.slug}/donors`,
+		}),
+	headers: () => cacheHeaders,
+	component: CampaignDonorsPage,
+})
+
+function CampaignDonorsPage() {
+	const { campaign, donors, isDone, show } = Route.useLoaderData()
+	return (
+		<CampaignDonors
+			campaign={campaign}
+			initialDonors={donors}
+			initialIsDone={isDone}
+			show={show}
+		/>
+	)
+}
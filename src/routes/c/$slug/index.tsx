@@ -0,0 +1,45 @@
+// This is the landing page of a single campaign at /c/$slug.
+// Mirrors the home page, but for any campaign rather than the default one.
+
+import { createFileRoute, notFound } from '@tanstack/react-router'
+import { CampaignHome } from '@/components/campaign/campaign-home.tsx'
+import { createSeo } from '@/components/seo.tsx'
+import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
+import { getDonationList } from '@/server/functions/get-donation-list.ts'
+import { getDonationTotal } from '@/server/functions/get-donation-total.ts'
+
+const cacheHeaders = {
+	'Cache-Control': 'max-age=300, s-maxage=3600, stale-while-revalidate',
+}
+
+export const Route = createFileRoute('/c/$slug/')({
+	loader: async ({ params }) => {
+		const campaign = await getCampaign({ data: params.slug })
+		if (!campaign) {
+			throw notFound()
+		}
+
+		const [donors, total] = await Promise.all([
+			getDonationList({ data: campaign.id }),
+			getDonationTotal({ data: campaign.id }),
+		])
+		return { campaign, donors, total }
+	},
+	head: ({ loaderData, params }) =>
+		createSeo({
+			title: loaderData?.campaign.title,
+			description: loaderData?.campaign.description,
+			image: loaderData?.campaign.hero_image?.startsWith('/')
+				? `${siteConfig.siteUrl}${loaderData.campaign.hero_image}`
+				: loaderData?.campaign.hero_image,
+			url: `${siteConfig.siteUrl}/c/${params.slug}`,
+		}),
+	headers: () => cacheHeaders,
+	component: CampaignIndex,
+})
+
+function CampaignIndex() {
+	const { campaign, donors, total } = Route.useLoaderData()
+	return <CampaignHome campaign={campaign} donors={donors} total={total} />
+}
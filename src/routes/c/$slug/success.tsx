@@ -0,0 +1,57 @@
+// This is the thank you page of a single campaign at /c/$slug/success.
+// Mirrors /success, but for any campaign rather than the default one.
+
+import { createFileRoute, notFound, redirect } from '@tanstack/react-router'
+import {
+	CampaignSuccess,
+	validateSuccessSearch,
+} from '@/components/campaign/campaign-success.tsx'
+import { createSeo } from '@/components/seo.tsx'
+import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
+import { getDonationList } from '@/server/functions/get-donation-list.ts'
+import { getDonationTotal } from '@/server/functions/get-donation-total.ts'
+
+export const Route = createFileRoute('/c/$slug/success')({
+	validateSearch: validateSuccessSearch,
+	beforeLoad: ({ search, params }) => {
+		if (!search.payment_id) {
+			throw redirect({ to: '/c/$slug', params })
+		}
+	},
+	loader: async ({ params }) => {
+		const campaign = await getCampaign({ data: params.slug })
+		if (!campaign) {
+			throw notFound()
+		}
+
+		// Prefetch donation data server-side while payment is processing
+		const [donors, total] = await Promise.all([
+			getDonationList({ data: campaign.id }),
+			getDonationTotal({ data: campaign.id }),
+		])
+		return { campaign, donors, total }
+	},
+	head: ({ params }) =>
+		createSeo({
+			title: 'Thank You!',
+			description: 'Thank you for your contribution to our campaign!',
+			url: `${siteConfig.siteUrl}/c/${params.slug}/success`,
+			robots: 'noindex, nofollow',
+		}),
+	component: CampaignSuccessPage,
+})
+
+function CampaignSuccessPage() {
+	const { payment_id } = Route.useSearch()
+	const { campaign, donors, total } = Route.useLoaderData()
+
+	return (
+		<CampaignSuccess
+			campaign={campaign}
+			donors={donors}
+			paymentId={payment_id}
+			total={total}
+		/>
+	)
+}
@@ -1,11 +1,11 @@
-// This is the donation page where users fill out the form to make a donation.
+// This is the donation page for the default campaign where users fill out the form to make a donation.
 // Shows the progress tracker and the form with payment options.
 
-import { createFileRoute } from '@tanstack/react-router'
-import { DonateForm } from '@/components/donate/form.tsx'
-import { GoalTracker } from '@/components/goal-tracker.tsx'
+import { createFileRoute, notFound } from '@tanstack/react-router'
+import { CampaignDonate } from '@/components/campaign/campaign-donate.tsx'
 import { createSeo } from '@/components/seo.tsx'
 import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
 import { getDonationTotal } from '@/server/functions/get-donation-total.ts'
 import { logger } from '@/utils/logger.ts'
 
@@ -19,28 +19,26 @@ export const Route = createFileRoute('/donate')({
 			keywords: [...siteConfig.keywords, 'donate', 'contribute', 'donation'],
 		}),
 	loader: async () => {
+		const campaign = await getCampaign({
+			data: siteConfig.defaultCampaignSlug,
+		})
+		if (!campaign) {
+			throw notFound()
+		}
+
 		try {
-			const total = await getDonationTotal()
-			return { total }
+			const total = await getDonationTotal({ data: campaign.id })
+			return { campaign, total }
 		} catch (error) {
 			// Don't block page load on error
 			logger.error('Failed to prefetch donation total:', error)
-			return { total: undefined }
+			return { campaign, total: undefined }
 		}
 	},
 	component: Donate,
 })
 
 function Donate() {
-	const { total } = Route.useLoaderData()
-
-	return (
-		<main className="space-y-4">
-			<h1 className="font-bold text-2xl text-white">
-				Help Smiley Get Well By Reaching The Next Donation Goal!
-			</h1>
-			<GoalTracker initialTotal={total} />
-			<DonateForm />
-		</main>
-	)
+	const { campaign, total } = Route.useLoaderData()
+	return <CampaignDonate campaign={campaign} total={total} />
 }
@@ -0,0 +1,55 @@
+// This is the donor wall for the default campaign: every donor and their approved message.
+// Scrolls in more donors as you go, with a "load more" link when JavaScript is off.
+
+import { createFileRoute, notFound } from '@tanstack/react-router'
+import {
+	CampaignDonors,
+	donorPageSize,
+	validateDonorsSearch,
+} from '@/components/campaign/campaign-donors.tsx'
+import { createSeo } from '@/components/seo.tsx'
+import { siteConfig } from '@/configs/site-config.ts'
+import { getCampaign } from '@/server/functions/get-campaign.ts'
+import { getDonorPage } from '@/server/functions/get-donor-page.ts'
+
+const cacheHeaders = {
+	'Cache-Control': 'max-age=300, s-maxage=3600, stale-while-revalidate',
+}
+
+export const Route = createFileRoute('/donors')({
+	head: () =>
+		createSeo({
+			title: 'Donors',
+			description: 'Everyone who has supported our campaign.',
+			url: `${siteConfig.siteUrl}/donors`,
+		}),
+	validateSearch: validateDonorsSearch,
+	loaderDeps: ({ search }) => ({ show: search.show ?? donorPageSize }),
+	loader: async ({ deps }) => {
+		const campaign = await getCampaign({
+			data: siteConfig.defaultCampaignSlug,
+		})
+		if (!campaign) {
+			throw notFound()
+		}
+
+		const { donors, isDone } = await getDonorPage({
+			data: { campaignId: campaign.id, count: deps.show },
+		})
+		return { campaign, donors, isDone, show: deps.show }
+	},
+	headers: () => cacheHeaders,
+	component: Donors,
+})
+
+function Donors() {
+	const { campaign, donors, isDone, show } = Route.useLoaderData()
+	return (
+		<CampaignDonors
+			campaign={campaign}
+			initialDonors={donors}
+			initialIsDone={isDone}
+			show={show}
+		/>
+	)
+}
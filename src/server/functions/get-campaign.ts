@@ -0,0 +1,17 @@
+// This fetches a campaign (title, goal, dates) by its URL slug.
+// Called by the server when loading pages so each page knows which campaign it shows.
+
+// Same reasoning as the other server functions here: a thin wrapper around a Convex query
+// that lets Cloudflare rate-limiting sit in front of the database.
+
+import { createServerFn } from '@tanstack/react-start'
+import { api } from 'convex/_generated/api'
+import { ConvexHttpClient } from 'convex/browser'
+import { env } from '@/env.ts'
+
+export const getCampaign = createServerFn({ method: 'GET' })
+	.inputValidator((slug: string) => slug)
+	.handler(async ({ data: slug }) => {
+		const convex = new ConvexHttpClient(env.VITE_CONVEX_URL)
+		return await convex.query(api.campaigns.getBySlug, { slug })
+	})
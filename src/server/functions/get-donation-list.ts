@@ -7,15 +7,19 @@
 
 import { createServerFn } from '@tanstack/react-start'
 import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
 import { ConvexHttpClient } from 'convex/browser'
 import { env } from '@/env.ts'
 
-export const getDonationList = createServerFn({ method: 'GET' }).handler(
-	async () => {
+export const getDonationList = createServerFn({ method: 'GET' })
+	.inputValidator((campaignId: Id<'campaigns'>) => campaignId)
+	.handler(async ({ data }) => {
+		// Server function input is serialized, which drops the Id brand
+		const campaign_id = data as Id<'campaigns'>
 		const convex = new ConvexHttpClient(env.VITE_CONVEX_URL)
 		const result = await convex.query(api.donation.getDonorList, {
+			campaign_id,
 			paginationOpts: { numItems: 50, cursor: null },
 		})
 		return result.page
-	}
-)
+	})
@@ -7,13 +7,18 @@
 
 import { createServerFn } from '@tanstack/react-start'
 import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
 import { ConvexHttpClient } from 'convex/browser'
 import { env } from '@/env.ts'
 
-export const getDonationTotal = createServerFn({ method: 'GET' }).handler(
-	async () => {
+export const getDonationTotal = createServerFn({ method: 'GET' })
+	.inputValidator((campaignId: Id<'campaigns'>) => campaignId)
+	.handler(async ({ data }) => {
+		// Server function input is serialized, which drops the Id brand
+		const campaign_id = data as Id<'campaigns'>
 		const convex = new ConvexHttpClient(env.VITE_CONVEX_URL)
-		const total = await convex.query(api.donation.getAmountTotal)
+		const total = await convex.query(api.donation.getAmountTotal, {
+			campaign_id,
+		})
 		return total
-	}
-)
+	})
@@ -0,0 +1,40 @@
+// This fetches the first `count` donors of a campaign for the donor wall.
+// Rendered on the server so the wall and its "load more" link work without JavaScript.
+
+// Same reasoning as the other server functions here: a thin wrapper around a Convex query
+// that lets Cloudflare rate-limiting sit in front of the database.
+
+import { createServerFn } from '@tanstack/react-start'
+import { api } from 'convex/_generated/api'
+import type { Id } from 'convex/_generated/dataModel'
+import { ConvexHttpClient } from 'convex/browser'
+import {
+	donorPageSize,
+	maxDonorsShown,
+} from '@/components/campaign/campaign-donors.tsx'
+import { env } from '@/env.ts'
+
+type DonorPageInput = {
+	campaignId: Id<'campaigns'>
+	count: number
+}
+
+export const getDonorPage = createServerFn({ method: 'GET' })
+	// Direct calls skip the route's validateSearch, so clamp the count here too
+	.inputValidator((input: DonorPageInput) => {
+		const count = Number.isInteger(input.count) ? input.count : donorPageSize
+		return {
+			campaignId: input.campaignId,
+			count: Math.min(Math.max(count, 1), maxDonorsShown),
+		}
+	})
+	.handler(async ({ data }) => {
+		// Server function input is serialized, which drops the Id brand
+		const campaign_id = data.campaignId as Id<'campaigns'>
+		const convex = new ConvexHttpClient(env.VITE_CONVEX_URL)
+		const result = await convex.query(api.donation.getDonorList, {
+			campaign_id,
+			paginationOpts: { numItems: data.count, cursor: null },
+		})
+		return { donors: result.page, isDone: result.isDone }
+	})
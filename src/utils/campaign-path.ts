@@ -0,0 +1,9 @@
+// This builds the URL path prefix for a campaign's pages.
+// The default campaign lives at the site root, every other campaign under /c/$slug.
+
+import { siteConfig } from '@/configs/site-config.ts'
+
+// Returns '' for the default campaign so `${path}/donate` resolves to /donate
+export function getCampaignPath(slug: string): string {
+	return slug === siteConfig.defaultCampaignSlug ? '' : `/c/${slug}`
+}
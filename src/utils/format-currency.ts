@@ -0,0 +1,26 @@
+// This formats money amounts the same way everywhere, with the right symbol per currency.
+// Two decimal places by default, since Bitcoin donations can include fractional cents.
+
+import type { Currency } from 'convex/types'
+
+export function formatCurrency(
+	amount: number,
+	currency: Currency = 'USD',
+	fractionDigits = 2
+): string {
+	return amount.toLocaleString('en-US', {
+		style: 'currency',
+		currency,
+		minimumFractionDigits: fractionDigits,
+		maximumFractionDigits: fractionDigits,
+	})
+}
+
+// Just the symbol (e.g. '€', 'CA$'), for labels next to an amount input
+export function getCurrencySymbol(currency: Currency): string {
+	return (
+		new Intl.NumberFormat('en-US', { style: 'currency', currency })
+			.formatToParts(0)
+			.find((part) => part.type === 'currency')?.value ?? currency
+	)
+}
@@ -0,0 +1,27 @@
+// This adds a third-party script tag (Stripe.js, the PayPal JS SDK) to the page once.
+// Payment providers require these to be loaded from their own domains rather than bundled.
+
+const pendingScripts = new Map<string, Promise<void>>()
+
+// Resolves once the script has loaded - repeated calls for the same src share one tag
+export function loadScript(src: string): Promise<void> {
+	const pending = pendingScripts.get(src)
+	if (pending) {
+		return pending
+	}
+
+	const loading = new Promise<void>((resolve, reject) => {
+		const script = document.createElement('script')
+		script.src = src
+		script.async = true
+		script.addEventListener('load', () => resolve())
+		script.addEventListener('error', () => {
+			pendingScripts.delete(src)
+			script.remove()
+			reject(new Error(`Failed to load ${src}`))
+		})
+		document.head.appendChild(script)
+	})
+	pendingScripts.set(src, loading)
+	return loading
+}